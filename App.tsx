@@ -7,10 +7,14 @@ import ListingsPage from './pages/ListingsPage';
 import ListingDetailPage from './pages/ListingDetailPage';
 import AgentDashboardPage from './pages/AgentDashboardPage';
 import AuthPage from './pages/AuthPage';
+import AdminPage from './pages/AdminPage';
+import SavedListingsPage from './pages/SavedListingsPage';
+import NotificationsPage from './pages/NotificationsPage';
 import PrivacyPolicyPage from './pages/PrivacyPolicyPage';
 import TermsOfServicePage from './pages/TermsOfServicePage';
 import ContactUsPage from './pages/ContactUsPage';
 import { useAuth } from './hooks/useAuth';
+import { UserRole } from './types';
 
 const App: React.FC = () => {
   const { user, loading } = useAuth();
@@ -35,6 +39,15 @@ const App: React.FC = () => {
           <Route path="/dashboard/agent" 
             element={user ? <AgentDashboardPage /> : <Navigate to="/auth?mode=login&returnTo=/dashboard/agent" replace />} 
           />
+          <Route path="/saved"
+            element={user ? <SavedListingsPage /> : <Navigate to="/auth?mode=login&returnTo=/saved" replace />}
+          />
+          <Route path="/notifications"
+            element={user ? <NotificationsPage /> : <Navigate to="/auth?mode=login&returnTo=/notifications" replace />}
+          />
+          <Route path="/admin"
+            element={user?.role === UserRole.ADMIN ? <AdminPage /> : <Navigate to={user ? '/' : '/auth?mode=login&returnTo=/admin'} replace />}
+          />
           <Route path="/auth" element={<AuthPage />} />
           <Route path="/privacy-policy" element={<PrivacyPolicyPage />} />
           <Route path="/terms-of-service" element={<TermsOfServicePage />} />
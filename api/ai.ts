@@ -0,0 +1,43 @@
+/**
+ * @fileoverview AI Proxy - Vercel function at /api/ai
+ *
+ * Serves the AI features to the browser so the AI key stays on the server
+ * (see services/aiProxy.ts for the request format, quotas and caching).
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY for
+ * logins, quotas and the cache, plus the AI provider settings read by
+ * createAiProviderFromEnv (GEMINI_API_KEY, or AI_PROVIDER and its settings).
+ * Without a provider every feature answers 'unavailable'. APP_URL is the
+ * allowed CORS origin.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createAiFeatures } from '../services/aiFeatures';
+import { createAiProviderFromEnv } from '../services/aiProviders';
+import { createAiProxyHandler, createSupabaseAiProxyStore, createSupabaseAuthenticator } from '../services/aiProxy';
+
+const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+}
+
+const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const handler = createAiProxyHandler({
+  features: createAiFeatures(createAiProviderFromEnv(process.env)),
+  store: createSupabaseAiProxyStore(client),
+  authenticate: createSupabaseAuthenticator(client),
+  allowedOrigin: process.env.APP_URL || '*',
+});
+
+export function POST(request: Request): Promise<Response> {
+  return handler(request);
+}
+
+export function OPTIONS(request: Request): Promise<Response> {
+  return handler(request);
+}
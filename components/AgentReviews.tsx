@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RatingReview, User, UserRole } from '../types';
+import { reviewService } from '../services/reviewService';
+import RatingStars from './RatingStars';
+import Button from './Button';
+import Textarea from './Textarea';
+import Alert from './Alert';
+import { CheckBadgeIcon } from '../constants';
+
+interface AgentReviewsProps {
+  agent: User;
+  listingId?: string;
+  currentUser: { id: string; role: string } | null;
+  hasInteraction?: boolean; // Parent already knows the agent replied to this tenant
+}
+
+const AgentReviews: React.FC<AgentReviewsProps> = ({ agent, listingId, currentUser, hasInteraction = false }) => {
+  const [reviews, setReviews] = useState<RatingReview[]>([]);
+  const [canReview, setCanReview] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setReviews(await reviewService.getReviewsForAgent(agent.id));
+    } catch (err) {
+      console.error('Failed to load reviews:', err);
+    }
+  }, [agent.id]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  useEffect(() => {
+    if (!currentUser || currentUser.role !== UserRole.TENANT) {
+      setCanReview(false);
+      return;
+    }
+    if (hasInteraction) {
+      setCanReview(true);
+      return;
+    }
+    reviewService.hasVerifiedInteraction(agent.id)
+      .then(setCanReview)
+      .catch((err) => console.error('Failed to check review eligibility:', err));
+  }, [currentUser, agent.id, hasInteraction]);
+
+  const isAgentViewing = currentUser?.id === agent.id;
+  const alreadyReviewed = reviews.some(r => r.raterUser.id === currentUser?.id && r.propertyId === listingId);
+  const averageRating = reviews.length > 0 ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || rating === 0) return;
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const review = await reviewService.submitReview({
+        raterId: currentUser.id,
+        agentId: agent.id,
+        listingId,
+        rating,
+        comment,
+      });
+      setReviews(prev => [review, ...prev]);
+      setRating(0);
+      setComment('');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to submit review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReply = async (reviewId: string) => {
+    const text = replyDrafts[reviewId];
+    if (!currentUser || !text?.trim()) return;
+    setError('');
+    try {
+      const updated = await reviewService.replyToReview(reviewId, currentUser.id, text);
+      setReviews(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+      setReplyDrafts(prev => ({ ...prev, [reviewId]: '' }));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to post reply');
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">Agent Reviews</h2>
+        {reviews.length > 0 && (
+          <div className="flex items-center text-sm text-gray-600">
+            <RatingStars rating={Math.round(averageRating)} size="sm" readOnly />
+            <span className="ml-2">{averageRating.toFixed(1)} ({reviews.length} review{reviews.length === 1 ? '' : 's'})</span>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mb-4"><Alert type="error" message={error} onClose={() => setError('')} /></div>}
+
+      {canReview && !alreadyReviewed && !isAgentViewing && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border rounded-md bg-gray-50">
+          <h4 className="text-md font-semibold mb-2">Rate your experience with {agent.name || 'this agent'}</h4>
+          <div className="mb-3">
+            <RatingStars rating={rating} onRatingChange={setRating} />
+          </div>
+          <Textarea
+            name="reviewComment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="How was the communication? Was the property as described?"
+            rows={3}
+          />
+          <Button type="submit" size="sm" isLoading={isSubmitting} disabled={rating === 0}>Submit Review</Button>
+        </form>
+      )}
+
+      {reviews.length === 0 ? (
+        <p className="text-gray-500 text-sm">No reviews yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <div key={review.id} className="p-4 bg-gray-50 rounded-lg">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center">
+                  <span className="font-medium text-gray-700">{review.raterUser.name || 'Tenant'}</span>
+                  {review.isVerifiedInteraction && (
+                    <span className="ml-2 text-xs text-green-700 flex items-center" title="Dealt with this agent through Rentify">
+                      <CheckBadgeIcon className="w-4 h-4 mr-1" /> Verified interaction
+                    </span>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500">{new Date(review.createdAt).toLocaleDateString('en-KE')}</span>
+              </div>
+              <RatingStars rating={review.rating} size="sm" readOnly />
+              {review.comment && <p className="mt-2 text-sm text-gray-700">{review.comment}</p>}
+
+              {review.agentReply ? (
+                <div className="mt-3 ml-4 pl-3 border-l-2 border-green-300">
+                  <p className="text-xs font-semibold text-gray-600">Response from {agent.name || 'the agent'}</p>
+                  <p className="text-sm text-gray-700">{review.agentReply.comment}</p>
+                </div>
+              ) : isAgentViewing && (
+                <div className="mt-3 ml-4 flex gap-2 items-start">
+                  <Textarea
+                    name={`reply-${review.id}`}
+                    value={replyDrafts[review.id] || ''}
+                    onChange={(e) => setReplyDrafts(prev => ({ ...prev, [review.id]: e.target.value }))}
+                    placeholder="Write a public reply (you can only reply once)"
+                    rows={2}
+                    containerClassName="flex-grow mb-0"
+                  />
+                  <Button size="sm" onClick={() => handleReply(review.id)} disabled={!replyDrafts[review.id]?.trim()}>Reply</Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgentReviews;
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { useFavorites } from '../hooks/useFavorites';
+import { HeartIcon } from '../constants';
+
+interface FavoriteButtonProps {
+  listingId: string;
+  className?: string;
+}
+
+const ERROR_DISPLAY_MS = 4000;
+
+const FavoriteButton: React.FC<FavoriteButtonProps> = ({ listingId, className = '' }) => {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const [error, setError] = useState<string | null>(null);
+  const saved = isFavorite(listingId);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), ERROR_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards wrap the image in a link; saving shouldn't navigate
+    e.preventDefault();
+    e.stopPropagation();
+    setError(null);
+    toggleFavorite(listingId).catch(() => setError('Could not update your saved listings. Please try again.'));
+  };
+
+  return (
+    <span className={className}>
+      <span className="relative inline-flex">
+        <button
+          type="button"
+          onClick={handleClick}
+          aria-pressed={saved}
+          aria-label={saved ? 'Remove from saved listings' : 'Save listing'}
+          title={saved ? 'Remove from saved listings' : 'Save listing'}
+          className="bg-white/90 rounded-full p-1.5 shadow hover:bg-white transition-colors"
+        >
+          <HeartIcon className={`w-5 h-5 ${saved ? 'text-red-500' : 'text-gray-600'}`} fill={saved ? 'currentColor' : 'none'} />
+        </button>
+        {error && (
+          <p role="alert" className="absolute left-0 top-full mt-1 w-48 z-10 rounded bg-white px-2 py-1 text-xs text-red-600 shadow">
+            {error}
+          </p>
+        )}
+      </span>
+    </span>
+  );
+};
+
+export default FavoriteButton;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Inquiry } from '../types';
+import Button from './Button';
+import Textarea from './Textarea';
+import Alert from './Alert';
+
+interface InquiryThreadProps {
+  inquiry: Inquiry;
+  currentUserId: string;
+  onReply: (body: string) => Promise<void>;
+}
+
+const InquiryThread: React.FC<InquiryThreadProps> = ({ inquiry, currentUserId, onReply }) => {
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const counterpart = inquiry.tenant.id === currentUserId ? inquiry.agent : inquiry.tenant;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+    setIsSending(true);
+    setError('');
+    try {
+      await onReply(reply);
+      setReply('');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="space-y-3 max-h-96 overflow-y-auto mb-4">
+        {inquiry.messages.map((message) => {
+          const isMine = message.senderId === currentUserId;
+          return (
+            <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] px-3 py-2 rounded-lg text-sm ${isMine ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                <p className="whitespace-pre-line">{message.body}</p>
+                <p className={`mt-1 text-xs ${isMine ? 'text-green-100' : 'text-gray-500'}`}>
+                  {new Date(message.createdAt).toLocaleString('en-KE')}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <form onSubmit={handleSubmit}>
+        <Textarea
+          name="reply"
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          placeholder={`Reply to ${counterpart.name || 'them'}...`}
+          rows={3}
+        />
+        {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+        <Button type="submit" size="sm" isLoading={isSending} disabled={!reply.trim()}>Send Reply</Button>
+      </form>
+    </div>
+  );
+};
+
+export default InquiryThread;
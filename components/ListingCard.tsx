@@ -1,13 +1,34 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { PropertyListing, PropertyImage } from '../types';
 import { MapPinIcon, CheckBadgeIcon, StarIcon, PlaceholderImage } from '../constants';
+import FavoriteButton from './FavoriteButton';
+import { analyticsService } from '../services/analyticsService';
+import { useAuth } from '../hooks/useAuth';
 
 interface ListingCardProps {
   listing: PropertyListing;
+  trackImpression?: boolean; // Record an impression once the card is at least half visible
 }
 
-const ListingCard: React.FC<ListingCardProps> = ({ listing }) => {
+const ListingCard: React.FC<ListingCardProps> = ({ listing, trackImpression = false }) => {
+  const { user } = useAuth();
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!trackImpression || !card || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        analyticsService.trackEvent(listing.id, 'impression', { viewerId: user?.id, ownerId: listing.agent?.id });
+        observer.disconnect();
+      }
+    }, { threshold: 0.5 });
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, [trackImpression, listing.id, listing.agent?.id, user?.id]);
+
   const primaryImageToDisplay: PropertyImage = (listing.images?.find(img => img.url)) || {
     id: `placeholder-${listing.id}`,
     url: PlaceholderImage(400, 300),
@@ -24,7 +45,7 @@ const ListingCard: React.FC<ListingCardProps> = ({ listing }) => {
   };
 
   return (
-    <div className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-2xl transition-shadow duration-300 flex flex-col h-full">
+    <div ref={cardRef} className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-2xl transition-shadow duration-300 flex flex-col h-full">
       <Link to={`/listing/${listing.id}`} className="block">
         <div className="relative">
           <img
@@ -32,6 +53,7 @@ const ListingCard: React.FC<ListingCardProps> = ({ listing }) => {
             alt={primaryImageToDisplay.altText || listing.title}
             className="w-full h-56 object-cover"
           />
+          <FavoriteButton listingId={listing.id} className="absolute bottom-2 left-2" />
           {listing.isFeatured && (
             <span className="absolute top-2 left-2 bg-yellow-400 text-yellow-800 text-xs font-semibold px-2 py-1 rounded">
               Featured
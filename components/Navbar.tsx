@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { APP_NAME, NavigationLinks, UserCircleIcon } from '../constants';
 import { useAuth } from '../hooks/useAuth';
+import NotificationBell from './NotificationBell';
 
 const Navbar: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -32,6 +33,7 @@ const Navbar: React.FC = () => {
                 {link.name}
               </Link>
             ))}
+            {user && <NotificationBell />}
             {user ? (
               <div className="relative group">
                 <button className="flex items-center text-gray-700 hover:text-green-600">
@@ -42,6 +44,12 @@ const Navbar: React.FC = () => {
                   {user.role === 'agent' && (
                      <Link to="/dashboard/agent" className="block px-4 py-2 text-sm text-gray-700 hover:bg-green-100">My Dashboard</Link>
                   )}
+                  {user.role === 'tenant' && (
+                     <Link to="/saved" className="block px-4 py-2 text-sm text-gray-700 hover:bg-green-100">Saved Listings</Link>
+                  )}
+                  {user.role === 'admin' && (
+                     <Link to="/admin" className="block px-4 py-2 text-sm text-gray-700 hover:bg-green-100">Admin</Link>
+                  )}
                   <button onClick={handleLogout} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-green-100">
                     Logout
                   </button>
@@ -55,7 +63,8 @@ const Navbar: React.FC = () => {
           </div>
 
           {/* Mobile Menu Button */}
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center space-x-4">
+            {user && <NotificationBell onClick={() => setIsMobileMenuOpen(false)} />}
             <button
               onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
               className="text-gray-700 hover:text-green-600 focus:outline-none"
@@ -87,6 +96,12 @@ const Navbar: React.FC = () => {
                 {user.role === 'agent' && (
                   <Link to="/dashboard/agent" onClick={() => setIsMobileMenuOpen(false)} className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-green-600 hover:bg-green-50">My Dashboard</Link>
                 )}
+                {user.role === 'tenant' && (
+                  <Link to="/saved" onClick={() => setIsMobileMenuOpen(false)} className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-green-600 hover:bg-green-50">Saved Listings</Link>
+                )}
+                {user.role === 'admin' && (
+                  <Link to="/admin" onClick={() => setIsMobileMenuOpen(false)} className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-green-600 hover:bg-green-50">Admin</Link>
+                )}
                 <button onClick={() => { handleLogout(); setIsMobileMenuOpen(false); }} className="block w-full text-left px-3 py-2 rounded-md text-base font-medium text-red-600 hover:bg-red-50">
                   Logout ({user.full_name.split(' ')[0]})
                 </button>
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BellIcon } from '../constants';
+import { useNotifications } from '../hooks/useNotifications';
+
+interface NotificationBellProps {
+  onClick?: () => void;
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ onClick }) => {
+  const { unreadCount } = useNotifications();
+  const label = unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications';
+
+  return (
+    <Link to="/notifications" onClick={onClick} className="relative text-gray-700 hover:text-green-600" aria-label={label} title={label}>
+      <BellIcon className="w-6 h-6" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-2 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center font-semibold">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+};
+
+export default NotificationBell;
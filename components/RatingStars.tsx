@@ -35,6 +35,7 @@ const RatingStars: React.FC<RatingStarsProps> = ({
         return (
           <button
             key={index}
+            type="button"
             onClick={() => handleStarClick(index)}
             disabled={readOnly}
             className={`focus:outline-none ${!readOnly ? 'cursor-pointer' : 'cursor-default'}`}
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { EmploymentStatus, RentalApplication, RentalApplicationReference } from '../types';
+import { rentalApplicationService, type RentalApplicationInput } from '../services/rentalApplicationService';
+import Button from './Button';
+import Input from './Input';
+import Select from './Select';
+import Textarea from './Textarea';
+import Alert from './Alert';
+import LoadingSpinner from './LoadingSpinner';
+import { EmploymentStatusOptions, ApplicationStatusStyles } from '../constants';
+
+interface RentalApplicationPanelProps {
+  listingId: string;
+  tenantId: string;
+  canApply: boolean; // False once the listing is no longer available; an existing application is still shown
+}
+
+const emptyReference = (): RentalApplicationReference => ({ name: '', relationship: '', phoneNumber: '' });
+
+const initialDetails = (): RentalApplicationInput => ({
+  employmentStatus: 'employed',
+  employerName: '',
+  jobTitle: '',
+  monthlyIncome: 0,
+  moveInDate: '',
+  occupants: 1,
+  message: '',
+  references: [emptyReference()],
+});
+
+const RentalApplicationPanel: React.FC<RentalApplicationPanelProps> = ({ listingId, tenantId, canApply }) => {
+  const [application, setApplication] = useState<RentalApplication | null>(null);
+  const [details, setDetails] = useState<RentalApplicationInput>(initialDetails);
+  const [idDocument, setIdDocument] = useState<File | null>(null);
+  const [payslips, setPayslips] = useState<File[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchApplication = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setApplication(await rentalApplicationService.getLatestApplicationForListing(listingId, tenantId));
+    } catch (err) {
+      console.error('Failed to load application:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listingId, tenantId]);
+
+  useEffect(() => {
+    fetchApplication();
+  }, [fetchApplication]);
+
+  const updateReference = (index: number, field: keyof RentalApplicationReference, value: string) => {
+    setDetails(prev => ({
+      ...prev,
+      references: prev.references.map((reference, i) => (i === index ? { ...reference, [field]: value } : reference)),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      const submitted = await rentalApplicationService.submitApplication({ listingId, tenantId, details, idDocument, payslips });
+      setApplication(submitted);
+      setShowForm(false);
+      setDetails(initialDetails());
+      setIdDocument(null);
+      setPayslips([]);
+      setMessage({ type: 'success', text: 'Application sent. The agent has been notified and will review it.' });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to submit application' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!application || !window.confirm('Withdraw your application?')) return;
+    try {
+      await rentalApplicationService.withdrawApplication(application.id);
+      setApplication({ ...application, status: 'withdrawn' });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to withdraw application' });
+    }
+  };
+
+  if (isLoading) return <LoadingSpinner size="sm" text="Loading application..." />;
+
+  const isOpen = application && (application.status === 'submitted' || application.status === 'shortlisted');
+  if (!application && !canApply) return null;
+
+  const showsEmployer = details.employmentStatus === 'employed' || details.employmentStatus === 'self_employed';
+
+  return (
+    <div className="mt-4 p-4 border rounded-md bg-white">
+      <h4 className="text-md font-semibold mb-3">Rental application</h4>
+      {message && <Alert type={message.type} message={message.text} onClose={() => setMessage(null)} />}
+
+      {application && !showForm && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm text-gray-700">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ApplicationStatusStyles[application.status].className}`}>
+              {ApplicationStatusStyles[application.status].label}
+            </span>
+            <span className="ml-2 text-gray-500">Applied {new Date(application.createdAt).toLocaleDateString('en-KE')}</span>
+            {application.status === 'rejected' && application.decisionReason && (
+              <p className="mt-2 text-gray-600">{application.decisionReason}</p>
+            )}
+            {application.status === 'accepted' && (
+              <p className="mt-2 text-gray-600">The agent will contact you about the lease and deposit.</p>
+            )}
+          </div>
+          {isOpen && <Button variant="outline" size="sm" onClick={handleWithdraw}>Withdraw</Button>}
+          {!isOpen && application.status !== 'accepted' && canApply && (
+            <Button size="sm" onClick={() => setShowForm(true)}>Apply Again</Button>
+          )}
+        </div>
+      )}
+
+      {!application && !showForm && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">Ready to move in? Apply with your employment details, references, ID and payslips.</p>
+          <Button size="sm" onClick={() => setShowForm(true)}>Apply to Rent</Button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit}>
+          <div className="grid sm:grid-cols-2 gap-x-4">
+            <Select
+              label="Employment"
+              name="employmentStatus"
+              options={EmploymentStatusOptions}
+              value={details.employmentStatus}
+              onChange={(e) => setDetails({ ...details, employmentStatus: e.target.value as EmploymentStatus })}
+            />
+            <Input
+              label="Monthly income (KES)"
+              name="monthlyIncome"
+              type="number"
+              min={0}
+              value={details.monthlyIncome || ''}
+              onChange={(e) => setDetails({ ...details, monthlyIncome: Number(e.target.value) })}
+              required={showsEmployer}
+            />
+            {showsEmployer && (
+              <>
+                <Input
+                  label={details.employmentStatus === 'employed' ? 'Employer' : 'Business name'}
+                  name="employerName"
+                  value={details.employerName}
+                  onChange={(e) => setDetails({ ...details, employerName: e.target.value })}
+                  required={details.employmentStatus === 'employed'}
+                />
+                <Input
+                  label="Job title"
+                  name="jobTitle"
+                  value={details.jobTitle}
+                  onChange={(e) => setDetails({ ...details, jobTitle: e.target.value })}
+                />
+              </>
+            )}
+            <Input
+              label="Preferred move-in date"
+              name="moveInDate"
+              type="date"
+              value={details.moveInDate}
+              onChange={(e) => setDetails({ ...details, moveInDate: e.target.value })}
+            />
+            <Input
+              label="Number of occupants"
+              name="occupants"
+              type="number"
+              min={1}
+              max={20}
+              value={details.occupants}
+              onChange={(e) => setDetails({ ...details, occupants: Number(e.target.value) })}
+              required
+            />
+          </div>
+
+          <p className="text-sm font-medium text-gray-700 mb-2">References</p>
+          {details.references.map((reference, index) => (
+            <div key={index} className="grid sm:grid-cols-3 gap-x-3 items-start">
+              <Input
+                name={`reference-${index}-name`}
+                placeholder="Full name"
+                value={reference.name}
+                onChange={(e) => updateReference(index, 'name', e.target.value)}
+                required
+              />
+              <Input
+                name={`reference-${index}-relationship`}
+                placeholder="Relationship, e.g. Employer"
+                value={reference.relationship}
+                onChange={(e) => updateReference(index, 'relationship', e.target.value)}
+                required
+              />
+              <div className="flex gap-2">
+                <Input
+                  name={`reference-${index}-phone`}
+                  placeholder="Phone, e.g. 0712 345 678"
+                  value={reference.phoneNumber}
+                  onChange={(e) => updateReference(index, 'phoneNumber', e.target.value)}
+                  containerClassName="flex-grow"
+                  required
+                />
+                {details.references.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setDetails({ ...details, references: details.references.filter((_, i) => i !== index) })}
+                    className="mb-4 text-sm text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {details.references.length < 3 && (
+            <button
+              type="button"
+              onClick={() => setDetails({ ...details, references: [...details.references, emptyReference()] })}
+              className="mb-4 text-sm text-green-600 hover:underline"
+            >
+              + Add another reference
+            </button>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-x-4">
+            <Input
+              label="Copy of your ID or passport"
+              name="idDocument"
+              type="file"
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              onChange={(e) => setIdDocument(e.target.files?.[0] ?? null)}
+              required
+            />
+            <Input
+              label="Recent payslips (up to 3)"
+              name="payslips"
+              type="file"
+              multiple
+              accept="image/jpeg,image/png,image/webp,application/pdf"
+              onChange={(e) => setPayslips(Array.from(e.target.files ?? []))}
+              required
+            />
+          </div>
+          <p className="-mt-2 mb-4 text-xs text-gray-500">Documents are stored privately and only shared with this listing's agent.</p>
+
+          <Textarea
+            label="Message to the agent (optional)"
+            name="applicationMessage"
+            value={details.message}
+            onChange={(e) => setDetails({ ...details, message: e.target.value })}
+            rows={3}
+            maxLength={2000}
+          />
+
+          <div className="flex gap-2">
+            <Button type="submit" isLoading={isSubmitting}>Submit Application</Button>
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={isSubmitting}>Cancel</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RentalApplicationPanel;
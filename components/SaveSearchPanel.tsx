@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { AlertFrequency, NotificationChannel } from '../types';
+import { savedSearchService } from '../services/savedSearchService';
+import { useAuth } from '../hooks/useAuth';
+import { describeSearchFilters } from '../utils/searchFilters';
+import type { SearchFilters } from './SearchBar';
+import Button from './Button';
+import Input from './Input';
+import Select from './Select';
+import Alert from './Alert';
+
+interface SaveSearchPanelProps {
+  filters: SearchFilters;
+}
+
+const frequencyOptions: { value: AlertFrequency; label: string }[] = [
+  { value: 'instant', label: 'As soon as a match is listed' },
+  { value: 'daily', label: 'Daily digest (7am)' },
+];
+
+const channelOptions: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'In the app' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+];
+
+const SaveSearchPanel: React.FC<SaveSearchPanelProps> = ({ filters }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<AlertFrequency>('instant');
+  const [channels, setChannels] = useState<NotificationChannel[]>(['in_app']);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleOpen = () => {
+    if (!user) {
+      navigate(`/auth?mode=login&returnTo=${encodeURIComponent(location.pathname + location.search)}`);
+      return;
+    }
+    setName(describeSearchFilters(filters));
+    setMessage(null);
+    setIsOpen(true);
+  };
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    setChannels(prev => (prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel]));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await savedSearchService.createSavedSearch(user.id, { name, filters, frequency, channels });
+      setMessage({ type: 'success', text: 'Search saved. We\'ll let you know when new matches are listed.' });
+      setIsOpen(false);
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not save this search' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      {message && <Alert type={message.type} message={message.text} onClose={() => setMessage(null)} />}
+      {!isOpen ? (
+        <Button variant="outline" size="sm" onClick={handleOpen}>Save This Search</Button>
+      ) : (
+        <form onSubmit={handleSave} className="p-4 border border-gray-200 rounded-md bg-gray-50 space-y-2">
+          <Input label="Search name" name="savedSearchName" value={name} maxLength={80} onChange={(e) => setName(e.target.value)} required />
+          <Select
+            label="Alert me"
+            name="savedSearchFrequency"
+            options={frequencyOptions}
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as AlertFrequency)}
+          />
+          <div className="mb-4">
+            <p className="block text-sm font-medium text-gray-700 mb-2">Notify me by</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {channelOptions.map(option => (
+                <label key={option.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(option.value)}
+                    onChange={() => toggleChannel(option.value)}
+                    className="h-4 w-4 mr-1 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" isLoading={isSaving} disabled={channels.length === 0}>Save Search</Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SaveSearchPanel;
@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SavedSearch, SavedSearchAlert } from '../types';
+import { savedSearchService } from '../services/savedSearchService';
+import { describeSearchFilters, searchFiltersToParams } from '../utils/searchFilters';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import Alert from './Alert';
+
+interface SavedSearchListProps {
+  userId: string;
+}
+
+const channelLabels: Record<SavedSearch['channels'][number], string> = {
+  in_app: 'in-app',
+  email: 'email',
+  sms: 'SMS',
+};
+
+const SavedSearchList: React.FC<SavedSearchListProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<SavedSearchAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSearches = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [savedSearches, unreadAlerts] = await Promise.all([
+        savedSearchService.getSavedSearches(userId),
+        savedSearchService.getUnreadAlerts(userId),
+      ]);
+      setSearches(savedSearches);
+      setAlerts(unreadAlerts);
+    } catch (err) {
+      console.error('Failed to load saved searches:', err);
+      setError('Could not load your saved searches.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSearches();
+  }, [fetchSearches]);
+
+  const handleRun = async (search: SavedSearch) => {
+    const alertIds = alerts.filter(a => a.savedSearchId === search.id).map(a => a.id);
+    try {
+      await savedSearchService.markAlertsRead(alertIds);
+    } catch (err) {
+      console.error('Failed to mark alerts read:', err); // Still open the search
+    }
+    const params = searchFiltersToParams(search.filters).toString();
+    navigate(`/listings${params ? `?${params}` : ''}`);
+  };
+
+  const handleToggleActive = async (search: SavedSearch) => {
+    try {
+      const updated = await savedSearchService.updateSavedSearch(search.id, { isActive: !search.isActive });
+      setSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update search');
+    }
+  };
+
+  const handleDelete = async (searchId: string) => {
+    if (!window.confirm('Delete this saved search?')) return;
+    try {
+      await savedSearchService.deleteSavedSearch(searchId);
+      setSearches(prev => prev.filter(s => s.id !== searchId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete search');
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold">Saved Searches</h2>
+
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><LoadingSpinner text="Loading saved searches..." /></div>
+      ) : searches.length === 0 ? (
+        <p className="text-gray-600">No saved searches yet. Use "Save This Search" on the listings page to get alerts for new matches.</p>
+      ) : (
+        <div className="space-y-3">
+          {searches.map(search => {
+            const newMatches = alerts.filter(a => a.savedSearchId === search.id).length;
+            return (
+              <div key={search.id} className="p-4 border rounded bg-white flex flex-wrap justify-between items-center gap-3">
+                <div>
+                  <p className="font-medium">
+                    {search.name}
+                    {newMatches > 0 && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">
+                        {newMatches} new
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">{describeSearchFilters(search.filters)}</p>
+                  <p className="text-xs text-gray-500">
+                    {search.isActive
+                      ? `${search.frequency === 'daily' ? 'Daily digest' : 'Instant alerts'} by ${search.channels.map(c => channelLabels[c]).join(', ')}`
+                      : 'Alerts paused'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleRun(search)}>View Matches</Button>
+                  <Button size="sm" variant="outline" onClick={() => handleToggleActive(search)}>
+                    {search.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button size="sm" variant="danger" onClick={() => handleDelete(search.id)}>Delete</Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SavedSearchList;
@@ -0,0 +1,153 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { PropertyListing } from '../types';
+import { geminiService, SearchAssistantSession } from '../services/geminiService';
+import { listingService } from '../services/listingService';
+import { describeSearchFilters } from '../utils/searchFilters';
+import { PlaceholderImage } from '../constants';
+import type { SearchFilters } from './SearchBar';
+import Button from './Button';
+import Input from './Input';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SearchAssistantProps {
+  onApplyFilters: (filters: SearchFilters) => void; // Shows the assistant's search in the main results
+}
+
+interface AssistantMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  filters?: SearchFilters;
+  matches?: PropertyListing[];
+}
+
+const MAX_MATCHES = 3;
+
+const SearchAssistant: React.FC<SearchAssistantProps> = ({ onApplyFilters }) => {
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const sessionRef = useRef<SearchAssistantSession | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages, isSending]);
+
+  const addMessage = (message: AssistantMessage) => setMessages(prev => [...prev, message]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = input.trim();
+    if (!text || isSending) return;
+    setInput('');
+    addMessage({ role: 'user', text });
+    setIsSending(true);
+    try {
+      sessionRef.current ??= geminiService.createSearchAssistant();
+      const { data, error } = await sessionRef.current.send(text);
+      if (error) {
+        addMessage({
+          role: 'assistant',
+          text: error.code === 'unavailable'
+            ? 'The search assistant is currently unavailable. Please use the filters above.'
+            : error.code === 'rate_limited'
+              ? `${error.message} Meanwhile, you can use the filters above.`
+              : `${error.message} You can also rephrase, or use the filters above.`,
+        });
+        return;
+      }
+      const { reply, filters } = data;
+      const searchFilters = Object.keys(filters).length > 0 ? filters : undefined;
+      // Suggestions in the chat are limited to homes that can be rented now
+      const matches = searchFilters
+        ? await listingService.getListings({ ...searchFilters, status: 'available' }, { sort: 'relevance', page: 1, pageSize: MAX_MATCHES })
+        : undefined;
+      addMessage({ role: 'assistant', text: reply, filters: searchFilters, matches });
+    } catch (err) {
+      console.error('[SearchAssistant] Search failed:', err);
+      addMessage({ role: 'assistant', text: "I understood you, but couldn't search the listings just now. Please try again." });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleNewConversation = () => {
+    sessionRef.current = null;
+    setMessages([]);
+  };
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 rounded-md bg-gray-50">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-sm font-medium text-gray-700">Describe what you're looking for, e.g. "2BR in Rongai under 30k with parking"</p>
+        {messages.length > 0 && (
+          <button onClick={handleNewConversation} className="text-sm text-blue-600 hover:underline">New conversation</button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-3 max-h-96 overflow-y-auto mb-4">
+          {messages.map((message, index) => {
+            const isMine = message.role === 'user';
+            return (
+              <div key={index} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] px-3 py-2 rounded-lg text-sm ${isMine ? 'bg-green-600 text-white' : 'bg-white border text-gray-800'}`}>
+                  <p className="whitespace-pre-line">{message.text}</p>
+                  {message.filters && (
+                    <div className="mt-2 space-y-2">
+                      <p className="text-xs text-gray-500">Searching: {describeSearchFilters(message.filters)}</p>
+                      {message.matches && message.matches.length > 0 ? (
+                        <ul className="space-y-2">
+                          {message.matches.map(listing => (
+                            <li key={listing.id}>
+                              <Link to={`/listing/${listing.id}`} className="flex gap-2 p-1 rounded hover:bg-green-50">
+                                <img
+                                  src={listing.images?.[0]?.url ?? PlaceholderImage(64, 64)}
+                                  alt={listing.title}
+                                  className="w-16 h-12 object-cover rounded"
+                                />
+                                <span>
+                                  <span className="block font-medium text-gray-900">{listing.title}</span>
+                                  <span className="block text-xs text-gray-600">
+                                    {listing.location?.neighborhood}, {listing.location?.county} · KES {listing.price.toLocaleString('en-KE')}/mo
+                                  </span>
+                                </span>
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="text-xs text-gray-600">No listings match this yet. Try widening the search.</p>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => onApplyFilters(message.filters!)}>
+                        Show all results
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {isSending && <LoadingSpinner size="sm" text="Searching..." />}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2 items-start">
+        <Input
+          name="assistantMessage"
+          aria-label="Message the search assistant"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={messages.length ? 'Add details or change your search...' : 'What kind of place are you looking for?'}
+          containerClassName="flex-grow"
+          autoComplete="off"
+        />
+        <Button type="submit" isLoading={isSending} disabled={!input.trim()} className="mt-1">Send</Button>
+      </form>
+    </div>
+  );
+};
+
+export default SearchAssistant;
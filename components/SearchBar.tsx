@@ -3,6 +3,7 @@ import Button from './Button';
 import Input from './Input';
 import Select from './Select';
 import { MagnifyingGlassIcon, KenyanCounties } from '../constants';
+import type { PropertyListing, PropertyType } from '../types';
 
 interface SearchBarProps {
   onSearch: (filters: SearchFilters) => void;
@@ -15,7 +16,17 @@ export interface SearchFilters {
   county?: string;
   minPrice?: number;
   maxPrice?: number;
-  bedrooms?: number;
+  bedrooms?: number; // Exact match
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  minArea?: number; // sq ft
+  amenities?: string[]; // Listing must have all of these
+  propertyType?: PropertyType;
+  furnished?: boolean;
+  status?: PropertyListing['status'];
+  featuredOnly?: boolean;
 }
 
 const SearchBar: React.FC<SearchBarProps> = ({ onSearch, initialFilters = {}, isLoading = false }) => {
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ViewingBooking, ViewingSlot } from '../types';
+import { viewingService } from '../services/viewingService';
+import { downloadCalendarEvent } from '../utils/icsCalendar';
+import Button from './Button';
+import Textarea from './Textarea';
+import Alert from './Alert';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ViewingSchedulerProps {
+  listingId: string;
+  agentName: string;
+  currentUserId: string;
+  canBook: boolean; // False once the listing is no longer available; an existing booking is still shown
+}
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-KE', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-KE', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Groups slots by calendar day, keeping them in start order.
+ */
+const groupByDay = (slots: ViewingSlot[]) => {
+  const days = new Map<string, ViewingSlot[]>();
+  slots.forEach(slot => {
+    const day = formatDay(slot.startsAt);
+    days.set(day, [...(days.get(day) || []), slot]);
+  });
+  return [...days.entries()];
+};
+
+const ViewingScheduler: React.FC<ViewingSchedulerProps> = ({ listingId, agentName, currentUserId, canBook }) => {
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [booking, setBooking] = useState<ViewingBooking | null>(null);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [openSlots, activeBooking] = await Promise.all([
+        viewingService.getOpenSlots(listingId),
+        viewingService.getActiveBookingForListing(listingId, currentUserId),
+      ]);
+      setSlots(openSlots);
+      setBooking(activeBooking);
+    } catch (err) {
+      console.error('Failed to load viewing slots:', err);
+      setMessage({ type: 'error', text: 'Could not load viewing times. Please try again later.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listingId, currentUserId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSubmit = async () => {
+    if (!selectedSlotId) return;
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      const updated = booking
+        ? await viewingService.rescheduleViewing(booking.id, selectedSlotId)
+        : await viewingService.bookViewing(selectedSlotId, note);
+      setBooking(updated);
+      setSelectedSlotId(null);
+      setNote('');
+      setIsRescheduling(false);
+      setMessage({
+        type: 'success',
+        text: `Viewing ${booking ? 'moved' : 'booked'} for ${formatDay(updated.startsAt)} at ${formatTime(updated.startsAt)}. We've let ${agentName} know.`,
+      });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to book viewing' });
+    } finally {
+      setIsSubmitting(false);
+      // Refresh the open slots either way: a failure usually means someone else took the slot
+      viewingService.getOpenSlots(listingId).then(setSlots).catch(() => undefined);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking || !window.confirm('Cancel this viewing?')) return;
+    setIsSubmitting(true);
+    setMessage(null);
+    try {
+      await viewingService.cancelViewing(booking.id);
+      setBooking(null);
+      setIsRescheduling(false);
+      setMessage({ type: 'success', text: 'Viewing cancelled.' });
+      setSlots(await viewingService.getOpenSlots(listingId));
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to cancel viewing' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) return <LoadingSpinner size="sm" text="Loading viewing times..." />;
+  if (!booking && !canBook) return null;
+
+  const showPicker = canBook && (!booking || isRescheduling);
+
+  return (
+    <div className="mt-4 p-4 border rounded-md bg-white">
+      <h4 className="text-md font-semibold mb-3">{booking ? 'Your viewing' : 'Book a viewing'}</h4>
+      {message && <Alert type={message.type} message={message.text} onClose={() => setMessage(null)} />}
+
+      {booking && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <div className="text-sm text-gray-700">
+            <p className="font-medium">{formatDay(booking.startsAt)}, {formatTime(booking.startsAt)} – {formatTime(booking.endsAt)}</p>
+            <p className="text-gray-500">with {agentName}{booking.listingLocation && ` · ${booking.listingLocation}`}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadCalendarEvent('viewing.ics', viewingService.toCalendarEvent(booking, 'tenant'))}
+            >
+              Add to Calendar
+            </Button>
+            {canBook && (
+              <Button variant="outline" size="sm" onClick={() => { setIsRescheduling(!isRescheduling); setSelectedSlotId(null); }}>
+                {isRescheduling ? 'Keep This Time' : 'Reschedule'}
+              </Button>
+            )}
+            <Button variant="danger" size="sm" onClick={handleCancel} disabled={isSubmitting}>Cancel Viewing</Button>
+          </div>
+        </div>
+      )}
+
+      {showPicker && (
+        slots.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {agentName} has no {booking ? 'other ' : ''}open viewing times right now. Send them a message to arrange one.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3 mb-4">
+              {groupByDay(slots).map(([day, daySlots]) => (
+                <div key={day}>
+                  <p className="text-sm font-medium text-gray-700 mb-1">{day}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {daySlots.map(slot => (
+                      <button
+                        key={slot.id}
+                        type="button"
+                        onClick={() => setSelectedSlotId(slot.id)}
+                        className={`px-3 py-1.5 text-sm rounded-md border ${
+                          selectedSlotId === slot.id
+                            ? 'bg-green-600 text-white border-green-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-green-500'
+                        }`}
+                      >
+                        {formatTime(slot.startsAt)} – {formatTime(slot.endsAt)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {!booking && (
+              <Textarea
+                name="viewingNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={`Anything ${agentName} should know? (optional)`}
+                rows={2}
+                maxLength={500}
+              />
+            )}
+            <Button onClick={handleSubmit} isLoading={isSubmitting} disabled={!selectedSlotId} size="sm">
+              {booking ? 'Move Viewing' : 'Book Viewing'}
+            </Button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ViewingScheduler;
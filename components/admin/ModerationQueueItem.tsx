@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PropertyListing, ModerationDecision } from '../../types';
+import { moderationService } from '../../services/moderationService';
+import Button from '../Button';
+import Input from '../Input';
+import { CheckBadgeIcon } from '../../constants';
+
+interface ModerationQueueItemProps {
+  listing: PropertyListing;
+  isSelected: boolean;
+  onToggleSelect: (listingId: string) => void;
+  onDecide: (listingId: string, decision: 'approved' | 'rejected', reason: string) => Promise<void>;
+}
+
+const scanBadgeClasses: Record<string, string> = {
+  clear: 'bg-green-100 text-green-700',
+  pending: 'bg-gray-100 text-gray-600',
+  flagged_reused: 'bg-red-100 text-red-700',
+  flagged_poor_quality: 'bg-yellow-100 text-yellow-700',
+};
+
+const ModerationQueueItem: React.FC<ModerationQueueItemProps> = ({ listing, isSelected, onToggleSelect, onDecide }) => {
+  const [reason, setReason] = useState('');
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [history, setHistory] = useState<ModerationDecision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const flaggedCount = listing.images.filter(img => img.aiScanStatus.startsWith('flagged_')).length;
+
+  const handleDecide = async (decision: 'approved' | 'rejected') => {
+    setIsDeciding(true);
+    try {
+      await onDecide(listing.id, decision, reason);
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const toggleHistory = async () => {
+    if (!showHistory && history === null) {
+      try {
+        setHistory(await moderationService.getModerationHistory(listing.id));
+      } catch (err) {
+        console.error('Failed to load moderation history:', err);
+        setHistory([]);
+      }
+    }
+    setShowHistory(!showHistory);
+  };
+
+  return (
+    <div className={`p-4 border rounded bg-white ${flaggedCount > 0 ? 'border-red-300' : ''}`}>
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggleSelect(listing.id)}
+          className="mt-1 h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+          aria-label={`Select ${listing.title}`}
+        />
+        <div className="flex-grow">
+          <div className="flex justify-between items-start">
+            <div>
+              <Link to={`/listing/${listing.id}`} className="text-lg font-medium hover:text-green-600">{listing.title}</Link>
+              <p className="text-sm text-gray-600">
+                {listing.location.neighborhood}, {listing.location.county} · KES {listing.price.toLocaleString()}
+              </p>
+              <p className="text-sm text-gray-600 flex items-center">
+                {listing.agent.name || listing.agent.email}
+                {listing.agent.isVerifiedAgent && <CheckBadgeIcon className="w-4 h-4 ml-1 text-green-600" title="Verified Agent" />}
+              </p>
+            </div>
+            <span className="text-xs text-gray-500">Submitted {new Date(listing.createdAt).toLocaleDateString('en-KE')}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-3">
+            {listing.images.length === 0 && <p className="text-sm text-gray-500">No images uploaded.</p>}
+            {listing.images.map(img => (
+              <div key={img.id} className="w-28">
+                <img src={img.url} alt={img.altText || listing.title} className="w-28 h-20 object-cover rounded" />
+                <span className={`block mt-1 text-xs px-1 rounded ${scanBadgeClasses[img.aiScanStatus] || ''}`}>
+                  {img.aiScanStatus.replace('_', ' ')}
+                </span>
+                {img.aiScanReason && <p className="text-xs text-gray-600 mt-0.5">{img.aiScanReason}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-2 mt-3">
+            <Input
+              name={`reason-${listing.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (required to reject)"
+              containerClassName="flex-grow"
+            />
+            <Button size="sm" onClick={() => handleDecide('approved')} isLoading={isDeciding}>Approve</Button>
+            <Button size="sm" variant="danger" onClick={() => handleDecide('rejected')} disabled={isDeciding || !reason.trim()}>Reject</Button>
+            <Button size="sm" variant="outline" onClick={toggleHistory}>{showHistory ? 'Hide' : 'Show'} History</Button>
+          </div>
+
+          {showHistory && history && (
+            <ul className="mt-3 text-sm border-t pt-2 space-y-1">
+              {history.length === 0 && <li className="text-gray-500">No previous decisions.</li>}
+              {history.map(entry => (
+                <li key={entry.id}>
+                  <span className={entry.decision === 'approved' ? 'text-green-700' : 'text-red-700'}>{entry.decision}</span>
+                  {' by '}{entry.moderator.name || entry.moderator.email}
+                  {' on '}{new Date(entry.createdAt).toLocaleString('en-KE')}
+                  {entry.reason && <span className="text-gray-600"> — {entry.reason}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueueItem;
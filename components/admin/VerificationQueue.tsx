@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { VerificationRequest } from '../../types';
+import { verificationService } from '../../services/verificationService';
+import Button from '../Button';
+import Input from '../Input';
+import LoadingSpinner from '../LoadingSpinner';
+import Alert from '../Alert';
+
+const VerificationQueue: React.FC = () => {
+  const [requests, setRequests] = useState<VerificationRequest[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRequests(await verificationService.getPendingRequests());
+    } catch (err) {
+      console.error('Failed to load verification requests:', err);
+      setError('Could not load verification requests.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleViewDocument = async (request: VerificationRequest) => {
+    try {
+      const url = await verificationService.getDocumentUrl(request.documentPath);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not open ID document');
+    }
+  };
+
+  const handleReview = async (requestId: string, decision: 'approved' | 'rejected') => {
+    setDecidingId(requestId);
+    setError(null);
+    try {
+      await verificationService.reviewRequest(requestId, decision, reasons[requestId]);
+      setRequests(prev => prev.filter(r => r.id !== requestId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save decision');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold">Agent Verifications</h2>
+        <p className="text-gray-600">{requests.length} request{requests.length === 1 ? '' : 's'} awaiting review</p>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><LoadingSpinner text="Loading requests..." /></div>
+      ) : requests.length === 0 ? (
+        <p className="text-gray-600">No pending verification requests.</p>
+      ) : (
+        requests.map(request => (
+          <div key={request.id} className="p-4 border rounded bg-white">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-medium">{request.agent.name || request.agent.email}</p>
+                <p className="text-sm text-gray-600">{request.agent.email}{request.agent.phoneNumber && ` · ${request.agent.phoneNumber}`}</p>
+              </div>
+              <span className="text-xs text-gray-500">Submitted {new Date(request.createdAt).toLocaleDateString('en-KE')}</span>
+            </div>
+            <div className="flex flex-wrap items-end gap-2 mt-3">
+              <Button size="sm" variant="outline" onClick={() => handleViewDocument(request)}>View ID Document</Button>
+              <Input
+                name={`verification-reason-${request.id}`}
+                value={reasons[request.id] || ''}
+                onChange={(e) => setReasons(prev => ({ ...prev, [request.id]: e.target.value }))}
+                placeholder="Reason (required to reject)"
+                containerClassName="flex-grow"
+              />
+              <Button size="sm" onClick={() => handleReview(request.id, 'approved')} isLoading={decidingId === request.id}>Approve</Button>
+              <Button
+                size="sm"
+                variant="danger"
+                onClick={() => handleReview(request.id, 'rejected')}
+                disabled={decidingId === request.id || !reasons[request.id]?.trim()}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default VerificationQueue;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PropertyListing, ListingDailyStats, NeighborhoodBenchmark } from '../../types';
+import { analyticsService } from '../../services/analyticsService';
+import { buildDailySeries, sumSeries, daysAgo, toDayString } from '../../utils/analyticsSeries';
+import { toCsv, downloadCsv } from '../../utils/csv';
+import Button from '../Button';
+import Input from '../Input';
+import Select from '../Select';
+import LoadingSpinner from '../LoadingSpinner';
+import Alert from '../Alert';
+import TimeSeriesChart, { ChartSeries } from './TimeSeriesChart';
+import ConversionFunnel from './ConversionFunnel';
+
+interface AnalyticsPanelProps {
+  listings: PropertyListing[];
+}
+
+const RANGE_PRESETS = [7, 30, 90];
+
+const CHART_SERIES: ChartSeries[] = [
+  { key: 'views', label: 'Views', color: 'blue' },
+  { key: 'saves', label: 'Saves', color: 'green' },
+  { key: 'inquiries', label: 'Inquiries', color: 'purple' },
+];
+
+const CSV_HEADERS = ['day', 'listing_id', 'listing_title', 'impressions', 'views', 'contact_clicks', 'whatsapp_shares', 'saves', 'inquiries'];
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ listings }) => {
+  const [fromDay, setFromDay] = useState(() => daysAgo(29));
+  const [toDay, setToDay] = useState(() => toDayString(new Date()));
+  const [selectedListingId, setSelectedListingId] = useState('all');
+  const [stats, setStats] = useState<ListingDailyStats[]>([]);
+  const [benchmarks, setBenchmarks] = useState<NeighborhoodBenchmark[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable key so a re-fetched listings array with the same ids doesn't reload stats
+  const listingIdsKey = listings.map(l => l.id).join(',');
+
+  useEffect(() => {
+    const listingIds = listingIdsKey ? listingIdsKey.split(',') : [];
+    if (listingIds.length === 0 || fromDay > toDay) return;
+    let cancelled = false;
+    (async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [dailyStats, neighborhoodBenchmarks] = await Promise.all([
+          analyticsService.getDailyStats(listingIds, fromDay, toDay),
+          analyticsService.getNeighborhoodBenchmarks(listingIds, fromDay, toDay),
+        ]);
+        if (cancelled) return;
+        setStats(dailyStats);
+        setBenchmarks(neighborhoodBenchmarks);
+      } catch (err: unknown) {
+        console.error('Failed to load analytics:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load analytics');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [listingIdsKey, fromDay, toDay]);
+
+  const selectedListings = useMemo(
+    () => (selectedListingId === 'all' ? listings : listings.filter(l => l.id === selectedListingId)),
+    [listings, selectedListingId]
+  );
+
+  const statsByListing = useMemo(() => {
+    const grouped = new Map<string, ListingDailyStats[]>();
+    for (const row of stats) {
+      grouped.set(row.listingId, [...(grouped.get(row.listingId) ?? []), row]);
+    }
+    return grouped;
+  }, [stats]);
+
+  const series = useMemo(
+    () => buildDailySeries(selectedListings.flatMap(l => statsByListing.get(l.id) ?? []), fromDay, toDay),
+    [selectedListings, statsByListing, fromDay, toDay]
+  );
+  const totals = sumSeries(series);
+
+  const applyPreset = (days: number) => {
+    setFromDay(daysAgo(days - 1));
+    setToDay(toDayString(new Date()));
+  };
+
+  const handleExport = () => {
+    const rows = selectedListings.flatMap(listing =>
+      buildDailySeries(statsByListing.get(listing.id) ?? [], fromDay, toDay).map(d => [
+        d.day, listing.id, listing.title, d.impressions, d.views, d.contactClicks, d.whatsappShares, d.saves, d.inquiries,
+      ])
+    );
+    downloadCsv(`rentify-analytics-${fromDay}-to-${toDay}.csv`, toCsv(CSV_HEADERS, rows));
+  };
+
+  if (listings.length === 0) return null;
+
+  const listingOptions = [
+    { value: 'all', label: 'All listings' },
+    ...listings.map(l => ({ value: l.id, label: l.title })),
+  ];
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <h2 className="text-xl font-semibold">Analytics</h2>
+        <div className="flex flex-wrap items-end gap-3">
+          <Select
+            label="Listing"
+            name="analytics-listing"
+            options={listingOptions}
+            value={selectedListingId}
+            onChange={(e) => setSelectedListingId(e.target.value)}
+          />
+          <Input label="From" name="analytics-from" type="date" value={fromDay} max={toDay} onChange={(e) => setFromDay(e.target.value)} />
+          <Input label="To" name="analytics-to" type="date" value={toDay} min={fromDay} onChange={(e) => setToDay(e.target.value)} />
+          <div className="flex gap-2 mb-4">
+            {RANGE_PRESETS.map(days => (
+              <Button key={days} size="sm" variant="outline" onClick={() => applyPreset(days)}>{days}d</Button>
+            ))}
+            <Button size="sm" variant="secondary" onClick={handleExport} disabled={isLoading}>Export CSV</Button>
+          </div>
+        </div>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><LoadingSpinner text="Loading analytics..." /></div>
+      ) : (
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 p-4 border rounded bg-white">
+            <h3 className="font-medium mb-3">Daily activity</h3>
+            <TimeSeriesChart data={series} series={CHART_SERIES} />
+          </div>
+          <div className="p-4 border rounded bg-white">
+            <h3 className="font-medium mb-3">Conversion funnel</h3>
+            <ConversionFunnel
+              steps={[
+                { label: 'Impressions', value: totals.impressions },
+                { label: 'Views', value: totals.views },
+                { label: 'Inquiries', value: totals.inquiries },
+              ]}
+            />
+          </div>
+        </div>
+      )}
+
+      {!isLoading && benchmarks.length > 0 && (
+        <div className="p-4 border rounded bg-white overflow-x-auto">
+          <h3 className="font-medium mb-3">Compared with your neighbourhood</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">Listing</th>
+                <th className="py-2 pr-4">Neighbourhood</th>
+                <th className="py-2 pr-4">Views (avg)</th>
+                <th className="py-2 pr-4">Saves (avg)</th>
+                <th className="py-2">Inquiries (avg)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectedListings.map(listing => {
+                const benchmark = benchmarks.find(b => b.listingId === listing.id);
+                const own = sumSeries(buildDailySeries(statsByListing.get(listing.id) ?? [], fromDay, toDay));
+                return (
+                  <tr key={listing.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{listing.title}</td>
+                    <td className="py-2 pr-4">
+                      {benchmark?.neighborhood || listing.location.county}
+                      <span className="text-xs text-gray-500"> ({benchmark?.peerCount ?? 0} similar)</span>
+                    </td>
+                    <td className="py-2 pr-4">{own.views} <span className="text-gray-500">({benchmark?.avgViews ?? 0})</span></td>
+                    <td className="py-2 pr-4">{own.saves} <span className="text-gray-500">({benchmark?.avgSaves ?? 0})</span></td>
+                    <td className="py-2">{own.inquiries} <span className="text-gray-500">({benchmark?.avgInquiries ?? 0})</span></td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AnalyticsPanel;
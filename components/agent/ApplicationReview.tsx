@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PropertyListing, RentalApplication } from '../../types';
+import { rentalApplicationService } from '../../services/rentalApplicationService';
+import { ApplicationStatusStyles, EmploymentStatusOptions } from '../../constants';
+import Button from '../Button';
+import Textarea from '../Textarea';
+import LoadingSpinner from '../LoadingSpinner';
+import Alert from '../Alert';
+
+interface ApplicationReviewProps {
+  agentId: string;
+  listings: PropertyListing[];
+  onListingRented: () => void; // Refreshes the dashboard's listings after an acceptance marks one rented
+}
+
+const formatPrice = (amount: number) => `KES ${amount.toLocaleString('en-KE')}`;
+
+const employmentLabel = (value: RentalApplication['employmentStatus']) =>
+  EmploymentStatusOptions.find(option => option.value === value)?.label ?? value;
+
+const isOpen = (application: RentalApplication) =>
+  application.status === 'submitted' || application.status === 'shortlisted';
+
+const ApplicationReview: React.FC<ApplicationReviewProps> = ({ agentId, listings, onListingRented }) => {
+  const [applications, setApplications] = useState<RentalApplication[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showDecided, setShowDecided] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [markRented, setMarkRented] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchApplications = useCallback(async () => {
+    try {
+      setApplications(await rentalApplicationService.getApplicationsForAgent(agentId));
+    } catch (err) {
+      console.error('Failed to load applications:', err);
+      setError('Could not load rental applications.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchApplications();
+  }, [fetchApplications]);
+
+  const handleDecision = async (application: RentalApplication, decision: 'shortlisted' | 'accepted' | 'rejected') => {
+    if (decision === 'accepted' && !window.confirm(`Accept ${application.tenant.name || 'this applicant'} for ${application.listingTitle}?`)) return;
+    setIsDeciding(true);
+    setError(null);
+    try {
+      await rentalApplicationService.reviewApplication(application.id, decision, { reason: rejectReason, markRented });
+      setRejectReason('');
+      await fetchApplications();
+      if (decision === 'accepted' && markRented) onListingRented();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to update application');
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const handleOpenDocument = async (path: string) => {
+    try {
+      window.open(await rentalApplicationService.getDocumentUrl(path), '_blank', 'noopener');
+    } catch (err) {
+      console.error('Failed to open document:', err);
+      setError('Could not open the document.');
+    }
+  };
+
+  if (isLoading) return <LoadingSpinner size="sm" text="Loading applications..." />;
+
+  const openCount = applications.filter(isOpen).length;
+  const visible = showDecided ? applications : applications.filter(isOpen);
+  const selected = applications.find(a => a.id === selectedId);
+  const selectedRent = selected && listings.find(l => l.id === selected.listingId)?.price;
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">
+          Rental Applications
+          {openCount > 0 && (
+            <span className="ml-2 bg-blue-500 text-white text-xs font-semibold px-2 py-0.5 rounded-full">{openCount} open</span>
+          )}
+        </h2>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showDecided}
+            onChange={(e) => setShowDecided(e.target.checked)}
+            className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+          />
+          Show decided
+        </label>
+      </div>
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+      {visible.length === 0 ? (
+        <p>{applications.length === 0 ? 'No applications yet.' : 'No open applications.'}</p>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4">
+          <ul className="border rounded divide-y max-h-[32rem] overflow-y-auto">
+            {visible.map(application => (
+              <li key={application.id}>
+                <button
+                  onClick={() => { setSelectedId(application.id); setRejectReason(''); }}
+                  className={`w-full text-left p-3 hover:bg-green-50 ${selectedId === application.id ? 'bg-green-50' : ''}`}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-sm font-medium">{application.tenant.name || application.tenant.email}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${ApplicationStatusStyles[application.status].className}`}>
+                      {ApplicationStatusStyles[application.status].label}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">{application.listingTitle}</p>
+                  <p className="text-xs text-gray-500">{new Date(application.createdAt).toLocaleDateString('en-KE')}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="md:col-span-2 border rounded p-4">
+            {!selected ? (
+              <p className="text-gray-500">Select an application to review it.</p>
+            ) : (
+              <div className="space-y-4 text-sm">
+                <div>
+                  <h3 className="text-lg font-semibold">{selected.tenant.name || selected.tenant.email}</h3>
+                  <p className="text-gray-600">
+                    {selected.listingTitle} · {selected.tenant.email}
+                    {selected.tenant.phoneNumber && ` · ${selected.tenant.phoneNumber}`}
+                  </p>
+                </div>
+
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <dt className="text-gray-500">Employment</dt>
+                  <dd>
+                    {employmentLabel(selected.employmentStatus)}
+                    {selected.employerName && ` at ${selected.employerName}`}
+                    {selected.jobTitle && ` (${selected.jobTitle})`}
+                  </dd>
+                  <dt className="text-gray-500">Monthly income</dt>
+                  <dd>
+                    {formatPrice(selected.monthlyIncome)}
+                    {selectedRent && selected.monthlyIncome > 0 && (
+                      <span className="text-gray-500"> · rent is {Math.round((selectedRent / selected.monthlyIncome) * 100)}% of income</span>
+                    )}
+                  </dd>
+                  <dt className="text-gray-500">Occupants</dt>
+                  <dd>{selected.occupants}</dd>
+                  <dt className="text-gray-500">Move-in</dt>
+                  <dd>{selected.moveInDate ? new Date(selected.moveInDate).toLocaleDateString('en-KE') : 'Flexible'}</dd>
+                </dl>
+
+                {selected.message && <p className="whitespace-pre-line bg-gray-50 p-3 rounded">{selected.message}</p>}
+
+                <div>
+                  <p className="font-medium mb-1">References</p>
+                  <ul className="space-y-1">
+                    {selected.references.map((reference, index) => (
+                      <li key={index}>{reference.name} ({reference.relationship}) · {reference.phoneNumber}</li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div>
+                  <p className="font-medium mb-1">Documents</p>
+                  <ul className="space-y-1">
+                    {selected.documents.map(doc => (
+                      <li key={doc.id}>
+                        <button onClick={() => handleOpenDocument(doc.path)} className="text-blue-600 hover:underline">
+                          {doc.kind === 'id_document' ? 'ID document' : 'Payslip'}: {doc.fileName}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {selected.decisionReason && <p className="text-gray-600">Reason given: {selected.decisionReason}</p>}
+
+                {isOpen(selected) && (
+                  <div className="border-t pt-4 space-y-3">
+                    <label className="flex items-center text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={markRented}
+                        onChange={(e) => setMarkRented(e.target.checked)}
+                        className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                      />
+                      When accepting, mark the listing as rented and close its other applications
+                    </label>
+                    <Textarea
+                      name="rejectReason"
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                      placeholder="Reason for the applicant (required to reject)"
+                      rows={2}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {selected.status === 'submitted' && (
+                        <Button size="sm" variant="outline" onClick={() => handleDecision(selected, 'shortlisted')} disabled={isDeciding}>
+                          Shortlist
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => handleDecision(selected, 'accepted')} isLoading={isDeciding}>Accept</Button>
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        onClick={() => handleDecision(selected, 'rejected')}
+                        disabled={isDeciding || !rejectReason.trim()}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ApplicationReview;
@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface FunnelStep {
+  label: string;
+  value: number;
+}
+
+interface ConversionFunnelProps {
+  steps: FunnelStep[];
+}
+
+const formatRate = (value: number, previous: number) =>
+  previous > 0 ? `${((value / previous) * 100).toFixed(1)}%` : '—';
+
+/**
+ * Horizontal funnel showing each step's count as a share of the first step,
+ * with the conversion rate from the step before it.
+ */
+const ConversionFunnel: React.FC<ConversionFunnelProps> = ({ steps }) => {
+  const top = Math.max(1, steps[0]?.value ?? 0);
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step, i) => (
+        <div key={step.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium">{step.label}</span>
+            <span className="text-gray-600">
+              {step.value.toLocaleString()}
+              {i > 0 && <span className="ml-2 text-xs">({formatRate(step.value, steps[i - 1].value)} of {steps[i - 1].label.toLowerCase()})</span>}
+            </span>
+          </div>
+          <div className="h-4 bg-gray-100 rounded">
+            <div className="h-4 bg-blue-600 rounded" style={{ width: `${Math.min(100, (step.value / top) * 100)}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConversionFunnel;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Payment, PropertyListing } from '../../types';
+import { featuredPlacementService } from '../../services/featuredPlacementService';
+import { FEATURED_PLANS } from '../../services/featuredPlans';
+import Button from '../Button';
+import Input from '../Input';
+import Alert from '../Alert';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface FeatureListingModalProps {
+  listing: PropertyListing;
+  defaultPhoneNumber?: string;
+  onClose: () => void;
+  onFeatured: () => void; // Refreshes the dashboard once the listing is featured
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-KE', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const FeatureListingModal: React.FC<FeatureListingModalProps> = ({ listing, defaultPhoneNumber, onClose, onFeatured }) => {
+  const [planId, setPlanId] = useState(FEATURED_PLANS[0].id);
+  const [phoneNumber, setPhoneNumber] = useState(defaultPhoneNumber ?? '');
+  const [isWaiting, setIsWaiting] = useState(false);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isStillFeatured = listing.isFeatured && listing.featuredUntil && new Date(listing.featuredUntil) > new Date();
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWaiting(true);
+    setError(null);
+    setPayment(null);
+    try {
+      const paymentId = await featuredPlacementService.startPurchase(listing.id, planId, phoneNumber);
+      const result = await featuredPlacementService.waitForPayment(paymentId);
+      setPayment(result);
+      if (result.status === 'succeeded') onFeatured();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setIsWaiting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
+        <h2 className="text-2xl font-semibold mb-1">Feature this listing</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {listing.title}
+          {isStillFeatured && ` · featured until ${formatDate(listing.featuredUntil!)}; a new plan is added on top`}
+        </p>
+        {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+
+        {isWaiting ? (
+          <div className="py-6 text-center">
+            <LoadingSpinner size="md" text="Check your phone and enter your M-Pesa PIN to pay..." />
+          </div>
+        ) : payment?.status === 'succeeded' ? (
+          <div className="space-y-4">
+            <Alert
+              type="success"
+              message={`Paid (M-Pesa ${payment.mpesaReceipt}). Your listing is featured until ${formatDate(payment.featuredUntil ?? new Date().toISOString())}.`}
+            />
+            <div className="flex justify-end">
+              <Button onClick={onClose}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handlePay}>
+            {payment?.status === 'pending' && (
+              <Alert type="info" message="We haven't heard back from M-Pesa yet. If you paid, your listing will be featured shortly." />
+            )}
+            {(payment?.status === 'failed' || payment?.status === 'expired') && (
+              <Alert
+                type="error"
+                message={payment.status === 'expired'
+                  ? 'The M-Pesa prompt timed out. Please try again.'
+                  : `Payment not completed: ${payment.resultDesc || 'M-Pesa declined the request'}`}
+              />
+            )}
+            <fieldset className="mb-4">
+              <legend className="block text-sm font-medium text-gray-700 mb-2">Plan</legend>
+              <div className="space-y-2">
+                {FEATURED_PLANS.map(plan => (
+                  <label key={plan.id} className={`flex items-center justify-between p-3 border rounded cursor-pointer ${planId === plan.id ? 'border-green-500 bg-green-50' : ''}`}>
+                    <span className="flex items-center">
+                      <input
+                        type="radio"
+                        name="planId"
+                        value={plan.id}
+                        checked={planId === plan.id}
+                        onChange={() => setPlanId(plan.id)}
+                        className="h-4 w-4 mr-2 text-green-600 border-gray-300 focus:ring-green-500"
+                      />
+                      Featured for {plan.label}
+                    </span>
+                    <span className="font-semibold">KES {plan.amount.toLocaleString('en-KE')}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <Input
+              label="M-Pesa phone number"
+              name="mpesaPhoneNumber"
+              placeholder="0712 345 678"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              required
+            />
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+              <Button type="submit">Pay with M-Pesa</Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeatureListingModal;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Inquiry } from '../../types';
+import { inquiryService } from '../../services/inquiryService';
+import InquiryThread from '../InquiryThread';
+import LoadingSpinner from '../LoadingSpinner';
+import Alert from '../Alert';
+
+interface InquiryInboxProps {
+  agentId: string;
+}
+
+const InquiryInbox: React.FC<InquiryInboxProps> = ({ agentId }) => {
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInquiries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setInquiries(await inquiryService.getInquiriesForAgent(agentId));
+    } catch (err) {
+      console.error('Failed to load inquiries:', err);
+      setError('Could not load your inbox.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchInquiries();
+  }, [fetchInquiries]);
+
+  const handleSelect = async (inquiry: Inquiry) => {
+    setSelectedId(inquiry.id);
+    if (inquiry.unreadCount === 0) return;
+    try {
+      await inquiryService.markInquiryRead(inquiry.id, agentId);
+      setInquiries(prev => prev.map(i => (i.id === inquiry.id ? { ...i, unreadCount: 0 } : i)));
+    } catch (err) {
+      console.error('Failed to mark inquiry as read:', err);
+    }
+  };
+
+  const handleReply = async (body: string) => {
+    if (!selectedId) return;
+    const updated = await inquiryService.replyToInquiry(selectedId, agentId, body);
+    setInquiries(prev => [updated, ...prev.filter(i => i.id !== updated.id)]);
+  };
+
+  const selected = inquiries.find(i => i.id === selectedId);
+  const totalUnread = inquiries.reduce((sum, i) => sum + i.unreadCount, 0);
+
+  if (isLoading) return <LoadingSpinner size="sm" text="Loading inbox..." />;
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold mb-4">
+        Inbox
+        {totalUnread > 0 && (
+          <span className="ml-2 bg-red-500 text-white text-xs font-semibold px-2 py-0.5 rounded-full">{totalUnread} unread</span>
+        )}
+      </h2>
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+      {inquiries.length === 0 ? (
+        <p>No inquiries yet.</p>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4">
+          <ul className="border rounded divide-y max-h-[32rem] overflow-y-auto">
+            {inquiries.map((inquiry) => {
+              const lastMessage = inquiry.messages[inquiry.messages.length - 1];
+              return (
+                <li key={inquiry.id}>
+                  <button
+                    onClick={() => handleSelect(inquiry)}
+                    className={`w-full text-left p-3 hover:bg-green-50 ${selectedId === inquiry.id ? 'bg-green-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className={`text-sm ${inquiry.unreadCount > 0 ? 'font-semibold' : ''}`}>{inquiry.tenant.name || inquiry.tenant.email}</span>
+                      {inquiry.unreadCount > 0 && (
+                        <span className="bg-green-600 text-white text-xs px-2 rounded-full">{inquiry.unreadCount}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{inquiry.listingTitle}</p>
+                    {lastMessage && <p className="text-xs text-gray-600 truncate">{lastMessage.body}</p>}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="md:col-span-2 border rounded p-4">
+            {selected ? (
+              <>
+                <div className="mb-3">
+                  <p className="font-medium">{selected.tenant.name || selected.tenant.email}</p>
+                  <Link to={`/listing/${selected.listingId}`} className="text-sm text-green-600 hover:underline">{selected.listingTitle}</Link>
+                </div>
+                <InquiryThread inquiry={selected} currentUserId={agentId} onReply={handleReply} />
+              </>
+            ) : (
+              <p className="text-gray-500 text-sm">Select a conversation to read and reply.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default InquiryInbox;
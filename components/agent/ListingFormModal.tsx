@@ -1,12 +1,23 @@
-import React, { useState, useEffect } from 'react';
-import { PropertyListing, User, PropertyImage } from '../../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { PropertyListing, User, PropertyImage, UserRole } from '../../types';
 import { geminiService } from '../../services/geminiService';
+import { listingService } from '../../services/listingService';
+import {
+  localDraftKey,
+  getLocalDraft,
+  saveLocalDraft,
+  deleteLocalDraft,
+  type ListingFormFields,
+  type LocalListingDraft,
+} from '../../utils/listingDraftStore';
+import { validateListing, type ListingField, type ListingValidationErrors } from '../../utils/listingValidation';
 import Button from '../Button';
 import Input from '../Input';
 import Textarea from '../Textarea';
 import Select from '../Select';
 import Alert from '../Alert';
-import { SparklesIcon, KenyanCounties } from '../../constants';
+import ListingCard from '../ListingCard';
+import { SparklesIcon, KenyanCounties, PropertyTypeOptions, CommonAmenities } from '../../constants';
 
 interface ListingFormModalProps {
   isOpen: boolean;
@@ -14,13 +25,61 @@ interface ListingFormModalProps {
   onSubmit: (
     formData: Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'saves' | 'agent' | 'images'>,
     imageFiles: File[],
-    imagesToRemove?: string[]
+    imagesToRemove?: string[],
+    draftId?: string // Server draft the form autosaved to; the submitted listing replaces it
   ) => Promise<void>;
   initialData?: PropertyListing | null;
   agent?: User;
+  agentId?: string; // Turns on autosave
+  onDraftsChanged?: () => void; // Called when closing leaves a draft behind, or a draft is discarded
 }
 
-const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, onSubmit, initialData, agent }) => {
+// Each step checks its fields before the agent can move on; review shows the listing as tenants will see it
+const WIZARD_STEPS: { id: string; label: string; fields: ListingField[] }[] = [
+  { id: 'basics', label: 'Basics', fields: ['title', 'description', 'propertyType'] },
+  { id: 'location', label: 'Location', fields: ['location.address', 'location.county', 'location.neighborhood'] },
+  { id: 'pricing', label: 'Pricing', fields: ['price', 'bedrooms', 'bathrooms', 'areaSqFt'] },
+  { id: 'amenities', label: 'Amenities', fields: ['amenities'] },
+  { id: 'photos', label: 'Photos', fields: [] },
+  { id: 'review', label: 'Review', fields: [] },
+];
+
+const REVIEW_STEP = WIZARD_STEPS.length - 1;
+
+const hasErrors = (errors: ListingValidationErrors) => Object.values(errors).some(Boolean);
+
+const LOCAL_AUTOSAVE_DELAY_MS = 1000;
+const SERVER_AUTOSAVE_DELAY_MS = 5000;
+
+// An empty form isn't worth a draft on the server
+const hasDraftContent = (formData: ListingFormFields) =>
+  Boolean(formData.title.trim() || formData.description.trim());
+
+/**
+ * Saves the form on the device, under the draft's key once the server has given it an ID.
+ */
+const keepOnDevice = async (
+  agentId: string,
+  editingId: string | undefined,
+  draftId: string | null,
+  state: Pick<LocalListingDraft, 'formData' | 'imageFiles' | 'imagesToRemove'>
+) => {
+  await saveLocalDraft({
+    key: localDraftKey(agentId, draftId ?? editingId),
+    draftId: draftId ?? undefined,
+    ...state,
+    savedAt: new Date().toISOString(),
+  });
+  if (draftId && !editingId) await deleteLocalDraft(localDraftKey(agentId));
+};
+
+const forgetOnDevice = (agentId: string, editingId: string | undefined, draftId: string | null) =>
+  Promise.all([
+    deleteLocalDraft(localDraftKey(agentId, draftId ?? editingId)),
+    ...(editingId ? [] : [deleteLocalDraft(localDraftKey(agentId))]),
+  ]);
+
+const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, onSubmit, initialData, agent, agentId, onDraftsChanged }) => {
   const [formData, setFormData] = useState<Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'saves' | 'agent'>>({
     title: '',
     description: '',
@@ -29,6 +88,8 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
     bedrooms: 1,
     bathrooms: 1,
     areaSqFt: 0,
+    propertyType: 'apartment',
+    isFurnished: false,
     amenities: [],
     images: [],
     status: 'pending_verification',
@@ -41,6 +102,24 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
   const [existingImages, setExistingImages] = useState<PropertyImage[]>([]);
   const [imagesToRemove, setImagesToRemove] = useState<string[]>([]);
   const [isEnhancing, setIsEnhancing] = useState(false);
+  const [isDirty, setIsDirty] = useState(false); // Changed since opened or restored
+  const [isClosing, setIsClosing] = useState(false);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [draftSaveFailed, setDraftSaveFailed] = useState(false);
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [fieldErrors, setFieldErrors] = useState<ListingValidationErrors>({});
+  const draftIdRef = useRef<string | null>(null);
+  const serverSaves = useRef<Promise<void>>(Promise.resolve()); // Saves run one at a time so a new form gets one draft
+
+  const isResumingDraft = initialData?.status === 'draft';
+  const isResubmitting = initialData?.status === 'rejected';
+  // Published listings are only autosaved on the device; the server copy changes when the agent saves
+  const savesServerDraft = Boolean(agentId) && (!initialData || isResumingDraft);
+
+  const newImagePreviews = useMemo(() => imageFiles.map(file => URL.createObjectURL(file)), [imageFiles]);
+  useEffect(() => () => newImagePreviews.forEach(url => URL.revokeObjectURL(url)), [newImagePreviews]);
 
   useEffect(() => {
     if (isOpen) {
@@ -68,6 +147,8 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
           bedrooms: 1,
           bathrooms: 1,
           areaSqFt: 0,
+          propertyType: 'apartment',
+          isFurnished: false,
           amenities: [],
           images: [],
           status: 'pending_verification',
@@ -78,11 +159,77 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
       }
       setImageFiles([]);
       setFormError('');
+      setStepIndex(0);
+      setFieldErrors({});
+      draftIdRef.current = isResumingDraft ? initialData!.id : null;
+      setDraftId(draftIdRef.current);
+      setIsDirty(false);
+      setDraftSavedAt(null);
+      setDraftSaveFailed(false);
+      setRestoredAt(null);
     }
-  }, [initialData, isOpen]);
+  }, [initialData, isOpen, isResumingDraft]);
+
+  // Bring back what was typed on this device if it's newer than what the server has
+  useEffect(() => {
+    if (!isOpen || !agentId) return;
+    let cancelled = false;
+    getLocalDraft(localDraftKey(agentId, initialData?.id))
+      .then((local) => {
+        if (!local || cancelled) return;
+        const isNewer = !initialData?.updatedAt || Date.parse(local.savedAt) > Date.parse(initialData.updatedAt);
+        if (isNewer) {
+          setFormData(local.formData);
+          setImagesToRemove(local.imagesToRemove);
+          setExistingImages((initialData?.images ?? []).filter(img => !local.imagesToRemove.includes(img.id)));
+          if (!initialData && local.draftId) {
+            draftIdRef.current = local.draftId;
+            setDraftId(local.draftId);
+          }
+        }
+        setImageFiles(local.imageFiles);
+        if (isNewer || local.imageFiles.length > 0) setRestoredAt(local.savedAt);
+      })
+      .catch((err) => console.warn('[ListingFormModal] Could not read the saved copy:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, initialData, isOpen]);
+
+  const queueServerSave = useCallback((fields: ListingFormFields) => {
+    serverSaves.current = serverSaves.current.then(async () => {
+      try {
+        draftIdRef.current = await listingService.saveDraft(draftIdRef.current, fields);
+        setDraftId(draftIdRef.current);
+        setDraftSavedAt(new Date());
+        setDraftSaveFailed(false);
+      } catch (err) {
+        console.error('[ListingFormModal] Draft autosave failed:', err);
+        setDraftSaveFailed(true);
+      }
+    });
+    return serverSaves.current;
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || !isDirty || !agentId || isSubmitting || isClosing) return;
+    const timer = setTimeout(() => {
+      keepOnDevice(agentId, initialData?.id, draftId, { formData, imageFiles, imagesToRemove })
+        .catch((err) => console.warn('[ListingFormModal] Could not save on this device:', err));
+    }, LOCAL_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, isDirty, agentId, isSubmitting, isClosing, initialData, draftId, formData, imageFiles, imagesToRemove]);
+
+  useEffect(() => {
+    if (!isOpen || !isDirty || !savesServerDraft || isSubmitting || isClosing || !hasDraftContent(formData)) return;
+    const timer = setTimeout(() => queueServerSave(formData), SERVER_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isOpen, isDirty, savesServerDraft, isSubmitting, isClosing, formData, queueServerSave]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
+    setIsDirty(true);
+    setFieldErrors(prev => ({ ...prev, [name === 'amenities-text' ? 'amenities' : name]: undefined }));
 
     if (name.startsWith('location.')) {
       const locField = name.split('.')[1];
@@ -116,20 +263,24 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setImageFiles(Array.from(e.target.files));
+      setIsDirty(true);
     }
   };
 
   const removeExistingImage = (imageId: string) => {
     setImagesToRemove(prev => [...prev, imageId]);
     setExistingImages(prev => prev.filter(img => img.id !== imageId));
+    setIsDirty(true);
   };
 
   const removeNewImage = (index: number) => {
     setImageFiles(prev => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
   };
 
   const restoreExistingImage = (imageId: string) => {
     setImagesToRemove(prev => prev.filter(id => id !== imageId));
+    setIsDirty(true);
     // Find the image in the original data and restore it
     if (initialData?.images) {
       const imageToRestore = initialData.images.find(img => img.id === imageId);
@@ -139,14 +290,52 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
     }
   };
 
+  const goToStep = (index: number) => {
+    setStepIndex(index);
+    setFormError('');
+  };
+
+  const handleNext = () => {
+    const errors = validateListing(formData, WIZARD_STEPS[stepIndex].fields);
+    setFieldErrors(errors);
+    if (!hasErrors(errors)) goToStep(stepIndex + 1);
+  };
+
+  // Going back is always allowed; going forward stops at the first step with a problem
+  const handleStepClick = (index: number) => {
+    if (index <= stepIndex) return goToStep(index);
+    const blockedAt = WIZARD_STEPS.slice(0, index).findIndex(step => hasErrors(validateListing(formData, step.fields)));
+    if (blockedAt === -1) return goToStep(index);
+    setFieldErrors(validateListing(formData, WIZARD_STEPS[blockedAt].fields));
+    goToStep(blockedAt);
+  };
+
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (stepIndex < REVIEW_STEP) return handleNext(); // Enter in a field moves on rather than submitting
+
+    const errors = validateListing(formData);
+    if (hasErrors(errors)) {
+      setFieldErrors(errors);
+      goToStep(Math.max(0, WIZARD_STEPS.findIndex(step => step.fields.some(field => errors[field]))));
+      return;
+    }
+
     setIsSubmitting(true);
     setFormError('');
     const { images, ...restOfData } = formData;
 
     try {
-      await onSubmit(restOfData, imageFiles, imagesToRemove);
+      await serverSaves.current; // An autosave still in flight could otherwise leave a second draft behind
+      // Submitting a draft, or a fixed rejected listing, sends it (back) to moderation
+      const listingData = restOfData.status === 'draft' || restOfData.status === 'rejected'
+        ? { ...restOfData, status: 'pending_verification' as const }
+        : restOfData;
+      await onSubmit(listingData, imageFiles, imagesToRemove, draftIdRef.current ?? undefined);
+      if (agentId) {
+        await forgetOnDevice(agentId, initialData?.id, draftIdRef.current)
+          .catch((err) => console.warn('[ListingFormModal] Could not clear the saved copy:', err));
+      }
       onClose();
     } catch (err: any) {
       setFormError(err.message || 'Failed to submit listing.');
@@ -159,7 +348,7 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
     setIsEnhancing(true);
     setFormError('');
     try {
-      const enhanced = await geminiService.enhanceListingContent({
+      const { data: enhanced, error } = await geminiService.enhanceListingContent({
         title: formData.title,
         description: formData.description,
         location: formData.location,
@@ -168,16 +357,17 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
         bathrooms: formData.bathrooms,
         amenities: formData.amenities,
       });
-      if (enhanced) {
-        setFormData(prev => ({
-          ...prev,
-          title: enhanced.suggestedTitle || prev.title,
-          description: enhanced.enhancedDescription || prev.description,
-        }));
-        if (enhanced.pricingAdvice) alert(`AI Pricing Tip: ${enhanced.pricingAdvice}`);
-      } else {
-        setFormError('Could not enhance content at this time.');
+      if (error) {
+        setFormError(`Could not enhance content: ${error.message}`);
+        return;
       }
+      setFormData(prev => ({
+        ...prev,
+        title: enhanced.suggestedTitle || prev.title,
+        description: enhanced.enhancedDescription || prev.description,
+      }));
+      setIsDirty(true);
+      if (enhanced.pricingAdvice) alert(`AI Pricing Tip: ${enhanced.pricingAdvice}`);
     } catch {
       setFormError('Error during AI enhancement.');
     } finally {
@@ -185,146 +375,308 @@ const ListingFormModal: React.FC<ListingFormModalProps> = ({ isOpen, onClose, on
     }
   };
 
+  // Closing keeps the work: it's saved on the device and, for new listings and drafts, as a draft
+  const handleClose = async () => {
+    if (isDirty && agentId) {
+      setIsClosing(true);
+      if (savesServerDraft && hasDraftContent(formData)) await queueServerSave(formData);
+      await keepOnDevice(agentId, initialData?.id, draftIdRef.current, { formData, imageFiles, imagesToRemove })
+        .catch((err) => console.warn('[ListingFormModal] Could not save on this device:', err));
+      setIsClosing(false);
+    }
+    if (draftIdRef.current && !isResumingDraft) onDraftsChanged?.();
+    onClose();
+  };
+
+  const handleDiscard = async () => {
+    const question = savesServerDraft ? 'Discard this draft?' : 'Discard your unsaved changes to this listing?';
+    if (!window.confirm(question)) return;
+    setIsClosing(true);
+    try {
+      await serverSaves.current;
+      if (draftIdRef.current) await listingService.discardDraft(draftIdRef.current);
+      if (agentId) await forgetOnDevice(agentId, initialData?.id, draftIdRef.current);
+      if (draftIdRef.current) onDraftsChanged?.();
+      onClose();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : 'Failed to discard the draft.');
+      setIsClosing(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   const countyOptions = KenyanCounties.map(c => ({ value: c, label: c }));
+  const step = WIZARD_STEPS[stepIndex];
+
+  const previewListing: PropertyListing = {
+    ...formData,
+    id: initialData?.id ?? 'preview',
+    agent: agent ?? initialData?.agent ?? {
+      id: agentId ?? '',
+      email: '',
+      name: 'You',
+      role: UserRole.AGENT,
+      isVerifiedAgent: false,
+      createdAt: new Date().toISOString(),
+    },
+    images: [
+      ...existingImages,
+      ...newImagePreviews.map((url, index) => ({ id: `new-${index}`, url, aiScanStatus: 'pending' as const })),
+    ],
+    createdAt: initialData?.createdAt ?? new Date().toISOString(),
+    updatedAt: initialData?.updatedAt ?? new Date().toISOString(),
+    views: initialData?.views ?? 0,
+    saves: initialData?.saves ?? 0,
+  };
+
+  const reviewRows = [
+    { step: 0, label: 'Description', value: formData.description },
+    {
+      step: 1,
+      label: 'Address',
+      value: [formData.location.address, formData.location.neighborhood, formData.location.county].filter(Boolean).join(', '),
+    },
+    {
+      step: 2,
+      label: 'Details',
+      value: `${PropertyTypeOptions.find(o => o.value === formData.propertyType)?.label ?? formData.propertyType}, ${formData.isFurnished ? 'furnished' : 'unfurnished'}${formData.areaSqFt ? `, ${formData.areaSqFt} sq ft` : ''}`,
+    },
+    { step: 3, label: 'Amenities', value: (formData.amenities ?? []).join(', ') || 'None listed' },
+    { step: 4, label: 'Photos', value: `${existingImages.length + imageFiles.length} photo${existingImages.length + imageFiles.length === 1 ? '' : 's'}` },
+  ];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
-        <h2 className="text-2xl font-semibold mb-4">{initialData ? 'Edit' : 'Create New'} Listing</h2>
+        <h2 className="text-2xl font-semibold mb-4">{isResumingDraft ? 'Finish' : initialData ? 'Edit' : 'Create New'} Listing</h2>
+        <ol className="flex flex-wrap gap-2 mb-6 text-sm">
+          {WIZARD_STEPS.map((wizardStep, index) => (
+            <li key={wizardStep.id}>
+              <button
+                type="button"
+                onClick={() => handleStepClick(index)}
+                aria-current={index === stepIndex ? 'step' : undefined}
+                className={`px-3 py-1 rounded-full ${index === stepIndex ? 'bg-green-600 text-white' : index < stepIndex ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}
+              >
+                {index + 1}. {wizardStep.label}
+              </button>
+            </li>
+          ))}
+        </ol>
         {formError && <Alert type="error" message={formError} onClose={() => setFormError('')} />}
-        <form onSubmit={handleFormSubmit} className="space-y-4">
-          <Input label="Title" name="title" value={formData.title ?? ''} onChange={handleChange} required />
-          <div className="relative">
-            <Textarea label="Description" name="description" value={formData.description ?? ''} onChange={handleChange} required />
-            <Button
-              type="button"
-              onClick={handleEnhanceContent}
-              isLoading={isEnhancing}
-              size="sm"
-              variant="outline"
-              className="absolute top-0 right-0 mt-1 mr-1"
-              title="Enhance with AI"
-            >
-              <SparklesIcon className="w-4 h-4" /> {!isEnhancing && 'AI'}
-            </Button>
-          </div>
-          <Input label="Address (Street, Building)" name="location.address" value={formData.location.address ?? ''} onChange={handleChange} required />
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Select label="County" name="location.county" options={countyOptions} value={formData.location.county ?? 'Nairobi'} onChange={handleChange} required />
-            <Input label="Neighborhood" name="location.neighborhood" value={formData.location.neighborhood ?? ''} onChange={handleChange} required />
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Input label="Price (KES per month)" name="price" type="number" value={formData.price ?? 0} onChange={handleChange} required />
-            <Input label="Bedrooms" name="bedrooms" type="number" min="0" value={formData.bedrooms ?? 1} onChange={handleChange} required />
-            <Input label="Bathrooms" name="bathrooms" type="number" min="0" value={formData.bathrooms ?? 1} onChange={handleChange} required />
-          </div>
-          <Input label="Area (sq ft, optional)" name="areaSqFt" type="number" min="0" value={formData.areaSqFt ?? 0} onChange={handleChange} />
-          <Textarea label="Amenities (comma-separated)" name="amenities-text" value={(formData.amenities ?? []).join(', ')} onChange={handleChange} placeholder="e.g. Parking, Balcony, Borehole" />
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Images</label>
-            
-            {/* Existing Images */}
-            {existingImages.length > 0 && (
-              <div className="mb-4">
-                <p className="text-sm text-gray-600 mb-2">Current Images:</p>
-                <div className="flex flex-wrap gap-2">
-                  {existingImages.map(img => (
-                    <div key={img.id} className="relative w-20 h-20 border rounded overflow-hidden group">
-                      <img src={img.url} alt={img.altText || 'property image'} className="w-full h-full object-cover" />
-                      {img.aiScanStatus?.startsWith('flagged') && (
-                        <div title={img.aiScanReason} className="absolute top-0 left-0 bg-yellow-400 text-xs p-0.5 rounded-br-md">⚠️</div>
-                      )}
-                      <button
-                        type="button"
-                        onClick={() => removeExistingImage(img.id)}
-                        className="absolute top-0 right-0 bg-red-500 text-white rounded-bl-md text-xs px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                        title="Remove image"
-                      >
-                        ×
-                      </button>
-                    </div>
-                  ))}
-                </div>
+        {restoredAt && (
+          <Alert
+            type="info"
+            message={`Restored what you typed on this device on ${new Date(restoredAt).toLocaleString('en-KE', { dateStyle: 'medium', timeStyle: 'short' })}.`}
+            onClose={() => setRestoredAt(null)}
+          />
+        )}
+        <form onSubmit={handleFormSubmit} noValidate className="space-y-4">
+          {step.id === 'basics' && (
+            <>
+              <Input label="Title" name="title" value={formData.title ?? ''} onChange={handleChange} error={fieldErrors.title} placeholder="e.g. Spacious 2BR apartment with borehole" required />
+              <div className="relative">
+                <Textarea label="Description" name="description" value={formData.description ?? ''} onChange={handleChange} error={fieldErrors.description} rows={6} required />
+                <Button
+                  type="button"
+                  onClick={handleEnhanceContent}
+                  isLoading={isEnhancing}
+                  size="sm"
+                  variant="outline"
+                  className="absolute top-0 right-0 mt-1 mr-1"
+                  title="Enhance with AI"
+                >
+                  <SparklesIcon className="w-4 h-4" /> {!isEnhancing && 'AI'}
+                </Button>
+              </div>
+              <Select label="Property Type" name="propertyType" options={PropertyTypeOptions} value={formData.propertyType} onChange={handleChange} error={fieldErrors.propertyType} required />
+            </>
+          )}
+
+          {step.id === 'location' && (
+            <>
+              <Input label="Address (Street, Building)" name="location.address" value={formData.location.address ?? ''} onChange={handleChange} error={fieldErrors['location.address']} required />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select label="County" name="location.county" options={countyOptions} value={formData.location.county ?? 'Nairobi'} onChange={handleChange} error={fieldErrors['location.county']} required />
+                <Input label="Neighborhood" name="location.neighborhood" value={formData.location.neighborhood ?? ''} onChange={handleChange} error={fieldErrors['location.neighborhood']} required />
+              </div>
+            </>
+          )}
+
+          {step.id === 'pricing' && (
+            <>
+              <Input label="Price (KES per month)" name="price" type="number" min="0" value={formData.price ?? 0} onChange={handleChange} error={fieldErrors.price} required />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input label="Bedrooms" name="bedrooms" type="number" min="0" value={formData.bedrooms ?? 1} onChange={handleChange} error={fieldErrors.bedrooms} required />
+                <Input label="Bathrooms" name="bathrooms" type="number" min="1" value={formData.bathrooms ?? 1} onChange={handleChange} error={fieldErrors.bathrooms} required />
+                <Input label="Area (sq ft, optional)" name="areaSqFt" type="number" min="0" value={formData.areaSqFt ?? 0} onChange={handleChange} error={fieldErrors.areaSqFt} />
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="isFurnished"
+                  name="isFurnished"
+                  checked={formData.isFurnished ?? false}
+                  onChange={handleChange}
+                  className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                <label htmlFor="isFurnished" className="ml-2 block text-sm text-gray-900">Furnished</label>
               </div>
-            )}
-
-            {/* Removed Images (with option to restore) */}
-            {imagesToRemove.length > 0 && (
-              <div className="mb-4">
-                <p className="text-sm text-gray-600 mb-2">Removed Images (click to restore):</p>
-                <div className="flex flex-wrap gap-2">
-                  {imagesToRemove.map(imageId => {
-                    const img = initialData?.images?.find(i => i.id === imageId);
-                    if (!img) return null;
-                    return (
-                      <div key={img.id} className="relative w-20 h-20 border-2 border-red-300 rounded overflow-hidden opacity-50 cursor-pointer hover:opacity-75" onClick={() => restoreExistingImage(img.id)}>
+            </>
+          )}
+
+          {step.id === 'amenities' && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {CommonAmenities.map(amenity => (
+                  <label key={amenity} className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      name="amenities"
+                      value={amenity}
+                      checked={(formData.amenities ?? []).includes(amenity)}
+                      onChange={handleChange}
+                      className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    {amenity}
+                  </label>
+                ))}
+              </div>
+              <Textarea label="Amenities (comma-separated)" name="amenities-text" value={(formData.amenities ?? []).join(', ')} onChange={handleChange} error={fieldErrors.amenities} placeholder="e.g. Parking, Balcony, Borehole" />
+            </>
+          )}
+
+          {step.id === 'photos' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Images</label>
+
+              {/* Existing Images */}
+              {existingImages.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm text-gray-600 mb-2">Current Images:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {existingImages.map(img => (
+                      <div key={img.id} className="relative w-20 h-20 border rounded overflow-hidden group">
                         <img src={img.url} alt={img.altText || 'property image'} className="w-full h-full object-cover" />
-                        <div className="absolute inset-0 bg-red-500 bg-opacity-30 flex items-center justify-center">
-                          <span className="text-white text-xs">Restore</span>
-                        </div>
+                        {img.aiScanStatus?.startsWith('flagged') && (
+                          <div title={img.aiScanReason} className="absolute top-0 left-0 bg-yellow-400 text-xs p-0.5 rounded-br-md">⚠️</div>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeExistingImage(img.id)}
+                          className="absolute top-0 right-0 bg-red-500 text-white rounded-bl-md text-xs px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove image"
+                        >
+                          ×
+                        </button>
                       </div>
-                    );
-                  })}
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {/* Add New Images */}
-            <input
-              type="file"
-              name="images"
-              onChange={handleImageChange}
-              multiple
-              accept="image/*"
-              className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-green-50 file:text-green-700 hover:file:bg-green-100"
-            />
-            
-            {/* New Images Preview */}
-            {imageFiles.length > 0 && (
-              <div className="mt-2">
-                <p className="text-sm text-gray-600 mb-2">New Images:</p>
-                <div className="flex flex-wrap gap-2">
-                  {imageFiles.map((file, index) => (
-                    <div key={index} className="relative w-20 h-20 border-2 border-green-300 rounded overflow-hidden group">
-                      <img src={URL.createObjectURL(file)} alt={file.name} className="w-full h-full object-cover" />
-                      <button
-                        type="button"
-                        onClick={() => removeNewImage(index)}
-                        className="absolute top-0 right-0 bg-red-500 text-white rounded-bl-md text-xs px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                        title="Remove image"
-                      >
-                        ×
-                      </button>
-                      <div className="absolute bottom-0 left-0 bg-green-500 text-white text-xs px-1 py-0.5 rounded-tr-md">
-                        New
+              )}
+
+              {/* Removed Images (with option to restore) */}
+              {imagesToRemove.length > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm text-gray-600 mb-2">Removed Images (click to restore):</p>
+                  <div className="flex flex-wrap gap-2">
+                    {imagesToRemove.map(imageId => {
+                      const img = initialData?.images?.find(i => i.id === imageId);
+                      if (!img) return null;
+                      return (
+                        <div key={img.id} className="relative w-20 h-20 border-2 border-red-300 rounded overflow-hidden opacity-50 cursor-pointer hover:opacity-75" onClick={() => restoreExistingImage(img.id)}>
+                          <img src={img.url} alt={img.altText || 'property image'} className="w-full h-full object-cover" />
+                          <div className="absolute inset-0 bg-red-500 bg-opacity-30 flex items-center justify-center">
+                            <span className="text-white text-xs">Restore</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Add New Images */}
+              <input
+                type="file"
+                name="images"
+                onChange={handleImageChange}
+                multiple
+                accept="image/*"
+                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-green-50 file:text-green-700 hover:file:bg-green-100"
+              />
+
+              {/* New Images Preview */}
+              {imageFiles.length > 0 && (
+                <div className="mt-2">
+                  <p className="text-sm text-gray-600 mb-2">New Images:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {imageFiles.map((file, index) => (
+                      <div key={index} className="relative w-20 h-20 border-2 border-green-300 rounded overflow-hidden group">
+                        <img src={newImagePreviews[index]} alt={file.name} className="w-full h-full object-cover" />
+                        <button
+                          type="button"
+                          onClick={() => removeNewImage(index)}
+                          className="absolute top-0 right-0 bg-red-500 text-white rounded-bl-md text-xs px-1 py-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove image"
+                        >
+                          ×
+                        </button>
+                        <div className="absolute bottom-0 left-0 bg-green-500 text-white text-xs px-1 py-0.5 rounded-tr-md">
+                          New
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
-          <div className="flex items-center">
-            <input
-              type="checkbox"
-              id="isFeatured"
-              name="isFeatured"
-              checked={formData.isFeatured ?? false}
-              onChange={handleChange}
-              className="h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
-            />
-            <label htmlFor="isFeatured" className="ml-2 block text-sm text-gray-900">Mark as Featured</label>
-          </div>
+          {step.id === 'review' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-3">This is how your listing will appear in search.</p>
+              {/* Preview only: the card's links and save button don't do anything here */}
+              <div className="max-w-sm pointer-events-none">
+                <ListingCard listing={previewListing} />
+              </div>
+              <dl className="mt-4 text-sm divide-y">
+                {reviewRows.map(row => (
+                  <div key={row.label} className="flex gap-4 py-2">
+                    <dt className="w-24 shrink-0 text-gray-500">{row.label}</dt>
+                    <dd className="flex-grow text-gray-900 line-clamp-2">{row.value}</dd>
+                    <button type="button" onClick={() => goToStep(row.step)} className="text-blue-600 hover:underline">Edit</button>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
 
-          <div className="flex justify-end space-x-3 pt-4">
-            <Button type="button" variant="secondary" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
-            <Button type="submit" isLoading={isSubmitting} disabled={isSubmitting}>
-              {initialData ? 'Save Changes' : 'Create Listing'}
-            </Button>
+          <div className="flex justify-between items-center gap-3 pt-4">
+            <div className="flex items-center gap-3 text-sm text-gray-500">
+              {(draftId || isDirty || restoredAt) && (
+                <Button type="button" variant="outline" size="sm" onClick={handleDiscard} disabled={isSubmitting || isClosing}>
+                  {savesServerDraft ? 'Discard Draft' : 'Discard Changes'}
+                </Button>
+              )}
+              {draftSaveFailed
+                ? <span className="text-orange-600">Draft saved on this device only</span>
+                : draftSavedAt && <span>Draft saved {draftSavedAt.toLocaleTimeString('en-KE', { hour: '2-digit', minute: '2-digit' })}</span>}
+            </div>
+            <div className="flex space-x-3">
+              <Button type="button" variant="secondary" onClick={handleClose} isLoading={isClosing} disabled={isSubmitting || isClosing}>Close</Button>
+              {stepIndex > 0 && (
+                <Button type="button" variant="outline" onClick={() => goToStep(stepIndex - 1)} disabled={isSubmitting || isClosing}>Back</Button>
+              )}
+              {stepIndex < REVIEW_STEP ? (
+                <Button key="next" type="button" onClick={handleNext} disabled={isClosing}>Next</Button>
+              ) : (
+                <Button key="submit" type="submit" isLoading={isSubmitting} disabled={isSubmitting || isClosing}>
+                  {isResumingDraft ? 'Submit Listing' : isResubmitting ? 'Resubmit for Review' : initialData ? 'Save Changes' : 'Create Listing'}
+                </Button>
+              )}
+            </div>
           </div>
         </form>
       </div>
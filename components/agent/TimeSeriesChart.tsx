@@ -0,0 +1,96 @@
+import React from 'react';
+import type { DailyTotals } from '../../utils/analyticsSeries';
+
+export interface ChartSeries {
+  key: keyof Omit<DailyTotals, 'day'>;
+  label: string;
+  color: keyof typeof COLOR_CLASSES;
+}
+
+interface TimeSeriesChartProps {
+  data: DailyTotals[];
+  series: ChartSeries[];
+  height?: number;
+}
+
+// Full class names so Tailwind picks them up when scanning this file
+const COLOR_CLASSES = {
+  blue: { stroke: 'stroke-blue-600', fill: 'fill-blue-600', swatch: 'bg-blue-600' },
+  green: { stroke: 'stroke-green-600', fill: 'fill-green-600', swatch: 'bg-green-600' },
+  purple: { stroke: 'stroke-purple-600', fill: 'fill-purple-600', swatch: 'bg-purple-600' },
+  orange: { stroke: 'stroke-orange-500', fill: 'fill-orange-500', swatch: 'bg-orange-500' },
+};
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 32 };
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString('en-KE', { day: 'numeric', month: 'short' });
+
+/**
+ * Lightweight SVG line chart of daily totals. Draws one line per series and
+ * labels the first, middle and last day on the x-axis.
+ */
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ data, series, height = 220 }) => {
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500">No data for this range.</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(1, ...data.flatMap(d => series.map(s => d[s.key])));
+  const x = (i: number) => PADDING.left + (data.length === 1 ? plotWidth / 2 : (i / (data.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  const tickIndexes = [...new Set([0, Math.floor((data.length - 1) / 2), data.length - 1])];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Daily listing activity">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              className="stroke-gray-200"
+            />
+            <text x={PADDING.left - 6} y={y(maxValue * fraction) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+              {Math.round(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+        {tickIndexes.map(i => (
+          <text key={i} x={x(i)} y={height - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {formatDay(data[i].day)}
+          </text>
+        ))}
+        {series.map(s => (
+          <g key={s.key}>
+            <polyline
+              points={data.map((d, i) => `${x(i)},${y(d[s.key])}`).join(' ')}
+              fill="none"
+              strokeWidth={2}
+              className={COLOR_CLASSES[s.color].stroke}
+            />
+            {data.map((d, i) => (
+              <circle key={d.day} cx={x(i)} cy={y(d[s.key])} r={2.5} className={COLOR_CLASSES[s.color].fill}>
+                <title>{`${formatDay(d.day)}: ${d[s.key]} ${s.label.toLowerCase()}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-sm">
+        {series.map(s => (
+          <span key={s.key} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-full ${COLOR_CLASSES[s.color].swatch}`} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PropertyListing, ViewingBooking, ViewingSlot } from '../../types';
+import { viewingService } from '../../services/viewingService';
+import { downloadCalendarEvent } from '../../utils/icsCalendar';
+import Button from '../Button';
+import Input from '../Input';
+import Select from '../Select';
+import LoadingSpinner from '../LoadingSpinner';
+import Alert from '../Alert';
+
+interface ViewingAgendaProps {
+  agentId: string;
+  listings: PropertyListing[];
+}
+
+const DURATION_OPTIONS = [
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 45, label: '45 minutes' },
+  { value: 60, label: '1 hour' },
+];
+
+const SLOT_COUNT_OPTIONS = [1, 2, 3, 4, 6, 8].map(count => ({
+  value: count,
+  label: count === 1 ? 'One slot' : `${count} back-to-back slots`,
+}));
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-KE', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-KE', { hour: '2-digit', minute: '2-digit' });
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const ViewingAgenda: React.FC<ViewingAgendaProps> = ({ agentId, listings }) => {
+  const bookableListings = listings.filter(l => l.status === 'available');
+  const [viewings, setViewings] = useState<ViewingBooking[]>([]);
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [listingId, setListingId] = useState('');
+  const [day, setDay] = useState(todayString());
+  const [startTime, setStartTime] = useState('10:00');
+  const [duration, setDuration] = useState(30);
+  const [slotCount, setSlotCount] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [upcoming, agentSlots] = await Promise.all([
+        viewingService.getUpcomingViewingsForAgent(agentId),
+        viewingService.getUpcomingSlotsForAgent(agentId),
+      ]);
+      setViewings(upcoming);
+      setSlots(agentSlots);
+    } catch (err) {
+      console.error('Failed to load viewings:', err);
+      setMessage({ type: 'error', text: 'Could not load your viewings.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const listingTitle = (id: string) => listings.find(l => l.id === id)?.title ?? 'Listing';
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const targetListing = listingId || bookableListings[0]?.id;
+    if (!targetListing) return;
+    const firstStart = new Date(`${day}T${startTime}`).getTime();
+    const newSlots = Array.from({ length: slotCount }, (_, i) => ({
+      startsAt: new Date(firstStart + i * duration * 60_000).toISOString(),
+      endsAt: new Date(firstStart + (i + 1) * duration * 60_000).toISOString(),
+    }));
+
+    setIsPublishing(true);
+    setMessage(null);
+    try {
+      await viewingService.publishSlots(agentId, targetListing, newSlots);
+      setMessage({ type: 'success', text: `Published ${slotCount === 1 ? 'one slot' : `${slotCount} slots`} for ${listingTitle(targetListing)}.` });
+      await fetchData();
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to publish slots' });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleRemoveSlot = async (slotId: string) => {
+    try {
+      await viewingService.deleteSlot(slotId);
+      setSlots(prev => prev.filter(s => s.id !== slotId));
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to remove slot' });
+    }
+  };
+
+  const handleCancelViewing = async (viewing: ViewingBooking) => {
+    if (!window.confirm(`Cancel the viewing with ${viewing.tenant.name || 'this tenant'}? They will be notified.`)) return;
+    try {
+      await viewingService.cancelViewing(viewing.id);
+      await fetchData();
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to cancel viewing' });
+    }
+  };
+
+  if (isLoading) return <LoadingSpinner size="sm" text="Loading viewings..." />;
+  if (listings.length === 0) return null;
+
+  const openSlots = slots.filter(s => !s.isBooked);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Upcoming Viewings</h2>
+        {message && <Alert type={message.type} message={message.text} onClose={() => setMessage(null)} />}
+        {viewings.length === 0 ? (
+          <p className="text-gray-600">No viewings booked yet. Publish some times below and tenants can book them from your listings.</p>
+        ) : (
+          <ul className="border rounded divide-y bg-white">
+            {viewings.map((viewing, index) => {
+              const showDay = index === 0 || formatDay(viewings[index - 1].startsAt) !== formatDay(viewing.startsAt);
+              return (
+                <li key={viewing.id} className="p-3">
+                  {showDay && <p className="text-xs font-semibold uppercase text-gray-500 mb-2">{formatDay(viewing.startsAt)}</p>}
+                  <div className="flex flex-wrap justify-between items-start gap-3">
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {formatTime(viewing.startsAt)} – {formatTime(viewing.endsAt)} · {viewing.listingTitle}
+                      </p>
+                      <p className="text-gray-600">
+                        {viewing.tenant.name || viewing.tenant.email}
+                        {viewing.tenant.phoneNumber && ` · ${viewing.tenant.phoneNumber}`}
+                      </p>
+                      {viewing.note && <p className="text-gray-500 italic">"{viewing.note}"</p>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => downloadCalendarEvent('viewing.ics', viewingService.toCalendarEvent(viewing, 'agent'))}
+                      >
+                        Add to Calendar
+                      </Button>
+                      <Button size="sm" variant="danger" onClick={() => handleCancelViewing(viewing)}>Cancel</Button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="p-4 border rounded bg-white">
+        <h3 className="text-lg font-semibold mb-3">Viewing Availability</h3>
+        {bookableListings.length === 0 ? (
+          <p className="text-sm text-gray-600">Viewing times can be published once a listing is live.</p>
+        ) : (
+          <form onSubmit={handlePublish} className="flex flex-wrap items-end gap-3">
+            <Select
+              label="Listing"
+              name="viewing-listing"
+              options={bookableListings.map(l => ({ value: l.id, label: l.title }))}
+              value={listingId || bookableListings[0].id}
+              onChange={(e) => setListingId(e.target.value)}
+            />
+            <Input label="Date" name="viewing-day" type="date" value={day} min={todayString()} onChange={(e) => setDay(e.target.value)} required />
+            <Input label="Start" name="viewing-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} required />
+            <Select
+              label="Length"
+              name="viewing-duration"
+              options={DURATION_OPTIONS}
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+            />
+            <Select
+              label="Slots"
+              name="viewing-count"
+              options={SLOT_COUNT_OPTIONS}
+              value={slotCount}
+              onChange={(e) => setSlotCount(Number(e.target.value))}
+            />
+            <Button type="submit" isLoading={isPublishing} className="mb-4">Publish</Button>
+          </form>
+        )}
+
+        {openSlots.length > 0 && (
+          <ul className="mt-2 divide-y text-sm">
+            {openSlots.map(slot => (
+              <li key={slot.id} className="flex justify-between items-center py-2">
+                <span>
+                  {formatDay(slot.startsAt)}, {formatTime(slot.startsAt)} – {formatTime(slot.endsAt)}
+                  <span className="text-gray-500"> · {listingTitle(slot.listingId)}</span>
+                </span>
+                <button onClick={() => handleRemoveSlot(slot.id)} className="text-red-600 hover:underline">Remove</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ViewingAgenda;
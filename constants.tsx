@@ -1,4 +1,5 @@
 import React from 'react';
+import type { EmploymentStatus, ListingStatus, PropertyType, RentalApplicationStatus } from './types';
 
 export const APP_NAME = "Rentify Kenya";
 
@@ -53,6 +54,20 @@ export const StarIcon = (props: SVGIconProps) => (
   </svg>
 );
 
+export const HeartIcon = (props: SVGIconProps) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    {props.title && <title>{props.title}</title>}
+    <path strokeLinecap="round" strokeLinejoin="round" d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z" />
+  </svg>
+);
+
+export const BellIcon = (props: SVGIconProps) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    {props.title && <title>{props.title}</title>}
+    <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+  </svg>
+);
+
 export const CheckBadgeIcon = (props: SVGIconProps) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
     {props.title && <title>{props.title}</title>}
@@ -90,3 +105,47 @@ export const KenyanCounties = [
   "Samburu", "Siaya", "Taita Taveta", "Tana River", "Tharaka Nithi",
   "Trans Nzoia", "Turkana", "Uasin Gishu", "Vihiga", "Wajir", "West Pokot"
 ];
+
+export const PropertyTypeOptions: { value: PropertyType; label: string }[] = [
+  { value: 'apartment', label: 'Apartment' },
+  { value: 'bedsitter', label: 'Bedsitter' },
+  { value: 'studio', label: 'Studio' },
+  { value: 'single_room', label: 'Single Room' },
+  { value: 'bungalow', label: 'Bungalow' },
+  { value: 'maisonette', label: 'Maisonette' },
+  { value: 'townhouse', label: 'Townhouse' },
+];
+
+// Offered as quick filters; matched exactly against the amenities agents enter
+export const CommonAmenities = [
+  "Parking", "Borehole", "Balcony", "Security", "Backup Generator",
+  "Swimming Pool", "Gym", "Lift", "WiFi", "Garden"
+];
+
+export const EmploymentStatusOptions: { value: EmploymentStatus; label: string }[] = [
+  { value: 'employed', label: 'Employed' },
+  { value: 'self_employed', label: 'Self-employed / business owner' },
+  { value: 'student', label: 'Student' },
+  { value: 'retired', label: 'Retired' },
+  { value: 'unemployed', label: 'Not currently employed' },
+];
+
+// Badge label and colours for each listing status
+export const ListingStatusStyles: Record<ListingStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-600' },
+  pending_verification: { label: 'Pending review', className: 'bg-yellow-100 text-yellow-700' },
+  available: { label: 'Live', className: 'bg-green-100 text-green-700' },
+  rented: { label: 'Rented', className: 'bg-blue-100 text-blue-700' },
+  expired: { label: 'Expired', className: 'bg-orange-100 text-orange-700' },
+  archived: { label: 'Archived', className: 'bg-gray-100 text-gray-600' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-700' },
+};
+
+// Badge label and colours for each rental application status
+export const ApplicationStatusStyles: Record<RentalApplicationStatus, { label: string; className: string }> = {
+  submitted: { label: 'Submitted', className: 'bg-blue-100 text-blue-700' },
+  shortlisted: { label: 'Shortlisted', className: 'bg-purple-100 text-purple-700' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Not successful', className: 'bg-red-100 text-red-700' },
+  withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-600' },
+};
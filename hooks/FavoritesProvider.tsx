@@ -0,0 +1,62 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { favoritesService } from '../services/favoritesService';
+import { analyticsService } from '../services/analyticsService';
+import { useAuth } from './useAuth';
+import { FavoritesContext } from './useFavorites';
+
+export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Reload whenever the signed-in user changes (guests read the local list)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const ids = user ? await favoritesService.getFavoriteIds(user.id) : favoritesService.getLocalFavoriteIds();
+        if (!cancelled) setFavoriteIds(ids);
+      } catch (err) {
+        console.error('Failed to load favourites:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const isFavorite = useCallback((listingId: string) => favoriteIds.includes(listingId), [favoriteIds]);
+
+  const toggleFavorite = useCallback(async (listingId: string) => {
+    const wasFavorite = favoriteIds.includes(listingId);
+    const next = wasFavorite ? favoriteIds.filter(id => id !== listingId) : [listingId, ...favoriteIds];
+    setFavoriteIds(next); // Optimistic
+    if (!wasFavorite) analyticsService.trackEvent(listingId, 'save');
+
+    if (!user) {
+      favoritesService.setLocalFavoriteIds(next);
+      return;
+    }
+
+    try {
+      if (wasFavorite) {
+        await favoritesService.removeFavorite(user.id, listingId);
+      } else {
+        await favoritesService.addFavorite(user.id, listingId);
+      }
+    } catch (err) {
+      console.error('Failed to update favourite:', err);
+      setFavoriteIds(favoriteIds); // Roll back
+      throw err;
+    }
+  }, [favoriteIds, user]);
+
+  return (
+    <FavoritesContext.Provider value={{ favoriteIds, isFavorite, toggleFavorite, loading }}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { notificationService } from '../services/notificationService';
+import { useAuth } from './useAuth';
+import { NotificationsContext } from './useNotifications';
+
+/**
+ * How often the unread count is refreshed while the app is open (ms)
+ * @constant {number}
+ */
+const UNREAD_POLL_INTERVAL_MS = 60_000;
+
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+    try {
+      setUnreadCount(await notificationService.getUnreadCount(user.id));
+    } catch (err) {
+      console.error('Failed to load unread notifications:', err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    if (!user) return;
+    const interval = setInterval(refreshUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, refreshUnreadCount]);
+
+  return (
+    <NotificationsContext.Provider value={{ unreadCount, refreshUnreadCount }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
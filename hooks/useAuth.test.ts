@@ -0,0 +1,106 @@
+import { createElement, type ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const auth = vi.hoisted(() => ({
+  session: null as { user: { id: string } } | null,
+  profiles: {} as Record<string, Record<string, unknown>>,
+  signInError: null as { message: string } | null,
+  mergeLocalFavorites: null as unknown as ReturnType<typeof vi.fn>,
+}));
+
+vi.mock('../services/supabaseClient', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: auth.session } }),
+      onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => {} } } }),
+      signInWithPassword: async ({ email }: { email: string }) => {
+        if (!auth.signInError) auth.session = { user: { id: email.split('@')[0] } };
+        return { error: auth.signInError };
+      },
+      signOut: async () => {
+        auth.session = null;
+        return { error: null };
+      },
+    },
+    from: () => {
+      let id = '';
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: string) => {
+          id = value;
+          return query;
+        },
+        limit: () => query,
+        maybeSingle: async () => ({ data: auth.profiles[id] ?? null, error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+vi.mock('../services/favoritesService', () => ({
+  favoritesService: { mergeLocalFavorites: (userId: string) => auth.mergeLocalFavorites(userId) },
+}));
+
+const { AuthProvider, useAuth } = await import('./useAuth');
+
+const wrapper = ({ children }: { children: ReactNode }) => createElement(AuthProvider, null, children);
+
+const AGENT = { id: 'wanjiku', email: 'wanjiku@example.com', full_name: 'Wanjiku', role: 'agent', is_verified_agent: true };
+
+beforeEach(() => {
+  auth.session = null;
+  auth.profiles = { wanjiku: AGENT };
+  auth.signInError = null;
+  auth.mergeLocalFavorites = vi.fn().mockResolvedValue(0);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('useAuth', () => {
+  it('loads the profile of an existing session and merges guest favourites', async () => {
+    auth.session = { user: { id: 'wanjiku' } };
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.user).toEqual(AGENT);
+    expect(auth.mergeLocalFavorites).toHaveBeenCalledWith('wanjiku');
+  });
+
+  it('still logs in when guest favourites cannot be merged', async () => {
+    auth.mergeLocalFavorites.mockRejectedValue(new Error('network down'));
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(() => result.current.login('wanjiku@example.com', 'secret'));
+
+    expect(result.current.user).toEqual(AGENT);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports a failed login', async () => {
+    auth.signInError = { message: 'Invalid login credentials' };
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(() => expect(result.current.login('wanjiku@example.com', 'wrong')).rejects.toEqual(auth.signInError));
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.error).toBe('Invalid login credentials');
+  });
+
+  it('clears the user on logout', async () => {
+    auth.session = { user: { id: 'wanjiku' } };
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.user).not.toBeNull());
+
+    await act(() => result.current.logout());
+
+    expect(result.current.user).toBeNull();
+  });
+
+  it('must be used within an AuthProvider', () => {
+    expect(() => renderHook(() => useAuth())).toThrow('useAuth must be used within an AuthProvider');
+  });
+});
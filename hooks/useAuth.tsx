@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../services/supabaseClient';
+import { favoritesService } from '../services/favoritesService';
 
 interface UserProfile {
   id: string;
@@ -40,6 +41,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
 
+    // Carry over listings saved while browsing as a guest
+    try {
+      await favoritesService.mergeLocalFavorites(userId);
+    } catch (mergeError) {
+      console.error('Error merging guest favourites:', mergeError);
+    }
+
     setUser(data);
   };
 
@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+
+interface FavoritesContextType {
+  favoriteIds: string[];
+  isFavorite: (listingId: string) => boolean;
+  toggleFavorite: (listingId: string) => Promise<void>;
+  loading: boolean;
+}
+
+// Provided by FavoritesProvider; kept apart from it so fast refresh can reload the provider
+export const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (!context) throw new Error('useFavorites must be used within a FavoritesProvider');
+  return context;
+};
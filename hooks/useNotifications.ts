@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+
+interface NotificationsContextType {
+  unreadCount: number;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+// Provided by NotificationsProvider; kept apart from it so fast refresh can reload the provider
+export const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (!context) throw new Error('useNotifications must be used within a NotificationsProvider');
+  return context;
+};
@@ -3,6 +3,8 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { HashRouter } from 'react-router-dom';
 import { AuthProvider } from './hooks/useAuth';
+import { FavoritesProvider } from './hooks/FavoritesProvider';
+import { NotificationsProvider } from './hooks/NotificationsProvider';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -15,7 +17,11 @@ root.render(
   <React.StrictMode>
     <HashRouter>
       <AuthProvider>
-        <App />
+        <FavoritesProvider>
+          <NotificationsProvider>
+            <App />
+          </NotificationsProvider>
+        </FavoritesProvider>
       </AuthProvider>
     </HashRouter>
   </React.StrictMode>
@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PropertyListing } from '../types';
+import { moderationService } from '../services/moderationService';
+import { useAuth } from '../hooks/useAuth';
+import ModerationQueueItem from '../components/admin/ModerationQueueItem';
+import VerificationQueue from '../components/admin/VerificationQueue';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Alert from '../components/Alert';
+
+const AdminPage: React.FC = () => {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<PropertyListing[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkReason, setBulkReason] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBulkDeciding, setIsBulkDeciding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setQueue(await moderationService.getModerationQueue());
+    } catch (err) {
+      console.error('Failed to load moderation queue:', err);
+      setError('Could not load the moderation queue.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const removeFromQueue = (listingIds: string[]) => {
+    setQueue(prev => prev.filter(l => !listingIds.includes(l.id)));
+    setSelectedIds(prev => prev.filter(id => !listingIds.includes(id)));
+  };
+
+  const handleDecide = async (listingIds: string[], decision: 'approved' | 'rejected', reason: string) => {
+    if (!user) return;
+    setError(null);
+    setSuccess(null);
+    try {
+      await moderationService.decideListings(listingIds, decision, reason);
+      removeFromQueue(listingIds);
+      setSuccess(`${listingIds.length} listing${listingIds.length === 1 ? '' : 's'} ${decision}.`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save decision');
+    }
+  };
+
+  const handleBulkDecide = async (decision: 'approved' | 'rejected') => {
+    setIsBulkDeciding(true);
+    await handleDecide(selectedIds, decision, bulkReason);
+    setBulkReason('');
+    setIsBulkDeciding(false);
+  };
+
+  const toggleSelect = (listingId: string) => {
+    setSelectedIds(prev => (prev.includes(listingId) ? prev.filter(id => id !== listingId) : [...prev, listingId]));
+  };
+
+  const allSelected = queue.length > 0 && selectedIds.length === queue.length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Moderation Queue</h1>
+        <p className="text-gray-600">{queue.length} listing{queue.length === 1 ? '' : 's'} awaiting verification</p>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+      {success && <Alert type="success" message={success} onClose={() => setSuccess(null)} />}
+
+      {queue.length > 0 && (
+        <div className="flex flex-wrap items-end gap-3 p-4 bg-gray-50 border rounded">
+          <label className="flex items-center text-sm mb-2">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : queue.map(l => l.id))}
+              className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+            />
+            Select all ({selectedIds.length} selected)
+          </label>
+          <Input
+            name="bulkReason"
+            value={bulkReason}
+            onChange={(e) => setBulkReason(e.target.value)}
+            placeholder="Reason for selected listings"
+            containerClassName="flex-grow"
+          />
+          <Button size="sm" onClick={() => handleBulkDecide('approved')} disabled={selectedIds.length === 0} isLoading={isBulkDeciding}>
+            Approve Selected
+          </Button>
+          <Button size="sm" variant="danger" onClick={() => handleBulkDecide('rejected')} disabled={selectedIds.length === 0 || !bulkReason.trim() || isBulkDeciding}>
+            Reject Selected
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-10"><LoadingSpinner text="Loading queue..." /></div>
+      ) : queue.length === 0 ? (
+        <p className="text-gray-600">Nothing to review. All caught up!</p>
+      ) : (
+        <div className="space-y-4">
+          {queue.map(listing => (
+            <ModerationQueueItem
+              key={listing.id}
+              listing={listing}
+              isSelected={selectedIds.includes(listing.id)}
+              onToggleSelect={toggleSelect}
+              onDecide={(id, decision, reason) => handleDecide([id], decision, reason)}
+            />
+          ))}
+        </div>
+      )}
+
+      <VerificationQueue />
+    </div>
+  );
+};
+
+export default AdminPage;
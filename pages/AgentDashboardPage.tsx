@@ -1,15 +1,30 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { PropertyListing, User, AgentMetrics, UserRole, PropertyImage } from '../types';
+import { PropertyListing, User, AgentMetrics, UserRole, PropertyImage, VerificationRequest, ListingStatusChange } from '../types';
 import { listingService } from '../services/listingService';
+import { featuredPlacementService } from '../services/featuredPlacementService';
+import { verificationService } from '../services/verificationService';
 import { useAuth } from '../hooks/useAuth';
 import { uploadImagesToStorageAndSaveMetadata, deleteImagesFromStorageAndDatabase } from '../utils/imageUploadHelper';
+import { deleteLocalDraft, localDraftKey } from '../utils/listingDraftStore';
 import Button from '../components/Button';
 import Input from '../components/Input';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Alert from '../components/Alert';
-import { PlaceholderImage, CheckBadgeIcon } from '../constants';
+import { PlaceholderImage, CheckBadgeIcon, ListingStatusStyles } from '../constants';
 import ListingFormModal from '../components/agent/ListingFormModal';
+import InquiryInbox from '../components/agent/InquiryInbox';
+import AnalyticsPanel from '../components/agent/AnalyticsPanel';
+import ViewingAgenda from '../components/agent/ViewingAgenda';
+import ApplicationReview from '../components/agent/ApplicationReview';
+import FeatureListingModal from '../components/agent/FeatureListingModal';
+
+// Matches the default reminder window in listing_lifecycle_settings
+const EXPIRY_WARNING_DAYS = 7;
+
+const isExpiringSoon = (listing: PropertyListing) =>
+  listing.status === 'available' && !!listing.expiresAt &&
+  new Date(listing.expiresAt).getTime() - Date.now() < EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
 
 const AgentDashboardPage: React.FC = () => {
   const { user, loading: authLoading } = useAuth();
@@ -20,20 +35,27 @@ const AgentDashboardPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingListing, setEditingListing] = useState<PropertyListing | null>(null);
+  const [featuringListing, setFeaturingListing] = useState<PropertyListing | null>(null);
+  const [activeTab, setActiveTab] = useState<'listings' | 'drafts'>('listings');
+  const [showArchived, setShowArchived] = useState(false);
+  const [history, setHistory] = useState<{ listingId: string; changes: ListingStatusChange[] } | null>(null);
   const [idFile, setIdFile] = useState<File | null>(null);
   const [isVerifyingId, setIsVerifyingId] = useState(false);
   const [verificationMessage, setVerificationMessage] = useState('');
+  const [verificationRequest, setVerificationRequest] = useState<VerificationRequest | null>(null);
 
   const fetchData = useCallback(async () => {
     if (!user || user.role !== UserRole.AGENT) return;
     setIsLoading(true);
     try {
-      const [agentListings, agentMetrics] = await Promise.all([
+      const [agentListings, agentMetrics, latestVerification] = await Promise.all([
         listingService.getListings({ agentId: user.id }),
         listingService.getAgentMetrics(user.id),
+        verificationService.getLatestRequestForAgent(user.id),
       ]);
       setListings(agentListings);
       setMetrics(agentMetrics);
+      setVerificationRequest(latestVerification);
     } catch (err: any) {
       console.error(err);
       setError(err.message || 'Failed to load data');
@@ -70,15 +92,64 @@ const AgentDashboardPage: React.FC = () => {
     }
   };
 
+  const handleDiscardDraft = async (draft: PropertyListing) => {
+    if (!user || !window.confirm(`Discard the draft "${draft.title || 'Untitled listing'}"?`)) return;
+    try {
+      await listingService.discardDraft(draft.id);
+      await deleteLocalDraft(localDraftKey(user.id, draft.id))
+        .catch((e) => console.warn('[Discard Draft] Could not clear the copy on this device:', e));
+      fetchData();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to discard draft');
+    }
+  };
+
+  const handleRenewListing = async (listing: PropertyListing) => {
+    try {
+      await listingService.renewListing(listing.id);
+      fetchData();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to renew listing');
+    }
+  };
+
+  const handleSetListingStatus = async (listing: PropertyListing, status: 'rented' | 'archived') => {
+    const question = status === 'rented'
+      ? `Mark "${listing.title}" as rented? It will be archived automatically after a while.`
+      : `Archive "${listing.title}"? It will be hidden from search but its history is kept.`;
+    if (!window.confirm(question)) return;
+    try {
+      await listingService.setListingStatus(listing.id, status);
+      fetchData();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to update listing');
+    }
+  };
+
+  const handleToggleHistory = async (listingId: string) => {
+    if (history?.listingId === listingId) {
+      setHistory(null);
+      return;
+    }
+    try {
+      setHistory({ listingId, changes: await listingService.getStatusHistory(listingId) });
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Failed to load listing history');
+    }
+  };
+
   const handleFormSubmit = async (
     formData: Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'saves' | 'agent' | 'images'>,
     imageFiles: File[],
-    imagesToRemove?: string[]
+    imagesToRemove?: string[],
+    draftId?: string
   ) => {
     try {
       let savedListing: PropertyListing;
-      if (editingListing) {
-        savedListing = await listingService.updateListing(editingListing.id, formData);
+      // A new listing that was autosaved as a draft is submitted by updating the draft
+      const listingId = editingListing?.id ?? draftId;
+      if (listingId) {
+        savedListing = await listingService.updateListing(listingId, formData);
         
         // Handle image removal for existing listings
         if (imagesToRemove && imagesToRemove.length > 0) {
@@ -109,9 +180,9 @@ const AgentDashboardPage: React.FC = () => {
       }
 
       fetchData();
-    } catch (err: any) {
+    } catch (err: unknown) {
       console.error(err);
-      setError(err.message || 'Failed to submit listing');
+      throw err; // The form shows the error and keeps what the agent typed
     }
   };
 
@@ -122,10 +193,9 @@ const AgentDashboardPage: React.FC = () => {
   const handleIdVerificationSubmit = async () => {
     if (!user || !idFile) return;
     setIsVerifyingId(true);
+    setVerificationMessage('');
     try {
-      // TODO: Implement verification service
-      // await verifyAgentIdentity(user.id, idFile);
-      setVerificationMessage('Submitted. We will review your ID shortly.');
+      setVerificationRequest(await verificationService.submitVerification(user.id, idFile));
     } catch (err: any) {
       setVerificationMessage(`Failed: ${err.message}`);
     } finally {
@@ -137,6 +207,11 @@ const AgentDashboardPage: React.FC = () => {
   const getPrimaryImage = (images?: PropertyImage[]) =>
     images?.[0]?.url ?? PlaceholderImage(64, 64);
 
+  const drafts = listings.filter(l => l.status === 'draft');
+  const submittedListings = listings.filter(l => l.status !== 'draft');
+  const archivedCount = submittedListings.filter(l => l.status === 'archived').length;
+  const visibleListings = showArchived ? submittedListings : submittedListings.filter(l => l.status !== 'archived');
+
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-center mb-6">
@@ -147,22 +222,34 @@ const AgentDashboardPage: React.FC = () => {
         <Button onClick={handleCreateListing}>Create New Listing</Button>
       </div>
 
-      {!user?.is_verified_agent ? (
+      {user?.is_verified_agent || verificationRequest?.status === 'approved' ? (
+        <div className="bg-green-50 p-3 rounded flex items-center">
+          <CheckBadgeIcon className="w-6 h-6 mr-2 text-green-600" />
+          <p className="text-green-700">You are a Verified Agent</p>
+        </div>
+      ) : verificationRequest?.status === 'pending' ? (
+        <div className="bg-blue-50 p-4 rounded border">
+          <p className="font-medium">ID verification under review</p>
+          <p className="text-sm text-gray-600">
+            Submitted {new Date(verificationRequest.createdAt).toLocaleDateString('en-KE')}. The result will appear here once an admin has reviewed it.
+          </p>
+        </div>
+      ) : (
         <div className="bg-yellow-100 p-4 rounded border">
           <p className="mb-2 font-medium">Verify your identity</p>
+          {verificationRequest?.status === 'rejected' && (
+            <p className="mb-2 text-sm text-red-700">
+              Your previous submission was rejected: {verificationRequest.reason}. Please upload a new document.
+            </p>
+          )}
           <div className="flex gap-3">
-            <Input type="file" onChange={handleIdFileChange} />
+            <Input type="file" accept="image/jpeg,image/png,image/webp,application/pdf" onChange={handleIdFileChange} />
             <Button onClick={handleIdVerificationSubmit} disabled={!idFile} isLoading={isVerifyingId}>
-              Submit ID
+              {verificationRequest?.status === 'rejected' ? 'Resubmit ID' : 'Submit ID'}
             </Button>
           </div>
           {verificationMessage && <p className="mt-2 text-sm">{verificationMessage}</p>}
         </div>
-      ) : (
-        <div className="bg-green-50 p-3 rounded flex items-center">
-          <CheckBadgeIcon className="w-6 h-6 mr-2 text-green-600" />
-          <p className="text-green-700">You are a Verified Agent</p>
-        </div>
       )}
 
       {metrics && (
@@ -170,26 +257,126 @@ const AgentDashboardPage: React.FC = () => {
           <div>Total Listings: {metrics.totalListings}</div>
           <div>Active: {metrics.activeListings}</div>
           <div>Views: {metrics.totalViews}</div>
+          <div>Saves: {metrics.totalSaves}</div>
+          <div>Inquiries: {metrics.totalInquiries}</div>
+          <div>Rating: {metrics.averageRating !== undefined ? `${metrics.averageRating} / 5` : 'No reviews yet'}</div>
         </div>
       )}
 
+      <AnalyticsPanel listings={submittedListings} />
+
+      {user && <ViewingAgenda agentId={user.id} listings={submittedListings} />}
+
+      {user && <ApplicationReview agentId={user.id} listings={submittedListings} onListingRented={fetchData} />}
+
+      {user && <InquiryInbox agentId={user.id} />}
+
       <section>
-        <h2 className="text-xl font-semibold mb-4">My Listings</h2>
-        {listings.length === 0 ? (
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex gap-4 border-b">
+            <button
+              onClick={() => setActiveTab('listings')}
+              className={`pb-2 text-xl font-semibold ${activeTab === 'listings' ? 'border-b-2 border-green-600' : 'text-gray-500'}`}
+            >
+              My Listings
+            </button>
+            <button
+              onClick={() => setActiveTab('drafts')}
+              className={`pb-2 text-xl font-semibold ${activeTab === 'drafts' ? 'border-b-2 border-green-600' : 'text-gray-500'}`}
+            >
+              Drafts{drafts.length > 0 && ` (${drafts.length})`}
+            </button>
+          </div>
+          {activeTab === 'listings' && archivedCount > 0 && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+              />
+              Show archived ({archivedCount})
+            </label>
+          )}
+        </div>
+        {activeTab === 'drafts' ? (
+          drafts.length === 0 ? (
+            <p>No drafts. Listings you start but don't submit are saved here.</p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              {drafts.map((draft) => (
+                <div key={draft.id} className="p-4 border rounded">
+                  <h3 className="text-lg font-medium">{draft.title || 'Untitled listing'}</h3>
+                  <p className="text-sm text-gray-600">
+                    {[draft.location?.neighborhood, draft.location?.county].filter(Boolean).join(', ')}
+                    {draft.price > 0 && ` · KES ${draft.price.toLocaleString()}`}
+                  </p>
+                  <p className="text-sm text-gray-500">Last saved {new Date(draft.updatedAt).toLocaleString('en-KE', { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Button size="sm" onClick={() => handleEditListing(draft)}>Resume</Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDiscardDraft(draft)}>Discard</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        ) : visibleListings.length === 0 ? (
           <p>No listings yet.</p>
         ) : (
           <div className="grid md:grid-cols-2 gap-4">
-            {listings.map((listing) => (
+            {visibleListings.map((listing) => (
               <div key={listing.id} className="p-4 border rounded flex gap-4">
                 <img src={getPrimaryImage(listing.images)} alt="Listing" className="w-24 h-20 object-cover rounded" />
                 <div className="flex-grow">
-                  <h3 className="text-lg font-medium">{listing.title}</h3>
+                  <div className="flex justify-between items-start gap-2">
+                    <h3 className="text-lg font-medium">{listing.title}</h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${ListingStatusStyles[listing.status].className}`}>
+                      {ListingStatusStyles[listing.status].label}
+                    </span>
+                  </div>
                   <p className="text-sm text-gray-600">{listing.location.county}</p>
                   <p className="text-sm text-gray-600">KES {listing.price.toLocaleString()}</p>
-                  <div className="flex gap-2 mt-2">
+                  {listing.isFeatured && (
+                    <p className="text-sm text-yellow-700">
+                      Featured{listing.featuredUntil && ` until ${new Date(listing.featuredUntil).toLocaleDateString('en-KE')}`}
+                    </p>
+                  )}
+                  {listing.expiresAt && (listing.status === 'available' || listing.status === 'expired') && (
+                    <p className={`text-sm ${isExpiringSoon(listing) || listing.status === 'expired' ? 'text-orange-600' : 'text-gray-600'}`}>
+                      {listing.status === 'expired' ? 'Expired' : 'Expires'} {new Date(listing.expiresAt).toLocaleDateString('en-KE')}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 mt-2">
                     <Button size="sm" onClick={() => handleEditListing(listing)}>Edit</Button>
+                    {(listing.status === 'expired' || isExpiringSoon(listing)) && (
+                      <Button size="sm" variant="outline" onClick={() => handleRenewListing(listing)}>Renew</Button>
+                    )}
+                    {listing.status === 'available' && (
+                      <Button size="sm" variant="outline" onClick={() => handleSetListingStatus(listing, 'rented')}>Mark Rented</Button>
+                    )}
+                    {(listing.status === 'rented' || listing.status === 'expired') && (
+                      <Button size="sm" variant="outline" onClick={() => handleSetListingStatus(listing, 'archived')}>Archive</Button>
+                    )}
+                    {listing.status === 'available' && featuredPlacementService.isAvailable() && (
+                      <Button size="sm" variant="outline" onClick={() => setFeaturingListing(listing)}>
+                        {listing.isFeatured ? 'Extend Featured' : 'Feature'}
+                      </Button>
+                    )}
                     <Button size="sm" variant="danger" onClick={() => handleDeleteListing(listing.id)}>Delete</Button>
+                    <button onClick={() => handleToggleHistory(listing.id)} className="text-sm text-blue-600 hover:underline">
+                      {history?.listingId === listing.id ? 'Hide history' : 'History'}
+                    </button>
                   </div>
+                  {history?.listingId === listing.id && (
+                    <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                      {history.changes.map((change, index) => (
+                        <li key={index}>
+                          {new Date(change.changedAt).toLocaleDateString('en-KE')}: {change.fromStatus ? `${ListingStatusStyles[change.fromStatus].label} → ` : ''}
+                          {ListingStatusStyles[change.toStatus].label}{!change.changedBy && ' (automatic)'}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
             ))}
@@ -204,6 +391,17 @@ const AgentDashboardPage: React.FC = () => {
           onSubmit={handleFormSubmit}
           initialData={editingListing}
           agent={undefined}
+          agentId={user.id}
+          onDraftsChanged={fetchData}
+        />
+      )}
+
+      {featuringListing && (
+        <FeatureListingModal
+          listing={featuringListing}
+          defaultPhoneNumber={featuringListing.agent.phoneNumber}
+          onClose={() => setFeaturingListing(null)}
+          onFeatured={fetchData}
         />
       )}
     </div>
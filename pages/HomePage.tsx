@@ -17,9 +17,9 @@ const HomePage: React.FC = () => {
   const fetchFeaturedListings = useCallback(async () => {
     setIsLoading(true);
     try {
-      // Simulate fetching featured or recent listings
-      const allListings = await listingService.getListings();
-      setFeaturedListings(allListings.filter(l => l.isFeatured || l.status === 'available').slice(0, 3));
+      // Only the three newest available listings are needed for the featured strip
+      const recentListings = await listingService.getListings({ status: 'available' }, { sort: 'newest', page: 1, pageSize: 3 });
+      setFeaturedListings(recentListings);
     } catch (error) {
       console.error("Failed to fetch featured listings:", error);
     } finally {
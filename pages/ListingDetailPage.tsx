@@ -1,17 +1,23 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { PropertyListing, RatingReview, UserRole } from '../types';
+import { PropertyListing, Inquiry, RentEstimate } from '../types';
 import { listingService } from '../services/listingService';
-import { geminiService } from '../services/geminiService';
+import { inquiryService } from '../services/inquiryService';
+import { rentEstimateService } from '../services/rentEstimateService';
+import { analyticsService } from '../services/analyticsService';
 import ImageCarousel from '../components/ImageCarousel';
 import SinglePropertyMap from '../components/SinglePropertyMap';
-import RatingStars from '../components/RatingStars';
+import FavoriteButton from '../components/FavoriteButton';
+import AgentReviews from '../components/AgentReviews';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Alert from '../components/Alert';
-import { MapPinIcon, CheckBadgeIcon, StarIcon, PlaceholderImage, SparklesIcon } from '../constants';
+import { MapPinIcon, CheckBadgeIcon, StarIcon, PlaceholderImage, SparklesIcon, PropertyTypeOptions } from '../constants';
 import { useAuth } from '../hooks/useAuth';
 import Textarea from '../components/Textarea';
+import InquiryThread from '../components/InquiryThread';
+import ViewingScheduler from '../components/ViewingScheduler';
+import RentalApplicationPanel from '../components/RentalApplicationPanel';
 
 const ListingDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -19,14 +25,15 @@ const ListingDetailPage: React.FC = () => {
   const [listing, setListing] = useState<PropertyListing | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [reviews, setReviews] = useState<RatingReview[]>([]);
   const [showContactForm, setShowContactForm] = useState(false);
   const [contactMessage, setContactMessage] = useState('');
   const [isSubmittingContact, setIsSubmittingContact] = useState(false);
   const [contactSuccess, setContactSuccess] = useState('');
   const [contactError, setContactError] = useState('');
-  const [rentEstimate, setRentEstimate] = useState<{ min: number; max: number; avg: number; confidence: string } | null>(null);
+  const [inquiry, setInquiry] = useState<Inquiry | null>(null);
+  const [rentEstimate, setRentEstimate] = useState<RentEstimate | null>(null);
   const [isLoadingEstimate, setIsLoadingEstimate] = useState(false);
+  const [estimateMessage, setEstimateMessage] = useState('');
 
   const fetchListingDetails = useCallback(async () => {
     if (!id) {
@@ -40,42 +47,7 @@ const ListingDetailPage: React.FC = () => {
       const fetchedListing = await listingService.getListingById(id);
       console.log("Fetched Listing:", fetchedListing);
       setListing(fetchedListing);
-      if (fetchedListing) {
-        setReviews([
-          {
-            id: 'rev1',
-            raterUser: {
-              id: 'user1',
-              name: 'Test User 1',
-              email: '',
-              role: UserRole.TENANT,
-              isVerifiedAgent: false,
-              createdAt: ''
-            },
-            ratedAgent: fetchedListing.agent,
-            rating: 4,
-            comment: "Great agent, very responsive. Property was as described.",
-            createdAt: new Date().toISOString(),
-            isVerifiedInteraction: true
-          },
-          {
-            id: 'rev2',
-            raterUser: {
-              id: 'user2',
-              name: 'Another Tenant',
-              email: '',
-              role: UserRole.TENANT,
-              isVerifiedAgent: false,
-              createdAt: ''
-            },
-            ratedAgent: fetchedListing.agent,
-            rating: 5,
-            comment: "Smooth process, highly recommend this agent!",
-            createdAt: new Date(Date.now() - 86400000).toISOString(),
-            isVerifiedInteraction: true
-          }
-        ]);
-      } else {
+      if (!fetchedListing) {
         setError("Listing not found.");
       }
     } catch (err) {
@@ -90,25 +62,47 @@ const ListingDetailPage: React.FC = () => {
     fetchListingDetails();
   }, [fetchListingDetails]);
 
+  // Count a detail view once per session (agents viewing their own listing are ignored)
+  useEffect(() => {
+    if (listing) {
+      analyticsService.trackEvent(listing.id, 'view', { viewerId: user?.id, ownerId: listing.agent.id });
+    }
+  }, [listing, user]);
+
+  // Load the tenant's existing conversation with the agent, if any
+  useEffect(() => {
+    if (!id || !user) {
+      setInquiry(null);
+      return;
+    }
+    inquiryService.getInquiryForListing(id, user.id)
+      .then(async (thread) => {
+        setInquiry(thread);
+        if (thread && thread.unreadCount > 0) {
+          await inquiryService.markInquiryRead(thread.id, user.id);
+        }
+      })
+      .catch((err) => console.error("Failed to load inquiry thread:", err));
+  }, [id, user]);
+
   const handleFetchRentEstimate = async () => {
     if (!listing) return;
     setIsLoadingEstimate(true);
+    setEstimateMessage('');
     try {
-      const estimateData = await geminiService.estimateRent(
-        listing.location.neighborhood,
-        listing.bedrooms,
-        listing.location.county
-      );
-      if (estimateData) {
-        setRentEstimate({
-          min: estimateData.minRent,
-          max: estimateData.maxRent,
-          avg: estimateData.averageRent,
-          confidence: estimateData.confidence
-        });
+      const estimate = await rentEstimateService.estimateRent({
+        county: listing.location.county,
+        neighborhood: listing.location.neighborhood,
+        bedrooms: listing.bedrooms,
+        excludeListingId: listing.id,
+      });
+      setRentEstimate(estimate);
+      if (!estimate) {
+        setEstimateMessage(`There aren't enough recent ${listing.bedrooms}-bedroom listings in ${listing.location.county} to estimate rent yet.`);
       }
     } catch (e) {
       console.error("Error fetching rent estimate:", e);
+      setEstimateMessage('Could not load the rent estimate. Please try again.');
     } finally {
       setIsLoadingEstimate(false);
     }
@@ -120,12 +114,28 @@ const ListingDetailPage: React.FC = () => {
     setIsSubmittingContact(true);
     setContactError('');
     setContactSuccess('');
-    setTimeout(() => {
-      setIsSubmittingContact(false);
-      setContactSuccess(`Message sent to ${listing.agent.name}! They should respond to your email ${user.email}.`);
+    try {
+      const thread = await inquiryService.sendInquiry({
+        listingId: listing.id,
+        agentId: listing.agent.id,
+        tenantId: user.id,
+        body: contactMessage,
+      });
+      setInquiry(thread);
+      setContactSuccess(`Message sent to ${listing.agent.name || 'the agent'}! Their reply will appear here.`);
       setContactMessage('');
       setShowContactForm(false);
-    }, 1500);
+    } catch (err: unknown) {
+      console.error("Failed to send inquiry:", err);
+      setContactError(err instanceof Error ? err.message : 'Could not send your message. Please try again.');
+    } finally {
+      setIsSubmittingContact(false);
+    }
+  };
+
+  const handleInquiryReply = async (body: string) => {
+    if (!inquiry || !user) return;
+    setInquiry(await inquiryService.replyToInquiry(inquiry.id, user.id, body));
   };
 
   const formatPrice = (price: number) => {
@@ -137,6 +147,7 @@ const ListingDetailPage: React.FC = () => {
   if (!listing) return <Alert type="warning" message="Listing not found." />;
 
   const shareViaWhatsApp = () => {
+    analyticsService.trackEvent(listing.id, 'whatsapp_share', { viewerId: user?.id, ownerId: listing.agent.id });
     const text = `Check out this rental listing: ${listing.title} at ${window.location.href}`;
     window.open(`https://wa.me/?text=${encodeURIComponent(text)}`, '_blank');
   };
@@ -162,7 +173,13 @@ const ListingDetailPage: React.FC = () => {
 
       {/* Property Details */}
       <div className="mt-6">
-        <h1 className="text-3xl font-bold text-gray-800 mb-2">{listing.title}</h1>
+        {(listing.status === 'expired' || listing.status === 'archived') && (
+          <Alert type="warning" message="This listing is no longer active. It may have been let; browse similar homes on the listings page." />
+        )}
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <h1 className="text-3xl font-bold text-gray-800">{listing.title}</h1>
+          <FavoriteButton listingId={listing.id} className="flex-shrink-0" />
+        </div>
         <div className="flex items-center text-gray-600 mb-4">
           <MapPinIcon className="w-5 h-5 mr-2" />
           <span>{listing.location.address}, {listing.location.neighborhood}, {listing.location.county}</span>
@@ -174,6 +191,8 @@ const ListingDetailPage: React.FC = () => {
             <span className="bg-gray-100 px-3 py-1 rounded-full">{listing.bedrooms} Bedroom{listing.bedrooms > 1 ? 's' : ''}</span>
             <span className="bg-gray-100 px-3 py-1 rounded-full">{listing.bathrooms} Bathroom{listing.bathrooms > 1 ? 's' : ''}</span>
             {listing.areaSqFt && <span className="bg-gray-100 px-3 py-1 rounded-full">{listing.areaSqFt} sqft</span>}
+            <span className="bg-gray-100 px-3 py-1 rounded-full">{PropertyTypeOptions.find(t => t.value === listing.propertyType)?.label ?? listing.propertyType}</span>
+            {listing.isFurnished && <span className="bg-gray-100 px-3 py-1 rounded-full">Furnished</span>}
           </div>
         </div>
 
@@ -216,7 +235,7 @@ const ListingDetailPage: React.FC = () => {
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-lg font-semibold text-gray-800 flex items-center">
               <SparklesIcon className="w-5 h-5 mr-2 text-blue-500" />
-              AI Rent Estimate
+              Rent Estimate
             </h3>
             <Button 
               onClick={handleFetchRentEstimate} 
@@ -227,10 +246,56 @@ const ListingDetailPage: React.FC = () => {
               Get Estimate
             </Button>
           </div>
+          {estimateMessage && <p className="text-sm text-gray-600">{estimateMessage}</p>}
           {rentEstimate && (
-            <div className="text-sm text-gray-700">
-              <p>Estimated rent range: {formatPrice(rentEstimate.min)} - {formatPrice(rentEstimate.max)}</p>
-              <p>Average: {formatPrice(rentEstimate.avg)} (Confidence: {rentEstimate.confidence})</p>
+            <div className="text-sm text-gray-700 space-y-3">
+              <div>
+                <p>
+                  Typical rent: <span className="font-semibold">{formatPrice(rentEstimate.p25Rent)} - {formatPrice(rentEstimate.p75Rent)}</span>
+                  {' '}(median {formatPrice(rentEstimate.medianRent)})
+                </p>
+                <p className="text-xs text-gray-500">
+                  From {rentEstimate.sampleSize} {rentEstimate.bedrooms}-bedroom listing{rentEstimate.sampleSize === 1 ? '' : 's'} in the last 12 months
+                  {' '}{rentEstimate.scope === 'neighborhood' ? `in ${listing.location.neighborhood}` : `across ${listing.location.county} (too few in ${listing.location.neighborhood})`}
+                  {' '}· Confidence: <span className="capitalize">{rentEstimate.confidence}</span>
+                </p>
+              </div>
+              {rentEstimate.explanation && <p className="whitespace-pre-line">{rentEstimate.explanation}</p>}
+              {rentEstimate.comparables.length > 0 && (
+                <div>
+                  <p className="font-medium text-gray-800 mb-1">Comparable listings</p>
+                  <ul className="space-y-1">
+                    {rentEstimate.comparables.map(comparable => (
+                      <li key={comparable.id} className="flex justify-between gap-2">
+                        <Link to={`/listing/${comparable.id}`} className="text-blue-600 hover:underline truncate">
+                          {comparable.title}
+                        </Link>
+                        <span className="text-gray-600 whitespace-nowrap">
+                          {formatPrice(comparable.price)} · {comparable.neighborhood}
+                          {comparable.status !== 'available' && <span className="capitalize"> · {comparable.status}</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {rentEstimate.citations.length > 0 && (
+                <div>
+                  <p className="font-medium text-gray-800 mb-1">Sources</p>
+                  <ul className="list-disc list-inside text-xs">
+                    {rentEstimate.citations.map((citation, index) => {
+                      const source = citation.web ?? citation.retrievedContext;
+                      return source?.uri ? (
+                        <li key={index}>
+                          <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            {source.title || source.uri}
+                          </a>
+                        </li>
+                      ) : null;
+                    })}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -259,14 +324,24 @@ const ListingDetailPage: React.FC = () => {
             </h3>
             <p className="text-sm text-gray-500">{listing.agent.email}</p>
             {listing.agent.phoneNumber && <p className="text-sm text-gray-500">Phone: {listing.agent.phoneNumber}</p>}
-            {user && listing.status === 'available' && (
-              <Button onClick={() => setShowContactForm(!showContactForm)} className="mt-3" variant="primary" size="sm">
+            {user && user.id !== listing.agent.id && !inquiry && listing.status === 'available' && (
+              <Button
+                onClick={() => {
+                  if (!showContactForm) {
+                    analyticsService.trackEvent(listing.id, 'contact_click', { viewerId: user.id, ownerId: listing.agent.id });
+                  }
+                  setShowContactForm(!showContactForm);
+                }}
+                className="mt-3"
+                variant="primary"
+                size="sm"
+              >
                 {showContactForm ? 'Cancel Message' : 'Send Message'}
               </Button>
             )}
             {!user && listing.status === 'available' && (
               <p className="mt-3 text-sm text-blue-600">
-                <Link to={`/auth?mode=login&returnTo=/listing/${listing.id}`}>Login to contact agent</Link>
+                <Link to={`/auth?mode=login&returnTo=/listing/${listing.id}`}>Login to contact agent or book a viewing</Link>
               </p>
             )}
           </div>
@@ -286,10 +361,43 @@ const ListingDetailPage: React.FC = () => {
             <Button type="submit" isLoading={isSubmittingContact} disabled={!contactMessage.trim()}>Send Inquiry</Button>
           </form>
         )}
+        {!showContactForm && contactSuccess && <div className="mt-4"><Alert type="success" message={contactSuccess} onClose={() => setContactSuccess('')} /></div>}
+        {inquiry && user && (
+          <div className="mt-4 p-4 border rounded-md bg-white">
+            <h4 className="text-md font-semibold mb-3">Your conversation with {listing.agent.name || 'the agent'}</h4>
+            <InquiryThread inquiry={inquiry} currentUserId={user.id} onReply={handleInquiryReply} />
+          </div>
+        )}
+        {user && user.id !== listing.agent.id && (
+          <ViewingScheduler
+            listingId={listing.id}
+            agentName={listing.agent.name || 'The agent'}
+            currentUserId={user.id}
+            canBook={listing.status === 'available'}
+          />
+        )}
+        {user && user.id !== listing.agent.id && (
+          <RentalApplicationPanel
+            listingId={listing.id}
+            tenantId={user.id}
+            canApply={listing.status === 'available'}
+          />
+        )}
       </div>
 
       {/* Reviews Section */}
+      <AgentReviews
+        agent={listing.agent}
+        listingId={listing.id}
+        currentUser={user}
+        hasInteraction={!!inquiry?.messages.some((message) => message.senderId === inquiry.agent.id)}
+      />
+
       {/* Share Section */}
+      <div className="mt-8 border-t pt-6 flex items-center justify-between">
+        <p className="text-sm text-gray-600">Know someone looking for a place like this?</p>
+        <Button variant="outline" size="sm" onClick={shareViaWhatsApp}>Share on WhatsApp</Button>
+      </div>
     </div>
   );
 };
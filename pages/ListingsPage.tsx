@@ -6,15 +6,31 @@ import SearchBar, { SearchFilters } from '../components/SearchBar';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Alert from '../components/Alert';
 import PropertyMap from '../components/PropertyMap';
-import { PropertyListing } from '../types';
+import { PropertyListing, ListingSort } from '../types';
 import { listingService } from '../services/listingService';
-import { KenyanCounties } from '../constants'; // For filter options
+import { KenyanCounties, PropertyTypeOptions, CommonAmenities } from '../constants'; // For filter options
+import { parseSearchFilters, searchFiltersToParams, NUMERIC_FILTER_KEYS, BOOLEAN_FILTER_KEYS } from '../utils/searchFilters';
 import Select from '../components/Select';
 import Input from '../components/Input';
 import Button from '../components/Button';
+import SaveSearchPanel from '../components/SaveSearchPanel';
+import SearchAssistant from '../components/SearchAssistant';
+
+const sortOptions: { value: ListingSort; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'most_viewed', label: 'Most Viewed' },
+];
+
+const parseSort = (value: string | null): ListingSort =>
+  sortOptions.some(option => option.value === value) ? (value as ListingSort) : 'relevance';
 
 const ListingsPage: React.FC = () => {
   const [listings, setListings] = useState<PropertyListing[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showMapView, setShowMapView] = useState(false);
@@ -25,25 +41,24 @@ const ListingsPage: React.FC = () => {
   
   // Get initial filters from both state and URL parameters
   const initialFiltersFromState = (locationHook.state as { initialSearchFilters?: SearchFilters })?.initialSearchFilters || {};
-  const initialFiltersFromURL: SearchFilters = {
-    location: searchParams.get('location') || undefined,
-    county: searchParams.get('county') || undefined,
-    minPrice: searchParams.get('minPrice') ? Number(searchParams.get('minPrice')) : undefined,
-    maxPrice: searchParams.get('maxPrice') ? Number(searchParams.get('maxPrice')) : undefined,
-    bedrooms: searchParams.get('bedrooms') ? Number(searchParams.get('bedrooms')) : undefined,
-  };
+  const initialFiltersFromURL = parseSearchFilters(searchParams);
   
   // Merge URL params with state, giving priority to URL params
-  const initialFilters = { ...initialFiltersFromState, ...Object.fromEntries(Object.entries(initialFiltersFromURL).filter(([, value]) => value !== undefined)) };
+  const initialFilters = { ...initialFiltersFromState, ...initialFiltersFromURL };
   const [currentFilters, setCurrentFilters] = useState<SearchFilters>(initialFilters);
+  const [sort, setSort] = useState<ListingSort>(parseSort(searchParams.get('sort')));
+  const [page, setPage] = useState(Math.max(1, Number(searchParams.get('page')) || 1));
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+  const [showAssistant, setShowAssistant] = useState(false);
 
-  const fetchListings = useCallback(async (filters: SearchFilters) => {
+  const fetchListings = useCallback(async (filters: SearchFilters, sortOrder: ListingSort, pageNumber: number) => {
     setIsLoading(true);
     setError(null);
     try {
-      const fetchedListings = await listingService.getListings(filters);
-      setListings(fetchedListings);
+      const result = await listingService.getListingsPage(filters, { sort: sortOrder, page: pageNumber });
+      setListings(result.listings);
+      setTotalCount(result.totalCount);
+      setTotalPages(result.totalPages);
     } catch (err) {
       console.error("Failed to fetch listings:", err);
       setError("Could not load listings. Please try again later.");
@@ -53,15 +68,12 @@ const ListingsPage: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    fetchListings(currentFilters);
+    fetchListings(currentFilters, sort, page);
     
-    // Update URL with current filters
-    const newSearchParams = new URLSearchParams();
-    Object.entries(currentFilters).forEach(([key, value]) => {
-      if (value !== undefined && value !== null && value !== '') {
-        newSearchParams.set(key, value.toString());
-      }
-    });
+    // Update URL with current filters, sort and page (defaults are left out)
+    const newSearchParams = searchFiltersToParams(currentFilters);
+    if (sort !== 'relevance') newSearchParams.set('sort', sort);
+    if (page > 1) newSearchParams.set('page', page.toString());
     
     // Only update URL if search params actually changed
     const currentParamsString = searchParams.toString();
@@ -69,33 +81,72 @@ const ListingsPage: React.FC = () => {
     if (currentParamsString !== newParamsString) {
       navigate(`/listings${newParamsString ? `?${newParamsString}` : ''}`, { replace: true });
     }
-  }, [fetchListings, currentFilters, navigate, searchParams]);
+  }, [fetchListings, currentFilters, sort, page, navigate, searchParams]);
 
   const handleSearch = (filters: SearchFilters) => {
     setCurrentFilters(filters);
+    setPage(1);
+  };
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSort(parseSort(e.target.value));
+    setPage(1);
+  };
+
+  const goToPage = (pageNumber: number) => {
+    setPage(pageNumber);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
   
   const handleAdvancedFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    const isNumeric = (NUMERIC_FILTER_KEYS as readonly string[]).includes(name);
+    const isBoolean = (BOOLEAN_FILTER_KEYS as readonly string[]).includes(name);
     setCurrentFilters(prev => ({ 
         ...prev, 
-        [name]: value ? (name.includes('Price') || name === 'bedrooms' ? Number(value) : value) : undefined 
+        [name]: value ? (isNumeric ? Number(value) : isBoolean ? value === 'true' : value) : undefined 
     }));
+    setPage(1);
+  };
+
+  const handleAmenityToggle = (amenity: string) => {
+    setCurrentFilters(prev => {
+      const amenities = prev.amenities ?? [];
+      const next = amenities.includes(amenity) ? amenities.filter(a => a !== amenity) : [...amenities, amenity];
+      return { ...prev, amenities: next.length ? next : undefined };
+    });
+    setPage(1);
+  };
+
+  const handleFeaturedOnlyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCurrentFilters(prev => ({ ...prev, featuredOnly: e.target.checked || undefined }));
+    setPage(1);
   };
 
   const countyOptions = KenyanCounties.map(county => ({ value: county, label: county }));
   const bedroomOptions = [1,2,3,4,5].map(n => ({value: n, label: `${n} Bedroom${n > 1 ? 's' : ''}`}));
+  const countOptions = [1,2,3,4,5].map(n => ({value: n, label: `${n}`}));
+  const furnishedOptions = [{ value: 'true', label: 'Furnished' }, { value: 'false', label: 'Unfurnished' }];
+  const statusOptions = [{ value: 'available', label: 'Available' }, { value: 'rented', label: 'Rented' }];
 
   return (
     <div className="space-y-8">
       <section className="bg-white p-4 sm:p-6 rounded-lg shadow-md">
         <h1 className="text-2xl sm:text-3xl font-semibold text-gray-800 mb-4">Find Your Perfect Rental</h1>
         <SearchBar onSearch={handleSearch} initialFilters={currentFilters} isLoading={isLoading}/>
-        <div className="mt-4">
+        <div className="mt-4 flex gap-2">
             <Button variant="outline" size="sm" onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}>
                 {showAdvancedFilters ? 'Hide' : 'Show'} Advanced Filters
             </Button>
+            <Button variant={showAssistant ? 'primary' : 'outline'} size="sm" onClick={() => setShowAssistant(!showAssistant)}>
+                💬 {showAssistant ? 'Hide' : 'Ask the'} Search Assistant
+            </Button>
+        </div>
+        {/* Kept mounted while hidden so the conversation survives toggling */}
+        <div className={showAssistant ? '' : 'hidden'}>
+            <SearchAssistant onApplyFilters={handleSearch} />
         </div>
+        <SaveSearchPanel filters={currentFilters} />
         {showAdvancedFilters && (
             <div className="mt-4 p-4 border border-gray-200 rounded-md bg-gray-50 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
                 <Select
@@ -106,6 +157,14 @@ const ListingsPage: React.FC = () => {
                     onChange={handleAdvancedFilterChange}
                     placeholder="Any County"
                 />
+                <Select
+                    label="Property Type"
+                    name="propertyType"
+                    options={PropertyTypeOptions}
+                    value={currentFilters.propertyType || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="Any Type"
+                />
                 <Select
                     label="Bedrooms"
                     name="bedrooms"
@@ -114,6 +173,62 @@ const ListingsPage: React.FC = () => {
                     onChange={handleAdvancedFilterChange}
                     placeholder="Any Bedrooms"
                 />
+                <Select
+                    label="Min Bedrooms"
+                    name="minBedrooms"
+                    options={countOptions}
+                    value={currentFilters.minBedrooms || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="No Min"
+                />
+                <Select
+                    label="Max Bedrooms"
+                    name="maxBedrooms"
+                    options={countOptions}
+                    value={currentFilters.maxBedrooms || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="No Max"
+                />
+                <Select
+                    label="Min Bathrooms"
+                    name="minBathrooms"
+                    options={countOptions}
+                    value={currentFilters.minBathrooms || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="No Min"
+                />
+                <Select
+                    label="Max Bathrooms"
+                    name="maxBathrooms"
+                    options={countOptions}
+                    value={currentFilters.maxBathrooms || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="No Max"
+                />
+                <Input
+                    label="Min Area (sq ft)"
+                    name="minArea"
+                    type="number"
+                    placeholder="e.g. 800"
+                    value={currentFilters.minArea || ''}
+                    onChange={handleAdvancedFilterChange}
+                />
+                <Select
+                    label="Furnishing"
+                    name="furnished"
+                    options={furnishedOptions}
+                    value={currentFilters.furnished === undefined ? '' : String(currentFilters.furnished)}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="Any"
+                />
+                <Select
+                    label="Status"
+                    name="status"
+                    options={statusOptions}
+                    value={currentFilters.status || ''}
+                    onChange={handleAdvancedFilterChange}
+                    placeholder="Any Status"
+                />
                 <Input
                     label="Min Price (KES)"
                     name="minPrice"
@@ -130,8 +245,33 @@ const ListingsPage: React.FC = () => {
                     value={currentFilters.maxPrice || ''}
                     onChange={handleAdvancedFilterChange}
                 />
+                <div className="sm:col-span-2 md:col-span-3">
+                    <p className="block text-sm font-medium text-gray-700 mb-2">Must Have</p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {CommonAmenities.map(amenity => (
+                            <label key={amenity} className="flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={currentFilters.amenities?.includes(amenity) ?? false}
+                                    onChange={() => handleAmenityToggle(amenity)}
+                                    className="h-4 w-4 mr-1 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                                />
+                                {amenity}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={currentFilters.featuredOnly ?? false}
+                        onChange={handleFeaturedOnlyChange}
+                        className="h-4 w-4 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                    />
+                    Featured listings only
+                </label>
                  <div className="sm:col-span-2 md:col-span-1 flex items-end">
-                    <Button onClick={() => fetchListings(currentFilters)} isLoading={isLoading} className="w-full">Apply Filters</Button>
+                    <Button onClick={() => fetchListings(currentFilters, sort, page)} isLoading={isLoading} className="w-full">Apply Filters</Button>
                 </div>
             </div>
         )}
@@ -144,8 +284,15 @@ const ListingsPage: React.FC = () => {
       ) : listings.length > 0 ? (
         <section>
           <div className="flex justify-between items-center mb-4">
-            <p className="text-sm text-gray-600">Found {listings.length} listing{listings.length === 1 ? '' : 's'}.</p>
-            <div className="flex space-x-2">
+            <p className="text-sm text-gray-600">Found {totalCount} listing{totalCount === 1 ? '' : 's'}.</p>
+            <div className="flex items-center space-x-2">
+              <Select
+                name="sort"
+                aria-label="Sort listings"
+                options={sortOptions}
+                value={sort}
+                onChange={handleSortChange}
+              />
               <Button 
                 variant={!showMapView ? "primary" : "outline"} 
                 size="sm" 
@@ -192,7 +339,7 @@ const ListingsPage: React.FC = () => {
                     }`}
                     onClick={() => setSelectedListingId(listing.id)}
                   >
-                    <ListingCard listing={listing} />
+                    <ListingCard listing={listing} trackImpression />
                   </div>
                 ))}
               </div>
@@ -200,11 +347,21 @@ const ListingsPage: React.FC = () => {
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {listings.map((listing) => (
-                <ListingCard key={listing.id} listing={listing} />
+                <ListingCard key={listing.id} listing={listing} trackImpression />
               ))}
             </div>
           )}
-          {/* Pagination could be added here */}
+          {totalPages > 1 && (
+            <div className="flex justify-center items-center space-x-4 mt-8">
+              <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          )}
         </section>
       ) : (
         <div className="text-center py-10">
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppNotification, NotificationDelivery, NotificationPreferences } from '../types';
+import { notificationService } from '../services/notificationService';
+import { useAuth } from '../hooks/useAuth';
+import { useNotifications } from '../hooks/useNotifications';
+import Button from '../components/Button';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Alert from '../components/Alert';
+
+const preferenceOptions: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  { key: 'inApp', label: 'In the app', description: 'Shown under the bell icon' },
+  { key: 'email', label: 'Email', description: 'Sent to the email address on your account' },
+  { key: 'sms', label: 'SMS', description: 'Sent to the phone number on your profile' },
+];
+
+const channelLabels: Record<NotificationDelivery['channel'], string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+const statusStyles: Record<NotificationDelivery['status'], string> = {
+  queued: 'bg-blue-100 text-blue-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-gray-100 text-gray-600',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-KE', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const NotificationsPage: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshUnreadCount } = useNotifications();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const [inbox, log, prefs] = await Promise.all([
+        notificationService.getNotifications(user.id, 50),
+        notificationService.getDeliveryLog(user.id),
+        notificationService.getPreferences(user.id),
+      ]);
+      setNotifications(inbox);
+      setDeliveries(log);
+      setPreferences(prefs);
+    } catch (err) {
+      console.error('Failed to load notifications:', err);
+      setMessage({ type: 'error', text: 'Could not load your notifications. Please try again later.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const markRead = async (notificationIds?: string[]) => {
+    if (!user) return;
+    const readAt = new Date().toISOString();
+    setNotifications(prev =>
+      prev.map(n => (!n.readAt && (!notificationIds || notificationIds.includes(n.id)) ? { ...n, readAt } : n))
+    );
+    try {
+      await notificationService.markRead(user.id, notificationIds);
+    } catch (err) {
+      console.error('Failed to mark notifications read:', err);
+    }
+    refreshUnreadCount();
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    const { link } = notificationService.renderNotification(notification.type, notification.data);
+    if (!notification.readAt) await markRead([notification.id]);
+    if (link) navigate(link);
+  };
+
+  const handlePreferencesSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !preferences) return;
+    setIsSavingPreferences(true);
+    setMessage(null);
+    try {
+      await notificationService.updatePreferences(user.id, preferences);
+      setMessage({ type: 'success', text: 'Notification preferences saved.' });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save preferences' });
+    } finally {
+      setIsSavingPreferences(false);
+    }
+  };
+
+  const unread = notifications.filter(n => !n.readAt).length;
+
+  if (isLoading) {
+    return <div className="flex justify-center py-10"><LoadingSpinner text="Loading notifications..." /></div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Notifications</h1>
+          <p className="text-gray-600">{unread} unread</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => markRead()} disabled={unread === 0}>Mark all as read</Button>
+      </div>
+
+      {message && <Alert type={message.type} message={message.text} onClose={() => setMessage(null)} />}
+
+      <section>
+        {notifications.length === 0 ? (
+          <p className="text-gray-600">You have no notifications yet.</p>
+        ) : (
+          <ul className="divide-y border rounded bg-white">
+            {notifications.map(notification => {
+              const rendered = notificationService.renderNotification(notification.type, notification.data);
+              return (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left p-4 hover:bg-green-50 ${notification.readAt ? '' : 'bg-green-50/50'}`}
+                  >
+                    <div className="flex justify-between gap-4">
+                      <p className={notification.readAt ? 'text-gray-800' : 'font-semibold'}>{rendered.title}</p>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{formatTime(notification.createdAt)}</span>
+                    </div>
+                    {rendered.body && <p className="text-sm text-gray-600 whitespace-pre-line mt-1">{rendered.body}</p>}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      {preferences && (
+        <section className="p-4 border rounded bg-white">
+          <h2 className="text-xl font-semibold mb-1">How we notify you</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Applies to messages, verification and listing decisions. Saved searches use the channels you picked for each search.
+          </p>
+          <form onSubmit={handlePreferencesSubmit} className="space-y-3">
+            {preferenceOptions.map(option => (
+              <label key={option.key} className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences[option.key]}
+                  onChange={(e) => setPreferences({ ...preferences, [option.key]: e.target.checked })}
+                  className="h-4 w-4 mt-0.5 mr-2 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+            <Button type="submit" size="sm" isLoading={isSavingPreferences}>Save Preferences</Button>
+          </form>
+        </section>
+      )}
+
+      {deliveries.length > 0 && (
+        <section className="p-4 border rounded bg-white overflow-x-auto">
+          <h2 className="text-xl font-semibold mb-3">Recent deliveries</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4">When</th>
+                <th className="py-2 pr-4">Channel</th>
+                <th className="py-2 pr-4">Notification</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map(delivery => (
+                <tr key={delivery.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 whitespace-nowrap">{formatTime(delivery.sentAt ?? delivery.createdAt)}</td>
+                  <td className="py-2 pr-4">{channelLabels[delivery.channel]}{delivery.recipient && delivery.channel !== 'in_app' && ` · ${delivery.recipient}`}</td>
+                  <td className="py-2 pr-4">{delivery.type.replace(/_/g, ' ')}</td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${statusStyles[delivery.status]}`} title={delivery.lastError}>
+                      {delivery.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPage;
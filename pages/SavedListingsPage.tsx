@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { PropertyListing } from '../types';
+import { favoritesService } from '../services/favoritesService';
+import { useFavorites } from '../hooks/useFavorites';
+import { useAuth } from '../hooks/useAuth';
+import ListingCard from '../components/ListingCard';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Alert from '../components/Alert';
+import SavedSearchList from '../components/SavedSearchList';
+
+const SavedListingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const { favoriteIds, loading: favoritesLoading } = useFavorites();
+  const [listings, setListings] = useState<PropertyListing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (favoritesLoading) return;
+    (async () => {
+      try {
+        setListings(await favoritesService.getFavoriteListings(favoriteIds));
+      } catch (err) {
+        console.error('Failed to load saved listings:', err);
+        setError('Could not load your saved listings. Please try again later.');
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [favoriteIds, favoritesLoading]);
+
+  // Hide un-saved listings straight away rather than waiting for the refetch
+  const visibleListings = listings.filter(l => favoriteIds.includes(l.id));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Saved Listings</h1>
+        <p className="text-gray-600">{favoriteIds.length} saved listing{favoriteIds.length === 1 ? '' : 's'}</p>
+      </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError(null)} />}
+
+      {isLoading || favoritesLoading ? (
+        <div className="flex justify-center py-10"><LoadingSpinner text="Loading saved listings..." /></div>
+      ) : visibleListings.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {visibleListings.map(listing => (
+            <ListingCard key={listing.id} listing={listing} />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-10">
+          <h2 className="text-xl font-semibold text-gray-700 mb-2">No saved listings yet</h2>
+          <p className="text-gray-500">
+            Tap the heart on any listing to save it here. <Link to="/listings" className="text-green-600 hover:underline">Browse listings</Link>
+          </p>
+        </div>
+      )}
+
+      {user && <SavedSearchList userId={user.id} />}
+    </div>
+  );
+};
+
+export default SavedListingsPage;
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview AI Server - Serves the AI proxy locally
+ *
+ * Usage:
+ *   npm run ai-server               # Serve /api/ai like the Vercel function (same environment variables)
+ *   npm run ai-server -- --local    # In-memory quotas and cache; the fake AI provider unless one is configured
+ *
+ * `npm run dev` forwards /api to this server, so the app's AI features work
+ * without `vercel dev`. With --local no service role key is needed: tokens are
+ * checked with VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY when set, and
+ * otherwise taken to be the ID of an agent. PORT defaults to 8788.
+ *
+ * Per-IP quotas use the connecting address. Set TRUST_PROXY=true only when the
+ * server sits behind a proxy that sets X-Forwarded-For; otherwise the header is
+ * replaced, since any client could send one.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { createAiFeatures } from '../services/aiFeatures';
+import { createAiProviderFromEnv, createFakeProvider } from '../services/aiProviders';
+import {
+  createAiProxyHandler,
+  createMemoryAiProxyStore,
+  createSupabaseAiProxyStore,
+  createSupabaseAuthenticator,
+  type AiProxyDependencies,
+} from '../services/aiProxy';
+import { UserRole } from '../types';
+
+const isLocal = process.argv.slice(2).includes('--local');
+const trustProxy = process.env.TRUST_PROXY === 'true';
+
+const createDependencies = (): AiProxyDependencies => {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY || (isLocal ? process.env.VITE_SUPABASE_ANON_KEY : undefined);
+  const provider = createAiProviderFromEnv(process.env) ?? (isLocal ? createFakeProvider() : null);
+
+  if (isLocal && (!url || !key)) {
+    return {
+      features: createAiFeatures(provider),
+      store: createMemoryAiProxyStore(),
+      authenticate: async (token) => ({ id: token, role: UserRole.AGENT }), // Locally the bearer token is simply an agent's ID
+    };
+  }
+  if (!url || !key) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+  }
+
+  const client = createClient(url, key, { auth: { persistSession: false } });
+  return {
+    features: createAiFeatures(provider),
+    store: isLocal ? createMemoryAiProxyStore() : createSupabaseAiProxyStore(client),
+    authenticate: createSupabaseAuthenticator(client),
+  };
+};
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  });
+  if (!trustProxy) {
+    headers.delete('x-real-ip');
+    headers.delete('x-forwarded-for');
+  }
+  if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) headers.set('x-forwarded-for', req.socket.remoteAddress);
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(new URL(req.url ?? '/', 'http://localhost'), {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+};
+
+const writeResponse = async (response: Response, res: ServerResponse) => {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  }
+  res.end();
+};
+
+const handler = createAiProxyHandler(createDependencies());
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (path !== '/api/ai') {
+    res.writeHead(404).end();
+    return;
+  }
+  toRequest(req)
+    .then(handler)
+    .then((response) => writeResponse(response, res))
+    .catch((err) => {
+      console.error('[aiServer] Request failed:', err);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+});
+
+const port = Number(process.env.PORT) || 8788;
+server.listen(port, () => console.log(`[aiServer] Listening on http://localhost:${port}/api/ai${isLocal ? ' (local)' : ''}`));
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Image Scan Worker runner
+ *
+ * Usage:
+ *   npm run scan-worker              # Poll the real database until stopped (Ctrl+C)
+ *   npm run scan-worker -- --once    # Process one batch and exit
+ *   npm run scan-worker -- --local   # Run once against an in-memory Supabase stand-in with sample data
+ *
+ * Against the real database the worker needs SUPABASE_URL (or VITE_SUPABASE_URL) and
+ * SUPABASE_SERVICE_ROLE_KEY, since it reads and updates every agent's images. Images
+ * are downloaded and hashed with sharp.
+ * The AI vision step runs when an AI provider is configured (GEMINI_API_KEY, or AI_PROVIDER and its
+ * settings; see createAiProviderFromEnv).
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createImageScanWorker } from '../services/imageScanWorker';
+import { createAiFeatures } from '../services/aiFeatures';
+import { createAiProviderFromEnv } from '../services/aiProviders';
+import { createSupabaseStandIn, type StandInTables } from '../services/supabaseStandIn';
+import type { ImageScanDependencies } from '../services/imageScanService';
+import { DHASH_HEIGHT, DHASH_WIDTH, hammingDistance, type ImageDecoder } from '../utils/imageHash';
+import { decodeImageWithSharp } from '../utils/imageDecoderNode';
+
+const args = process.argv.slice(2);
+const isLocal = args.includes('--local');
+const runOnce = args.includes('--once') || isLocal;
+
+/**
+ * Sample data for --local: one honest listing, one reusing another agent's photo,
+ * one using a blocklisted photo and one image that cannot be downloaded (fails and is retried).
+ */
+const createLocalTables = (): StandInTables => {
+  const due = new Date(Date.now() - 1000).toISOString();
+  const pending = { status: 'pending', scanned_at: null };
+
+  return {
+    listings: [
+      { id: 'listing-honest', agent_id: 'agent-1', title: 'Kilimani 2BR', status: 'pending_verification' },
+      { id: 'listing-copied', agent_id: 'agent-2', title: 'Westlands 1BR', status: 'pending_verification' },
+      { id: 'listing-original', agent_id: 'agent-3', title: 'Lavington 3BR', status: 'available' },
+      { id: 'listing-scam', agent_id: 'agent-4', title: 'Too good to be true', status: 'pending_verification' },
+    ],
+    property_images: [
+      { id: 'img-1', listing_id: 'listing-honest', url: 'local://img-1', phash: null, ai_scan: pending, scan_attempts: 0, scan_next_attempt_at: due },
+      { id: 'img-2', listing_id: 'listing-honest', url: 'local://img-2', phash: null, ai_scan: pending, scan_attempts: 0, scan_next_attempt_at: due },
+      { id: 'img-3', listing_id: 'listing-copied', url: 'local://img-3', phash: null, ai_scan: pending, scan_attempts: 0, scan_next_attempt_at: due },
+      { id: 'img-4', listing_id: 'listing-original', url: 'local://img-4', phash: 'c3c3a5a55a5a3c3c', ai_scan: { status: 'clear' }, scan_attempts: 1, scan_next_attempt_at: null },
+      { id: 'img-5', listing_id: 'listing-scam', url: 'local://img-5', phash: null, ai_scan: pending, scan_attempts: 0, scan_next_attempt_at: due },
+      { id: 'img-6', listing_id: 'listing-scam', url: 'local://img-missing', phash: null, ai_scan: pending, scan_attempts: 0, scan_next_attempt_at: due },
+    ],
+    scam_image_blocklist: [
+      { id: 'block-1', phash: '1234567890abcdee', reason: 'Stock photo used in reported M-Pesa deposit scams' },
+    ],
+  };
+};
+
+/**
+ * "Image files" for --local. Each sample image is just the hash it should produce,
+ * which decodeLocalImage turns back into pixels with that hash.
+ */
+const LOCAL_IMAGES: Record<string, string> = {
+  'local://img-1': '0f1e2d3c4b5a6978',
+  'local://img-2': 'ffee00112233aabb',
+  'local://img-3': 'c3c3a5a55a5a3c3d', // One bit away from img-4's hash
+  'local://img-5': '1234567890abcdef', // One bit away from the blocklist entry
+};
+
+const fetchLocalImage = async (url: string): Promise<Blob> => {
+  const hash = LOCAL_IMAGES[url];
+  if (!hash) throw new Error('Failed to fetch image (404)');
+  return new Blob([hash], { type: 'text/plain' });
+};
+
+/**
+ * Builds a grayscale grid whose dHash is the sample's hash: each pixel is darker
+ * than its left neighbour where the hash has a 1 bit.
+ */
+const decodeLocalImage: ImageDecoder = async (image) => {
+  const hash = await image.text();
+  const pixels: number[] = [];
+  for (let row = 0; row < DHASH_HEIGHT; row++) {
+    const byte = parseInt(hash.slice(row * 2, row * 2 + 2), 16);
+    let value = 128;
+    pixels.push(value);
+    for (let col = 0; col < DHASH_WIDTH - 1; col++) {
+      value += (byte >> (DHASH_WIDTH - 2 - col)) & 1 ? -1 : 1;
+      pixels.push(value);
+    }
+  }
+  return { pixels, width: 1024, height: 768 };
+};
+
+/**
+ * Builds the worker dependencies for the selected mode.
+ */
+const createDependencies = async (): Promise<{ deps: ImageScanDependencies; tables?: StandInTables }> => {
+  if (isLocal) {
+    const { client, tables } = createSupabaseStandIn({
+      tables: createLocalTables(),
+      rpc: {
+        // Same semantics as the SQL function in supabase/migrations
+        find_similar_images: (db, { target_hash, exclude_agent_id, max_distance }) =>
+          (db.property_images ?? [])
+            .filter((img) => typeof img.phash === 'string')
+            .map((img) => ({
+              image_id: img.id,
+              listing_id: img.listing_id,
+              agent_id: db.listings?.find((l) => l.id === img.listing_id)?.agent_id,
+              distance: hammingDistance(img.phash as string, target_hash as string),
+            }))
+            .filter((m) => m.agent_id !== exclude_agent_id && m.distance <= (max_distance as number))
+            .sort((a, b) => a.distance - b.distance),
+      },
+    });
+    return { deps: { client, fetchImage: fetchLocalImage, decode: decodeLocalImage }, tables };
+  }
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+  }
+
+  const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  const deps: ImageScanDependencies = { client, decode: decodeImageWithSharp };
+
+  const provider = createAiProviderFromEnv(process.env);
+  if (provider) {
+    deps.checkWithVision = createAiFeatures(provider).checkImageForScam;
+  }
+
+  return { deps };
+};
+
+const { deps, tables } = await createDependencies();
+const worker = createImageScanWorker(deps);
+
+if (runOnce) {
+  const summary = await worker.runOnce();
+  console.log('Scan run summary:', summary);
+
+  if (tables) {
+    console.table(tables.property_images.map((img) => ({
+      id: img.id,
+      status: (img.ai_scan as { status: string }).status,
+      reason: (img.ai_scan as { reason?: string }).reason ?? img.scan_last_error ?? '',
+      attempts: img.scan_attempts,
+    })));
+    console.table(tables.listings.map(({ id, status }) => ({ id, status })));
+  }
+} else {
+  worker.start();
+  process.on('SIGINT', () => {
+    worker.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Notification Worker runner
+ *
+ * Usage:
+ *   npm run notify-worker              # Poll the real database until stopped (Ctrl+C)
+ *   npm run notify-worker -- --once    # Process one batch and exit
+ *   npm run notify-worker -- --local   # Run once against an in-memory Supabase stand-in with fake channels
+ *
+ * Against the real database the worker needs SUPABASE_URL (or VITE_SUPABASE_URL) and
+ * SUPABASE_SERVICE_ROLE_KEY. In-app notifications are always delivered. Email is sent when
+ * SMTP_HOST and SMTP_FROM are set (plus SMTP_PORT, SMTP_SECURE, SMTP_USERNAME, SMTP_PASSWORD
+ * and APP_URL as needed; SMTP_REQUIRE_TLS=false allows an unencrypted relay without login); SMS when AT_USERNAME and AT_API_KEY are set (plus AT_SENDER_ID,
+ * and AT_SANDBOX=true for the sandbox). Add --fake-email / --fake-sms to log instead of sending.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createNotificationWorker, type NotificationWorkerDependencies } from '../services/notificationWorker';
+import {
+  createAfricasTalkingSmsChannel,
+  createFakeChannel,
+  createInAppChannel,
+  createSmtpEmailChannel,
+  type FakeChannelAdapter,
+} from '../services/notificationChannels';
+import { createSupabaseStandIn, type StandInRow, type StandInRpcHandler, type StandInTables } from '../services/supabaseStandIn';
+import type { NotificationType } from '../types';
+
+const args = process.argv.slice(2);
+const isLocal = args.includes('--local');
+const runOnce = args.includes('--once') || isLocal;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sample data for --local: an inquiry message for an agent (in-app + email), a verification
+ * result for an agent without a phone number (SMS skipped), one instant and two daily
+ * saved-search alerts, and an email to an address the fake rejects (retried). The listings
+ * exercise the lifecycle: one expires in three days (reminder), one expired yesterday and
+ * one was rented three weeks ago (archived).
+ */
+const createLocalTables = (): StandInTables => {
+  const due = new Date(Date.now() - 1000).toISOString();
+  const queued = { status: 'queued', attempts: 0, next_attempt_at: due };
+  const inDays = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+  return {
+    profiles: [
+      { id: 'agent-1', email: 'wanjiku@example.com', phone_number: '0712 345 678' },
+      { id: 'agent-2', email: 'otieno@example.com', phone_number: null },
+      { id: 'tenant-1', email: 'bounce@example.com', phone_number: '+254 110 123456' },
+    ],
+    listings: [
+      { id: 'listing-1', agent_id: 'agent-1', title: 'Kilimani 2BR with borehole', price: 55000, status: 'available', expires_at: inDays(3), expiry_reminder_sent_at: null },
+      { id: 'listing-2', agent_id: 'agent-1', title: 'Ruaka bedsitter', price: 12000, status: 'available', expires_at: inDays(-1), expiry_reminder_sent_at: inDays(-8) },
+      { id: 'listing-3', agent_id: 'agent-2', title: 'Westlands studio', price: 35000, status: 'rented', status_changed_at: inDays(-21) },
+    ],
+    saved_searches: [
+      { id: 'search-1', user_id: 'tenant-1', name: '2BR Kilimani under 60k' },
+      { id: 'search-2', user_id: 'tenant-1', name: 'Cheap near Thika Road' },
+    ],
+    saved_search_alerts: [
+      { id: 1, saved_search_id: 'search-1', user_id: 'tenant-1', listing_id: 'listing-1', channel: 'sms', frequency: 'instant', status: 'queued', deliver_after: due, created_at: due },
+      { id: 2, saved_search_id: 'search-2', user_id: 'tenant-1', listing_id: 'listing-2', channel: 'in_app', frequency: 'daily', status: 'queued', deliver_after: due, created_at: due },
+      { id: 3, saved_search_id: 'search-1', user_id: 'tenant-1', listing_id: 'listing-3', channel: 'in_app', frequency: 'daily', status: 'queued', deliver_after: due, created_at: due },
+    ],
+    notification_deliveries: [
+      {
+        id: 101, user_id: 'agent-1', channel: 'in_app', type: 'inquiry_message', ...queued,
+        data: { inquiryId: 'inq-1', listingId: 'listing-1', listingTitle: 'Kilimani 2BR with borehole', senderName: 'Achieng', recipientRole: 'agent', preview: 'Is it still available?' },
+      },
+      {
+        id: 102, user_id: 'agent-1', channel: 'email', type: 'inquiry_message', ...queued,
+        data: { inquiryId: 'inq-1', listingId: 'listing-1', listingTitle: 'Kilimani 2BR with borehole', senderName: 'Achieng', recipientRole: 'agent', preview: 'Is it still available?' },
+      },
+      { id: 103, user_id: 'agent-2', channel: 'sms', type: 'verification_result', data: { status: 'approved' }, ...queued },
+      {
+        id: 104, user_id: 'tenant-1', channel: 'email', type: 'inquiry_message', ...queued,
+        data: { inquiryId: 'inq-1', listingId: 'listing-1', listingTitle: 'Kilimani 2BR with borehole', senderName: 'Wanjiku', recipientRole: 'tenant', preview: 'Yes, viewings are on Saturday.' },
+      },
+    ],
+  };
+};
+
+/**
+ * In-memory version of the migration's run_listing_lifecycle, using the default settings
+ * (reminder 7 days before expiry, rented listings archived after 14 days). Notifications go
+ * to in-app and email, the defaults for users without preferences.
+ */
+const runListingLifecycle: StandInRpcHandler = (tables) => {
+  const now = Date.now();
+  const notify = (listing: StandInRow, type: NotificationType) => {
+    const data = { listingId: listing.id, listingTitle: listing.title, expiresAt: listing.expires_at };
+    for (const channel of ['in_app', 'email']) {
+      tables.notification_deliveries.push({
+        id: tables.notification_deliveries.length + 101, user_id: listing.agent_id, channel, type, data,
+        status: 'queued', attempts: 0, next_attempt_at: new Date(now).toISOString(),
+      });
+    }
+  };
+  const counts = { reminded: 0, expired: 0, archived: 0 };
+
+  for (const listing of tables.listings) {
+    const expiresAt = Date.parse(listing.expires_at as string);
+    if (listing.status === 'available' && !listing.expiry_reminder_sent_at && expiresAt > now && expiresAt <= now + 7 * DAY_MS) {
+      listing.expiry_reminder_sent_at = new Date(now).toISOString();
+      notify(listing, 'listing_expiring');
+      counts.reminded++;
+    } else if (listing.status === 'available' && expiresAt <= now) {
+      listing.status = 'expired';
+      notify(listing, 'listing_expired');
+      counts.expired++;
+    } else if (listing.status === 'rented' && Date.parse(listing.status_changed_at as string) <= now - 14 * DAY_MS) {
+      listing.status = 'archived';
+      counts.archived++;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Builds the worker dependencies for the selected mode.
+ */
+const createDependencies = (): { deps: NotificationWorkerDependencies; tables?: StandInTables; fakes: FakeChannelAdapter[] } => {
+  if (isLocal) {
+    const { client, tables } = createSupabaseStandIn({
+      tables: createLocalTables(),
+      rpc: { run_listing_lifecycle: runListingLifecycle },
+    });
+    const fakes = [
+      createFakeChannel('in_app'),
+      createFakeChannel('email', { failFor: ['bounce@example.com'] }),
+      createFakeChannel('sms'),
+    ];
+    return { deps: { client, channels: { in_app: fakes[0], email: fakes[1], sms: fakes[2] } }, tables, fakes };
+  }
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+  }
+
+  const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  const deps: NotificationWorkerDependencies = { client, channels: { in_app: createInAppChannel(client) } };
+  const fakes: FakeChannelAdapter[] = [];
+
+  if (args.includes('--fake-email')) {
+    fakes.push((deps.channels.email = createFakeChannel('email')));
+  } else if (process.env.SMTP_HOST && process.env.SMTP_FROM) {
+    deps.channels.email = createSmtpEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+      username: process.env.SMTP_USERNAME,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.SMTP_FROM,
+      appUrl: process.env.APP_URL || 'http://localhost:5173',
+    });
+  }
+
+  if (args.includes('--fake-sms')) {
+    fakes.push((deps.channels.sms = createFakeChannel('sms')));
+  } else if (process.env.AT_USERNAME && process.env.AT_API_KEY) {
+    deps.channels.sms = createAfricasTalkingSmsChannel({
+      username: process.env.AT_USERNAME,
+      apiKey: process.env.AT_API_KEY,
+      senderId: process.env.AT_SENDER_ID,
+      sandbox: process.env.AT_SANDBOX === 'true',
+    });
+  }
+
+  return { deps, fakes };
+};
+
+const { deps, tables, fakes } = createDependencies();
+const worker = createNotificationWorker(deps);
+
+if (runOnce) {
+  const summary = await worker.runOnce();
+  console.log('Notification run summary:', summary);
+
+  for (const fake of fakes) {
+    console.log(`\n[${fake.channel}] ${fake.sent.length} sent`);
+    fake.sent.forEach(({ address, message }) =>
+      console.log(`  -> ${address}: ${fake.channel === 'sms' ? message.sms : `${message.title}\n     ${message.body.replace(/\n/g, '\n     ')}`}`)
+    );
+  }
+
+  if (tables) {
+    console.table(tables.listings.map((l) => ({ id: l.id, status: l.status, expires: l.expires_at ?? '' })));
+    console.table(tables.notification_deliveries.map((d) => ({
+      id: d.id,
+      user: d.user_id,
+      channel: d.channel,
+      type: d.type,
+      status: d.status,
+      attempts: d.attempts,
+      error: d.last_error ?? '',
+    })));
+  }
+} else {
+  worker.start();
+  process.on('SIGINT', () => {
+    worker.stop();
+    process.exit(0);
+  });
+}
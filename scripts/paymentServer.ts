@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Payment Server - HTTP API for featured placement purchases
+ *
+ * Usage:
+ *   npm run payment-server                  # Serve against the real database and Daraja
+ *   npm run payment-server -- --mock-daraja # Serve against the in-memory stand-in and an in-process mock Daraja
+ *   npm run payment-server -- --local       # Run the whole flow offline once and print the results
+ *
+ * Routes:
+ *   POST /payments/featured        { listingId, planId, phoneNumber } with the agent's Supabase
+ *                                  access token as a Bearer token; answers 202 { paymentId, customerMessage }
+ *   POST /mpesa/callback/<token>   Daraja STK callback (the token keeps the URL unguessable)
+ *   GET  /health
+ *
+ * Pending payments are reconciled and lapsed featured listings un-featured every 30 seconds.
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL), SUPABASE_SERVICE_ROLE_KEY, PAYMENT_PUBLIC_URL (the
+ * URL Daraja can reach this server on), MPESA_CALLBACK_TOKEN, DARAJA_CONSUMER_KEY,
+ * DARAJA_CONSUMER_SECRET, DARAJA_SHORTCODE and DARAJA_PASSKEY. DARAJA_BASE_URL defaults to
+ * the sandbox; PORT to 8787; APP_URL is the allowed CORS origin.
+ *
+ * The mock Daraja approves every payment, so it is never paired with the real database:
+ * --mock-daraja serves the stand-in's sample data, with the user's ID as the bearer token.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createDarajaClient, DARAJA_SANDBOX_URL } from '../services/darajaClient';
+import { createMockDaraja } from '../services/mockDaraja';
+import { createPaymentService, type PaymentService, type PaymentServiceOptions } from '../services/paymentService';
+import { createSupabaseStandIn, type StandInRpcHandler, type StandInTables } from '../services/supabaseStandIn';
+
+const args = process.argv.slice(2);
+const isLocal = args.includes('--local');
+// Mock payments always succeed, so they only ever feature listings in the stand-in
+const useMockDaraja = args.includes('--mock-daraja') || isLocal;
+const SWEEP_INTERVAL_MS = 30_000;
+
+type Authenticate = (accessToken: string) => Promise<string | null>;
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+/**
+ * Builds the request handler for the payment API.
+ */
+const createHandler = (payments: PaymentService, authenticate: Authenticate, callbackToken: string, allowedOrigin: string) => {
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    });
+    res.end(JSON.stringify(body));
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') return send(res, 204, null);
+    if (req.method === 'GET' && path === '/health') return send(res, 200, { ok: true });
+
+    if (req.method === 'POST' && path === '/payments/featured') {
+      const accessToken = req.headers.authorization?.replace(/^Bearer /, '');
+      const userId = accessToken ? await authenticate(accessToken) : null;
+      if (!userId) return send(res, 401, { error: 'Please log in again' });
+
+      try {
+        const body = await readJson(req);
+        const purchase = await payments.startFeaturedPurchase({
+          userId,
+          listingId: String(body.listingId ?? ''),
+          planId: String(body.planId ?? ''),
+          phoneNumber: String(body.phoneNumber ?? ''),
+        });
+        return send(res, 202, purchase);
+      } catch (err) {
+        return send(res, 400, { error: err instanceof Error ? err.message : 'Payment could not be started' });
+      }
+    }
+
+    if (req.method === 'POST' && path === `/mpesa/callback/${callbackToken}`) {
+      try {
+        const status = await payments.handleStkCallback(await readJson(req));
+        console.log(`[paymentServer] STK callback handled: ${status ?? 'ignored'}`);
+        return send(res, 200, { ResultCode: 0, ResultDesc: 'Accepted' });
+      } catch (err) {
+        console.error('[paymentServer] STK callback failed:', err);
+        return send(res, 400, { ResultCode: 1, ResultDesc: 'Rejected' });
+      }
+    }
+
+    return send(res, 404, { error: 'Not found' });
+  };
+};
+
+/**
+ * Sample data for --local: agent-1 owns three available listings, one still featured for two
+ * more days (a purchase extends it) and one whose paid period already ended.
+ */
+const createLocalTables = (): StandInTables => {
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    profiles: [{ id: 'agent-1' }, { id: 'agent-2' }],
+    listings: [
+      { id: 'listing-1', agent_id: 'agent-1', title: 'Kilimani 2BR with borehole', status: 'available', is_featured: false, featured_until: null },
+      { id: 'listing-2', agent_id: 'agent-1', title: 'Ruaka bedsitter', status: 'available', is_featured: true, featured_until: inDays(2) },
+      { id: 'listing-3', agent_id: 'agent-1', title: 'Westlands studio', status: 'available', is_featured: false, featured_until: null },
+      { id: 'listing-4', agent_id: 'agent-2', title: 'Kileleshwa 3BR', status: 'available', is_featured: true, featured_until: inDays(-1) },
+    ],
+    payments: [],
+  };
+};
+
+/**
+ * In-memory versions of the migration's apply_featured_payment and expire_featured_listings.
+ */
+const localRpc: Record<string, StandInRpcHandler> = {
+  apply_featured_payment: (tables, { target_payment }) => {
+    const payment = tables.payments.find((p) => p.id === target_payment);
+    if (!payment || payment.status !== 'succeeded') throw new Error('Payment has not succeeded');
+    if (payment.featured_until) return payment.featured_until;
+
+    const listing = tables.listings.find((l) => l.id === payment.listing_id)!;
+    const current = Math.max(Date.now(), listing.featured_until ? Date.parse(listing.featured_until as string) : 0);
+    listing.is_featured = true;
+    listing.featured_until = new Date(current + (payment.featured_days as number) * 24 * 60 * 60 * 1000).toISOString();
+    payment.featured_until = listing.featured_until;
+    return listing.featured_until;
+  },
+  expire_featured_listings: (tables) => {
+    const lapsed = tables.listings.filter((l) => l.is_featured && l.featured_until && Date.parse(l.featured_until as string) <= Date.now());
+    lapsed.forEach((l) => (l.is_featured = false));
+    return lapsed.length;
+  },
+};
+
+const createDependencies = (): { client: SupabaseClient; tables?: StandInTables; authenticate: Authenticate } => {
+  if (useMockDaraja) {
+    const { client, tables } = createSupabaseStandIn({ tables: createLocalTables(), rpc: localRpc });
+    // Locally the bearer token is simply the user's ID
+    return { client, tables, authenticate: async (token) => token };
+  }
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+  }
+
+  const client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  const authenticate: Authenticate = async (token) => {
+    const { data, error } = await client.auth.getUser(token);
+    return error ? null : data.user?.id ?? null;
+  };
+  return { client, authenticate };
+};
+
+const { client, tables, authenticate } = createDependencies();
+const callbackToken = process.env.MPESA_CALLBACK_TOKEN || (useMockDaraja ? 'local' : '');
+if (!callbackToken) throw new Error('Missing MPESA_CALLBACK_TOKEN environment variable');
+
+const mockDaraja = useMockDaraja ? createMockDaraja({ callbackDelayMs: isLocal ? 200 : 3000 }) : null;
+const daraja = mockDaraja
+  ? createDarajaClient({ baseUrl: await mockDaraja.start(), consumerKey: 'mock', consumerSecret: 'mock', shortcode: '174379', passkey: 'mock' })
+  : createDarajaClient({
+      baseUrl: process.env.DARAJA_BASE_URL || DARAJA_SANDBOX_URL,
+      consumerKey: process.env.DARAJA_CONSUMER_KEY ?? '',
+      consumerSecret: process.env.DARAJA_CONSUMER_SECRET ?? '',
+      shortcode: process.env.DARAJA_SHORTCODE ?? '',
+      passkey: process.env.DARAJA_PASSKEY ?? '',
+    });
+
+const server = createServer();
+await new Promise<void>((resolve) => server.listen(isLocal ? 0 : Number(process.env.PORT) || 8787, resolve));
+const address = server.address();
+const serverUrl = `http://localhost:${typeof address === 'object' && address ? address.port : ''}`;
+const publicUrl = isLocal ? serverUrl : process.env.PAYMENT_PUBLIC_URL || serverUrl;
+
+// Locally, pending payments are queried straight away instead of after the usual grace period
+const serviceOptions: PaymentServiceOptions = isLocal ? { queryAfterMs: 0, expireAfterMs: 60_000 } : {};
+const payments = createPaymentService({ client, daraja, callbackUrl: `${publicUrl}/mpesa/callback/${callbackToken}` }, serviceOptions);
+const handler = createHandler(payments, authenticate, callbackToken, process.env.APP_URL || '*');
+server.on('request', (req, res) => {
+  handler(req, res).catch((err) => {
+    console.error('[paymentServer] Request failed:', err);
+    res.writeHead(500).end();
+  });
+});
+
+const sweep = async () => {
+  try {
+    const summary = await payments.reconcilePendingPayments();
+    const unfeatured = await payments.expireFeaturedListings();
+    if (summary.checked > 0 || summary.featured > 0 || unfeatured > 0) console.log('[paymentServer] Sweep complete:', { ...summary, unfeatured });
+  } catch (err) {
+    console.error('[paymentServer] Sweep failed:', err);
+  }
+};
+
+if (isLocal) {
+  const purchase = async (userId: string, listingId: string, phoneNumber: string, planId = 'featured_7d') => {
+    const response = await fetch(`${serverUrl}/payments/featured`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${userId}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ listingId, planId, phoneNumber }),
+    });
+    console.log(`POST /payments/featured ${listingId} ${phoneNumber} -> ${response.status}`, await response.json());
+  };
+
+  await purchase('agent-1', 'listing-1', '0712 345 678'); // Paid
+  await purchase('agent-1', 'listing-2', '0712 345 678', 'featured_30d'); // Paid, extends the current period
+  await purchase('agent-1', 'listing-3', '0712 345 111'); // Cancelled on the phone
+  await purchase('agent-1', 'listing-3', '0712 345 678'); // Rejected: the first attempt is still pending
+  await purchase('agent-1', 'listing-4', '0712 345 678'); // Rejected: someone else's listing
+
+  await new Promise((resolve) => setTimeout(resolve, 500)); // Let the mock deliver its callbacks
+  await purchase('agent-1', 'listing-3', '0712 345 333'); // Phone unreachable: settled by the sweep
+  await new Promise((resolve) => setTimeout(resolve, 500));
+  await sweep();
+
+  console.table(tables!.payments.map((p) => ({
+    listing: p.listing_id,
+    plan: p.plan_id,
+    amount: p.amount,
+    phone: p.phone_number,
+    status: p.status,
+    receipt: p.mpesa_receipt ?? '',
+    result: p.result_desc ?? '',
+  })));
+  console.table(tables!.listings.map((l) => ({ id: l.id, featured: l.is_featured, until: l.featured_until ?? '' })));
+
+  await mockDaraja!.stop();
+  server.close();
+} else {
+  console.log(`[paymentServer] Listening on ${serverUrl}${mockDaraja ? ' (mock Daraja)' : ''}`);
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  process.on('SIGINT', async () => {
+    clearInterval(timer);
+    await mockDaraja?.stop();
+    server.close();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,354 @@
+/**
+ * @fileoverview AI Features - Prompts, schemas and checks for each AI feature
+ *
+ * The features run on whichever AiProvider they are given, on the server: the
+ * AI proxy (api/ai.ts) serves them to the browser through geminiService, and
+ * the image scan worker calls checkImageForScam directly.
+ *
+ * Structured replies are validated against each feature's schema and asked for
+ * once more, with the problems fed back, if they don't match. Results come
+ * back as `{ data, error }` (AiResult) with a typed AiError.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { PropertyListing, AiEnhancedContent, RentEstimate, GroundingChunk, AiError, AiResult } from '../types';
+import type { SearchFilters } from '../components/SearchBar';
+import { PropertyTypeOptions, CommonAmenities } from '../constants';
+import { sanitizeSearchFilters } from '../utils/searchFilters';
+import { parseJsonText, validateJson, type JsonSchema } from '../utils/jsonSchema';
+import type { AiChatTurn, AiFeature, AiProvider } from './aiProviders';
+
+const IMAGE_CHECK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    isStockOrCopied: { type: 'boolean' },
+    isPoorQuality: { type: 'boolean' },
+    reason: { type: 'string', description: 'Short explanation, empty if neither' },
+  },
+  required: ['isStockOrCopied', 'isPoorQuality', 'reason'],
+};
+
+const ENHANCED_CONTENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    enhancedDescription: { type: 'string' },
+    suggestedTitle: { type: 'string' },
+    pricingAdvice: { type: 'string' },
+  },
+  required: ['enhancedDescription', 'suggestedTitle', 'pricingAdvice'],
+};
+
+const SEARCH_ASSISTANT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    reply: { type: 'string' },
+    filters: {
+      type: 'object',
+      properties: {
+        location: { type: 'string' },
+        county: { type: 'string' },
+        minPrice: { type: 'number', minimum: 0 },
+        maxPrice: { type: 'number', minimum: 0 },
+        bedrooms: { type: 'integer', minimum: 0 },
+        minBedrooms: { type: 'integer', minimum: 0 },
+        maxBedrooms: { type: 'integer', minimum: 0 },
+        minBathrooms: { type: 'integer', minimum: 0 },
+        propertyType: { type: 'string', enum: PropertyTypeOptions.map(option => option.value) },
+        furnished: { type: 'boolean' },
+        amenities: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+  required: ['reply', 'filters'],
+};
+
+const AI_ERROR_MESSAGES: Record<AiError['code'], string> = {
+  unavailable: 'AI features are not available right now.',
+  unauthorized: 'Please log in to use this AI feature.',
+  forbidden: 'This AI feature is only available to agents.',
+  rate_limited: "You've used this AI feature a lot recently. Please try again later.",
+  invalid_request: 'This AI request could not be processed.',
+  request_failed: 'The AI service could not be reached. Please try again.',
+  invalid_response: "The AI gave an answer we couldn't use. Please try again.",
+};
+
+/**
+ * Builds a failed AiResult with the standard message for the error code.
+ *
+ * @param {AiError['code']} code - What went wrong
+ * @param {string[]} [issues] - For invalid_request and invalid_response: what was wrong
+ * @returns {AiResult<never>} The failed result
+ */
+export const aiError = (code: AiError['code'], issues?: string[]): AiResult<never> => ({
+  data: null,
+  error: { code, message: AI_ERROR_MESSAGES[code], issues },
+});
+
+const correctionFor = (issues: string[]) =>
+  `Your previous reply did not match the required JSON format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n` +
+  'Reply again with the corrected JSON only.';
+
+/**
+ * Gets JSON from the model and checks it against the schema. A reply that isn't
+ * JSON or breaks the schema is asked for once more, telling the model what was wrong.
+ *
+ * @param {AiFeature} feature - Feature asking, for logs
+ * @param {JsonSchema} schema - Shape the reply must have
+ * @param {Function} ask - Sends the request; on the retry it gets the correction to pass on
+ * @returns {Promise<AiResult<T>>} The reply, typed by the schema, or why there is none
+ */
+const requestValidJson = async <T,>(
+  feature: AiFeature,
+  schema: JsonSchema,
+  ask: (correction?: string) => Promise<string>
+): Promise<AiResult<T>> => {
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let text: string;
+    try {
+      text = await ask(attempt === 1 ? undefined : correctionFor(issues));
+    } catch (error) {
+      console.error(`[${feature}] AI request failed:`, error);
+      return aiError('request_failed');
+    }
+
+    let value: unknown;
+    try {
+      value = parseJsonText(text);
+      issues = validateJson(schema, value);
+    } catch {
+      issues = ['reply is not valid JSON'];
+    }
+    if (issues.length === 0) return { data: value as T, error: null };
+    console.warn(`[${feature}] AI reply failed validation (attempt ${attempt}):`, issues);
+  }
+  return aiError('invalid_response', issues);
+};
+
+export interface SearchAssistantReply {
+  reply: string;
+  filters: SearchFilters; // Everything asked for so far
+}
+
+const SEARCH_ASSISTANT_INSTRUCTION = `You are a helpful assistant for finding rental houses in Kenya on a listings site.
+  The renter describes what they are looking for, possibly over several messages.
+  Work out their search from the whole conversation: location, bedrooms, budget, property type, amenities.
+  Prices are monthly rent in KES; "30k" means 30000.
+
+  Respond ONLY with a JSON object in the format:
+  {
+    "reply": "brief, conversational answer; ask a clarifying question if the request is vague",
+    "filters": {
+      "location": "neighbourhood or town, e.g. Rongai",
+      "county": "only if the renter names a county",
+      "minPrice": number, "maxPrice": number,
+      "bedrooms": number, "minBedrooms": number, "maxBedrooms": number,
+      "minBathrooms": number,
+      "propertyType": one of ${PropertyTypeOptions.map(option => `"${option.value}"`).join(', ')},
+      "furnished": boolean,
+      "amenities": array of strings, preferably from ${CommonAmenities.join(', ')}
+    }
+  }
+  "filters" must hold everything asked for so far in the conversation, leaving out anything not asked for.
+  If the renter drops a requirement, leave it out. Use "bedrooms" for an exact count ("2BR") and
+  "minBedrooms" for "at least". The site shows matching listings under your reply, so never invent
+  listings or say whether any exist.`;
+
+/**
+ * Creates the AI features on a provider.
+ *
+ * @param {AiProvider | null} provider - Provider to run on; null if AI is not configured, in which
+ *   case the features return an 'unavailable' error (or 'clear' for image checks) and generateText throws
+ * @returns The AI features
+ *
+ * @example
+ * const features = createAiFeatures(createAiProviderFromEnv(process.env));
+ * const { data, error } = await features.enhanceListingContent(listing);
+ */
+export const createAiFeatures = (provider: AiProvider | null) => ({
+  /**
+   * Asks the vision model whether a listing photo looks like a stock/watermarked image
+   * or is too poor in quality to be trusted.
+   * Duplicate detection is done beforehand with perceptual hashes (see imageScanService);
+   * this is only the optional last step of that pipeline.
+   *
+   * @throws {Error} If the model fails or its reply breaks the schema twice (the scan worker retries)
+   */
+  checkImageForScam: async (
+    imageDataBase64: string,
+    mimeType: string = 'image/jpeg'
+  ): Promise<{ status: 'clear' | 'flagged_reused' | 'flagged_poor_quality'; reason?: string }> => {
+    if (!provider) return { status: 'clear', reason: "AI service disabled." };
+
+    const prompt = `
+      You are reviewing a photo uploaded to a Kenyan rental listing site to protect tenants from scams.
+      Answer these questions about the image:
+      1. Does it look like a stock photo, a render, a screenshot of another website, or carry a watermark/logo of another agency?
+      2. Is the quality so low (very blurry, tiny, mostly dark, not showing a property) that it cannot be used to judge the property?
+
+      Respond ONLY with a JSON object in the format:
+      {
+        "isStockOrCopied": boolean,
+        "isPoorQuality": boolean,
+        "reason": "short explanation, empty if neither"
+      }
+    `;
+
+    const { data: parsed, error } = await requestValidJson<{ isStockOrCopied: boolean; isPoorQuality: boolean; reason: string }>(
+      'imageScan',
+      IMAGE_CHECK_SCHEMA,
+      (correction) => provider.analyzeImage({
+        feature: 'imageScan',
+        prompt: correction ? `${prompt}\n${correction}` : prompt,
+        schema: IMAGE_CHECK_SCHEMA,
+        image: { data: imageDataBase64, mimeType },
+      })
+    );
+    if (error) {
+      throw new Error(`AI image check failed: ${[error.message, ...(error.issues ?? [])].join(' ')}`);
+    }
+
+    if (parsed.isStockOrCopied) {
+      return { status: 'flagged_reused', reason: parsed.reason || 'Image looks like a stock or copied photo.' };
+    }
+    if (parsed.isPoorQuality) {
+      return { status: 'flagged_poor_quality', reason: parsed.reason || 'Image quality is too low to verify the property.' };
+    }
+    return { status: 'clear' };
+  },
+
+  /**
+   * Enhances listing details using AI.
+   *
+   * @returns {Promise<AiResult<AiEnhancedContent>>} Suggested title, description and pricing advice, or why there are none
+   */
+  enhanceListingContent: async (listing: Partial<PropertyListing>): Promise<AiResult<AiEnhancedContent>> => {
+    if (!provider) return aiError('unavailable');
+
+    const prompt = `
+      Given the following Kenyan rental listing details, enhance them.
+      Provide an engaging property description (max 150 words), a catchy title (max 10 words),
+      and brief pricing advice (e.g., "Consider highlighting value compared to area average.").
+      Focus on the Kenyan market context.
+
+      Details:
+      Title: ${listing.title || 'N/A'}
+      Location: ${listing.location?.neighborhood}, ${listing.location?.county}
+      Price: KES ${listing.price}
+      Bedrooms: ${listing.bedrooms}
+      Bathrooms: ${listing.bathrooms}
+      Current Description: ${listing.description || 'N/A'}
+      Amenities: ${listing.amenities?.join(', ') || 'N/A'}
+
+      Respond ONLY with a JSON object in the format:
+      {
+        "enhancedDescription": "string",
+        "suggestedTitle": "string",
+        "pricingAdvice": "string"
+      }
+    `;
+
+    return requestValidJson<AiEnhancedContent>('listingEnhancement', ENHANCED_CONTENT_SCHEMA, (correction) =>
+      provider.generateJson({
+        feature: 'listingEnhancement',
+        prompt: correction ? `${prompt}\n${correction}` : prompt,
+        schema: ENHANCED_CONTENT_SCHEMA,
+      })
+    );
+  },
+
+  /**
+   * Explains a rent estimate computed from our own listings (see rentEstimateService)
+   * in plain language. The model only explains: the figures are given to it and it
+   * is told not to change them. With Gemini, Google Search grounding lets it add
+   * context about the area, and the sources it used are returned for the UI to cite.
+   *
+   * The explanation is free text (grounding can't be combined with JSON output), so
+   * the only check is that there is one.
+   *
+   * @param {RentEstimate} estimate - Figures and comparables to explain
+   * @returns {Promise<AiResult<{ explanation: string; citations: GroundingChunk[] }>>} Explanation and sources, or why there are none
+   */
+  explainRentEstimate: async (
+    estimate: Omit<RentEstimate, 'explanation' | 'citations'>
+  ): Promise<AiResult<{ explanation: string; citations: GroundingChunk[] }>> => {
+    if (!provider) return aiError('unavailable');
+
+    const area = estimate.scope === 'neighborhood' ? estimate.location : `the county around ${estimate.location}`;
+    const prompt = `
+      Explain this rent estimate to a renter in Kenya in at most 80 words of plain text.
+      It was computed from ${estimate.sampleSize} ${estimate.bedrooms}-bedroom listings in ${area} on our site over the last 12 months.
+
+      25th percentile: KES ${estimate.p25Rent}
+      Median: KES ${estimate.medianRent}
+      75th percentile: KES ${estimate.p75Rent}
+      Recent comparable listings: ${estimate.comparables.map(c => `${c.title} (${c.neighborhood}, KES ${c.price}, ${c.status})`).join('; ') || 'none'}
+
+      Use only these figures for prices; never give other rent figures.
+      You may briefly add what typically drives rents in ${estimate.location}, using search to check it.
+    `;
+
+    try {
+      const { text, citations } = await provider.generateText({ feature: 'rentExplanation', prompt, grounded: true });
+      if (!text.trim()) return aiError('invalid_response', ['reply is empty']);
+      return { data: { explanation: text.trim(), citations }, error: null };
+    } catch (error) {
+      console.error("Error explaining rent estimate with AI:", error);
+      return aiError('request_failed');
+    }
+  },
+
+  /**
+   * Answers the next message in a conversation with the search assistant. The
+   * whole conversation is passed in, so renters can refine a search over several
+   * messages ("2BR in Rongai under 30k", then "with parking"). Each reply carries
+   * the filters for everything asked so far, ready for listingService.getListings.
+   * Replies that break the schema are corrected within the conversation.
+   *
+   * @param {AiChatTurn[]} history - Earlier messages, oldest first; model turns are the earlier JSON replies
+   * @param {string} message - The renter's new message
+   * @returns {Promise<AiResult<SearchAssistantReply>>} The reply and filters, or why there are none
+   *
+   * @example
+   * const { data } = await features.replyToSearchAssistant([], '2BR in Rongai under 30k with parking');
+   * // data.filters: { location: 'Rongai', bedrooms: 2, maxPrice: 30000, amenities: ['Parking'] }
+   */
+  replyToSearchAssistant: async (history: AiChatTurn[], message: string): Promise<AiResult<SearchAssistantReply>> => {
+    if (!provider) return aiError('unavailable');
+
+    const chat = provider.startChat({
+      feature: 'searchAssistant',
+      systemInstruction: SEARCH_ASSISTANT_INSTRUCTION,
+      history,
+      schema: SEARCH_ASSISTANT_SCHEMA,
+      lowLatency: true,
+    });
+    const { data, error } = await requestValidJson<{ reply: string; filters: unknown }>(
+      'searchAssistant',
+      SEARCH_ASSISTANT_SCHEMA,
+      (correction) => chat.send(correction ?? message)
+    );
+    if (error) return { data: null, error };
+    return { data: { reply: data.reply || 'Here is what I found.', filters: sanitizeSearchFilters(data.filters) }, error: null };
+  },
+
+  /**
+   * Generic text generation for other purposes.
+   *
+   * @throws {Error} If no AI provider is configured or generation fails
+   */
+  generateText: async (prompt: string, streamingCallback?: (chunk: string) => void): Promise<string> => {
+    if (!provider) throw new Error("AI service is unavailable: no AI provider is configured.");
+    try {
+      const { text } = await provider.generateText({ feature: 'text', prompt, onChunk: streamingCallback });
+      return text;
+    } catch (error) {
+      console.error("Error generating text with AI:", error);
+      throw error;
+    }
+  }
+});
+
+export type AiFeatures = ReturnType<typeof createAiFeatures>;
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview AI Fixtures - Canned answers for the fake AI provider
+ *
+ * With `AI_PROVIDER=fake` on the AI proxy every AI feature answers from these fixtures,
+ * so the app can be developed and demoed without an API key and always gives
+ * the same answers. Fixtures are checked in order; put specific ones (with a
+ * `match`) before a feature's catch-all.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { AiFixture } from './aiProviders';
+
+export const DEFAULT_AI_FIXTURES: AiFixture[] = [
+  // Search assistant: one worked example, then a clarifying question for anything else
+  {
+    feature: 'searchAssistant',
+    match: /rongai/i,
+    response: {
+      reply: 'Here are 2-bedroom homes in Rongai under KES 30,000 with parking.',
+      filters: { location: 'Rongai', bedrooms: 2, maxPrice: 30000, amenities: ['Parking'] },
+    },
+  },
+  {
+    feature: 'searchAssistant',
+    response: {
+      reply: 'Which area are you looking in, and what is your monthly budget?',
+      filters: {},
+    },
+  },
+
+  {
+    feature: 'listingEnhancement',
+    response: {
+      suggestedTitle: 'Bright, Secure Apartment Close to Town',
+      enhancedDescription:
+        'A bright and airy home in a quiet, secure compound with reliable water and backup power. ' +
+        'Close to shops, schools and public transport, it suits young families and professionals alike.',
+      pricingAdvice: 'Highlight the security and water supply; renters in this area pay a premium for both.',
+    },
+  },
+
+  {
+    feature: 'rentExplanation',
+    response:
+      'Most comparable homes listed on Rentify rent within the range shown, with the median a good guide to a fair price. ' +
+      'Homes nearer main roads and shopping centres, or with parking and backup water, tend to sit towards the top of the range.',
+    citations: [{ web: { uri: 'https://www.knbs.or.ke/', title: 'Kenya National Bureau of Statistics' } }],
+  },
+
+  {
+    feature: 'imageScan',
+    response: { isStockOrCopied: false, isPoorQuality: false, reason: '' },
+  },
+
+  {
+    feature: 'text',
+    response: 'This is sample text from the fake AI provider.',
+  },
+];
@@ -0,0 +1,465 @@
+/**
+ * @fileoverview AI Providers - Model adapters behind the app's AI features
+ *
+ * The AI features (geminiService) talk to an `AiProvider` instead of a vendor
+ * SDK, so the model behind them can be swapped by configuration:
+ * - Gemini: Google's `@google/genai` SDK (the only one with Google Search grounding)
+ * - OpenAI-compatible: any server speaking `/v1/chat/completions`, e.g. a local
+ *   Ollama, LM Studio or llama.cpp server
+ * - Fake: deterministic answers from fixtures (see aiFixtures), for development
+ *   without a key and for tests; it records every call in `calls`
+ *
+ * Each request names the feature making it, and the model is chosen per feature
+ * (`AI_MODEL_<FEATURE>`, falling back to `AI_MODEL`), so e.g. image
+ * checks can use a vision model while the search assistant uses a fast one.
+ *
+ * Providers hold API keys, so they only run on the server: the AI proxy
+ * (api/ai.ts) and the workers. The browser goes through geminiService.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { GoogleGenAI, GenerateContentResponse, type GroundingChunk as GenAiGroundingChunk } from '@google/genai';
+import type { GroundingChunk } from '../types';
+import type { JsonSchema } from '../utils/jsonSchema';
+import { DEFAULT_AI_FIXTURES } from './aiFixtures';
+
+/**
+ * Features that use AI. Each can be given its own model.
+ */
+export type AiFeature = 'listingEnhancement' | 'rentExplanation' | 'searchAssistant' | 'imageScan' | 'text';
+
+export type AiProviderName = 'gemini' | 'openai' | 'fake';
+
+export interface AiImage {
+  data: string; // Base64, without a data: prefix
+  mimeType: string;
+}
+
+export interface AiTextRequest {
+  feature: AiFeature;
+  prompt: string;
+  grounded?: boolean; // Let the model search the web and return its sources (Gemini only; ignored elsewhere)
+  onChunk?: (chunk: string) => void; // Streams the text as it is generated
+}
+
+export interface AiTextResult {
+  text: string;
+  citations: GroundingChunk[]; // Sources of a grounded answer; empty otherwise
+}
+
+export interface AiJsonRequest {
+  feature: AiFeature;
+  prompt: string;
+  schema: JsonSchema;
+}
+
+export interface AiImageRequest extends AiJsonRequest {
+  image: AiImage;
+}
+
+/**
+ * An earlier message in a conversation
+ */
+export interface AiChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface AiChatOptions {
+  feature: AiFeature;
+  systemInstruction: string;
+  history?: AiChatTurn[]; // Earlier messages, oldest first, to continue a conversation
+  schema?: JsonSchema; // Every reply is JSON matching this schema
+  lowLatency?: boolean; // Skip extended reasoning where the model supports it
+}
+
+/**
+ * A conversation; each reply is sent with the whole history.
+ */
+export interface AiChat {
+  send: (message: string) => Promise<string>; // The reply text (JSON text for chats with a schema)
+}
+
+export interface AiProvider {
+  name: AiProviderName;
+  /** Generates free text. */
+  generateText: (request: AiTextRequest) => Promise<AiTextResult>;
+  /** Asks for JSON matching the schema. Returns the reply text, which models don't always keep to the schema; check it with validateJson. */
+  generateJson: (request: AiJsonRequest) => Promise<string>;
+  /** Starts a conversation. */
+  startChat: (options: AiChatOptions) => AiChat;
+  /** Asks a question about an image, answered as JSON text like generateJson. */
+  analyzeImage: (request: AiImageRequest) => Promise<string>;
+}
+
+/**
+ * Models by feature; `default` is used for features without their own
+ */
+export type AiModels = { default: string } & Partial<Record<AiFeature, string>>;
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  models?: AiModels;
+}
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // Up to and including the version, e.g. 'http://localhost:11434/v1'
+  apiKey?: string; // Local servers usually need none
+  models: AiModels;
+  fetchImpl?: typeof fetch; // Overridable for tests
+}
+
+/**
+ * A canned answer for the fake provider. The first fixture whose feature and
+ * `match` fit the request is used.
+ */
+export interface AiFixture {
+  feature?: AiFeature; // Any feature if omitted
+  match?: string | RegExp; // Tested against the prompt (or the latest chat message); strings match case-insensitively
+  response: unknown; // Text for text requests and chats without a schema; a JSON value otherwise
+  citations?: GroundingChunk[];
+}
+
+export interface AiCall {
+  feature: AiFeature;
+  kind: 'text' | 'json' | 'chat' | 'image';
+  model: string;
+  prompt: string;
+}
+
+export interface FakeAiProvider extends AiProvider {
+  calls: AiCall[]; // Every request, oldest first
+}
+
+/**
+ * Default Gemini model
+ * @constant {string}
+ */
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-preview-04-17';
+
+/**
+ * Environment variable suffix for each feature's model, e.g. AI_MODEL_IMAGE_SCAN
+ * @constant {Record<AiFeature, string>}
+ */
+const FEATURE_ENV_SUFFIX: Record<AiFeature, string> = {
+  listingEnhancement: 'LISTING_ENHANCEMENT',
+  rentExplanation: 'RENT_EXPLANATION',
+  searchAssistant: 'SEARCH_ASSISTANT',
+  imageScan: 'IMAGE_SCAN',
+  text: 'TEXT',
+};
+
+const modelFor = (models: AiModels, feature: AiFeature) => models[feature] ?? models.default;
+
+const toCitations = (chunks: GenAiGroundingChunk[]): GroundingChunk[] =>
+  chunks.flatMap((chunk) => {
+    const source = chunk.web ?? chunk.retrievedContext;
+    if (!source?.uri) return [];
+    const citation = { uri: source.uri, title: source.title || source.uri };
+    return [chunk.web ? { web: citation } : { retrievedContext: citation }];
+  });
+
+/**
+ * Creates the Gemini provider.
+ *
+ * @param {GeminiProviderConfig} config - API key and models
+ * @returns {AiProvider} Gemini provider
+ */
+export const createGeminiProvider = (config: GeminiProviderConfig): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const models = config.models ?? { default: DEFAULT_GEMINI_MODEL };
+  const jsonConfig = (schema: JsonSchema) => ({ responseMimeType: 'application/json', responseJsonSchema: schema });
+
+  return {
+    name: 'gemini',
+    generateText: async ({ feature, prompt, grounded, onChunk }) => {
+      const request = {
+        model: modelFor(models, feature),
+        contents: prompt,
+        config: grounded ? { tools: [{ googleSearch: {} }] } : undefined,
+      };
+      if (!onChunk) {
+        const response: GenerateContentResponse = await ai.models.generateContent(request);
+        return {
+          text: response.text || '',
+          citations: toCitations(response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []),
+        };
+      }
+
+      let text = '';
+      const chunks: GenAiGroundingChunk[] = [];
+      for await (const chunk of await ai.models.generateContentStream(request)) {
+        text += chunk.text || '';
+        onChunk(chunk.text || '');
+        chunks.push(...(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []));
+      }
+      return { text, citations: toCitations(chunks) };
+    },
+    generateJson: async ({ feature, prompt, schema }) => {
+      const response = await ai.models.generateContent({
+        model: modelFor(models, feature),
+        contents: prompt,
+        config: jsonConfig(schema),
+      });
+      return response.text || '';
+    },
+    startChat: ({ feature, systemInstruction, history = [], schema, lowLatency }) => {
+      const chat = ai.chats.create({
+        model: modelFor(models, feature),
+        history: history.map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        config: {
+          systemInstruction,
+          ...(schema ? jsonConfig(schema) : {}),
+          ...(lowLatency ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+        },
+      });
+      return {
+        send: async (message) => (await chat.sendMessage({ message })).text || '',
+      };
+    },
+    analyzeImage: async ({ feature, prompt, schema, image }) => {
+      const response = await ai.models.generateContent({
+        model: modelFor(models, feature),
+        contents: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: prompt }],
+        config: jsonConfig(schema),
+      });
+      return response.text || '';
+    },
+  };
+};
+
+type OpenAiContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: OpenAiContent;
+}
+
+/**
+ * Creates a provider for servers with an OpenAI-compatible chat completions API.
+ * Grounding is not available, so grounded text comes back without citations.
+ *
+ * @param {OpenAiCompatibleConfig} config - Server URL, optional API key and models
+ * @returns {AiProvider} OpenAI-compatible provider
+ *
+ * @example
+ * // Ollama running locally
+ * const provider = createOpenAiCompatibleProvider({
+ *   baseUrl: 'http://localhost:11434/v1',
+ *   models: { default: 'llama3.1', imageScan: 'llava' },
+ * });
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): AiProvider => {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  const complete = async (
+    feature: AiFeature,
+    messages: OpenAiMessage[],
+    { schema, onChunk }: { schema?: JsonSchema; onChunk?: (chunk: string) => void } = {}
+  ): Promise<string> => {
+    const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: modelFor(config.models, feature),
+        messages,
+        stream: Boolean(onChunk),
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: feature, schema } } } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`AI server responded ${response.status}: ${await response.text()}`);
+    }
+
+    if (!onChunk || !response.body) {
+      const result = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+      return result.choices?.[0]?.message?.content ?? '';
+    }
+
+    // Server-sent events: one `data: {json}` line per chunk, ending with `data: [DONE]`
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const event = JSON.parse(data) as { choices?: { delta?: { content?: string } }[] };
+        const chunk = event.choices?.[0]?.delta?.content ?? '';
+        if (chunk) {
+          text += chunk;
+          onChunk(chunk);
+        }
+      }
+    }
+    return text;
+  };
+
+  return {
+    name: 'openai',
+    generateText: async ({ feature, prompt, onChunk }) => ({
+      text: await complete(feature, [{ role: 'user', content: prompt }], { onChunk }),
+      citations: [],
+    }),
+    generateJson: async ({ feature, prompt, schema }) =>
+      complete(feature, [{ role: 'user', content: prompt }], { schema }),
+    startChat: ({ feature, systemInstruction, history = [], schema }) => {
+      const messages: OpenAiMessage[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map((turn): OpenAiMessage => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+      ];
+      return {
+        send: async (message) => {
+          const reply = await complete(feature, [...messages, { role: 'user', content: message }], { schema });
+          // Only answered messages join the history, so a failed send can simply be retried
+          messages.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+          return reply;
+        },
+      };
+    },
+    analyzeImage: async ({ feature, prompt, schema, image }) => {
+      const content: OpenAiContent = [
+        { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        { type: 'text', text: prompt },
+      ];
+      return complete(feature, [{ role: 'user', content }], { schema });
+    },
+  };
+};
+
+/**
+ * Builds a placeholder value matching a schema, for requests no fixture answers.
+ */
+const sampleFromSchema = (schema: JsonSchema, name = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, sampleFromSchema(property, key)])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return schema.enum?.[0] ?? `Sample ${name}`;
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+  }
+};
+
+/**
+ * Creates the fake provider. Answers come from the first matching fixture; with
+ * none, text requests get a fixed placeholder and JSON requests a placeholder
+ * built from the schema. The same request always gets the same answer.
+ *
+ * @param {object} [options] - Options
+ * @param {AiFixture[]} [options.fixtures=DEFAULT_AI_FIXTURES] - Canned answers, checked in order
+ * @param {AiModels} [options.models] - Models to record in `calls`
+ * @returns {FakeAiProvider} Provider that records requests in `calls`
+ *
+ * @example
+ * const ai = createFakeProvider({
+ *   fixtures: [{ feature: 'searchAssistant', match: 'kilimani', response: { reply: 'Here you go', filters: { location: 'Kilimani' } } }],
+ * });
+ * await ai.startChat({ feature: 'searchAssistant', systemInstruction: '' }).send('Something in Kilimani');
+ * console.log(ai.calls.length); // 1
+ */
+export const createFakeProvider = (
+  options: { fixtures?: AiFixture[]; models?: AiModels } = {}
+): FakeAiProvider => {
+  const fixtures = options.fixtures ?? DEFAULT_AI_FIXTURES;
+  const models = options.models ?? { default: 'fake' };
+  const calls: AiCall[] = [];
+
+  const answer = (call: Omit<AiCall, 'model'>): AiFixture | undefined => {
+    calls.push({ ...call, model: modelFor(models, call.feature) });
+    return fixtures.find(
+      (fixture) =>
+        (!fixture.feature || fixture.feature === call.feature) &&
+        (fixture.match === undefined ||
+          (typeof fixture.match === 'string'
+            ? call.prompt.toLowerCase().includes(fixture.match.toLowerCase())
+            : fixture.match.test(call.prompt)))
+    );
+  };
+
+  const textOf = (fixture: AiFixture | undefined, feature: AiFeature) =>
+    fixture ? (typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response)) : `Sample ${feature} text.`;
+
+  return {
+    name: 'fake',
+    calls,
+    generateText: async ({ feature, prompt, onChunk }) => {
+      const fixture = answer({ feature, kind: 'text', prompt });
+      const text = textOf(fixture, feature);
+      text.split(/(?<= )/).forEach((chunk) => onChunk?.(chunk));
+      return { text, citations: fixture?.citations ?? [] };
+    },
+    generateJson: async ({ feature, prompt, schema }) => {
+      const fixture = answer({ feature, kind: 'json', prompt });
+      return fixture ? textOf(fixture, feature) : JSON.stringify(sampleFromSchema(schema));
+    },
+    startChat: ({ feature, schema }) => ({
+      send: async (message) => {
+        const fixture = answer({ feature, kind: 'chat', prompt: message });
+        return !fixture && schema ? JSON.stringify(sampleFromSchema(schema)) : textOf(fixture, feature);
+      },
+    }),
+    analyzeImage: async ({ feature, prompt, schema }) => {
+      const fixture = answer({ feature, kind: 'image', prompt });
+      return fixture ? textOf(fixture, feature) : JSON.stringify(sampleFromSchema(schema));
+    },
+  };
+};
+
+/**
+ * Creates the provider chosen by environment variables:
+ * - `AI_PROVIDER`: 'gemini', 'openai' or 'fake'; defaults to 'gemini' when
+ *   `GEMINI_API_KEY` is set
+ * - `GEMINI_API_KEY`: Gemini API key
+ * - `AI_BASE_URL` / `AI_API_KEY`: OpenAI-compatible server and its key, if any
+ * - `AI_MODEL`: model for every feature (required for 'openai')
+ * - `AI_MODEL_<FEATURE>`: model for one feature, e.g. `AI_MODEL_IMAGE_SCAN`
+ *
+ * @param {Record<string, string | undefined>} env - Server environment, e.g. process.env
+ * @returns {AiProvider | null} The provider, or null if AI is not configured
+ * @throws {Error} If the configuration is incomplete or names an unknown provider
+ */
+export const createAiProviderFromEnv = (env: Record<string, string | undefined>): AiProvider | null => {
+  const name = env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : undefined);
+  if (!name) return null;
+
+  const defaultModel = env.AI_MODEL || (name === 'gemini' ? DEFAULT_GEMINI_MODEL : name === 'fake' ? 'fake' : '');
+  if (!defaultModel) throw new Error(`AI_MODEL must be set for the '${name}' AI provider`);
+  const models: AiModels = { default: defaultModel };
+  (Object.keys(FEATURE_ENV_SUFFIX) as AiFeature[]).forEach((feature) => {
+    const model = env[`AI_MODEL_${FEATURE_ENV_SUFFIX[feature]}`];
+    if (model) models[feature] = model;
+  });
+
+  switch (name) {
+    case 'gemini':
+      if (!env.GEMINI_API_KEY) throw new Error('GEMINI_API_KEY must be set for the Gemini AI provider');
+      return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, models });
+    case 'openai':
+      if (!env.AI_BASE_URL) throw new Error('AI_BASE_URL must be set for the OpenAI-compatible AI provider');
+      return createOpenAiCompatibleProvider({ baseUrl: env.AI_BASE_URL, apiKey: env.AI_API_KEY, models });
+    case 'fake':
+      return createFakeProvider({ models });
+    default:
+      throw new Error(`Unknown AI provider '${name}'; use 'gemini', 'openai' or 'fake'`);
+  }
+};
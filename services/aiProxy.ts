@@ -0,0 +1,423 @@
+/**
+ * @fileoverview AI Proxy - Server endpoint for the browser's AI features
+ *
+ * The browser never holds an AI key: geminiService posts `{ feature, input }`
+ * to the proxy, which runs the feature (see aiFeatures) and answers with its
+ * AiResult. For every request the proxy:
+ * - Checks the input against the feature's schema and size limit
+ * - Identifies the Supabase user from the Bearer token, if any; agent tools
+ *   (including free-form `text`) need an agent or admin
+ * - Applies the feature's quotas per user and per IP address (429 when used up)
+ * - Answers identical requests from a cache for the feature's cache period
+ *
+ * Deployed as a Vercel function (api/ai.ts); `npm run ai-server` serves the
+ * same handler locally. Quotas and the cache live in the database, since
+ * serverless instances share no memory; an in-memory store is used locally.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UserRole, type AiResult, type PropertyListing, type RentEstimate } from '../types';
+import { validateJson, type JsonSchema } from '../utils/jsonSchema';
+import { aiError, type AiFeatures } from './aiFeatures';
+import type { AiChatTurn, AiFeature } from './aiProviders';
+
+export interface AiProxyStore {
+  /** Counts a request against a quota. @returns {Promise<boolean>} False if the quota was already used up */
+  consumeQuota: (bucket: string, feature: AiFeature, limit: number, windowSeconds: number) => Promise<boolean>;
+  /** @returns {Promise<unknown>} The cached response, or undefined if there is none */
+  getCached: (key: string) => Promise<unknown>;
+  setCached: (key: string, response: unknown, ttlSeconds: number) => Promise<void>;
+}
+
+export interface AiProxyUser {
+  id: string;
+  role: UserRole;
+}
+
+export interface AiProxyDependencies {
+  features: AiFeatures;
+  store: AiProxyStore;
+  authenticate: (accessToken: string) => Promise<AiProxyUser | null>; // Null if the token is invalid
+  allowedOrigin?: string; // CORS origin; '*' by default
+}
+
+interface AiFeaturePolicy {
+  input: JsonSchema;
+  maxBodyBytes: number;
+  roles?: UserRole[]; // Who may use an agent tool; renters' features work logged out
+  perUser: number; // Requests per window for each logged-in user
+  perIp: number; // Requests per window for each IP address, logged in or not
+  windowSeconds: number;
+  cacheSeconds: number; // 0 to never cache
+}
+
+/**
+ * Longest search assistant conversation accepted, in messages
+ * @constant {number}
+ */
+const MAX_HISTORY = 20;
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const TEXT: JsonSchema = { type: 'string' };
+
+const AGENT_TOOL = [UserRole.AGENT, UserRole.ADMIN];
+
+/**
+ * What each feature accepts, who may use it, how often, and how long answers are cached.
+ * Rent explanations are cached for a day because everyone viewing similar
+ * listings asks about the same figures.
+ * @constant
+ */
+export const AI_FEATURE_POLICIES: Record<AiFeature, AiFeaturePolicy> = {
+  listingEnhancement: {
+    input: {
+      type: 'object',
+      properties: {
+        listing: {
+          type: 'object',
+          properties: {
+            title: TEXT,
+            description: TEXT,
+            location: { type: 'object', properties: { neighborhood: TEXT, county: TEXT } },
+            price: { type: 'number' },
+            bedrooms: { type: 'integer' },
+            bathrooms: { type: 'integer' },
+            amenities: { type: 'array', items: TEXT },
+          },
+        },
+      },
+      required: ['listing'],
+    },
+    maxBodyBytes: 16_000,
+    roles: AGENT_TOOL,
+    perUser: 30,
+    perIp: 60,
+    windowSeconds: HOUR,
+    cacheSeconds: DAY,
+  },
+  rentExplanation: {
+    input: {
+      type: 'object',
+      properties: {
+        estimate: {
+          type: 'object',
+          properties: {
+            location: TEXT,
+            bedrooms: { type: 'integer' },
+            scope: { type: 'string', enum: ['neighborhood', 'county'] },
+            sampleSize: { type: 'integer' },
+            p25Rent: { type: 'number' },
+            medianRent: { type: 'number' },
+            p75Rent: { type: 'number' },
+            comparables: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { title: TEXT, price: { type: 'number' }, neighborhood: TEXT, status: TEXT },
+                required: ['title', 'price', 'neighborhood', 'status'],
+              },
+            },
+          },
+          required: ['location', 'bedrooms', 'scope', 'sampleSize', 'p25Rent', 'medianRent', 'p75Rent', 'comparables'],
+        },
+      },
+      required: ['estimate'],
+    },
+    maxBodyBytes: 16_000,
+    perUser: 60,
+    perIp: 30,
+    windowSeconds: HOUR,
+    cacheSeconds: DAY,
+  },
+  searchAssistant: {
+    input: {
+      type: 'object',
+      properties: {
+        history: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { role: { type: 'string', enum: ['user', 'model'] }, text: TEXT },
+            required: ['role', 'text'],
+          },
+        },
+        message: TEXT,
+      },
+      required: ['history', 'message'],
+    },
+    maxBodyBytes: 32_000,
+    perUser: 120,
+    perIp: 60,
+    windowSeconds: HOUR,
+    cacheSeconds: HOUR,
+  },
+  imageScan: {
+    input: {
+      type: 'object',
+      properties: { imageDataBase64: TEXT, mimeType: TEXT },
+      required: ['imageDataBase64', 'mimeType'],
+    },
+    maxBodyBytes: 4_000_000, // Under Vercel's 4.5 MB request limit
+    roles: AGENT_TOOL,
+    perUser: 100,
+    perIp: 100,
+    windowSeconds: HOUR,
+    cacheSeconds: DAY,
+  },
+  text: {
+    input: {
+      type: 'object',
+      properties: { prompt: TEXT, stream: { type: 'boolean' } },
+      required: ['prompt'],
+    },
+    maxBodyBytes: 16_000,
+    roles: AGENT_TOOL,
+    perUser: 30,
+    perIp: 30,
+    windowSeconds: HOUR,
+    cacheSeconds: 0, // May be streamed
+  },
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const clientIp = (request: Request): string =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+
+/**
+ * Runs a feature with validated input and wraps the answer as an AiResult.
+ */
+const runFeature = async (
+  features: AiFeatures,
+  feature: AiFeature,
+  input: Record<string, unknown>
+): Promise<AiResult<unknown>> => {
+  switch (feature) {
+    case 'listingEnhancement':
+      return features.enhanceListingContent(input.listing as Partial<PropertyListing>);
+    case 'rentExplanation':
+      return features.explainRentEstimate(input.estimate as Omit<RentEstimate, 'explanation' | 'citations'>);
+    case 'searchAssistant':
+      return features.replyToSearchAssistant(input.history as AiChatTurn[], input.message as string);
+    case 'imageScan':
+      try {
+        return { data: await features.checkImageForScam(input.imageDataBase64 as string, input.mimeType as string), error: null };
+      } catch {
+        return aiError('request_failed');
+      }
+    case 'text':
+      try {
+        return { data: await features.generateText(input.prompt as string), error: null };
+      } catch {
+        return aiError('request_failed');
+      }
+  }
+};
+
+/**
+ * Creates the proxy's request handler, a standard Request → Response function
+ * as used by Vercel functions.
+ *
+ * Requests are `POST { feature, input }` with an optional `Authorization: Bearer
+ * <Supabase access token>`. Answers are the feature's AiResult as JSON, with
+ * status 200 (even when the AI failed), 400 for bad input, 401 when login is
+ * needed, 403 when the user's role may not use the feature, 429 when a
+ * quota is used up and 503 when the login or quota check could not be made.
+ * `text` with `stream: true` answers
+ * with the text as it is generated (text/plain).
+ *
+ * @param {AiProxyDependencies} deps - Features, quota/cache store and token check
+ * @returns {(request: Request) => Promise<Response>} The handler
+ *
+ * @example
+ * const handler = createAiProxyHandler({ features, store: createMemoryAiProxyStore(), authenticate });
+ * const response = await handler(new Request('http://localhost/api/ai', {
+ *   method: 'POST',
+ *   body: JSON.stringify({ feature: 'searchAssistant', input: { history: [], message: '2BR in Rongai' } }),
+ * }));
+ */
+export const createAiProxyHandler = (deps: AiProxyDependencies) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': deps.allowedOrigin ?? '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+  const send = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...corsHeaders, ...headers } });
+  const badRequest = (issues: string[]) => send(400, aiError('invalid_request', issues));
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: corsHeaders });
+    if (request.method !== 'POST') return send(405, { error: 'Method not allowed' });
+
+    const bodyText = await request.text();
+    let body: { feature?: unknown; input?: unknown };
+    try {
+      body = JSON.parse(bodyText);
+    } catch {
+      return badRequest(['body is not valid JSON']);
+    }
+    const feature = body.feature as AiFeature;
+    const policy = Object.prototype.hasOwnProperty.call(AI_FEATURE_POLICIES, feature) ? AI_FEATURE_POLICIES[feature] : null;
+    if (!policy) return badRequest([`unknown feature "${String(body.feature)}"`]);
+
+    const issues = validateJson(policy.input, body.input).map((issue) => issue.replace(/^reply/, 'input'));
+    if (new TextEncoder().encode(bodyText).length > policy.maxBodyBytes) issues.push(`request is larger than ${policy.maxBodyBytes} bytes`);
+    const input = body.input as Record<string, unknown>;
+    if (feature === 'searchAssistant' && Array.isArray(input?.history) && input.history.length > MAX_HISTORY) {
+      issues.push(`conversation is longer than ${MAX_HISTORY} messages; please start a new one`);
+    }
+    if (issues.length > 0) return badRequest(issues);
+
+    const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    let user: AiProxyUser | null = null;
+    try {
+      user = accessToken ? await deps.authenticate(accessToken) : null;
+    } catch (err) {
+      console.error('[aiProxy] Authentication failed:', err);
+      return send(503, aiError('request_failed'));
+    }
+    if ((accessToken && !user) || (policy.roles && !user)) return send(401, aiError('unauthorized'));
+    if (policy.roles && !policy.roles.includes(user!.role)) return send(403, aiError('forbidden'));
+
+    try {
+      const buckets = [`ip:${clientIp(request)}`, ...(user ? [`user:${user.id}`] : [])];
+      for (const bucket of buckets) {
+        const limit = bucket.startsWith('user:') ? policy.perUser : policy.perIp;
+        if (!(await deps.store.consumeQuota(bucket, feature, limit, policy.windowSeconds))) {
+          return send(429, aiError('rate_limited'), { 'Retry-After': String(policy.windowSeconds) });
+        }
+      }
+    } catch (err) {
+      console.error('[aiProxy] Quota check failed:', err);
+      return send(503, aiError('request_failed'));
+    }
+
+    if (feature === 'text' && input.stream) {
+      const stream = new ReadableStream<Uint8Array>({
+        start: async (controller) => {
+          const encoder = new TextEncoder();
+          try {
+            await deps.features.generateText(input.prompt as string, (chunk) => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+          } catch (err) {
+            console.error('[aiProxy] Streaming failed:', err);
+            controller.error(err);
+          }
+        },
+      });
+      return new Response(stream, { headers: { 'Content-Type': 'text/plain; charset=utf-8', ...corsHeaders } });
+    }
+
+    const cacheKey = policy.cacheSeconds > 0 ? `${feature}:${await sha256(JSON.stringify(input))}` : null;
+    if (cacheKey) {
+      const cached = await deps.store.getCached(cacheKey).catch((err) => {
+        console.error('[aiProxy] Cache read failed:', err);
+        return undefined;
+      });
+      if (cached !== undefined) return send(200, { data: cached, error: null }, { 'X-Cache': 'HIT' });
+    }
+
+    const result = await runFeature(deps.features, feature, input);
+    if (cacheKey && !result.error) {
+      await deps.store.setCached(cacheKey, result.data, policy.cacheSeconds).catch((err) => {
+        console.error('[aiProxy] Cache write failed:', err);
+      });
+    }
+    return send(200, result);
+  };
+};
+
+/**
+ * Creates the token check used in production: the Supabase user plus their
+ * role from `profiles`.
+ *
+ * @param {SupabaseClient} client - Service-role Supabase client
+ * @returns {AiProxyDependencies['authenticate']} The token check
+ */
+export const createSupabaseAuthenticator = (client: SupabaseClient): AiProxyDependencies['authenticate'] =>
+  async (accessToken) => {
+    const { data, error } = await client.auth.getUser(accessToken);
+    if (error || !data.user) return null;
+
+    const { data: profile, error: profileError } = await client
+      .from('profiles')
+      .select('role')
+      .eq('id', data.user.id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+    return { id: data.user.id, role: (profile?.role as UserRole | undefined) ?? UserRole.TENANT };
+  };
+
+/**
+ * Creates the database-backed store used in production (tables and function
+ * from the ai_proxy migration; needs the service role).
+ *
+ * @param {SupabaseClient} client - Service-role Supabase client
+ * @returns {AiProxyStore} The store
+ */
+export const createSupabaseAiProxyStore = (client: SupabaseClient): AiProxyStore => ({
+  consumeQuota: async (bucket, feature, limit, windowSeconds) => {
+    const { data, error } = await client.rpc('consume_ai_quota', {
+      target_bucket: bucket,
+      target_feature: feature,
+      max_requests: limit,
+      window_seconds: windowSeconds,
+    });
+    if (error) throw error;
+    return data as boolean;
+  },
+  getCached: async (key) => {
+    const { data, error } = await client
+      .from('ai_response_cache')
+      .select('response')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    return data ? data.response : undefined;
+  },
+  setCached: async (key, response, ttlSeconds) => {
+    const { error } = await client.from('ai_response_cache').upsert({
+      key,
+      response,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    });
+    if (error) throw error;
+  },
+});
+
+/**
+ * Creates an in-memory store for local runs and tests. Quotas use fixed
+ * windows, like the database version.
+ *
+ * @returns {AiProxyStore} The store
+ */
+export const createMemoryAiProxyStore = (): AiProxyStore => {
+  const counts = new Map<string, number>();
+  const cache = new Map<string, { response: unknown; expiresAt: number }>();
+  return {
+    consumeQuota: async (bucket, feature, limit, windowSeconds) => {
+      const window = Math.floor(Date.now() / 1000 / windowSeconds);
+      const key = `${bucket}:${feature}:${window}`;
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      return count <= limit;
+    },
+    getCached: async (key) => {
+      const entry = cache.get(key);
+      return entry && entry.expiresAt > Date.now() ? structuredClone(entry.response) : undefined;
+    },
+    setCached: async (key, response, ttlSeconds) => {
+      cache.set(key, { response: structuredClone(response), expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+  };
+};
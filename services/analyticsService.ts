@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Analytics Service - Listing event tracking and daily stats
+ *
+ * Records listing impressions, detail views, contact clicks, WhatsApp shares
+ * and saves. Events are:
+ * - Deduplicated per browser session (here and again in the database)
+ * - Ignored when an agent interacts with their own listing
+ * - Batched and sent through the `track_listing_events` function
+ *
+ * The database rolls events up into `listing_daily_stats` and keeps
+ * `listings.views` current, which feed the agent dashboard.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { v4 as uuidv4 } from 'uuid';
+import type { ListingDailyStats, ListingEventType, NeighborhoodBenchmark } from '../types';
+
+/**
+ * sessionStorage keys for the session id and events already sent
+ * @constant {string}
+ */
+const SESSION_ID_KEY = 'rentify.analyticsSession';
+const TRACKED_EVENTS_KEY = 'rentify.analyticsTracked';
+
+/**
+ * How long to collect events before sending a batch (ms)
+ * @constant {number}
+ */
+const FLUSH_DELAY_MS = 1500;
+
+/**
+ * Largest batch the database function accepts
+ * @constant {number}
+ */
+const MAX_BATCH_SIZE = 100;
+
+interface QueuedEvent {
+  listing_id: string;
+  event_type: ListingEventType;
+}
+
+interface DailyStatsRow {
+  listing_id: string;
+  day: string;
+  impressions: number;
+  views: number;
+  contact_clicks: number;
+  whatsapp_shares: number;
+  saves: number;
+  inquiries: number;
+}
+
+let queue: QueuedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Returns this browser session's analytics id, creating it on first use.
+ *
+ * @returns {string} Session id
+ */
+const getSessionId = (): string => {
+  let sessionId = sessionStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) {
+    sessionId = uuidv4();
+    sessionStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+/**
+ * Marks an event as tracked for this session.
+ *
+ * @param {string} key - `<listingId>:<eventType>`
+ * @returns {boolean} False if it was already tracked
+ */
+const markTracked = (key: string): boolean => {
+  let tracked: string[] = [];
+  try {
+    tracked = JSON.parse(sessionStorage.getItem(TRACKED_EVENTS_KEY) || '[]');
+  } catch {
+    tracked = [];
+  }
+  if (tracked.includes(key)) return false;
+  tracked.push(key);
+  sessionStorage.setItem(TRACKED_EVENTS_KEY, JSON.stringify(tracked));
+  return true;
+};
+
+/**
+ * Sends queued events. Failures are logged and dropped; analytics must never break the page.
+ *
+ * @returns {Promise<void>}
+ */
+const flush = async (): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (queue.length === 0) return;
+
+  const batch = queue.slice(0, MAX_BATCH_SIZE);
+  queue = queue.slice(MAX_BATCH_SIZE);
+
+  const { error } = await supabase.rpc('track_listing_events', {
+    session_id: getSessionId(),
+    events: batch,
+  });
+  if (error) console.error('[analytics] Failed to record events:', error);
+
+  if (queue.length > 0) await flush();
+};
+
+/**
+ * Queues a listing event for this session.
+ *
+ * @param {string} listingId - Listing the event is about
+ * @param {ListingEventType} eventType - What happened
+ * @param {{ viewerId?: string; ownerId?: string }} [context] - Skips the event when the viewer owns the listing
+ *
+ * @example
+ * analyticsService.trackEvent(listing.id, 'view', { viewerId: user?.id, ownerId: listing.agent.id });
+ */
+const trackEvent = (
+  listingId: string,
+  eventType: ListingEventType,
+  context?: { viewerId?: string; ownerId?: string }
+): void => {
+  // The database ignores these too; skipping here saves a round trip
+  if (context?.viewerId && context.viewerId === context.ownerId) return;
+  if (!markTracked(`${listingId}:${eventType}`)) return;
+
+  queue.push({ listing_id: listingId, event_type: eventType });
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flush();
+    }, FLUSH_DELAY_MS);
+  }
+};
+
+/**
+ * Loads daily stats for the given listings between two days (inclusive).
+ *
+ * @param {string[]} listingIds - Listings to include
+ * @param {string} fromDay - First day, YYYY-MM-DD
+ * @param {string} toDay - Last day, YYYY-MM-DD
+ * @returns {Promise<ListingDailyStats[]>} One row per listing per day with activity, oldest first
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getDailyStats = async (listingIds: string[], fromDay: string, toDay: string): Promise<ListingDailyStats[]> => {
+  if (listingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('listing_daily_stats')
+    .select('*')
+    .in('listing_id', listingIds)
+    .gte('day', fromDay)
+    .lte('day', toDay)
+    .order('day', { ascending: true });
+
+  if (error) throw error;
+  return (data as DailyStatsRow[]).map((row) => ({
+    listingId: row.listing_id,
+    day: row.day,
+    impressions: row.impressions,
+    views: row.views,
+    contactClicks: row.contact_clicks,
+    whatsappShares: row.whatsapp_shares,
+    saves: row.saves,
+    inquiries: row.inquiries,
+  }));
+};
+
+/**
+ * Compares each of the caller's listings with other available listings in its neighbourhood.
+ *
+ * @param {string[]} listingIds - The agent's listings
+ * @param {string} fromDay - First day, YYYY-MM-DD
+ * @param {string} toDay - Last day, YYYY-MM-DD
+ * @returns {Promise<NeighborhoodBenchmark[]>} Per-listing neighbourhood averages over the range
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getNeighborhoodBenchmarks = async (
+  listingIds: string[],
+  fromDay: string,
+  toDay: string
+): Promise<NeighborhoodBenchmark[]> => {
+  if (listingIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('get_neighborhood_benchmarks', {
+    listing_ids: listingIds,
+    from_day: fromDay,
+    to_day: toDay,
+  });
+
+  if (error) throw error;
+  return (data as {
+    listing_id: string;
+    neighborhood: string | null;
+    peer_count: number;
+    avg_views: number;
+    avg_saves: number;
+    avg_inquiries: number;
+  }[]).map((row) => ({
+    listingId: row.listing_id,
+    neighborhood: row.neighborhood ?? '',
+    peerCount: row.peer_count,
+    avgViews: Number(row.avg_views),
+    avgSaves: Number(row.avg_saves),
+    avgInquiries: Number(row.avg_inquiries),
+  }));
+};
+
+// Send whatever is queued when the tab is hidden or closed
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    flush();
+  });
+}
+
+/**
+ * Exported analytics service object.
+ *
+ * @namespace analyticsService
+ */
+export const analyticsService = {
+  trackEvent,
+  flush,
+  getDailyStats,
+  getNeighborhoodBenchmarks,
+};
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Daraja Client - Safaricom M-Pesa Express (STK push) API
+ *
+ * Covers the three calls the payment server needs:
+ * - OAuth access token (cached until shortly before it expires)
+ * - STK push: prompts the customer's phone for their M-Pesa PIN
+ * - STK push query: asks for the outcome when no callback has arrived
+ *
+ * plus parsing of the asynchronous result callback. Works against the
+ * Safaricom sandbox, production, or the local mock in mockDaraja.ts.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+export interface DarajaConfig {
+  baseUrl: string; // DARAJA_SANDBOX_URL, DARAJA_PRODUCTION_URL or the mock server's URL
+  consumerKey: string;
+  consumerSecret: string;
+  shortcode: string; // Paybill / till number receiving the payment
+  passkey: string; // Lipa Na M-Pesa Online passkey
+  fetchImpl?: typeof fetch; // Overridable for tests
+  now?: () => Date;
+}
+
+export interface StkPushRequest {
+  amount: number; // Whole KES
+  phoneNumber: string; // 2547XXXXXXXX
+  callbackUrl: string;
+  accountReference: string; // Shown to the customer, max 12 characters
+  description: string; // Max 13 characters
+}
+
+export interface StkPushResponse {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+}
+
+/**
+ * Outcome of an STK push, from a callback or a query.
+ */
+export interface StkResult {
+  checkoutRequestId: string;
+  resultCode: number; // 0 = paid; see STK_RESULT_CODES
+  resultDesc: string;
+  amount?: number;
+  receiptNumber?: string; // M-Pesa receipt, e.g. 'NLJ7RT61SV'
+  phoneNumber?: string;
+}
+
+/**
+ * Daraja base URLs
+ * @constant {string}
+ */
+export const DARAJA_SANDBOX_URL = 'https://sandbox.safaricom.co.ke';
+export const DARAJA_PRODUCTION_URL = 'https://api.safaricom.co.ke';
+
+/**
+ * STK result codes the payment flow distinguishes
+ * @constant {Record<string, number>}
+ */
+export const STK_RESULT_CODES = {
+  SUCCESS: 0,
+  INSUFFICIENT_FUNDS: 1,
+  CANCELLED_BY_USER: 1032,
+  PHONE_UNREACHABLE: 1037,
+  WRONG_PIN: 2001,
+};
+
+/**
+ * Daraja error code for a query made while the customer is still deciding
+ * @constant {string}
+ */
+const STILL_PROCESSING_ERROR = '500.001.1001';
+
+/**
+ * Formats a date as Daraja's timestamp (YYYYMMDDHHmmss, Nairobi time).
+ *
+ * @param {Date} date - Date to format
+ * @returns {string} Timestamp string
+ */
+export const darajaTimestamp = (date: Date): string =>
+  // Kenya is UTC+3 all year (no daylight saving)
+  new Date(date.getTime() + 3 * 60 * 60 * 1000).toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+
+/**
+ * Parses the body Daraja POSTs to the callback URL.
+ *
+ * @param {unknown} body - Parsed JSON body
+ * @returns {StkResult | null} The result, or null if the body is not an STK callback
+ *
+ * @example
+ * const result = parseStkCallback(await request.json());
+ * if (result?.resultCode === 0) console.log('Paid, receipt', result.receiptNumber);
+ */
+export const parseStkCallback = (body: unknown): StkResult | null => {
+  const callback = (body as {
+    Body?: {
+      stkCallback?: {
+        CheckoutRequestID?: string;
+        ResultCode?: number | string;
+        ResultDesc?: string;
+        CallbackMetadata?: { Item?: { Name: string; Value?: string | number }[] };
+      };
+    };
+  })?.Body?.stkCallback;
+  if (!callback?.CheckoutRequestID || callback.ResultCode === undefined) return null;
+
+  const items = new Map((callback.CallbackMetadata?.Item ?? []).map((item) => [item.Name, item.Value]));
+  return {
+    checkoutRequestId: callback.CheckoutRequestID,
+    resultCode: Number(callback.ResultCode),
+    resultDesc: callback.ResultDesc ?? '',
+    amount: items.has('Amount') ? Number(items.get('Amount')) : undefined,
+    receiptNumber: items.has('MpesaReceiptNumber') ? String(items.get('MpesaReceiptNumber')) : undefined,
+    phoneNumber: items.has('PhoneNumber') ? String(items.get('PhoneNumber')) : undefined,
+  };
+};
+
+/**
+ * Creates a Daraja API client.
+ *
+ * @param {DarajaConfig} config - Credentials, shortcode and base URL
+ * @returns {{ stkPush: (request: StkPushRequest) => Promise<StkPushResponse>; queryStkPush: (checkoutRequestId: string) => Promise<StkResult | null> }} Client
+ *
+ * @example
+ * const daraja = createDarajaClient({
+ *   baseUrl: DARAJA_SANDBOX_URL,
+ *   consumerKey: process.env.DARAJA_CONSUMER_KEY!,
+ *   consumerSecret: process.env.DARAJA_CONSUMER_SECRET!,
+ *   shortcode: '174379',
+ *   passkey: process.env.DARAJA_PASSKEY!,
+ * });
+ */
+export const createDarajaClient = (config: DarajaConfig) => {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const now = config.now ?? (() => new Date());
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+  let token: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async (): Promise<string> => {
+    if (token && token.expiresAt > Date.now()) return token.value;
+
+    const credentials = Buffer.from(`${config.consumerKey}:${config.consumerSecret}`).toString('base64');
+    const response = await fetchImpl(`${baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+    if (!response.ok) throw new Error(`Daraja OAuth failed with ${response.status}: ${await response.text()}`);
+
+    const result = (await response.json()) as { access_token: string; expires_in: string | number };
+    // Refresh a minute early so a token never expires mid-request
+    token = { value: result.access_token, expiresAt: Date.now() + (Number(result.expires_in) - 60) * 1000 };
+    return token.value;
+  };
+
+  const post = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await getAccessToken()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const json = (await response.json().catch(() => ({}))) as Record<string, string>;
+    return { ok: response.ok, status: response.status, json };
+  };
+
+  const credentials = () => {
+    const timestamp = darajaTimestamp(now());
+    return {
+      BusinessShortCode: config.shortcode,
+      Password: Buffer.from(`${config.shortcode}${config.passkey}${timestamp}`).toString('base64'),
+      Timestamp: timestamp,
+    };
+  };
+
+  /**
+   * Sends the PIN prompt to the customer's phone.
+   * @throws {Error} If Daraja rejects the request
+   */
+  const stkPush = async (request: StkPushRequest): Promise<StkPushResponse> => {
+    const { ok, status, json } = await post('/mpesa/stkpush/v1/processrequest', {
+      ...credentials(),
+      TransactionType: 'CustomerPayBillOnline',
+      Amount: Math.round(request.amount),
+      PartyA: request.phoneNumber,
+      PartyB: config.shortcode,
+      PhoneNumber: request.phoneNumber,
+      CallBackURL: request.callbackUrl,
+      AccountReference: request.accountReference.slice(0, 12),
+      TransactionDesc: request.description.slice(0, 13),
+    });
+    if (!ok || json.ResponseCode !== '0') {
+      throw new Error(`STK push rejected (${status}): ${json.errorMessage ?? json.ResponseDescription ?? 'unknown error'}`);
+    }
+    return {
+      merchantRequestId: json.MerchantRequestID,
+      checkoutRequestId: json.CheckoutRequestID,
+      customerMessage: json.CustomerMessage,
+    };
+  };
+
+  /**
+   * Asks for the outcome of an STK push.
+   * @returns {Promise<StkResult | null>} The result, or null while the customer has not responded yet
+   * @throws {Error} If Daraja returns any other error
+   */
+  const queryStkPush = async (checkoutRequestId: string): Promise<StkResult | null> => {
+    const { ok, status, json } = await post('/mpesa/stkpushquery/v1/query', {
+      ...credentials(),
+      CheckoutRequestID: checkoutRequestId,
+    });
+    if (json.errorCode === STILL_PROCESSING_ERROR) return null;
+    if (!ok || json.ResultCode === undefined) {
+      throw new Error(`STK query failed (${status}): ${json.errorMessage ?? 'unknown error'}`);
+    }
+    return { checkoutRequestId, resultCode: Number(json.ResultCode), resultDesc: json.ResultDesc ?? '' };
+  };
+
+  return { stkPush, queryStkPush };
+};
+
+export type DarajaClient = ReturnType<typeof createDarajaClient>;
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Favorites Service - Saved listings for tenants and guests
+ *
+ * Logged-in users' favourites live in the `favorites` table; a database
+ * trigger keeps `listings.saves` in step with it. Guests get a local list in
+ * localStorage, which is merged into their account when they log in.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { listingService } from './listingService';
+import type { PropertyListing } from '../types';
+
+/**
+ * localStorage key for guest favourites
+ * @constant {string}
+ */
+const LOCAL_FAVORITES_KEY = 'rentify.guestFavorites';
+
+/**
+ * Reads the guest favourites list from localStorage.
+ *
+ * @returns {string[]} Listing IDs saved on this device
+ */
+const getLocalFavoriteIds = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_FAVORITES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replaces the guest favourites list in localStorage.
+ *
+ * @param {string[]} listingIds - Listing IDs to store
+ */
+const setLocalFavoriteIds = (listingIds: string[]) => {
+  if (listingIds.length === 0) {
+    localStorage.removeItem(LOCAL_FAVORITES_KEY);
+  } else {
+    localStorage.setItem(LOCAL_FAVORITES_KEY, JSON.stringify(listingIds));
+  }
+};
+
+/**
+ * Lists the IDs of a user's saved listings, most recently saved first.
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<string[]>} Saved listing IDs
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getFavoriteIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('favorites')
+    .select('listing_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map((row) => row.listing_id as string);
+};
+
+/**
+ * Saves a listing for a user. Saving an already saved listing is a no-op.
+ *
+ * @param {string} userId - User ID
+ * @param {string} listingId - Listing to save
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const addFavorite = async (userId: string, listingId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('favorites')
+    .upsert([{ user_id: userId, listing_id: listingId }], { onConflict: 'user_id,listing_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('[addFavorite] Failed to save listing:', error);
+    throw error;
+  }
+};
+
+/**
+ * Removes a listing from a user's favourites.
+ *
+ * @param {string} userId - User ID
+ * @param {string} listingId - Listing to remove
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const removeFavorite = async (userId: string, listingId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('favorites')
+    .delete()
+    .eq('user_id', userId)
+    .eq('listing_id', listingId);
+
+  if (error) {
+    console.error('[removeFavorite] Failed to remove listing:', error);
+    throw error;
+  }
+};
+
+/**
+ * Moves guest favourites from this device into the user's account, then clears them locally.
+ *
+ * Listings deleted since they were saved are dropped; saving them would fail the
+ * whole merge on the foreign key, on every login.
+ *
+ * @param {string} userId - User who just logged in
+ * @returns {Promise<number>} Number of listings merged
+ *
+ * @throws {Error} Database errors from Supabase (local favourites are kept so the merge can be retried)
+ */
+const mergeLocalFavorites = async (userId: string): Promise<number> => {
+  const localIds = getLocalFavoriteIds();
+  if (localIds.length === 0) return 0;
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('listings')
+    .select('id')
+    .in('id', localIds);
+
+  if (lookupError) {
+    console.error('[mergeLocalFavorites] Failed to look up guest favourites:', lookupError);
+    throw lookupError;
+  }
+
+  const existingIds = new Set((existing ?? []).map((row: { id: string }) => row.id));
+  const mergeIds = localIds.filter((id) => existingIds.has(id));
+
+  if (mergeIds.length > 0) {
+    const { error } = await supabase
+      .from('favorites')
+      .upsert(
+        mergeIds.map((listingId) => ({ user_id: userId, listing_id: listingId })),
+        { onConflict: 'user_id,listing_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('[mergeLocalFavorites] Failed to merge guest favourites:', error);
+      throw error;
+    }
+  }
+
+  setLocalFavoriteIds([]);
+  return mergeIds.length;
+};
+
+/**
+ * Loads full listings for a set of saved IDs, keeping the saved order.
+ *
+ * @param {string[]} listingIds - Saved listing IDs
+ * @returns {Promise<PropertyListing[]>} Listings that still exist and are visible
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getFavoriteListings = async (listingIds: string[]): Promise<PropertyListing[]> => {
+  if (listingIds.length === 0) return [];
+  const listings = await listingService.getListings({ listingIds });
+  const position = new Map(listingIds.map((id, index) => [id, index]));
+  return listings.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+};
+
+/**
+ * Exported favorites service object.
+ *
+ * @namespace favoritesService
+ */
+export const favoritesService = {
+  getLocalFavoriteIds,
+  setLocalFavoriteIds,
+  getFavoriteIds,
+  addFavorite,
+  removeFavorite,
+  mergeLocalFavorites,
+  getFavoriteListings,
+};
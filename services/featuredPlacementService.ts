@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Featured Placement Service - Buying featured placement from the browser
+ *
+ * Agents pay for featured placement with M-Pesa. The browser asks the
+ * payment server (VITE_PAYMENTS_API_URL, see scripts/paymentServer.ts) to
+ * send the PIN prompt, then follows the payment row until Safaricom's result
+ * arrives. The payment server is the only writer of payments and of a
+ * listing's featured flag.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import type { Payment } from '../types';
+
+const PAYMENTS_API_URL = import.meta.env.VITE_PAYMENTS_API_URL?.replace(/\/$/, '');
+
+interface PaymentRow {
+  id: string;
+  listing_id: string;
+  plan_id: string;
+  amount: number;
+  phone_number: string;
+  status: Payment['status'];
+  mpesa_receipt: string | null;
+  result_desc: string | null;
+  featured_until: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const fromDbFormat = (row: PaymentRow): Payment => ({
+  id: row.id,
+  listingId: row.listing_id,
+  planId: row.plan_id,
+  amount: row.amount,
+  phoneNumber: row.phone_number,
+  status: row.status,
+  mpesaReceipt: row.mpesa_receipt ?? undefined,
+  resultDesc: row.result_desc ?? undefined,
+  featuredUntil: row.featured_until ?? undefined,
+  createdAt: row.created_at,
+  completedAt: row.completed_at ?? undefined,
+});
+
+/**
+ * Whether featured placement can be bought in this deployment.
+ *
+ * @returns {boolean} True if the payment server URL is configured
+ */
+const isAvailable = (): boolean => Boolean(PAYMENTS_API_URL);
+
+/**
+ * Sends an M-Pesa PIN prompt for a featured placement plan.
+ *
+ * @param {string} listingId - Listing to feature (must be the agent's own, and available)
+ * @param {string} planId - Plan ID from FEATURED_PLANS
+ * @param {string} phoneNumber - M-Pesa number as typed, e.g. '0712 345 678'
+ * @returns {Promise<string>} ID of the pending payment
+ *
+ * @throws {Error} With the server's message if the purchase could not be started
+ *
+ * @example
+ * const paymentId = await featuredPlacementService.startPurchase(listing.id, 'featured_7d', '0712345678');
+ * const payment = await featuredPlacementService.waitForPayment(paymentId);
+ */
+const startPurchase = async (listingId: string, planId: string, phoneNumber: string): Promise<string> => {
+  if (!PAYMENTS_API_URL) throw new Error('Featured placement is not available right now.');
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Please log in again.');
+
+  const response = await fetch(`${PAYMENTS_API_URL}/payments/featured`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.access_token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ listingId, planId, phoneNumber }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error('[startPurchase] Payment server rejected the purchase:', body);
+    throw new Error(body.error || 'Could not start the payment. Please try again.');
+  }
+  return body.paymentId as string;
+};
+
+/**
+ * Fetches a payment.
+ *
+ * @param {string} paymentId - Payment ID
+ * @returns {Promise<Payment>} The payment
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getPayment = async (paymentId: string): Promise<Payment> => {
+  const { data, error } = await supabase.from('payments').select('*').eq('id', paymentId).single();
+
+  if (error) throw error;
+  return fromDbFormat(data as PaymentRow);
+};
+
+/**
+ * Polls a payment until it leaves `pending` or the timeout passes. The payment
+ * server settles prompts the customer never answered, so a payment still
+ * pending at the timeout will be settled later.
+ *
+ * @param {string} paymentId - Payment ID
+ * @param {object} [options] - Polling options
+ * @param {number} [options.intervalMs=3000] - Delay between checks
+ * @param {number} [options.timeoutMs=120000] - Give up after this long
+ * @returns {Promise<Payment>} The payment as last seen
+ */
+const waitForPayment = async (
+  paymentId: string,
+  { intervalMs = 3000, timeoutMs = 120_000 }: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<Payment> => {
+  const deadline = Date.now() + timeoutMs;
+  let payment = await getPayment(paymentId);
+  while (payment.status === 'pending' && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    payment = await getPayment(paymentId);
+  }
+  return payment;
+};
+
+/**
+ * Lists the payments made for a listing, newest first.
+ *
+ * @param {string} listingId - Listing ID
+ * @returns {Promise<Payment[]>} Payments visible to the current user
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getPaymentsForListing = async (listingId: string): Promise<Payment[]> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('listing_id', listingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as PaymentRow[]).map(fromDbFormat);
+};
+
+export const featuredPlacementService = {
+  isAvailable,
+  startPurchase,
+  getPayment,
+  waitForPayment,
+  getPaymentsForListing,
+};
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Featured Plans - Paid featured-placement options
+ *
+ * Shared by the browser (plan picker) and the payment server (which charges
+ * the amount and extends `featured_until` by the plan's days), so prices
+ * can never disagree between the two.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+export interface FeaturedPlan {
+  id: string;
+  label: string;
+  days: number;
+  amount: number; // KES, charged through M-Pesa
+}
+
+/**
+ * Featured placement plans, cheapest first
+ * @constant {FeaturedPlan[]}
+ */
+export const FEATURED_PLANS: FeaturedPlan[] = [
+  { id: 'featured_7d', label: '1 week', days: 7, amount: 500 },
+  { id: 'featured_30d', label: '1 month', days: 30, amount: 1500 },
+];
+
+/**
+ * Looks up a plan by ID.
+ *
+ * @param {string} planId - Plan ID
+ * @returns {FeaturedPlan | undefined} The plan, or undefined for unknown IDs
+ */
+export const getFeaturedPlan = (planId: string): FeaturedPlan | undefined =>
+  FEATURED_PLANS.find((plan) => plan.id === planId);
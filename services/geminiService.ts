@@ -1,243 +1,181 @@
-
-import { GoogleGenAI, GenerateContentResponse, Chat, GroundingChunk } from "@google/genai";
-import { PropertyListing, AiEnhancedContent, RentEstimate } from '../types';
-
-// IMPORTANT: API Key Management
-// The API key MUST be provided via the `process.env.API_KEY` environment variable.
-// This client-side code assumes `process.env.API_KEY` is replaced by a build tool (e.g., Vite, Webpack)
-// or handled by the execution environment if this code runs server-side (e.g. Next.js API route).
-// DO NOT hardcode the API key here or expose it directly in client-side bundles without obfuscation.
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!API_KEY) {
-  console.warn("Gemini API Key not found. AI features will be disabled. Ensure import.meta.env.VITE_GEMINI_API_KEY is set.");
+/**
+ * @fileoverview Gemini Service - The browser's AI features
+ *
+ * The features run on the AI proxy (api/ai.ts), which holds the AI key, checks
+ * quotas and caches answers; this module sends it each request with the
+ * logged-in user's access token. The prompts, schemas and validation are in
+ * aiFeatures. VITE_AI_API_URL points at the proxy when it is not on the same
+ * origin as the app.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { aiError, type SearchAssistantReply } from './aiFeatures';
+import type { AiChatTurn, AiFeature } from './aiProviders';
+import type { PropertyListing, AiEnhancedContent, RentEstimate, GroundingChunk, AiResult } from '../types';
+
+export type { SearchAssistantReply } from './aiFeatures';
+
+const AI_API_URL = `${import.meta.env.VITE_AI_API_URL?.replace(/\/$/, '') ?? ''}/api/ai`;
+
+type ImageCheck = { status: 'clear' | 'flagged_reused' | 'flagged_poor_quality'; reason?: string };
+
+export interface SearchAssistantSession {
+  send: (message: string) => Promise<AiResult<SearchAssistantReply>>;
 }
 
-const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
-const TEXT_MODEL_NAME = "gemini-2.5-flash-preview-04-17";
-// const IMAGE_MODEL_NAME = "imagen-3.0-generate-002"; // If image generation is needed
-
-const parseJsonResponse = <T,>(responseText: string): T | null => {
-  let jsonStr = responseText.trim();
-  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-  const match = jsonStr.match(fenceRegex);
-  if (match && match[2]) {
-    jsonStr = match[2].trim();
-  }
+/**
+ * Sends a request to the AI proxy.
+ *
+ * @returns {Promise<Response | null>} The proxy's response, or null if it could not be reached
+ */
+const postToProxy = async (feature: AiFeature, input: Record<string, unknown>): Promise<Response | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
   try {
-    return JSON.parse(jsonStr) as T;
-  } catch (e) {
-    console.error("Failed to parse JSON response:", e, "Original text:", responseText);
+    return await fetch(AI_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify({ feature, input }),
+    });
+  } catch (error) {
+    console.error(`[${feature}] AI proxy unreachable:`, error);
     return null;
   }
 };
 
+/**
+ * Runs a feature on the AI proxy. The proxy answers its errors (including
+ * quotas and bad input) as AiResults too, so only an unreachable proxy or an
+ * unreadable answer becomes a request_failed error here.
+ */
+const callFeature = async <T,>(feature: AiFeature, input: Record<string, unknown>): Promise<AiResult<T>> => {
+  const response = await postToProxy(feature, input);
+  if (!response) return aiError('request_failed');
+  try {
+    const result = (await response.json()) as AiResult<T>;
+    if (result.error) console.warn(`[${feature}] AI proxy answered ${response.status}:`, result.error);
+    return result;
+  } catch (error) {
+    console.error(`[${feature}] Unreadable AI proxy response (${response.status}):`, error);
+    return aiError('request_failed');
+  }
+};
+
 export const geminiService = {
   /**
-   * Placeholder: Checks an image for potential reuse indicating a scam.
-   * In a real app, this would involve more complex image analysis.
-   * This version simulates sending image data (e.g., base64) to Gemini.
+   * Asks the vision model whether a listing photo looks like a stock/watermarked image
+   * or is too poor in quality to be trusted. Agents only; the image scan worker
+   * runs the same check on the server (see aiFeatures).
+   *
+   * @throws {Error} With the proxy's message if the check could not be made
    */
-  checkImageForScam: async (
-    imageDataBase64: string,
-    existingImageHashes?: string[] // Optional: hashes of known scam images or agent's other listings
-  ): Promise<{ status: 'clear' | 'flagged_reused' | 'flagged_poor_quality'; reason?: string }> => {
-    if (!ai) return { status: 'clear', reason: "AI service disabled." };
-    
-    console.log("Simulating AI image scam check for image (first 50 chars):", imageDataBase64.substring(0,50));
-
-    // Simulate Gemini Vision call
-    // In a real scenario, you'd convert base64 to a Part for the API.
-    // const imagePart = { inlineData: { mimeType: 'image/jpeg', data: imageDataBase64 } };
-    // const prompt = "Analyze this image. Is it a common stock photo or known scam image related to real estate? Does it appear in multiple unrelated listings? Is the quality very low? Respond with JSON: {isScam: boolean, reason: string}";
-    // For now, mock a response:
-    return new Promise(resolve => {
-        setTimeout(() => {
-            const random = Math.random();
-            if (existingImageHashes && existingImageHashes.includes("mock_hash_" + imageDataBase64.substring(10,20))) { // Simple mock check
-                resolve({ status: 'flagged_reused', reason: 'Image appears to be reused from another listing.' });
-            } else if (random < 0.1) {
-                resolve({ status: 'flagged_reused', reason: 'AI detected potential image reuse or stock photo characteristics.' });
-            } else if (random < 0.15) {
-                resolve({ status: 'flagged_poor_quality', reason: 'Image quality is very low, potentially suspicious.' });
-            } else {
-                resolve({ status: 'clear' });
-            }
-        }, 1500);
-    });
+  checkImageForScam: async (imageDataBase64: string, mimeType: string = 'image/jpeg'): Promise<ImageCheck> => {
+    const { data, error } = await callFeature<ImageCheck>('imageScan', { imageDataBase64, mimeType });
+    if (error) throw new Error(error.message);
+    return data;
   },
 
   /**
-   * Enhances listing details using AI.
+   * Enhances listing details using AI. Agents only.
+   *
+   * @returns {Promise<AiResult<AiEnhancedContent>>} Suggested title, description and pricing advice, or why there are none
    */
-  enhanceListingContent: async (listing: Partial<PropertyListing>): Promise<AiEnhancedContent | null> => {
-    if (!ai) return null;
-
-    const prompt = `
-      Given the following Kenyan rental listing details, enhance them.
-      Provide an engaging property description (max 150 words), a catchy title (max 10 words),
-      and brief pricing advice (e.g., "Consider highlighting value compared to area average.").
-      Focus on the Kenyan market context.
-
-      Details:
-      Title: ${listing.title || 'N/A'}
-      Location: ${listing.location?.neighborhood}, ${listing.location?.county}
-      Price: KES ${listing.price}
-      Bedrooms: ${listing.bedrooms}
-      Bathrooms: ${listing.bathrooms}
-      Current Description: ${listing.description || 'N/A'}
-      Amenities: ${listing.amenities?.join(', ') || 'N/A'}
-
-      Respond ONLY with a JSON object in the format:
-      {
-        "enhancedDescription": "string",
-        "suggestedTitle": "string",
-        "pricingAdvice": "string"
-      }
-    `;
-
-    try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
-      return parseJsonResponse<AiEnhancedContent>(response.text || '');
-    } catch (error) {
-      console.error("Error enhancing listing content with Gemini:", error);
-      return null;
-    }
-  },
+  enhanceListingContent: (listing: Partial<PropertyListing>): Promise<AiResult<AiEnhancedContent>> =>
+    callFeature<AiEnhancedContent>('listingEnhancement', {
+      listing: {
+        title: listing.title,
+        description: listing.description,
+        location: listing.location && { neighborhood: listing.location.neighborhood, county: listing.location.county },
+        price: listing.price,
+        bedrooms: listing.bedrooms,
+        bathrooms: listing.bathrooms,
+        amenities: listing.amenities,
+      },
+    }),
 
   /**
-   * Provides a rent estimate for a given area and property type.
-   * This is a placeholder; real implementation would require a fine-tuned model or RAG with market data.
+   * Explains a rent estimate computed from our own listings (see rentEstimateService)
+   * in plain language, with the sources the explanation was grounded on.
+   *
+   * @param {RentEstimate} estimate - Figures and comparables to explain
+   * @returns {Promise<AiResult<{ explanation: string; citations: GroundingChunk[] }>>} Explanation and sources, or why there are none
    */
-  estimateRent: async (location: string, bedrooms: number, county: string): Promise<RentEstimate | null> => {
-    if (!ai) return null;
-
-    const prompt = `
-      Provide a rent estimate for a ${bedrooms}-bedroom property in ${location}, ${county}, Kenya.
-      Consider current market trends if possible (hypothetically, as this is a general model).
-      Give a min, max, and average rent in KES. Also, state a confidence level (high, medium, low).
-      
-      Respond ONLY with a JSON object in the format:
-      {
-        "location": "${location}, ${county}",
-        "bedrooms": ${bedrooms},
-        "minRent": number,
-        "maxRent": number,
-        "averageRent": number,
-        "confidence": "high" | "medium" | "low",
-        "lastUpdated": "YYYY-MM-DD" 
-      }
-      If you use Google Search grounding, list the sources.
-    `;
-    
-    try {
-      const response = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME,
-        contents: prompt,
-        config: { 
-            tools: [{googleSearch: {}}] // Enable Google Search for potentially more current info
-            // Removed: responseMimeType: "application/json" as it's incompatible with tools
-        }
-      });
-      
-      const parsed = parseJsonResponse<RentEstimate>(response.text || '');
-      if(parsed){
-        // Log grounding sources if available
-        const groundingChunks: GroundingChunk[] | undefined = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-        if (groundingChunks && groundingChunks.length > 0) {
-            console.log("Rent estimate grounded with sources:");
-            groundingChunks.forEach(chunk => {
-              if(chunk.web) console.log(`- ${chunk.web.title}: ${chunk.web.uri}`);
-              if(chunk.retrievedContext) console.log(`- ${chunk.retrievedContext.title}: ${chunk.retrievedContext.uri}`);
-            });
-            // You might want to return these sources to the UI
-        }
-        return {...parsed, lastUpdated: new Date().toISOString().split('T')[0]}; // Override lastUpdated with current date for mock
-      }
-      return null;
-
-    } catch (error) {
-      console.error("Error estimating rent with Gemini:", error);
-      // Fallback mock data if API fails or in AI-disabled mode
-      const mockMin = bedrooms * 15000 + (Math.random() * 5000);
-      return {
-        location: `${location}, ${county}`,
-        bedrooms,
-        minRent: mockMin,
-        maxRent: mockMin + bedrooms * 10000 + (Math.random() * 10000),
-        averageRent: mockMin + bedrooms * 5000 + (Math.random() * 5000),
-        confidence: 'low',
-        lastUpdated: new Date().toISOString().split('T')[0],
-      };
-    }
-  },
+  explainRentEstimate: (
+    estimate: Omit<RentEstimate, 'explanation' | 'citations'>
+  ): Promise<AiResult<{ explanation: string; citations: GroundingChunk[] }>> =>
+    callFeature('rentExplanation', {
+      estimate: {
+        location: estimate.location,
+        bedrooms: estimate.bedrooms,
+        scope: estimate.scope,
+        sampleSize: estimate.sampleSize,
+        p25Rent: estimate.p25Rent,
+        medianRent: estimate.medianRent,
+        p75Rent: estimate.p75Rent,
+        // Only what the prompt uses, so the same figures share a cached answer
+        comparables: estimate.comparables.map(({ title, price, neighborhood, status }) => ({ title, price, neighborhood, status })),
+      },
+    }),
 
   /**
-   * Smart assistant for renters.
-   * This function would parse the query and try to match it with listing criteria.
+   * Starts a conversation with the search assistant. The session keeps the
+   * conversation and sends all of it with each message, so renters can refine
+   * a search over several messages ("2BR in Rongai under 30k", then "with
+   * parking"). Each reply carries the filters for everything asked so far,
+   * ready for listingService.getListings.
+   *
+   * @returns {SearchAssistantSession} The session
+   *
+   * @example
+   * const assistant = geminiService.createSearchAssistant();
+   * const { data, error } = await assistant.send('2BR in Rongai under 30k with parking');
+   * // data.filters: { location: 'Rongai', bedrooms: 2, maxPrice: 30000, amenities: ['Parking'] }
    */
-  processSmartAssistantQuery: async (query: string): Promise<string> => {
-    if (!ai) return "AI smart assistant is currently unavailable.";
-
-    const chat: Chat = ai.chats.create({
-        model: TEXT_MODEL_NAME,
-        config: {
-          systemInstruction: `You are a helpful assistant for finding rental houses in Kenya. 
-          The user will describe what they are looking for. 
-          Your goal is to understand their needs (location, number of bedrooms, budget in KES, specific amenities) 
-          and provide a concise summary of their request or ask clarifying questions if needed.
-          If they mention a price, assume it's in KES.
-          Keep your responses brief and conversational. If the query is vague, ask for more details.
-          Example user query: "Find me a 2BR in Rongai under Ksh 30,000"
-          Example response: "Okay, looking for a 2-bedroom place in Rongai for under KES 30,000. Any specific amenities you need?"
-          Example user query: "I need a house"
-          Example response: "Sure, I can help with that! Could you tell me more about what you're looking for? For example, which location, how many bedrooms, and your approximate budget?"
-          `,
-           thinkingConfig: { thinkingBudget: 0 } // Low latency
-        },
-      });
-
-    try {
-      // For a real app, you might have a conversation history.
-      const result: GenerateContentResponse = await chat.sendMessage({message: query});
-      return result.text || '';
-    } catch (error) {
-      console.error("Error with smart assistant:", error);
-      return "Sorry, I'm having trouble understanding that right now. Please try rephrasing.";
-    }
+  createSearchAssistant: (): SearchAssistantSession => {
+    const history: AiChatTurn[] = [];
+    return {
+      send: async (message: string): Promise<AiResult<SearchAssistantReply>> => {
+        const result = await callFeature<SearchAssistantReply>('searchAssistant', { history, message });
+        // Only answered messages join the conversation, so a failed send can simply be retried
+        if (result.data) history.push({ role: 'user', text: message }, { role: 'model', text: JSON.stringify(result.data) });
+        return result;
+      },
+    };
   },
 
   /**
-   *  Generic text generation for other purposes.
+   * Generic text generation for other purposes. Agents only.
+   *
+   * @param {string} prompt - Prompt
+   * @param {Function} [streamingCallback] - Receives the text as it is generated
+   * @returns {Promise<string>} The whole text
+   * @throws {Error} If the proxy is unreachable or answers with an error
    */
-  generateText: async (prompt: string, streamingCallback?: (chunk: string) => void ): Promise<string> => {
-    if (!ai) return "AI service is unavailable.";
-    try {
-      if (streamingCallback) {
-        const responseStream = await ai.models.generateContentStream({
-            model: TEXT_MODEL_NAME,
-            contents: prompt,
-        });
-        let fullText = "";
-        for await (const chunk of responseStream) {
-            fullText += chunk.text;
-            streamingCallback(chunk.text || '');
-        }
-        return fullText;
-      } else {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: TEXT_MODEL_NAME,
-            contents: prompt,
-        });
-        return response.text || '';
-      }
-    } catch (error) {
-        console.error("Error generating text with Gemini:", error);
-        return "An error occurred while generating text.";
+  generateText: async (prompt: string, streamingCallback?: (chunk: string) => void): Promise<string> => {
+    const response = await postToProxy('text', { prompt, stream: Boolean(streamingCallback) });
+    if (!response) throw new Error('The AI service could not be reached. Please try again.');
+
+    if (!response.headers.get('Content-Type')?.startsWith('text/plain') || !response.body) {
+      const result = (await response.json().catch(() => aiError('request_failed'))) as AiResult<string>;
+      if (result.error) throw new Error(result.error.message);
+      return result.data;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      text += chunk;
+      streamingCallback?.(chunk);
     }
+    return text;
   }
 };
@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Image Scan Service - Fraud checks for listing photos
+ *
+ * Runs the scam-detection pipeline for a single row of `property_images`:
+ * 1. Computes the image's perceptual hash from the stored file
+ * 2. Compares the hash with every other agent's images to detect reuse across listings
+ * 3. Compares the hash with the local blocklist of known scam photos
+ * 4. Optionally asks an AI vision check about stock photos and image quality
+ * 5. Writes the hash and the final status/reason back to `property_images`
+ *
+ * The hash is always computed here, never taken from the row: uploads come
+ * from the agent's browser, and a scammer could store any hash they like.
+ *
+ * Dependencies (Supabase client, image decoder, vision check) are passed in so
+ * the same pipeline can run in the browser, in a background worker, or against
+ * a local Supabase stand-in.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PropertyImage } from '../types';
+import {
+  computeImageHash,
+  hammingDistance,
+  SIMILAR_HASH_MAX_DISTANCE,
+  type ImageDecoder,
+} from '../utils/imageHash';
+
+export type ImageScanStatus = Exclude<PropertyImage['aiScanStatus'], 'pending'>;
+
+/**
+ * Result of the optional AI vision step.
+ */
+export interface VisionCheckResult {
+  status: ImageScanStatus;
+  reason?: string;
+}
+
+/**
+ * Everything the pipeline needs from its environment.
+ */
+export interface ImageScanDependencies {
+  client: SupabaseClient;
+  decode: ImageDecoder; // decodeImageInBrowser, or decodeImageWithSharp in Node
+  fetchImage?: (url: string) => Promise<Blob>;
+  checkWithVision?: (imageDataBase64: string, mimeType: string) => Promise<VisionCheckResult>;
+}
+
+/**
+ * Final outcome of scanning one image, as stored in `property_images.ai_scan`.
+ */
+export interface ImageScanResult {
+  status: ImageScanStatus;
+  reason?: string;
+  phash: string;
+  matchedImageId?: string; // Set when the image matches another agent's photo
+  scannedAt: string;
+}
+
+interface SimilarImageRow {
+  image_id: string;
+  listing_id: string;
+  agent_id: string;
+  distance: number;
+}
+
+/**
+ * Default image fetcher using the global fetch API.
+ *
+ * @param {string} url - Public image URL
+ * @returns {Promise<Blob>} The image data
+ *
+ * @throws {Error} If the request fails
+ */
+const fetchImageBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch image (${response.status})`);
+  return response.blob();
+};
+
+/**
+ * Encodes a blob as base64 without a data-URL prefix.
+ *
+ * @param {Blob} blob - Data to encode
+ * @returns {Promise<string>} Base64 string
+ */
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000; // Avoid call stack limits on large images
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Finds the closest image from another agent with a similar hash.
+ *
+ * @param {SupabaseClient} client - Supabase client
+ * @param {string} phash - Hash of the image being scanned
+ * @param {string} agentId - Owner of the image (their own images are ignored)
+ * @returns {Promise<SimilarImageRow | null>} Closest match, or null if none
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const findReusedImage = async (
+  client: SupabaseClient,
+  phash: string,
+  agentId: string
+): Promise<SimilarImageRow | null> => {
+  const { data, error } = await client.rpc('find_similar_images', {
+    target_hash: phash,
+    exclude_agent_id: agentId,
+    max_distance: SIMILAR_HASH_MAX_DISTANCE,
+  });
+
+  if (error) throw error;
+  const matches = (data || []) as SimilarImageRow[];
+  return matches[0] ?? null;
+};
+
+/**
+ * Checks a hash against the blocklist of known scam photos.
+ *
+ * @param {SupabaseClient} client - Supabase client
+ * @param {string} phash - Hash of the image being scanned
+ * @returns {Promise<{ reason: string } | null>} The matching blocklist entry, or null
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const findBlocklistMatch = async (
+  client: SupabaseClient,
+  phash: string
+): Promise<{ reason: string } | null> => {
+  const { data, error } = await client
+    .from('scam_image_blocklist')
+    .select('phash, reason');
+
+  if (error) throw error;
+  const match = (data || []).find(
+    (entry: { phash: string }) => hammingDistance(entry.phash, phash) <= SIMILAR_HASH_MAX_DISTANCE
+  );
+  return match ? { reason: match.reason } : null;
+};
+
+/**
+ * Runs the full scan pipeline for one image and stores the result.
+ *
+ * Hash-based checks always run first; the vision check only runs if the
+ * image passed them and `checkWithVision` was provided.
+ *
+ * @param {string} imageId - ID of the property_images row
+ * @param {ImageScanDependencies} deps - Client, decoder and optional vision check
+ * @returns {Promise<ImageScanResult>} The stored scan result
+ *
+ * @throws {Error} If the image cannot be downloaded or hashed, or a database/AI call fails.
+ *                 Nothing is written in that case, so the image stays pending.
+ *
+ * @example
+ * const result = await imageScanService.scanPropertyImage(image.id, {
+ *   client: supabase,
+ *   decode: decodeImageInBrowser,
+ *   checkWithVision: createAiFeatures(provider).checkImageForScam,
+ * });
+ */
+const scanPropertyImage = async (
+  imageId: string,
+  deps: ImageScanDependencies
+): Promise<ImageScanResult> => {
+  const { client, decode, checkWithVision, fetchImage = fetchImageBlob } = deps;
+
+  const { data: image, error } = await client
+    .from('property_images')
+    .select('id, url, listing:listings ( agent_id )')
+    .eq('id', imageId)
+    .single();
+
+  if (error) throw error;
+
+  const listing = Array.isArray(image.listing) ? image.listing[0] : image.listing;
+  const agentId = (listing as { agent_id: string } | null)?.agent_id;
+  if (!agentId) throw new Error(`Image ${imageId} is not attached to a listing`);
+
+  const blob = await fetchImage(image.url);
+  const { hash: phash } = await computeImageHash(blob, decode);
+
+  let result: Omit<ImageScanResult, 'phash' | 'scannedAt'> = { status: 'clear' };
+
+  const reused = await findReusedImage(client, phash, agentId);
+  if (reused) {
+    result = {
+      status: 'flagged_reused',
+      reason: "This photo also appears in another agent's listing.",
+      matchedImageId: reused.image_id,
+    };
+  } else {
+    const blocked = await findBlocklistMatch(client, phash);
+    if (blocked) {
+      result = { status: 'flagged_reused', reason: `Matches a known scam photo: ${blocked.reason}` };
+    } else if (checkWithVision) {
+      result = await checkWithVision(await blobToBase64(blob), blob.type || 'image/jpeg');
+    }
+  }
+
+  const scannedAt = new Date().toISOString();
+  const { error: updateError } = await client
+    .from('property_images')
+    .update({
+      phash,
+      ai_scan: {
+        status: result.status,
+        reason: result.reason ?? null,
+        matched_image_id: result.matchedImageId ?? null,
+        scanned_at: scannedAt,
+      },
+    })
+    .eq('id', imageId);
+
+  if (updateError) {
+    console.error('[scanPropertyImage] Failed to save scan result:', updateError);
+    throw updateError;
+  }
+
+  return { ...result, phash, scannedAt };
+};
+
+/**
+ * Exported image scan service object.
+ *
+ * @namespace imageScanService
+ */
+export const imageScanService = {
+  scanPropertyImage,
+  findReusedImage,
+  findBlocklistMatch,
+};
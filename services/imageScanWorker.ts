@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Image Scan Worker - Processes the queue of pending property images
+ *
+ * Every image is inserted with `ai_scan.status = 'pending'`. This worker:
+ * 1. Picks up pending images whose `scan_next_attempt_at` is due
+ * 2. Claims each one with a short lease so parallel workers don't double-scan
+ * 3. Runs the scan pipeline (see imageScanService) and stores the result
+ * 4. Retries failures with exponential backoff, parking images after the last attempt
+ * 5. Publishes listings in `pending_verification` once every image is `clear`
+ *
+ * Flagged images keep their listing in `pending_verification` for manual moderation.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { imageScanService, type ImageScanDependencies } from './imageScanService';
+
+/**
+ * Tuning options for the worker. All have sensible defaults.
+ */
+export interface ImageScanWorkerOptions {
+  batchSize?: number; // Images claimed per run
+  maxAttempts?: number; // Attempts before an image is parked
+  baseBackoffMs?: number; // Delay after the first failure; doubles each time
+  maxBackoffMs?: number; // Upper bound for the backoff delay
+  leaseMs?: number; // How long a claimed image is hidden from other workers
+  pollIntervalMs?: number; // Delay between runs when started with start()
+  now?: () => Date; // Clock, overridable for tests
+}
+
+/**
+ * Summary of a single worker run.
+ */
+export interface ImageScanRunSummary {
+  processed: number;
+  clear: number;
+  flagged: number;
+  failed: number; // Will be retried
+  parked: number; // Gave up after maxAttempts
+  publishedListingIds: string[];
+}
+
+interface QueuedImageRow {
+  id: string;
+  listing_id: string;
+  scan_attempts: number;
+  scan_next_attempt_at: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ImageScanWorkerOptions, 'now'>> = {
+  batchSize: 10,
+  maxAttempts: 5,
+  baseBackoffMs: 30_000,
+  maxBackoffMs: 60 * 60 * 1000,
+  leaseMs: 5 * 60 * 1000,
+  pollIntervalMs: 15_000,
+};
+
+/**
+ * Calculates the retry delay after a given number of failed attempts.
+ *
+ * @param {number} attempts - Failed attempts so far (1 after the first failure)
+ * @param {number} baseMs - Delay after the first failure
+ * @param {number} maxMs - Maximum delay
+ * @returns {number} Delay in milliseconds
+ *
+ * @example
+ * backoffDelay(3, 30_000, 3_600_000); // 120000
+ */
+export const backoffDelay = (attempts: number, baseMs: number, maxMs: number): number =>
+  Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+
+/**
+ * Creates an image scan worker bound to a Supabase client (real or stand-in).
+ *
+ * @param {ImageScanDependencies} deps - Client and scan dependencies (decoder, vision check)
+ * @param {ImageScanWorkerOptions} [options] - Tuning options
+ * @returns {{ runOnce: () => Promise<ImageScanRunSummary>; start: () => void; stop: () => void }} Worker controls
+ *
+ * @example
+ * const worker = createImageScanWorker({
+ *   client,
+ *   decode: decodeImageWithSharp,
+ *   checkWithVision: createAiFeatures(provider).checkImageForScam,
+ * });
+ * const summary = await worker.runOnce();
+ * console.log(`${summary.clear} clear, ${summary.flagged} flagged`);
+ */
+export const createImageScanWorker = (deps: ImageScanDependencies, options: ImageScanWorkerOptions = {}) => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const now = options.now ?? (() => new Date());
+  const client: SupabaseClient = deps.client;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  /**
+   * Claims an image by moving its next attempt past the lease. Returns false if
+   * another worker changed the row first.
+   */
+  const claim = async (image: QueuedImageRow): Promise<boolean> => {
+    const leaseUntil = new Date(now().getTime() + config.leaseMs).toISOString();
+    const { data, error } = await client
+      .from('property_images')
+      .update({ scan_next_attempt_at: leaseUntil })
+      .eq('id', image.id)
+      .eq('scan_next_attempt_at', image.scan_next_attempt_at)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  };
+
+  /**
+   * Records a failed attempt and schedules a retry, or parks the image.
+   * @returns {Promise<boolean>} True if the image was parked
+   */
+  const recordFailure = async (image: QueuedImageRow, err: unknown): Promise<boolean> => {
+    const attempts = image.scan_attempts + 1;
+    const parked = attempts >= config.maxAttempts;
+    const message = err instanceof Error ? err.message : String(err);
+
+    const { error } = await client
+      .from('property_images')
+      .update({
+        scan_attempts: attempts,
+        scan_last_error: message,
+        scan_next_attempt_at: parked
+          ? null
+          : new Date(now().getTime() + backoffDelay(attempts, config.baseBackoffMs, config.maxBackoffMs)).toISOString(),
+      })
+      .eq('id', image.id);
+
+    if (error) console.error('[imageScanWorker] Failed to record scan failure:', error);
+    return parked;
+  };
+
+  /**
+   * Moves a listing out of pending_verification if all of its images are clear.
+   * @returns {Promise<boolean>} True if the listing was published
+   */
+  const publishIfAllClear = async (listingId: string): Promise<boolean> => {
+    const { data: listing, error } = await client
+      .from('listings')
+      .select('id, status, images:property_images ( ai_scan )')
+      .eq('id', listingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!listing || listing.status !== 'pending_verification') return false;
+
+    const images = (listing.images || []) as { ai_scan: { status?: string } | null }[];
+    if (images.length === 0 || !images.every((img) => img.ai_scan?.status === 'clear')) return false;
+
+    const { error: updateError } = await client
+      .from('listings')
+      .update({ status: 'available', updated_at: now().toISOString() })
+      .eq('id', listingId)
+      .eq('status', 'pending_verification');
+
+    if (updateError) throw updateError;
+    return true;
+  };
+
+  /**
+   * Processes one batch of due images.
+   */
+  const runOnce = async (): Promise<ImageScanRunSummary> => {
+    const summary: ImageScanRunSummary = {
+      processed: 0,
+      clear: 0,
+      flagged: 0,
+      failed: 0,
+      parked: 0,
+      publishedListingIds: [],
+    };
+
+    const { data, error } = await client
+      .from('property_images')
+      .select('id, listing_id, scan_attempts, scan_next_attempt_at')
+      .eq('ai_scan->>status', 'pending')
+      .lte('scan_next_attempt_at', now().toISOString())
+      .order('scan_next_attempt_at', { ascending: true })
+      .limit(config.batchSize);
+
+    if (error) {
+      console.error('[imageScanWorker] Failed to load queue:', error);
+      throw error;
+    }
+
+    const touchedListings = new Set<string>();
+
+    for (const image of (data || []) as QueuedImageRow[]) {
+      if (!(await claim(image))) continue;
+      summary.processed++;
+
+      try {
+        const result = await imageScanService.scanPropertyImage(image.id, deps);
+        if (result.status === 'clear') summary.clear++;
+        else summary.flagged++;
+
+        await client
+          .from('property_images')
+          .update({ scan_attempts: image.scan_attempts + 1, scan_last_error: null })
+          .eq('id', image.id);
+
+        touchedListings.add(image.listing_id);
+      } catch (err) {
+        console.error(`[imageScanWorker] Scan failed for image ${image.id}:`, err);
+        if (await recordFailure(image, err)) summary.parked++;
+        else summary.failed++;
+      }
+    }
+
+    for (const listingId of touchedListings) {
+      try {
+        if (await publishIfAllClear(listingId)) summary.publishedListingIds.push(listingId);
+      } catch (err) {
+        console.error(`[imageScanWorker] Failed to publish listing ${listingId}:`, err);
+      }
+    }
+
+    return summary;
+  };
+
+  /**
+   * Starts polling the queue until stop() is called.
+   */
+  const start = () => {
+    if (running) return;
+    running = true;
+
+    const tick = async () => {
+      try {
+        const summary = await runOnce();
+        if (summary.processed > 0) console.log('[imageScanWorker] Run complete:', summary);
+      } catch (err) {
+        console.error('[imageScanWorker] Run failed:', err);
+      }
+      if (running) timer = setTimeout(tick, config.pollIntervalMs);
+    };
+
+    tick();
+  };
+
+  /**
+   * Stops polling after the current run.
+   */
+  const stop = () => {
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { runOnce, start, stop };
+};
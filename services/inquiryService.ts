@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Inquiry Service - Tenant-to-agent messaging backed by Supabase
+ *
+ * This service manages inquiry threads between tenants and agents, including:
+ * - Opening a thread when a tenant first contacts an agent about a listing
+ * - Appending replies from either participant
+ * - Tracking read/unread state per message
+ * - Counting inquiries for agent metrics
+ *
+ * Threads live in the `inquiries` table (one per listing and tenant) and
+ * messages live in `inquiry_messages`.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import type { Inquiry, InquiryMessage } from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+
+/**
+ * Select clause used for every thread query (participants, listing title and messages).
+ * @constant {string}
+ */
+const INQUIRY_SELECT = `
+  *,
+  tenant:profiles!inquiries_tenant_id_fkey (${PROFILE_COLUMNS}),
+  agent:profiles!inquiries_agent_id_fkey (${PROFILE_COLUMNS}),
+  listing:listings ( id, title ),
+  messages:inquiry_messages ( id, inquiry_id, sender_id, body, created_at, read_at )
+`;
+
+interface InquiryMessageRow {
+  id: string;
+  inquiry_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+interface InquiryRow {
+  id: string;
+  listing_id: string;
+  tenant_id: string;
+  agent_id: string;
+  created_at: string;
+  last_message_at: string;
+  tenant?: ProfileRow | null;
+  agent?: ProfileRow | null;
+  listing?: { id: string; title: string } | null;
+  messages?: InquiryMessageRow[] | null;
+}
+
+/**
+ * Converts a message row to frontend format.
+ *
+ * @param {InquiryMessageRow} row - Raw inquiry_messages record
+ * @returns {InquiryMessage} Frontend-formatted message
+ */
+const messageFromDbFormat = (row: InquiryMessageRow): InquiryMessage => ({
+  id: row.id,
+  inquiryId: row.inquiry_id,
+  senderId: row.sender_id,
+  body: row.body,
+  createdAt: row.created_at,
+  readAt: row.read_at ?? undefined,
+});
+
+/**
+ * Converts a thread row to frontend format.
+ *
+ * Messages are sorted oldest first, and `unreadCount` is calculated from the
+ * point of view of `viewerId` (messages sent by the other participant that
+ * have not been read yet).
+ *
+ * @param {InquiryRow} row - Raw inquiries record with joined data
+ * @param {string} viewerId - ID of the user the thread is being shown to
+ * @returns {Inquiry} Frontend-formatted inquiry thread
+ */
+const fromDbFormat = (row: InquiryRow, viewerId: string): Inquiry => {
+  const messages = (row.messages || [])
+    .map(messageFromDbFormat)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return {
+    id: row.id,
+    listingId: row.listing_id,
+    listingTitle: row.listing?.title || '',
+    tenant: mapProfileToUser(row.tenant, row.tenant_id, UserRole.TENANT),
+    agent: mapProfileToUser(row.agent, row.agent_id, UserRole.AGENT),
+    messages,
+    unreadCount: messages.filter((m) => m.senderId !== viewerId && !m.readAt).length,
+    createdAt: row.created_at,
+    lastMessageAt: row.last_message_at,
+  };
+};
+
+/**
+ * Fetches a single thread by ID.
+ *
+ * @param {string} inquiryId - Thread ID
+ * @param {string} viewerId - ID of the user viewing the thread (for unread counts)
+ * @returns {Promise<Inquiry>} The thread with all messages
+ *
+ * @throws {Error} Database errors or if the thread is not visible to the user
+ */
+const getInquiryById = async (inquiryId: string, viewerId: string): Promise<Inquiry> => {
+  const { data, error } = await supabase
+    .from('inquiries')
+    .select(INQUIRY_SELECT)
+    .eq('id', inquiryId)
+    .single();
+
+  if (error) throw error;
+  return fromDbFormat(data as InquiryRow, viewerId);
+};
+
+/**
+ * Appends a message to an existing thread and bumps its `last_message_at`.
+ *
+ * @param {string} inquiryId - Thread ID
+ * @param {string} senderId - ID of the participant sending the message
+ * @param {string} body - Message text
+ * @returns {Promise<Inquiry>} The updated thread
+ *
+ * @throws {Error} If the message is empty or the insert fails
+ *
+ * @example
+ * const thread = await inquiryService.replyToInquiry(inquiry.id, user.id, 'Yes, it is still available.');
+ */
+const replyToInquiry = async (inquiryId: string, senderId: string, body: string): Promise<Inquiry> => {
+  const text = body.trim();
+  if (!text) throw new Error('Message cannot be empty');
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('inquiry_messages')
+    .insert({ inquiry_id: inquiryId, sender_id: senderId, body: text, created_at: now });
+
+  if (error) {
+    console.error('[replyToInquiry] Supabase error:', error);
+    throw error;
+  }
+
+  const { error: bumpError } = await supabase
+    .from('inquiries')
+    .update({ last_message_at: now })
+    .eq('id', inquiryId);
+
+  if (bumpError) {
+    // The message is saved; a stale sort order in the inbox is not worth failing over
+    console.error('[replyToInquiry] Failed to update last_message_at:', bumpError);
+  }
+
+  return getInquiryById(inquiryId, senderId);
+};
+
+/**
+ * Sends a tenant's message about a listing to its agent.
+ *
+ * Reuses the tenant's existing thread for the listing if there is one,
+ * otherwise opens a new thread first.
+ *
+ * @param {object} params - Inquiry details
+ * @param {string} params.listingId - Listing the tenant is asking about
+ * @param {string} params.agentId - Agent who owns the listing
+ * @param {string} params.tenantId - Tenant sending the message
+ * @param {string} params.body - Message text
+ * @returns {Promise<Inquiry>} The thread including the new message
+ *
+ * @throws {Error} If the message is empty, the tenant owns the listing, or a database error occurs
+ *
+ * @example
+ * await inquiryService.sendInquiry({
+ *   listingId: listing.id,
+ *   agentId: listing.agent.id,
+ *   tenantId: user.id,
+ *   body: "Hi, is the house still available?"
+ * });
+ */
+const sendInquiry = async (params: {
+  listingId: string;
+  agentId: string;
+  tenantId: string;
+  body: string;
+}): Promise<Inquiry> => {
+  const { listingId, agentId, tenantId, body } = params;
+  if (!body.trim()) throw new Error('Message cannot be empty');
+  if (agentId === tenantId) throw new Error('You cannot send an inquiry about your own listing');
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('inquiries')
+    .select('id')
+    .eq('listing_id', listingId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error('[sendInquiry] Lookup error:', lookupError);
+    throw lookupError;
+  }
+
+  let inquiryId = existing?.id as string | undefined;
+
+  if (!inquiryId) {
+    const { data: created, error: createError } = await supabase
+      .from('inquiries')
+      .insert({ listing_id: listingId, tenant_id: tenantId, agent_id: agentId })
+      .select('id')
+      .single();
+
+    if (createError) {
+      console.error('[sendInquiry] Failed to open thread:', createError);
+      throw createError;
+    }
+    inquiryId = created.id as string;
+  }
+
+  return replyToInquiry(inquiryId, tenantId, body);
+};
+
+/**
+ * Lists all threads for an agent, most recently active first.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<Inquiry[]>} The agent's inbox
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getInquiriesForAgent = async (agentId: string): Promise<Inquiry[]> => {
+  const { data, error } = await supabase
+    .from('inquiries')
+    .select(INQUIRY_SELECT)
+    .eq('agent_id', agentId)
+    .order('last_message_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as InquiryRow[]).map((row) => fromDbFormat(row, agentId));
+};
+
+/**
+ * Lists all threads a tenant has opened, most recently active first.
+ *
+ * @param {string} tenantId - Tenant ID
+ * @returns {Promise<Inquiry[]>} The tenant's threads
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getInquiriesForTenant = async (tenantId: string): Promise<Inquiry[]> => {
+  const { data, error } = await supabase
+    .from('inquiries')
+    .select(INQUIRY_SELECT)
+    .eq('tenant_id', tenantId)
+    .order('last_message_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as InquiryRow[]).map((row) => fromDbFormat(row, tenantId));
+};
+
+/**
+ * Finds the tenant's thread for a given listing, if one exists.
+ *
+ * @param {string} listingId - Listing ID
+ * @param {string} tenantId - Tenant ID
+ * @returns {Promise<Inquiry | null>} The thread, or null if the tenant never made contact
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getInquiryForListing = async (listingId: string, tenantId: string): Promise<Inquiry | null> => {
+  const { data, error } = await supabase
+    .from('inquiries')
+    .select(INQUIRY_SELECT)
+    .eq('listing_id', listingId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromDbFormat(data as InquiryRow, tenantId) : null;
+};
+
+/**
+ * Marks every message from the other participant in a thread as read.
+ *
+ * @param {string} inquiryId - Thread ID
+ * @param {string} readerId - ID of the participant who opened the thread
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const markInquiryRead = async (inquiryId: string, readerId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('inquiry_messages')
+    .update({ read_at: new Date().toISOString() })
+    .eq('inquiry_id', inquiryId)
+    .neq('sender_id', readerId)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+/**
+ * Counts inquiry threads received by an agent.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<number>} Number of threads
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const countInquiriesForAgent = async (agentId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('inquiries')
+    .select('id', { count: 'exact', head: true })
+    .eq('agent_id', agentId);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * Exported inquiry service object containing all messaging operations.
+ *
+ * @namespace inquiryService
+ */
+export const inquiryService = {
+  sendInquiry,
+  replyToInquiry,
+  getInquiryById,
+  getInquiriesForAgent,
+  getInquiriesForTenant,
+  getInquiryForListing,
+  markInquiryRead,
+  countInquiriesForAgent,
+};
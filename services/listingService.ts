@@ -2,9 +2,12 @@
  * @fileoverview Listing Service - Handles property listing operations with Supabase integration
  * 
  * This service provides CRUD operations for property listings, including:
- * - Fetching listings with advanced filtering
+ * - Fetching listings with advanced filtering, sorting and pagination
  * - Creating new property listings with image support
  * - Updating existing listings
+ * - Saving unfinished listings as private drafts
+ * - Validating listing fields against the shared schema in utils/listingValidation.ts
+ * - Lifecycle actions: renewing before expiry, marking rented and archiving
  * - Managing agent metrics and statistics
  * - Data transformation between frontend and database formats
  * 
@@ -13,9 +16,13 @@
  */
 
 import { supabase } from './supabaseClient';
-import type { PropertyListing, AgentMetrics, PropertyImage } from '../types';
+import type { PropertyListing, AgentMetrics, PropertyImage, ListingSort, PaginatedListings, ListingStatus, ListingStatusChange } from '../types';
 import type { SearchFilters } from '../components/SearchBar';
 import { UserRole } from '../types';
+import { normalizeSearchText } from '../utils/searchFilters';
+import { assertValidListing } from '../utils/listingValidation';
+import { inquiryService } from './inquiryService';
+import { reviewService } from './reviewService';
 
 /**
  * Transforms various image data formats into a standardized PropertyImage array.
@@ -107,9 +114,9 @@ const transformImages = (images: any): PropertyImage[] => {
  * @returns {object} Database-formatted object ready for insert/update
  * 
  * @example
- * const frontendListing = { areaSqFt: 1500, isFeatured: true };
+ * const frontendListing = { areaSqFt: 1500, isFurnished: true };
  * const dbFormat = toDbFormat(frontendListing);
- * // Result: { area_sq_ft: 1500, is_featured: true }
+ * // Result: { area_sq_ft: 1500, is_furnished: true }
  */
 // Maps camelCase → snake_case before insert/update
 const toDbFormat = (listing: Partial<PropertyListing>) => {
@@ -118,10 +125,21 @@ const toDbFormat = (listing: Partial<PropertyListing>) => {
     ...listing,
     // Convert camelCase to snake_case for database columns
     area_sq_ft: listing.areaSqFt,
-    is_featured: listing.isFeatured,
+    property_type: listing.propertyType,
+    is_furnished: listing.isFurnished,
     // Remove camelCase properties to avoid duplication
     areaSqFt: undefined,
+    // Featured placement is bought through the payment server, never written by the client
     isFeatured: undefined,
+    featuredUntil: undefined,
+    // Analytics counters are kept by database triggers (see the listing_analytics migration)
+    views: undefined,
+    saves: undefined,
+    // Lifecycle dates are maintained by the database (see the listing_lifecycle migration)
+    expiresAt: undefined,
+    archivedAt: undefined,
+    propertyType: undefined,
+    isFurnished: undefined,
   };
 
   // Handle images - convert PropertyImage[] to JSONB format for legacy support
@@ -171,6 +189,11 @@ const fromDbFormat = (listing: any): PropertyListing => ({
   amenities: listing.amenities || [], // Ensure array even if null
   status: listing.status,
   isFeatured: listing.is_featured ?? false, // Default to false if null
+  featuredUntil: listing.featured_until ?? undefined,
+  expiresAt: listing.expires_at ?? undefined,
+  archivedAt: listing.archived_at ?? undefined,
+  propertyType: listing.property_type ?? 'apartment',
+  isFurnished: listing.is_furnished ?? false,
   
   // Timestamp fields
   createdAt: listing.created_at,
@@ -214,23 +237,229 @@ const fromDbFormat = (listing: any): PropertyListing => ({
       }
 });
 
+/**
+ * Filters accepted by the listing queries.
+ */
+type ListingFilters = SearchFilters & { agentId?: string; listingIds?: string[] };
+
+/**
+ * Statuses left out of search unless asked for by `filters.status` or `filters.agentId`
+ * @constant {ListingStatus[]}
+ */
+const HIDDEN_STATUSES: ListingStatus[] = ['draft', 'pending_verification', 'rejected', 'expired', 'archived'];
+
+/**
+ * Sorting and paging options for listing queries.
+ */
+export interface ListingQueryOptions {
+  sort?: ListingSort;
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+/**
+ * Default number of listings per page
+ * @constant {number}
+ */
+export const DEFAULT_PAGE_SIZE = 12;
+
+/**
+ * Column and direction used for each sort option.
+ * @constant
+ */
+const SORT_COLUMNS: Record<Exclude<ListingSort, 'relevance'>, { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  price_asc: { column: 'price', ascending: true },
+  price_desc: { column: 'price', ascending: false },
+  most_viewed: { column: 'views', ascending: false },
+};
+
+/**
+ * Select clause for listing queries (agent profile and scanned images).
+ * @constant {string}
+ */
+const LISTING_SELECT = `
+  *,
+  agent:profiles (
+    id,
+    email,
+    full_name,
+    is_verified_agent,
+    phone_number,
+    profile_picture_url
+  ),
+  images:property_images (
+    id,
+    url,
+    ai_scan
+  )
+`;
+
+/**
+ * Selects listings with their agent and images.
+ *
+ * @param {{ count: 'exact' }} [countOption] - Ask Supabase for the total row count
+ */
+const selectListings = (countOption?: { count: 'exact' }) =>
+  supabase.from('listings').select(LISTING_SELECT, countOption);
+
+/**
+ * Builds the filtered and sorted listings query shared by getListings and getListingsPage.
+ *
+ * @param {ListingFilters} [filters] - Optional filters to apply
+ * @param {ListingSort} [sort='relevance'] - Sort order ('relevance' means newest when there is no search text)
+ * @param {boolean} [withCount=false] - Whether to ask Supabase for the total row count
+ */
+const buildListingsQuery = (filters?: ListingFilters, sort: ListingSort = 'relevance', withCount = false) => {
+  const searchText = normalizeSearchText(filters?.location);
+  const countOption = withCount ? { count: 'exact' as const } : undefined;
+
+  // Build base query with related data. Text searches go through the ranked
+  // search_listings SQL function instead of the table.
+  // search_listings returns listings rows, so the same embeds and filters apply.
+  // supabase-js types rpc(...).select() without filter methods, although the
+  // builder it returns supports them, hence the cast.
+  let query = searchText
+    ? supabase.rpc('search_listings', { search_text: searchText }, countOption)
+        .select(LISTING_SELECT) as unknown as ReturnType<typeof selectListings>
+    : selectListings(countOption);
+
+  // search_listings already returns rows best match first; any other sort overrides it
+  if (!searchText || sort !== 'relevance') {
+    const { column, ascending } = SORT_COLUMNS[sort === 'relevance' ? 'newest' : sort];
+    query = query
+      .order(column, { ascending })
+      .order('id', { ascending: true }); // Tie-breaker so pages don't overlap
+  }
+
+  // Apply filters conditionally to avoid unnecessary database operations
+  
+  // Filter by specific agent
+  if (filters?.agentId) {
+    query = query.eq('agent_id', filters.agentId);
+  }
+
+  // Restrict to specific listings (e.g. a user's favourites)
+  if (filters?.listingIds) {
+    query = query.in('id', filters.listingIds);
+  }
+
+  // Filter by listing status. Without one, drafts, listings awaiting or failing moderation and
+  // expired or archived listings are hidden, except from their agent's own listing views.
+  if (filters?.status) {
+    query = query.eq('status', filters.status);
+  } else if (!filters?.agentId) {
+    query = query.not('status', 'in', `(${HIDDEN_STATUSES.join(',')})`);
+  }
+
+  // Filter by bedroom count (exact match)
+  if (filters?.bedrooms) {
+    query = query.eq('bedrooms', filters.bedrooms);
+  }
+
+  // Bedroom and bathroom ranges (e.g. "2+ bedrooms")
+  if (filters?.minBedrooms) {
+    query = query.gte('bedrooms', filters.minBedrooms);
+  }
+
+  if (filters?.maxBedrooms) {
+    query = query.lte('bedrooms', filters.maxBedrooms);
+  }
+
+  if (filters?.minBathrooms) {
+    query = query.gte('bathrooms', filters.minBathrooms);
+  }
+
+  if (filters?.maxBathrooms) {
+    query = query.lte('bathrooms', filters.maxBathrooms);
+  }
+
+  // Minimum floor area
+  if (filters?.minArea) {
+    query = query.gte('area_sq_ft', filters.minArea);
+  }
+
+  // Listing must include every requested amenity
+  if (filters?.amenities?.length) {
+    query = query.contains('amenities', filters.amenities);
+  }
+
+  if (filters?.propertyType) {
+    query = query.eq('property_type', filters.propertyType);
+  }
+
+  if (filters?.furnished !== undefined) {
+    query = query.eq('is_furnished', filters.furnished);
+  }
+
+  if (filters?.featuredOnly) {
+    query = query.eq('is_featured', true);
+  }
+
+  // Filter by county using JSON containment
+  if (filters?.county) {
+    // Query the location JSON field for county
+    query = query.contains('location', { county: filters.county });
+  }
+
+  // Price range filtering
+  if (filters?.minPrice) {
+    query = query.gte('price', filters.minPrice);
+  }
+
+  if (filters?.maxPrice) {
+    query = query.lte('price', filters.maxPrice);
+  }
+
+  return query;
+};
+
+/**
+ * Converts a 1-based page number and page size to an inclusive row range.
+ *
+ * @param {number} page - 1-based page number
+ * @param {number} pageSize - Rows per page
+ * @returns {[number, number]} `from` and `to` row indexes for `.range()`
+ */
+const toRange = (page: number, pageSize: number): [number, number] => {
+  const from = (Math.max(1, page) - 1) * pageSize;
+  return [from, from + pageSize - 1];
+};
+
 /**
  * Retrieves property listings with optional filtering and search capabilities.
  * 
  * Supports multiple filter types:
  * - Agent-specific listings
- * - Bedroom count filtering
+ * - Bedroom count filtering (exact or min/max), bathroom ranges and minimum area
+ * - Required amenities, property type, furnished and featured-only
  * - County/location filtering
- * - Text search across title, description, and location fields
+ * - Ranked full-text search across title, description, and location fields,
+ *   tolerant of misspelt place names (see the search_listings SQL function)
  * - Price range filtering (min/max)
  * 
- * @param {SearchFilters & { agentId?: string }} [filters] - Optional filters to apply
+ * Returns every matching row unless `options.page` is given; use
+ * getListingsPage when the total count is also needed.
+ * 
+ * @param {ListingFilters} [filters] - Optional filters to apply
  * @param {string} [filters.agentId] - Filter by specific agent ID
+ * @param {string[]} [filters.listingIds] - Only these listings
+ * @param {string} [filters.status] - Filter by listing status (e.g. 'pending_verification'); drafts, unmoderated, rejected, expired and archived listings are excluded unless requested or filtering by agent
  * @param {number} [filters.bedrooms] - Filter by number of bedrooms
+ * @param {number} [filters.minBedrooms] - Minimum bedrooms
+ * @param {number} [filters.maxBedrooms] - Maximum bedrooms
+ * @param {number} [filters.minBathrooms] - Minimum bathrooms
+ * @param {number} [filters.maxBathrooms] - Maximum bathrooms
+ * @param {number} [filters.minArea] - Minimum area in sq ft
+ * @param {string[]} [filters.amenities] - Amenities the listing must all have
+ * @param {PropertyType} [filters.propertyType] - Property type (e.g. 'bedsitter')
+ * @param {boolean} [filters.furnished] - Furnished (true) or unfurnished (false)
+ * @param {boolean} [filters.featuredOnly] - Only featured listings
  * @param {string} [filters.county] - Filter by county name
- * @param {string} [filters.location] - Text search across location fields
+ * @param {string} [filters.location] - Free-text search (passed as a parameter, never interpolated)
  * @param {number} [filters.minPrice] - Minimum price filter
  * @param {number} [filters.maxPrice] - Maximum price filter
+ * @param {ListingQueryOptions} [options] - Sort order and optional page
  * @returns {Promise<PropertyListing[]>} Array of formatted property listings
  * 
  * @throws {Error} Database errors from Supabase
@@ -248,65 +477,13 @@ const fromDbFormat = (listing: any): PropertyListing => ({
  * });
  * 
  * @example
- * // Search by location text
- * const searched = await getListings({
- *   location: 'Westlands'
- * });
+ * // Cheapest three available listings
+ * const cheapest = await getListings({ status: 'available' }, { sort: 'price_asc', page: 1, pageSize: 3 });
  */
-const getListings = async (filters?: SearchFilters & { agentId?: string }) => {
-  // Build base query with related data
-  let query = supabase
-    .from('listings')
-    .select(`
-      *,
-      agent:profiles (
-        id,
-        email,
-        full_name,
-        is_verified_agent,
-        phone_number,
-        profile_picture_url
-      ),
-      images:property_images (
-        id,
-        url,
-        ai_scan
-      )
-    `)
-    .order('created_at', { ascending: false }); // Most recent first
-
-  // Apply filters conditionally to avoid unnecessary database operations
-  
-  // Filter by specific agent
-  if (filters?.agentId) {
-    query = query.eq('agent_id', filters.agentId);
-  }
-
-  // Filter by bedroom count (exact match)
-  if (filters?.bedrooms) {
-    query = query.eq('bedrooms', filters.bedrooms);
-  }
-
-  // Filter by county using JSON containment
-  if (filters?.county) {
-    // Query the location JSON field for county
-    query = query.contains('location', { county: filters.county });
-  }
-
-  // Text search across multiple fields
-  if (filters?.location) {
-    // Search in title, description, and location fields
-    // For location, we'll search in address and neighborhood fields of the JSON
-    query = query.or(`title.ilike.%${filters.location}%,description.ilike.%${filters.location}%,location->>address.ilike.%${filters.location}%,location->>neighborhood.ilike.%${filters.location}%`);
-  }
-
-  // Price range filtering
-  if (filters?.minPrice) {
-    query = query.gte('price', filters.minPrice);
-  }
-
-  if (filters?.maxPrice) {
-    query = query.lte('price', filters.maxPrice);
+const getListings = async (filters?: ListingFilters, options?: ListingQueryOptions) => {
+  let query = buildListingsQuery(filters, options?.sort);
+  if (options?.page) {
+    query = query.range(...toRange(options.page, options.pageSize ?? DEFAULT_PAGE_SIZE));
   }
 
   // Execute query and handle errors
@@ -317,6 +494,41 @@ const getListings = async (filters?: SearchFilters & { agentId?: string }) => {
   return data.map(fromDbFormat);
 };
 
+/**
+ * Retrieves one page of listings together with the total number of matches.
+ *
+ * @param {ListingFilters} [filters] - Same filters as getListings
+ * @param {ListingQueryOptions} [options] - Sort order, page (default 1) and page size
+ * @returns {Promise<PaginatedListings>} The page of listings and paging totals
+ *
+ * @throws {Error} Database errors from Supabase
+ *
+ * @example
+ * const { listings, totalCount, totalPages } = await getListingsPage(
+ *   { county: 'Nairobi' },
+ *   { sort: 'price_desc', page: 2 }
+ * );
+ */
+const getListingsPage = async (filters?: ListingFilters, options?: ListingQueryOptions): Promise<PaginatedListings> => {
+  const page = Math.max(1, options?.page ?? 1);
+  const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  const { data, error, count } = await buildListingsQuery(filters, options?.sort, true)
+    .range(...toRange(page, pageSize));
+
+  // PostgREST rejects ranges past the last row; treat that as an empty page
+  if (error && error.code !== 'PGRST103') throw error;
+
+  const totalCount = count ?? 0;
+  return {
+    listings: (data ?? []).map(fromDbFormat),
+    totalCount,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(totalCount / pageSize)),
+  };
+};
+
 /**
  * Retrieves a single property listing by its ID.
  * 
@@ -362,7 +574,7 @@ const getListingById = async (id: string) => {
  * Creates a new property listing with optional image URLs.
  * 
  * This function:
- * 1. Converts the listing to database format
+ * 1. Validates the listing against LISTING_SCHEMA and converts it to database format
  * 2. Sets status to 'pending_verification' for new listings
  * 3. Inserts the main listing record
  * 4. Optionally inserts image records into property_images table
@@ -372,7 +584,7 @@ const getListingById = async (id: string) => {
  * @param {string[]} [listing.images] - Array of image URLs to associate with the listing
  * @returns {Promise<PropertyListing>} The created listing with generated ID and related data
  * 
- * @throws {Error} Database errors during listing or image creation
+ * @throws {Error} If the listing is invalid (see utils/listingValidation.ts), or database errors during listing or image creation
  * 
  * @example
  * const newListing = await createListing({
@@ -391,6 +603,8 @@ const getListingById = async (id: string) => {
 const createListing = async (
   listing: Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt' | 'agent' | 'views' | 'saves'> & { images?: string[] }
 ): Promise<PropertyListing> => {
+  assertValidListing(listing);
+
   // Convert to database format and set initial status
   const listingToInsert = {
     ...toDbFormat(listing),
@@ -456,7 +670,7 @@ const createListing = async (
  * @param {Partial<Omit<PropertyListing, 'id' | 'agent'>>} updates - Fields to update
  * @returns {Promise<PropertyListing>} The updated listing with all related data
  * 
- * @throws {Error} Database errors or if listing not found
+ * @throws {Error} If a field being updated is invalid, database errors, or if listing not found
  * 
  * @example
  * const updated = await updateListing('123...', {
@@ -469,6 +683,8 @@ const updateListing = async (
   id: string,
   updates: Partial<Omit<PropertyListing, 'id' | 'agent'>>
 ): Promise<PropertyListing> => {
+  assertValidListing(updates, { partial: true });
+
   // Convert updates to database format and add timestamp
   const updatesToSend = {
     ...toDbFormat(updates),
@@ -515,14 +731,140 @@ const deleteListing = async (id: string) => {
   if (error) throw error;
 };
 
+/**
+ * Saves a listing the agent hasn't finished as a `draft`, creating it on the
+ * first save. Drafts are only visible to their agent and are left out of
+ * search and metrics. Images are not saved with a draft; the form keeps
+ * selected files on the device (see utils/listingDraftStore.ts) until the
+ * listing is submitted.
+ *
+ * @param {string | null} draftId - ID returned by an earlier save, or null for a new draft
+ * @param {Partial<PropertyListing>} listing - Form fields as typed so far
+ * @returns {Promise<string>} The draft's ID
+ *
+ * @throws {Error} Database errors, or if the draft was submitted or discarded meanwhile
+ *
+ * @example
+ * const draftId = await listingService.saveDraft(null, { title: 'Kilimani 2BR' });
+ * await listingService.saveDraft(draftId, { title: 'Kilimani 2BR with borehole' });
+ */
+const saveDraft = async (draftId: string | null, listing: Partial<PropertyListing>): Promise<string> => {
+  const draft = {
+    ...toDbFormat(listing),
+    status: 'draft',
+    updated_at: new Date().toISOString(),
+  };
+  delete draft.images;
+
+  // Only ever overwrite a draft, so a late autosave can't pull a submitted listing back
+  const { data, error } = draftId
+    ? await supabase.from('listings').update(draft).eq('id', draftId).eq('status', 'draft').select('id').single()
+    : await supabase.from('listings').insert(draft).select('id').single();
+
+  if (error) {
+    console.error('[saveDraft] Supabase error:', error);
+    throw error;
+  }
+  return data.id as string;
+};
+
+/**
+ * Deletes a draft listing. Listings that have been submitted are left alone.
+ *
+ * @param {string} id - Draft listing ID
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const discardDraft = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('listings').delete().eq('id', id).eq('status', 'draft');
+
+  if (error) {
+    console.error('[discardDraft] Error discarding draft:', error);
+    throw error;
+  }
+};
+
+/**
+ * Renews a listing for another full lifetime (see listing_lifecycle_settings).
+ * Works for available listings nearing expiry and brings expired ones back to search.
+ *
+ * @param {string} id - Listing ID (must belong to the current agent)
+ * @returns {Promise<string>} The new expiry date
+ *
+ * @throws {Error} If the listing isn't the agent's, or isn't available or expired
+ *
+ * @example
+ * const expiresAt = await listingService.renewListing(listing.id);
+ */
+const renewListing = async (id: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('renew_listing', { target_listing: id });
+
+  if (error) {
+    console.error('[renewListing] Error renewing listing:', error);
+    throw error;
+  }
+  return data as string;
+};
+
+/**
+ * Moves a listing to a new lifecycle status: `rented` once it has been let, or
+ * `archived` to retire a rented or expired listing. Archived listings keep
+ * their inquiries, applications and status history.
+ *
+ * @param {string} id - Listing ID
+ * @param {'rented' | 'archived'} status - New status
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const setListingStatus = async (id: string, status: 'rented' | 'archived'): Promise<void> => {
+  const { error } = await supabase
+    .from('listings')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[setListingStatus] Error updating status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists a listing's status changes, newest first.
+ *
+ * @param {string} id - Listing ID
+ * @returns {Promise<ListingStatusChange[]>} Status history (visible to the listing's agent)
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getStatusHistory = async (id: string): Promise<ListingStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('listing_status_history')
+    .select('from_status, to_status, changed_by, changed_at')
+    .eq('listing_id', id)
+    .order('changed_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    fromStatus: row.from_status ?? undefined,
+    toStatus: row.to_status,
+    changedBy: row.changed_by ?? undefined,
+    changedAt: row.changed_at,
+  }));
+};
+
 /**
  * Calculates and returns metrics for a specific agent.
  * 
  * Aggregates listing data to provide insights into agent performance:
  * - Total number of listings
  * - Number of active (available) listings
- * - View and save counts (currently placeholder)
- * - Average rating (currently placeholder)
+ * - Number of inquiry threads received from tenants
+ * - Views: session-deduplicated detail views, counted by the same listing_events
+ *   rollup that fills `listing_daily_stats`
+ * - Saves: current favourites, kept in sync by a trigger on `favorites`
+ * - Average rating from tenant reviews
  * 
  * @param {string} agentId - The ID of the agent to calculate metrics for
  * @returns {Promise<AgentMetrics>} Aggregated metrics for the agent
@@ -532,15 +874,12 @@ const deleteListing = async (id: string) => {
  * @example
  * const metrics = await getAgentMetrics('agent-123');
  * console.log(`Agent has ${metrics.totalListings} listings, ${metrics.activeListings} active`);
- * 
- * @todo Implement actual view/save counting from analytics tables
- * @todo Add average rating calculation from reviews
  */
 const getAgentMetrics = async (agentId: string): Promise<AgentMetrics> => {
-  // Fetch all listings for the agent (only need status for metrics)
+  // Fetch all listings for the agent (only need status and counters for metrics)
   const { data, error } = await supabase
     .from('listings')
-    .select('status')
+    .select('status, saves, views')
     .eq('agent_id', agentId);
 
   if (error) {
@@ -548,18 +887,24 @@ const getAgentMetrics = async (agentId: string): Promise<AgentMetrics> => {
     throw error;
   }
 
-  // Calculate basic metrics from listing data
-  const totalListings = data.length;
+  // Calculate basic metrics from listing data; drafts don't count until they are submitted
+  const totalListings = data.filter((d) => d.status !== 'draft').length;
   const activeListings = data.filter((d) => d.status === 'available').length;
+  // Counters are kept up to date by triggers on favorites and listing_events
+  const totalSaves = data.reduce((sum, d) => sum + (d.saves || 0), 0);
+  const totalViews = data.reduce((sum, d) => sum + (d.views || 0), 0);
+  const [totalInquiries, averageRating] = await Promise.all([
+    inquiryService.countInquiriesForAgent(agentId),
+    reviewService.getAverageRatingForAgent(agentId),
+  ]);
 
   return {
     totalListings,
     activeListings,
-    // TODO: Implement these metrics when analytics tables are available
-    totalViews: 0,
-    totalSaves: 0,
-    totalInquiries: 0,
-    averageRating: undefined, // Will be calculated from reviews table
+    totalViews,
+    totalSaves,
+    totalInquiries,
+    averageRating,
   };
 };
 
@@ -573,9 +918,15 @@ const getAgentMetrics = async (agentId: string): Promise<AgentMetrics> => {
  */
 export const listingService = {
   getListings,
+  getListingsPage,
   getListingById,
   createListing,
   updateListing,
   deleteListing,
+  saveDraft,
+  discardDraft,
+  renewListing,
+  setListingStatus,
+  getStatusHistory,
   getAgentMetrics,
 };
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Mock Daraja - Local stand-in for Safaricom's M-Pesa Express API
+ *
+ * Serves the same endpoints as the Daraja sandbox so the payment flow can be
+ * exercised offline:
+ * - `GET /oauth/v1/generate` returns an access token
+ * - `POST /mpesa/stkpush/v1/processrequest` accepts the push and, after a
+ *   short delay, POSTs the result to the request's CallBackURL
+ * - `POST /mpesa/stkpushquery/v1/query` reports the result (or "still
+ *   processing" until the customer has "responded")
+ *
+ * The outcome is chosen by the last three digits of the phone number, so
+ * every path can be triggered on purpose:
+ * - `...000` insufficient funds (ResultCode 1)
+ * - `...111` cancelled by the customer (1032)
+ * - `...222` wrong PIN (2001)
+ * - `...333` phone unreachable: no callback is sent; queries report 1037
+ * - anything else: paid (0) with a fake receipt number
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { STK_RESULT_CODES } from './darajaClient';
+
+export interface MockDarajaOptions {
+  port?: number; // 0 picks a free port
+  callbackDelayMs?: number; // How long the "customer" takes to respond
+  fetchImpl?: typeof fetch; // Used to deliver callbacks
+}
+
+/**
+ * A push received by the mock, with the outcome it was given.
+ */
+export interface MockStkPush {
+  checkoutRequestId: string;
+  merchantRequestId: string;
+  phoneNumber: string;
+  amount: number;
+  callbackUrl: string;
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber?: string;
+  completed: boolean; // The customer has "responded"; queries now return the result
+  callbackStatus?: number; // HTTP status the callback URL answered with
+}
+
+/**
+ * Outcomes by the last three digits of the phone number
+ * @constant {Record<string, { resultCode: number; resultDesc: string }>}
+ */
+const OUTCOMES: Record<string, { resultCode: number; resultDesc: string }> = {
+  '000': { resultCode: STK_RESULT_CODES.INSUFFICIENT_FUNDS, resultDesc: 'The balance is insufficient for the transaction.' },
+  '111': { resultCode: STK_RESULT_CODES.CANCELLED_BY_USER, resultDesc: 'Request cancelled by user' },
+  '222': { resultCode: STK_RESULT_CODES.WRONG_PIN, resultDesc: 'The initiator information is invalid.' },
+  '333': { resultCode: STK_RESULT_CODES.PHONE_UNREACHABLE, resultDesc: 'DS timeout user cannot be reached' },
+};
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, string | number>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const randomId = (prefix: string) => `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+
+/**
+ * Creates a mock Daraja server.
+ *
+ * @param {MockDarajaOptions} [options] - Port, callback delay and fetch implementation
+ * @returns {{ start: () => Promise<string>; stop: () => Promise<void>; pushes: MockStkPush[] }} Server controls; start() resolves to the base URL
+ *
+ * @example
+ * const mock = createMockDaraja({ callbackDelayMs: 500 });
+ * const baseUrl = await mock.start();
+ * const daraja = createDarajaClient({ baseUrl, consumerKey: 'x', consumerSecret: 'x', shortcode: '174379', passkey: 'x' });
+ */
+export const createMockDaraja = (options: MockDarajaOptions = {}) => {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const callbackDelayMs = options.callbackDelayMs ?? 2000;
+  const pushes: MockStkPush[] = [];
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let server: Server | null = null;
+
+  /**
+   * Marks a push as answered and, unless the phone is "unreachable", POSTs the callback.
+   */
+  const respond = async (push: MockStkPush) => {
+    push.completed = true;
+    if (push.resultCode === STK_RESULT_CODES.PHONE_UNREACHABLE) return;
+
+    const stkCallback: Record<string, unknown> = {
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID: push.checkoutRequestId,
+      ResultCode: push.resultCode,
+      ResultDesc: push.resultDesc,
+    };
+    if (push.resultCode === STK_RESULT_CODES.SUCCESS) {
+      stkCallback.CallbackMetadata = {
+        Item: [
+          { Name: 'Amount', Value: push.amount },
+          { Name: 'MpesaReceiptNumber', Value: push.receiptNumber },
+          { Name: 'TransactionDate', Value: Number(new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 14)) },
+          { Name: 'PhoneNumber', Value: Number(push.phoneNumber) },
+        ],
+      };
+    }
+
+    try {
+      const response = await fetchImpl(push.callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Body: { stkCallback } }),
+      });
+      push.callbackStatus = response.status;
+    } catch (err) {
+      console.error(`[mockDaraja] Callback to ${push.callbackUrl} failed:`, err);
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && path === '/oauth/v1/generate') {
+      if (!req.headers.authorization?.startsWith('Basic ')) {
+        return send(res, 400, { errorCode: '400.008.01', errorMessage: 'Invalid Authentication passed' });
+      }
+      return send(res, 200, { access_token: randomId('mock'), expires_in: '3599' });
+    }
+
+    if (req.method !== 'POST' || !req.headers.authorization?.startsWith('Bearer ')) {
+      return send(res, 404, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+    }
+    const body = await readJson(req);
+
+    if (path === '/mpesa/stkpush/v1/processrequest') {
+      const phoneNumber = String(body.PhoneNumber ?? '');
+      const amount = Number(body.Amount);
+      if (!/^2547\d{8}$|^2541\d{8}$/.test(phoneNumber) || !(amount >= 1) || !body.CallBackURL) {
+        return send(res, 400, { requestId: randomId('req'), errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid PhoneNumber, Amount or CallBackURL' });
+      }
+
+      const outcome = OUTCOMES[phoneNumber.slice(-3)] ?? { resultCode: STK_RESULT_CODES.SUCCESS, resultDesc: 'The service request is processed successfully.' };
+      const push: MockStkPush = {
+        checkoutRequestId: randomId('ws_CO'),
+        merchantRequestId: randomId('MR'),
+        phoneNumber,
+        amount,
+        callbackUrl: String(body.CallBackURL),
+        ...outcome,
+        receiptNumber: outcome.resultCode === STK_RESULT_CODES.SUCCESS
+          ? `MCK${crypto.randomUUID().replace(/-/g, '').slice(0, 7).toUpperCase()}`
+          : undefined,
+        completed: false,
+      };
+      pushes.push(push);
+
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        respond(push);
+      }, callbackDelayMs);
+      timers.add(timer);
+
+      return send(res, 200, {
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: push.checkoutRequestId,
+        ResponseCode: '0',
+        ResponseDescription: 'Success. Request accepted for processing',
+        CustomerMessage: 'Success. Request accepted for processing',
+      });
+    }
+
+    if (path === '/mpesa/stkpushquery/v1/query') {
+      const push = pushes.find((p) => p.checkoutRequestId === body.CheckoutRequestID);
+      if (!push) {
+        return send(res, 400, { requestId: randomId('req'), errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid CheckoutRequestID' });
+      }
+      if (!push.completed) {
+        return send(res, 500, { requestId: randomId('req'), errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' });
+      }
+      return send(res, 200, {
+        ResponseCode: '0',
+        ResponseDescription: 'The service request has been accepted successsfully',
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: push.checkoutRequestId,
+        ResultCode: String(push.resultCode),
+        ResultDesc: push.resultDesc,
+      });
+    }
+
+    return send(res, 404, { errorCode: '404.001.01', errorMessage: 'Resource not found' });
+  };
+
+  /**
+   * Starts listening.
+   * @returns {Promise<string>} Base URL to pass to createDarajaClient
+   */
+  const start = async (): Promise<string> => {
+    const { createServer } = await import('node:http');
+    server = createServer((req, res) => {
+      handle(req, res).catch((err) => {
+        console.error('[mockDaraja] Request failed:', err);
+        send(res, 500, { errorCode: '500.003.02', errorMessage: 'Internal Server Error' });
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(options.port ?? 0, resolve));
+    const address = server.address();
+    return `http://localhost:${typeof address === 'object' && address ? address.port : options.port}`;
+  };
+
+  /**
+   * Cancels pending callbacks and closes the server.
+   */
+  const stop = async () => {
+    timers.forEach(clearTimeout);
+    timers.clear();
+    if (server) await new Promise<void>((resolve) => server!.close(() => resolve()));
+    server = null;
+  };
+
+  return { start, stop, pushes };
+};
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Moderation Service - Admin review of listings awaiting verification
+ *
+ * New listings are created in `pending_verification`. This service lets admins:
+ * - Load the moderation queue together with image scan results
+ * - Approve or reject listings, one at a time or in bulk
+ * - Read the history of moderation decisions for a listing
+ *
+ * Every decision is recorded in the `moderation_decisions` table by the
+ * `decide_listings` database function, together with the status change.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { listingService } from './listingService';
+import type { ModerationDecision, PropertyListing } from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+
+interface ModerationDecisionRow {
+  id: string;
+  listing_id: string;
+  moderator_id: string;
+  decision: 'approved' | 'rejected';
+  reason: string | null;
+  created_at: string;
+  moderator?: ProfileRow | null;
+}
+
+/**
+ * Converts a moderation decision row to frontend format.
+ *
+ * @param {ModerationDecisionRow} row - Raw moderation_decisions record
+ * @returns {ModerationDecision} Frontend-formatted decision
+ */
+const fromDbFormat = (row: ModerationDecisionRow): ModerationDecision => ({
+  id: row.id,
+  listingId: row.listing_id,
+  moderator: mapProfileToUser(row.moderator, row.moderator_id, UserRole.ADMIN),
+  decision: row.decision,
+  reason: row.reason ?? undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Loads all listings waiting for moderation, oldest first.
+ *
+ * @returns {Promise<PropertyListing[]>} Listings in `pending_verification` with their images and scan results
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getModerationQueue = async (): Promise<PropertyListing[]> => {
+  const listings = await listingService.getListings({ status: 'pending_verification' });
+  // getListings returns newest first; moderators work through the oldest first
+  return listings.reverse();
+};
+
+/**
+ * Applies the same decision to one or more listings and records it for each,
+ * as the logged-in admin. Either every listing is decided or none is.
+ *
+ * @param {string[]} listingIds - Listings to decide on
+ * @param {'approved' | 'rejected'} decision - Decision to apply
+ * @param {string} [reason] - Reason (required for rejections)
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If a rejection has no reason, the caller is not an admin, or a database error occurs
+ *
+ * @example
+ * await moderationService.decideListings(selectedIds, 'rejected', 'Photos reused from another listing');
+ */
+const decideListings = async (
+  listingIds: string[],
+  decision: 'approved' | 'rejected',
+  reason?: string
+): Promise<void> => {
+  if (listingIds.length === 0) return;
+  const trimmedReason = reason?.trim() || null;
+  if (decision === 'rejected' && !trimmedReason) {
+    throw new Error('A reason is required when rejecting a listing');
+  }
+
+  const { error } = await supabase.rpc('decide_listings', {
+    listing_ids: listingIds,
+    decision,
+    decision_reason: trimmedReason,
+  });
+
+  if (error) {
+    console.error('[decideListings] Failed to save decision:', error);
+    throw error;
+  }
+};
+
+/**
+ * Approves a single listing, making it publicly available.
+ *
+ * @param {string} listingId - Listing to approve
+ * @param {string} [reason] - Optional note
+ * @returns {Promise<void>}
+ */
+const approveListing = (listingId: string, reason?: string) =>
+  decideListings([listingId], 'approved', reason);
+
+/**
+ * Rejects a single listing.
+ *
+ * @param {string} listingId - Listing to reject
+ * @param {string} reason - Why it was rejected (shown to the agent)
+ * @returns {Promise<void>}
+ */
+const rejectListing = (listingId: string, reason: string) =>
+  decideListings([listingId], 'rejected', reason);
+
+/**
+ * Lists the moderation decisions for a listing, newest first.
+ *
+ * @param {string} listingId - Listing ID
+ * @returns {Promise<ModerationDecision[]>} Decision history
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getModerationHistory = async (listingId: string): Promise<ModerationDecision[]> => {
+  const { data, error } = await supabase
+    .from('moderation_decisions')
+    .select(`*, moderator:profiles (${PROFILE_COLUMNS})`)
+    .eq('listing_id', listingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as ModerationDecisionRow[]).map(fromDbFormat);
+};
+
+/**
+ * Exported moderation service object.
+ *
+ * @namespace moderationService
+ */
+export const moderationService = {
+  getModerationQueue,
+  decideListings,
+  approveListing,
+  rejectListing,
+  getModerationHistory,
+};
@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Notification Channels - Delivery adapters for in-app, email and SMS
+ *
+ * Each adapter takes a rendered notification and an address and either
+ * delivers it or throws (the worker records the error and retries):
+ * - In-app: inserts into the `notifications` inbox
+ * - Email: plain-text mail over SMTP (implicit TLS or required STARTTLS, AUTH LOGIN),
+ *   with attachments such as viewing .ics invites as multipart/mixed
+ * - SMS: Africa's Talking messaging API
+ *
+ * `createFakeChannel` stands in for any of them locally: it records what
+ * would have been sent and can be told to fail for given addresses.
+ *
+ * Only the notification worker (Node) uses this module; the SMTP adapter
+ * loads `node:net` / `node:tls` lazily when it sends.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { Socket } from 'node:net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationChannel } from '../types';
+import type { NotificationAttachment, NotificationMessage } from './notificationTemplates';
+
+/**
+ * A notification addressed to one recipient on one channel.
+ */
+export interface OutboundNotification {
+  userId: string;
+  address: string; // User ID (in-app), email address, or phone number as 2547XXXXXXXX
+  message: NotificationMessage;
+  data: Record<string, unknown>; // Original payload, stored with in-app notifications
+}
+
+export interface ChannelSendResult {
+  providerMessageId?: string;
+}
+
+export interface NotificationChannelAdapter {
+  channel: NotificationChannel;
+  send: (notification: OutboundNotification) => Promise<ChannelSendResult>;
+}
+
+export interface FakeChannelAdapter extends NotificationChannelAdapter {
+  sent: OutboundNotification[]; // Everything "delivered", oldest first
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // true for implicit TLS (port 465); otherwise STARTTLS is used
+  requireTls?: boolean; // Refuse to send if STARTTLS isn't offered; default true. Credentials never go out in cleartext either way
+  username?: string;
+  password?: string;
+  from: string; // e.g. 'Rentify Kenya <no-reply@rentify.co.ke>'
+  appUrl: string; // Base URL used to turn message links into absolute URLs
+  timeoutMs?: number;
+}
+
+export interface AfricasTalkingConfig {
+  username: string; // 'sandbox' for the sandbox app
+  apiKey: string;
+  senderId?: string; // Registered alphanumeric sender ID, if any
+  sandbox?: boolean;
+  fetchImpl?: typeof fetch; // Overridable for tests
+}
+
+/**
+ * Africa's Talking messaging endpoints
+ * @constant {string}
+ */
+const AFRICAS_TALKING_URL = 'https://api.africastalking.com/version1/messaging';
+const AFRICAS_TALKING_SANDBOX_URL = 'https://api.sandbox.africastalking.com/version1/messaging';
+
+/**
+ * Africa's Talking per-recipient status codes meaning the message was accepted
+ * (100 Processed, 101 Sent, 102 Queued)
+ * @constant {number[]}
+ */
+const AFRICAS_TALKING_ACCEPTED = [100, 101, 102];
+
+/**
+ * Creates the in-app adapter, which writes to the `notifications` inbox.
+ *
+ * @param {SupabaseClient} client - Service-role client (the worker writes other users' inboxes)
+ * @returns {NotificationChannelAdapter} In-app adapter
+ */
+export const createInAppChannel = (client: SupabaseClient): NotificationChannelAdapter => ({
+  channel: 'in_app',
+  send: async ({ userId, message, data }) => {
+    const { data: row, error } = await client
+      .from('notifications')
+      .insert([{ user_id: userId, type: message.type, data }])
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return { providerMessageId: row.id as string };
+  },
+});
+
+/**
+ * Creates a fake adapter for local runs and tests.
+ *
+ * @param {NotificationChannel} channel - Channel to stand in for
+ * @param {{ failFor?: string[] }} [options] - Addresses that should fail to deliver
+ * @returns {FakeChannelAdapter} Adapter that records sends in `sent`
+ *
+ * @example
+ * const sms = createFakeChannel('sms', { failFor: ['254700000000'] });
+ * await worker.runOnce();
+ * console.log(sms.sent.map((n) => n.message.sms));
+ */
+export const createFakeChannel = (
+  channel: NotificationChannel,
+  options: { failFor?: string[] } = {}
+): FakeChannelAdapter => {
+  const sent: OutboundNotification[] = [];
+  return {
+    channel,
+    sent,
+    send: async (notification) => {
+      if (options.failFor?.includes(notification.address)) {
+        throw new Error(`Fake ${channel} delivery to ${notification.address} failed`);
+      }
+      sent.push(notification);
+      return { providerMessageId: `fake-${channel}-${sent.length}` };
+    },
+  };
+};
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Reads SMTP replies (including multi-line `250-...` replies) from a socket.
+ */
+const createReplyReader = (socket: Socket) => {
+  let buffer = '';
+  const pending: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }[] = [];
+
+  const drain = () => {
+    while (pending.length > 0) {
+      const match = buffer.match(/^(?:\d{3}-[^\r\n]*\r\n)*(\d{3})(?: [^\r\n]*)?\r\n/);
+      if (!match) return;
+      buffer = buffer.slice(match[0].length);
+      pending.shift()!.resolve({ code: Number(match[1]), text: match[0].trim() });
+    }
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    drain();
+  };
+  const onError = (err: Error) => {
+    while (pending.length > 0) pending.shift()!.reject(err);
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        pending.push({ resolve, reject });
+        drain();
+      }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+};
+
+const toBase64 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+const wrapBase64 = (text: string) => toBase64(text).replace(/.{76}/g, '$&\r\n');
+
+/**
+ * Builds a plain-text MIME message, as multipart/mixed when there are
+ * attachments. All parts are base64-encoded, so no line can start with "."
+ * and no dot-stuffing is needed.
+ */
+const buildMimeMessage = (
+  config: SmtpConfig,
+  to: string,
+  subject: string,
+  text: string,
+  messageId: string,
+  attachments: NotificationAttachment[] = []
+): string => {
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${to}`,
+    `Subject: =?UTF-8?B?${toBase64(subject)}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+  const textPart = ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', wrapBase64(text)];
+
+  if (attachments.length === 0) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `rentify-${crypto.randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    ...attachments.flatMap((attachment) => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(attachment.content),
+    ]),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+/**
+ * Creates the SMTP email adapter.
+ *
+ * @param {SmtpConfig} config - Server, credentials, sender and app URL
+ * @returns {NotificationChannelAdapter} Email adapter
+ *
+ * @example
+ * const email = createSmtpEmailChannel({
+ *   host: 'smtp.example.com', port: 587, secure: false,
+ *   username: 'apikey', password: process.env.SMTP_PASSWORD,
+ *   from: 'Rentify Kenya <no-reply@rentify.co.ke>', appUrl: 'https://rentify.co.ke',
+ * });
+ */
+export const createSmtpEmailChannel = (config: SmtpConfig): NotificationChannelAdapter => ({
+  channel: 'email',
+  send: async ({ address, message }) => {
+    if (/[\r\n<>]/.test(address)) throw new Error('Invalid email address');
+
+    const net = await import('node:net');
+    const tls = await import('node:tls');
+    const fromAddress = config.from.match(/<([^>]+)>/)?.[1] ?? config.from;
+    const domain = fromAddress.split('@')[1] ?? 'localhost';
+    const messageId = `<${crypto.randomUUID()}@${domain}>`;
+    const link = message.link ? `\n\nOpen in Rentify: ${config.appUrl.replace(/\/$/, '')}/#${message.link}` : '';
+    const text = `${message.body}${link}\n\nYou can choose which notifications you receive in your Rentify notification settings.`;
+
+    let socket: Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(config.timeoutMs ?? 30_000, () => socket.destroy(new Error('SMTP timeout')));
+    let reader = createReplyReader(socket);
+
+    const command = async (line: string | null, expected: number[], label: string): Promise<SmtpReply> => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) throw new Error(`SMTP ${label} failed: ${reply.text}`);
+      return reply;
+    };
+
+    try {
+      await command(null, [220], 'greeting');
+      let ehlo = await command(`EHLO ${domain}`, [250], 'EHLO');
+
+      // A missing STARTTLS may mean someone in the path stripped it, so don't fall back silently
+      const offersStartTls = /STARTTLS/i.test(ehlo.text);
+      if (!config.secure && !offersStartTls && (config.requireTls ?? true)) {
+        throw new Error('SMTP server did not offer STARTTLS; refusing to send without TLS');
+      }
+
+      if (!config.secure && offersStartTls) {
+        await command('STARTTLS', [220], 'STARTTLS');
+        reader.detach();
+        const plainSocket = socket;
+        socket = await new Promise<Socket>((resolve, reject) => {
+          const secured = tls.connect({ socket: plainSocket, servername: config.host }, () => resolve(secured));
+          secured.once('error', reject);
+        });
+        socket.setTimeout(config.timeoutMs ?? 30_000, () => socket.destroy(new Error('SMTP timeout')));
+        reader = createReplyReader(socket);
+        ehlo = await command(`EHLO ${domain}`, [250], 'EHLO');
+      }
+
+      if (config.username) {
+        if (!(socket instanceof tls.TLSSocket)) {
+          throw new Error('Refusing to send SMTP credentials over an unencrypted connection');
+        }
+        await command('AUTH LOGIN', [334], 'AUTH');
+        await command(toBase64(config.username), [334], 'AUTH');
+        await command(toBase64(config.password ?? ''), [235], 'AUTH');
+      }
+
+      await command(`MAIL FROM:<${fromAddress}>`, [250], 'MAIL FROM');
+      await command(`RCPT TO:<${address}>`, [250, 251], 'RCPT TO');
+      await command('DATA', [354], 'DATA');
+      await command(`${buildMimeMessage(config, address, message.title, text, messageId, message.attachments)}\r\n.`, [250], 'message');
+      await command('QUIT', [221], 'QUIT').catch(() => undefined);
+
+      return { providerMessageId: messageId };
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  },
+});
+
+/**
+ * Creates the Africa's Talking SMS adapter.
+ *
+ * @param {AfricasTalkingConfig} config - App username, API key and optional sender ID
+ * @returns {NotificationChannelAdapter} SMS adapter
+ */
+export const createAfricasTalkingSmsChannel = (config: AfricasTalkingConfig): NotificationChannelAdapter => ({
+  channel: 'sms',
+  send: async ({ address, message }) => {
+    const fetchImpl = config.fetchImpl ?? fetch;
+    const body = new URLSearchParams({ username: config.username, to: `+${address}`, message: message.sms });
+    if (config.senderId) body.set('from', config.senderId);
+
+    const response = await fetchImpl(config.sandbox ? AFRICAS_TALKING_SANDBOX_URL : AFRICAS_TALKING_URL, {
+      method: 'POST',
+      headers: {
+        apiKey: config.apiKey,
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Africa's Talking responded ${response.status}: ${await response.text()}`);
+    }
+
+    const result = (await response.json()) as {
+      SMSMessageData?: {
+        Message?: string;
+        Recipients?: { statusCode: number; status: string; messageId: string }[];
+      };
+    };
+    const recipient = result.SMSMessageData?.Recipients?.[0];
+    if (!recipient || !AFRICAS_TALKING_ACCEPTED.includes(recipient.statusCode)) {
+      throw new Error(`SMS not accepted: ${recipient?.status ?? result.SMSMessageData?.Message ?? 'no recipients'}`);
+    }
+    return { providerMessageId: recipient.messageId };
+  },
+});
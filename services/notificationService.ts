@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Notification Service - In-app inbox, channel preferences and delivery log
+ *
+ * Every notification is a `type` plus a small JSON payload. Events in the
+ * database (new inquiry messages, verification and moderation decisions,
+ * saved-search matches) queue one delivery per channel the user has enabled;
+ * the notification worker renders each delivery (see notificationTemplates)
+ * and sends it through the matching channel adapter (see notificationChannels).
+ *
+ * The in-app inbox stores the same type and payload, so the bell renders
+ * messages with exactly the same templates as email and SMS.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { renderNotification } from './notificationTemplates';
+import type {
+  AppNotification,
+  NotificationDelivery,
+  NotificationPreferences,
+  NotificationType,
+} from '../types';
+
+/**
+ * Default preferences for users who never changed them
+ * @constant {NotificationPreferences}
+ */
+const DEFAULT_PREFERENCES: NotificationPreferences = { inApp: true, email: true, sms: false };
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: number;
+  channel: NotificationDelivery['channel'];
+  type: NotificationType;
+  status: NotificationDelivery['status'];
+  recipient: string | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/**
+ * Lists a user's in-app notifications, newest first.
+ *
+ * @param {string} userId - User ID
+ * @param {number} [limit=20] - Maximum number to return
+ * @returns {Promise<AppNotification[]>} Notifications
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getNotifications = async (userId: string, limit = 20): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as NotificationRow[]).map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    data: row.data,
+    readAt: row.read_at ?? undefined,
+    createdAt: row.created_at,
+  }));
+};
+
+/**
+ * Counts a user's unread in-app notifications.
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<number>} Unread count
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getUnreadCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * Marks notifications as read. Pass no IDs to mark all of the user's notifications read.
+ *
+ * @param {string} userId - User ID
+ * @param {string[]} [notificationIds] - Notifications to mark
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const markRead = async (userId: string, notificationIds?: string[]): Promise<void> => {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (notificationIds) {
+    if (notificationIds.length === 0) return;
+    query = query.in('id', notificationIds);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('[markRead] Failed to mark notifications read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads a user's channel preferences, falling back to the defaults.
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<NotificationPreferences>} Preferences
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('in_app, email, sms')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { inApp: data.in_app, email: data.email, sms: data.sms } : { ...DEFAULT_PREFERENCES };
+};
+
+/**
+ * Saves a user's channel preferences.
+ *
+ * @param {string} userId - User ID
+ * @param {NotificationPreferences} preferences - Channels to enable
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const updatePreferences = async (userId: string, preferences: NotificationPreferences): Promise<void> => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert([{
+      user_id: userId,
+      in_app: preferences.inApp,
+      email: preferences.email,
+      sms: preferences.sms,
+      updated_at: new Date().toISOString(),
+    }], { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('[updatePreferences] Failed to save preferences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists recent deliveries to a user across all channels, newest first.
+ *
+ * @param {string} userId - User ID
+ * @param {number} [limit=20] - Maximum number to return
+ * @returns {Promise<NotificationDelivery[]>} Delivery log entries
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getDeliveryLog = async (userId: string, limit = 20): Promise<NotificationDelivery[]> => {
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select('id, channel, type, status, recipient, attempts, last_error, created_at, sent_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as DeliveryRow[]).map((row) => ({
+    id: row.id,
+    channel: row.channel,
+    type: row.type,
+    status: row.status,
+    recipient: row.recipient ?? undefined,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    sentAt: row.sent_at ?? undefined,
+  }));
+};
+
+/**
+ * Exported notification service object.
+ *
+ * @namespace notificationService
+ */
+export const notificationService = {
+  renderNotification,
+  getNotifications,
+  getUnreadCount,
+  markRead,
+  getPreferences,
+  updatePreferences,
+  getDeliveryLog,
+};
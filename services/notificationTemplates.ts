@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Notification Templates - Common message model and per-type templates
+ *
+ * Kept free of the browser Supabase client so the notification worker can
+ * render messages in Node with the same templates the in-app bell uses.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { NotificationType } from '../types';
+import { buildViewingCalendarEvent } from '../utils/icsCalendar';
+
+/**
+ * A file sent along with email notifications (other channels ignore it).
+ */
+export interface NotificationAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * A rendered notification, ready for any channel.
+ */
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string; // In-app title and email subject
+  body: string; // Plain text for in-app and email
+  sms: string; // At most SMS_MAX_LENGTH characters
+  link?: string; // App route, e.g. '/listing/123'
+  attachments?: NotificationAttachment[];
+}
+
+interface SavedSearchMatchSummary {
+  searchName: string;
+  listingId: string;
+  listingTitle: string;
+  price: number;
+}
+
+interface ViewingChange {
+  bookingId: string;
+  listingId: string;
+  listingTitle: string;
+  location: string;
+  startsAt: string;
+  endsAt: string;
+  previousStartsAt?: string | null; // Set for reschedules
+  tenantName: string;
+  agentName: string;
+  recipientRole: 'agent' | 'tenant';
+  cancelledByTenant?: boolean | null;
+  sequence: number;
+}
+
+interface ListingExpiry {
+  listingId: string;
+  listingTitle: string;
+  expiresAt: string;
+}
+
+/**
+ * Payload shape for each notification type.
+ */
+export interface NotificationPayloads {
+  inquiry_message: {
+    inquiryId: string;
+    listingId: string;
+    listingTitle: string;
+    senderName: string;
+    recipientRole: 'agent' | 'tenant';
+    preview: string;
+  };
+  verification_result: { status: 'approved' | 'rejected'; reason?: string | null };
+  moderation_decision: { listingId: string; listingTitle: string; decision: 'approved' | 'rejected'; reason?: string | null };
+  saved_search_match: SavedSearchMatchSummary;
+  saved_search_digest: { matches: SavedSearchMatchSummary[] };
+  viewing_booked: ViewingChange;
+  viewing_rescheduled: ViewingChange;
+  viewing_cancelled: ViewingChange;
+  rental_application: { applicationId: string; listingId: string; listingTitle: string; tenantName: string };
+  application_update: {
+    applicationId: string;
+    listingId: string;
+    listingTitle: string;
+    status: 'shortlisted' | 'accepted' | 'rejected';
+    reason?: string | null;
+  };
+  listing_expiring: ListingExpiry;
+  listing_expired: ListingExpiry;
+}
+
+/**
+ * Longest SMS we send (one GSM-7 segment)
+ * @constant {number}
+ */
+const SMS_MAX_LENGTH = 160;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const formatPrice = (price: number) => `KES ${price.toLocaleString('en-KE')}`;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-KE', { day: 'numeric', month: 'short', timeZone: 'Africa/Nairobi' });
+
+const formatViewingTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-KE', {
+    timeZone: 'Africa/Nairobi',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Calendar invite for a viewing, so both sides can add (or remove) it with one click.
+ */
+const viewingAttachment = (data: ViewingChange, cancelled = false): NotificationAttachment[] => [{
+  filename: 'viewing.ics',
+  contentType: `text/calendar; charset=utf-8; method=${cancelled ? 'CANCEL' : 'PUBLISH'}`,
+  content: buildViewingCalendarEvent({
+    bookingId: data.bookingId,
+    sequence: data.sequence,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    listingTitle: data.listingTitle,
+    location: data.location,
+    withName: data.recipientRole === 'agent' ? data.tenantName : data.agentName,
+    cancelled,
+  }),
+}];
+
+const viewingLink = (data: ViewingChange) =>
+  data.recipientRole === 'agent' ? '/dashboard/agent' : `/listing/${data.listingId}`;
+
+type TemplateMap = { [K in NotificationType]: (data: NotificationPayloads[K]) => Omit<NotificationMessage, 'type'> };
+
+const TEMPLATES: TemplateMap = {
+  inquiry_message: (data) => ({
+    title: `New message about ${data.listingTitle}`,
+    body: `${data.senderName} wrote: "${data.preview}"`,
+    sms: `Rentify: ${data.senderName} sent you a message about ${data.listingTitle}. Open Rentify to reply.`,
+    link: data.recipientRole === 'agent' ? '/dashboard/agent' : `/listing/${data.listingId}`,
+  }),
+  verification_result: (data) =>
+    data.status === 'approved'
+      ? {
+          title: 'You are now a Verified Agent',
+          body: 'Your ID has been checked and your listings now show the verified badge.',
+          sms: 'Rentify: Your ID has been verified. Your listings now show the verified badge.',
+          link: '/dashboard/agent',
+        }
+      : {
+          title: 'ID verification was not approved',
+          body: `Your ID document was rejected: ${data.reason ?? 'no reason given'}. You can upload a new one from your dashboard.`,
+          sms: 'Rentify: Your ID verification was not approved. See your dashboard for the reason and to resubmit.',
+          link: '/dashboard/agent',
+        },
+  moderation_decision: (data) =>
+    data.decision === 'approved'
+      ? {
+          title: `${data.listingTitle} is live`,
+          body: `Your listing "${data.listingTitle}" was approved and is now visible to tenants.`,
+          sms: `Rentify: Your listing "${data.listingTitle}" was approved and is now live.`,
+          link: `/listing/${data.listingId}`,
+        }
+      : {
+          title: `${data.listingTitle} was not approved`,
+          body: `Your listing "${data.listingTitle}" was rejected: ${data.reason ?? 'no reason given'}.`,
+          sms: `Rentify: Your listing "${data.listingTitle}" was not approved. See your dashboard for details.`,
+          link: '/dashboard/agent',
+        },
+  saved_search_match: (data) => ({
+    title: `New match for "${data.searchName}"`,
+    body: `${data.listingTitle} — ${formatPrice(data.price)}/month`,
+    sms: `Rentify: New match for "${data.searchName}": ${data.listingTitle}, ${formatPrice(data.price)}/month.`,
+    link: `/listing/${data.listingId}`,
+  }),
+  saved_search_digest: (data) => ({
+    title: `${data.matches.length} new listing${data.matches.length === 1 ? '' : 's'} for your saved searches`,
+    body: data.matches.map(m => `• ${m.listingTitle} — ${formatPrice(m.price)}/month (${m.searchName})`).join('\n'),
+    sms: `Rentify: ${data.matches.length} new listing${data.matches.length === 1 ? '' : 's'} match your saved searches. Open Rentify to see them.`,
+    link: '/saved',
+  }),
+  viewing_booked: (data) => {
+    const when = formatViewingTime(data.startsAt);
+    return data.recipientRole === 'agent'
+      ? {
+          title: `Viewing booked: ${data.listingTitle}`,
+          body: `${data.tenantName} booked a viewing of "${data.listingTitle}" on ${when}.`,
+          sms: `Rentify: ${data.tenantName} booked a viewing of ${data.listingTitle} on ${when}.`,
+          link: viewingLink(data),
+          attachments: viewingAttachment(data),
+        }
+      : {
+          title: `Viewing confirmed: ${data.listingTitle}`,
+          body: `Your viewing with ${data.agentName} is on ${when}.\n${data.location}`,
+          sms: `Rentify: Your viewing of ${data.listingTitle} is confirmed for ${when}.`,
+          link: viewingLink(data),
+          attachments: viewingAttachment(data),
+        };
+  },
+  viewing_rescheduled: (data) => {
+    const when = formatViewingTime(data.startsAt);
+    const previously = data.previousStartsAt ? ` (was ${formatViewingTime(data.previousStartsAt)})` : '';
+    return {
+      title: `Viewing moved: ${data.listingTitle}`,
+      body: data.recipientRole === 'agent'
+        ? `${data.tenantName} moved their viewing of "${data.listingTitle}" to ${when}${previously}.`
+        : `Your viewing of "${data.listingTitle}" is now on ${when}${previously}.\n${data.location}`,
+      sms: `Rentify: The viewing of ${data.listingTitle} is now on ${when}.`,
+      link: viewingLink(data),
+      attachments: viewingAttachment(data),
+    };
+  },
+  viewing_cancelled: (data) => {
+    const when = formatViewingTime(data.startsAt);
+    const byRecipient = data.cancelledByTenant === (data.recipientRole === 'tenant');
+    const who = byRecipient ? 'You' : data.recipientRole === 'agent' ? data.tenantName : data.agentName;
+    return {
+      title: `Viewing cancelled: ${data.listingTitle}`,
+      body: `${who} cancelled the viewing of "${data.listingTitle}" on ${when}.`,
+      sms: `Rentify: The viewing of ${data.listingTitle} on ${when} was cancelled.`,
+      link: viewingLink(data),
+      attachments: viewingAttachment(data, true),
+    };
+  },
+  rental_application: (data) => ({
+    title: `New application for ${data.listingTitle}`,
+    body: `${data.tenantName} applied to rent "${data.listingTitle}". Review their details and documents on your dashboard.`,
+    sms: `Rentify: ${data.tenantName} applied to rent ${data.listingTitle}. Review it on your dashboard.`,
+    link: '/dashboard/agent',
+  }),
+  application_update: (data) => {
+    const link = `/listing/${data.listingId}`;
+    switch (data.status) {
+      case 'shortlisted':
+        return {
+          title: `You've been shortlisted for ${data.listingTitle}`,
+          body: `The agent has shortlisted your application for "${data.listingTitle}" and may contact you soon.`,
+          sms: `Rentify: You've been shortlisted for ${data.listingTitle}. The agent may contact you soon.`,
+          link,
+        };
+      case 'accepted':
+        return {
+          title: `Application accepted: ${data.listingTitle}`,
+          body: `Good news! Your application for "${data.listingTitle}" was accepted. The agent will be in touch about the lease and deposit.`,
+          sms: `Rentify: Your application for ${data.listingTitle} was accepted. The agent will contact you about next steps.`,
+          link,
+        };
+      default:
+        return {
+          title: `Application update: ${data.listingTitle}`,
+          body: `Your application for "${data.listingTitle}" was not successful${data.reason ? `: ${data.reason}` : ''}.`,
+          sms: `Rentify: Your application for ${data.listingTitle} was not successful. See Rentify for details.`,
+          link,
+        };
+    }
+  },
+  listing_expiring: (data) => {
+    const date = formatDate(data.expiresAt);
+    return {
+      title: `${data.listingTitle} expires on ${date}`,
+      body: `Your listing "${data.listingTitle}" will be hidden from search on ${date}. If it's still available, renew it from your dashboard; if it's been let, mark it as rented.`,
+      sms: `Rentify: ${data.listingTitle} expires on ${date}. Renew it on your dashboard if it's still available.`,
+      link: '/dashboard/agent',
+    };
+  },
+  listing_expired: (data) => ({
+    title: `${data.listingTitle} has expired`,
+    body: `Your listing "${data.listingTitle}" was not renewed and is no longer shown in search. Renew it from your dashboard to list it again.`,
+    sms: `Rentify: ${data.listingTitle} has expired and is hidden from search. Renew it on your dashboard to list it again.`,
+    link: '/dashboard/agent',
+  }),
+};
+
+/**
+ * Renders a notification payload with its template.
+ *
+ * @param {NotificationType} type - Notification type
+ * @param {Record<string, unknown>} data - Payload stored with the notification
+ * @returns {NotificationMessage} Title, body, SMS text and link
+ *
+ * @example
+ * const message = renderNotification('verification_result', { status: 'approved' });
+ * console.log(message.title); // 'You are now a Verified Agent'
+ */
+export const renderNotification = (type: NotificationType, data: Record<string, unknown>): NotificationMessage => {
+  const template = TEMPLATES[type] as (payload: Record<string, unknown>) => Omit<NotificationMessage, 'type'>;
+  if (!template) {
+    return { type, title: 'Rentify update', body: '', sms: 'Rentify: You have a new notification.' };
+  }
+  const message = template(data);
+  return { ...message, type, sms: truncate(message.sms, SMS_MAX_LENGTH) };
+};
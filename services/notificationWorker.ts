@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Notification Worker - Sends queued notifications through channel adapters
+ *
+ * Each run:
+ * 1. Every `lifecycleIntervalMs`, runs the listing lifecycle
+ *    (run_listing_lifecycle): expiry reminders for agents, expiring unrenewed
+ *    listings and archiving rented ones
+ * 2. Turns due saved-search alerts into notification deliveries: instant alerts
+ *    become one `saved_search_match` each, daily alerts one
+ *    `saved_search_digest` per user and channel
+ * 3. Picks up queued deliveries whose `next_attempt_at` is due and claims each
+ *    one with a short lease so parallel workers don't double-send
+ * 4. Renders the delivery with its template, looks up the user's address for
+ *    the channel and hands it to the channel adapter
+ * 5. Records the outcome; failures are retried with exponential backoff and
+ *    marked `failed` after the last attempt
+ *
+ * Deliveries for channels without an adapter, or users without an address on
+ * that channel, are marked `skipped`.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationChannel, NotificationType } from '../types';
+import type { NotificationChannelAdapter } from './notificationChannels';
+import { renderNotification } from './notificationTemplates';
+import { backoffDelay } from './imageScanWorker';
+import { normalizeKenyanPhoneNumber } from '../utils/phoneNumber';
+
+export interface NotificationWorkerDependencies {
+  client: SupabaseClient; // Service-role client
+  channels: Partial<Record<NotificationChannel, NotificationChannelAdapter>>;
+}
+
+/**
+ * Tuning options for the worker. All have sensible defaults.
+ */
+export interface NotificationWorkerOptions {
+  batchSize?: number; // Deliveries claimed per run
+  alertBatchSize?: number; // Saved-search alerts converted per run
+  maxAttempts?: number; // Attempts before a delivery is marked failed
+  baseBackoffMs?: number; // Delay after the first failure; doubles each time
+  maxBackoffMs?: number; // Upper bound for the backoff delay
+  leaseMs?: number; // How long a claimed delivery is hidden from other workers
+  lifecycleIntervalMs?: number; // How often to run the listing lifecycle
+  pollIntervalMs?: number; // Delay between runs when started with start()
+  now?: () => Date; // Clock, overridable for tests
+}
+
+/**
+ * Summary of a single worker run.
+ */
+export interface NotificationRunSummary {
+  listingsReminded: number; // Agents reminded that a listing is about to expire
+  listingsExpired: number;
+  listingsArchived: number;
+  alertsQueued: number; // Saved-search alerts turned into deliveries
+  processed: number;
+  sent: number;
+  skipped: number;
+  retrying: number;
+  failed: number; // Gave up after maxAttempts
+}
+
+interface QueuedDeliveryRow {
+  id: number;
+  user_id: string;
+  channel: NotificationChannel;
+  type: NotificationType;
+  data: Record<string, unknown>;
+  attempts: number;
+  next_attempt_at: string;
+}
+
+interface DueAlertRow {
+  id: number;
+  saved_search_id: string;
+  user_id: string;
+  channel: NotificationChannel;
+  frequency: 'instant' | 'daily';
+  listing: { id: string; title: string; price: number } | null;
+}
+
+interface ProfileAddressRow {
+  id: string;
+  email: string | null;
+  phone_number: string | null;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<NotificationWorkerOptions, 'now'>> = {
+  batchSize: 25,
+  alertBatchSize: 200,
+  maxAttempts: 5,
+  baseBackoffMs: 30_000,
+  maxBackoffMs: 60 * 60 * 1000,
+  leaseMs: 2 * 60 * 1000,
+  lifecycleIntervalMs: 15 * 60 * 1000,
+  pollIntervalMs: 5_000,
+};
+
+/**
+ * Creates a notification worker bound to a Supabase client (real or stand-in).
+ *
+ * @param {NotificationWorkerDependencies} deps - Client and channel adapters
+ * @param {NotificationWorkerOptions} [options] - Tuning options
+ * @returns {{ runOnce: () => Promise<NotificationRunSummary>; start: () => void; stop: () => void }} Worker controls
+ *
+ * @example
+ * const worker = createNotificationWorker({
+ *   client,
+ *   channels: { in_app: createInAppChannel(client), email: createFakeChannel('email') },
+ * });
+ * const summary = await worker.runOnce();
+ */
+export const createNotificationWorker = (
+  deps: NotificationWorkerDependencies,
+  options: NotificationWorkerOptions = {}
+) => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const now = options.now ?? (() => new Date());
+  const { client } = deps;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let lastLifecycleRun = -Infinity;
+
+  /**
+   * Runs the listing lifecycle if it hasn't run for `lifecycleIntervalMs`.
+   * @returns {Promise<{ reminded: number; expired: number; archived: number } | null>} Counts, or null if skipped
+   */
+  const runListingLifecycle = async () => {
+    if (now().getTime() - lastLifecycleRun < config.lifecycleIntervalMs) return null;
+
+    const { data, error } = await client.rpc('run_listing_lifecycle');
+    if (error) throw error;
+    lastLifecycleRun = now().getTime();
+    return data as { reminded: number; expired: number; archived: number };
+  };
+
+  /**
+   * Converts due saved-search alerts into deliveries. Alerts are claimed by
+   * flipping them to `sent` first, so a parallel worker can't queue them twice,
+   * and put back to `queued` if their deliveries can't be inserted.
+   * @returns {Promise<number>} Number of alerts converted
+   */
+  const queueSavedSearchAlerts = async (): Promise<number> => {
+    const { data, error } = await client
+      .from('saved_search_alerts')
+      .select('id, saved_search_id, user_id, channel, frequency, listing:listings ( id, title, price )')
+      .eq('status', 'queued')
+      .lte('deliver_after', now().toISOString())
+      .order('created_at', { ascending: true })
+      .limit(config.alertBatchSize);
+
+    if (error) throw error;
+    const due = (data || []) as unknown as DueAlertRow[];
+    if (due.length === 0) return 0;
+
+    const { data: claimedRows, error: claimError } = await client
+      .from('saved_search_alerts')
+      .update({ status: 'sent', sent_at: now().toISOString() })
+      .in('id', due.map((alert) => alert.id))
+      .eq('status', 'queued')
+      .select('id');
+
+    if (claimError) throw claimError;
+    const claimedIds = new Set((claimedRows || []).map((row) => row.id as number));
+    const alerts = due.filter((alert) => claimedIds.has(alert.id) && alert.listing);
+    if (alerts.length === 0) return 0;
+
+    try {
+      const { data: searches, error: searchError } = await client
+        .from('saved_searches')
+        .select('id, name')
+        .in('id', [...new Set(alerts.map((alert) => alert.saved_search_id))]);
+
+      if (searchError) throw searchError;
+      const searchNames = new Map((searches || []).map((s) => [s.id as string, s.name as string]));
+
+      const toMatch = (alert: DueAlertRow) => ({
+        searchName: searchNames.get(alert.saved_search_id) ?? 'Saved search',
+        listingId: alert.listing!.id,
+        listingTitle: alert.listing!.title,
+        price: alert.listing!.price,
+      });
+
+      const deliveries: Record<string, unknown>[] = [];
+      const digests = new Map<string, { user_id: string; channel: NotificationChannel; matches: ReturnType<typeof toMatch>[] }>();
+
+      for (const alert of alerts) {
+        if (alert.frequency === 'instant') {
+          deliveries.push({ user_id: alert.user_id, channel: alert.channel, type: 'saved_search_match', data: toMatch(alert) });
+          continue;
+        }
+        const key = `${alert.user_id}:${alert.channel}`;
+        const digest = digests.get(key) ?? { user_id: alert.user_id, channel: alert.channel, matches: [] };
+        digest.matches.push(toMatch(alert));
+        digests.set(key, digest);
+      }
+      for (const { user_id, channel, matches } of digests.values()) {
+        deliveries.push({ user_id, channel, type: 'saved_search_digest', data: { matches } });
+      }
+
+      const { error: insertError } = await client
+        .from('notification_deliveries')
+        .insert(deliveries.map((delivery) => ({ ...delivery, status: 'queued', attempts: 0, next_attempt_at: now().toISOString() })));
+
+      if (insertError) throw insertError;
+    } catch (err) {
+      // Put the alerts back so the next run queues them again, rather than leaving them
+      // marked sent without a delivery
+      const { error: releaseError } = await client
+        .from('saved_search_alerts')
+        .update({ status: 'queued', sent_at: null })
+        .in('id', alerts.map((alert) => alert.id))
+        .eq('status', 'sent');
+      if (releaseError) console.error('[notificationWorker] Could not release claimed alerts:', releaseError);
+      throw err;
+    }
+    return alerts.length;
+  };
+
+  /**
+   * Claims a delivery by moving its next attempt past the lease. Returns false if
+   * another worker changed the row first.
+   */
+  const claim = async (delivery: QueuedDeliveryRow): Promise<boolean> => {
+    const leaseUntil = new Date(now().getTime() + config.leaseMs).toISOString();
+    const { data, error } = await client
+      .from('notification_deliveries')
+      .update({ next_attempt_at: leaseUntil })
+      .eq('id', delivery.id)
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  };
+
+  /**
+   * Finds where to send a delivery on its channel.
+   */
+  const resolveAddress = (delivery: QueuedDeliveryRow, profile?: ProfileAddressRow): string | null => {
+    switch (delivery.channel) {
+      case 'in_app':
+        return delivery.user_id;
+      case 'email':
+        return profile?.email || null;
+      case 'sms':
+        return normalizeKenyanPhoneNumber(profile?.phone_number);
+    }
+  };
+
+  const finish = async (deliveryId: number, values: Record<string, unknown>) => {
+    const { error } = await client
+      .from('notification_deliveries')
+      .update({ ...values, next_attempt_at: values.next_attempt_at ?? null })
+      .eq('id', deliveryId);
+
+    if (error) console.error('[notificationWorker] Failed to record delivery outcome:', error);
+  };
+
+  /**
+   * Runs the listing lifecycle when due, converts due alerts, then sends one batch of due deliveries.
+   */
+  const runOnce = async (): Promise<NotificationRunSummary> => {
+    const summary: NotificationRunSummary = {
+      listingsReminded: 0,
+      listingsExpired: 0,
+      listingsArchived: 0,
+      alertsQueued: 0,
+      processed: 0,
+      sent: 0,
+      skipped: 0,
+      retrying: 0,
+      failed: 0,
+    };
+
+    try {
+      const lifecycle = await runListingLifecycle();
+      if (lifecycle) {
+        summary.listingsReminded = lifecycle.reminded;
+        summary.listingsExpired = lifecycle.expired;
+        summary.listingsArchived = lifecycle.archived;
+      }
+    } catch (err) {
+      console.error('[notificationWorker] Failed to run listing lifecycle:', err);
+    }
+
+    try {
+      summary.alertsQueued = await queueSavedSearchAlerts();
+    } catch (err) {
+      console.error('[notificationWorker] Failed to queue saved-search alerts:', err);
+    }
+
+    const { data, error } = await client
+      .from('notification_deliveries')
+      .select('id, user_id, channel, type, data, attempts, next_attempt_at')
+      .eq('status', 'queued')
+      .lte('next_attempt_at', now().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(config.batchSize);
+
+    if (error) {
+      console.error('[notificationWorker] Failed to load queue:', error);
+      throw error;
+    }
+
+    const deliveries = (data || []) as QueuedDeliveryRow[];
+    const userIds = [...new Set(deliveries.filter((d) => d.channel !== 'in_app').map((d) => d.user_id))];
+    const profiles = new Map<string, ProfileAddressRow>();
+    if (userIds.length > 0) {
+      const { data: profileRows, error: profileError } = await client
+        .from('profiles')
+        .select('id, email, phone_number')
+        .in('id', userIds);
+
+      if (profileError) throw profileError;
+      (profileRows as ProfileAddressRow[]).forEach((profile) => profiles.set(profile.id, profile));
+    }
+
+    for (const delivery of deliveries) {
+      if (!(await claim(delivery))) continue;
+      summary.processed++;
+      const attempts = delivery.attempts + 1;
+
+      const adapter = deps.channels[delivery.channel];
+      const address = resolveAddress(delivery, profiles.get(delivery.user_id));
+      if (!adapter || !address) {
+        summary.skipped++;
+        await finish(delivery.id, {
+          status: 'skipped',
+          last_error: adapter ? `No ${delivery.channel === 'sms' ? 'valid phone number' : 'email address'} on profile` : `No ${delivery.channel} channel configured`,
+        });
+        continue;
+      }
+
+      try {
+        const message = renderNotification(delivery.type, delivery.data);
+        const result = await adapter.send({ userId: delivery.user_id, address, message, data: delivery.data });
+        summary.sent++;
+        await finish(delivery.id, {
+          status: 'sent',
+          recipient: address,
+          attempts,
+          provider_message_id: result.providerMessageId ?? null,
+          last_error: null,
+          sent_at: now().toISOString(),
+        });
+      } catch (err) {
+        const gaveUp = attempts >= config.maxAttempts;
+        console.error(`[notificationWorker] ${delivery.channel} delivery ${delivery.id} failed:`, err);
+        if (gaveUp) summary.failed++;
+        else summary.retrying++;
+        await finish(delivery.id, {
+          status: gaveUp ? 'failed' : 'queued',
+          recipient: address,
+          attempts,
+          last_error: err instanceof Error ? err.message : String(err),
+          next_attempt_at: gaveUp
+            ? null
+            : new Date(now().getTime() + backoffDelay(attempts, config.baseBackoffMs, config.maxBackoffMs)).toISOString(),
+        });
+      }
+    }
+
+    return summary;
+  };
+
+  /**
+   * Starts polling the queue until stop() is called.
+   */
+  const start = () => {
+    if (running) return;
+    running = true;
+
+    const tick = async () => {
+      try {
+        const summary = await runOnce();
+        if (summary.processed > 0 || summary.alertsQueued > 0 || summary.listingsExpired > 0 || summary.listingsArchived > 0) console.log('[notificationWorker] Run complete:', summary);
+      } catch (err) {
+        console.error('[notificationWorker] Run failed:', err);
+      }
+      if (running) timer = setTimeout(tick, config.pollIntervalMs);
+    };
+
+    tick();
+  };
+
+  /**
+   * Stops polling after the current run.
+   */
+  const stop = () => {
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { runOnce, start, stop };
+};
@@ -0,0 +1,359 @@
+/**
+ * @fileoverview Payment Service - Featured placement purchases through M-Pesa STK push
+ *
+ * Runs on the payment server with a service-role client. A purchase moves
+ * through these states:
+ * - `pending`: payment row created and the PIN prompt sent to the phone
+ * - `succeeded`: Safaricom confirmed the payment; the listing is featured
+ *   until `featured_until` (extended if it was already featured)
+ * - `failed`: the customer cancelled, entered a wrong PIN, had insufficient
+ *   funds, or Safaricom rejected the request
+ * - `expired`: no outcome arrived in time (phone unreachable, prompt ignored)
+ *
+ * Outcomes normally arrive through the STK callback. Pending payments whose
+ * callback never came are settled by querying Daraja from
+ * reconcilePendingPayments(). A success that arrives after a payment expired
+ * still succeeds, because the customer has been charged. If featuring the
+ * listing fails after a payment succeeded, the same sweep applies it again.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PaymentStatus } from '../types';
+import type { DarajaClient, StkResult } from './darajaClient';
+import { parseStkCallback, STK_RESULT_CODES } from './darajaClient';
+import { getFeaturedPlan } from './featuredPlans';
+import { normalizeKenyanPhoneNumber } from '../utils/phoneNumber';
+
+export interface PaymentServiceDependencies {
+  client: SupabaseClient; // Service-role client
+  daraja: Pick<DarajaClient, 'stkPush' | 'queryStkPush'>;
+  callbackUrl: string; // Public URL Daraja POSTs results to
+}
+
+/**
+ * Tuning options for the service. All have sensible defaults.
+ */
+export interface PaymentServiceOptions {
+  queryAfterMs?: number; // How long to wait for a callback before querying Daraja
+  expireAfterMs?: number; // How long a payment may stay pending before it expires
+  now?: () => Date; // Clock, overridable for tests
+}
+
+export interface FeaturedPurchaseRequest {
+  userId: string;
+  listingId: string;
+  planId: string;
+  phoneNumber: string; // As typed by the agent
+}
+
+export interface FeaturedPurchase {
+  paymentId: string;
+  customerMessage: string;
+}
+
+/**
+ * Summary of a reconcilePendingPayments() run.
+ */
+export interface PaymentReconcileSummary {
+  checked: number;
+  succeeded: number;
+  failed: number;
+  expired: number;
+  featured: number; // Succeeded payments whose featured period was applied by the sweep
+}
+
+interface PaymentRow {
+  id: string;
+  listing_id: string;
+  amount: number;
+  status: PaymentStatus;
+  checkout_request_id: string | null;
+  created_at: string;
+}
+
+const PAYMENT_COLUMNS = 'id, listing_id, amount, status, checkout_request_id, created_at';
+
+const DEFAULT_OPTIONS: Required<Omit<PaymentServiceOptions, 'now'>> = {
+  queryAfterMs: 90 * 1000, // The PIN prompt itself times out after about a minute
+  expireAfterMs: 10 * 60 * 1000,
+};
+
+/**
+ * STK results that mean the prompt timed out rather than the customer declining
+ * @constant {number[]}
+ */
+const EXPIRED_RESULT_CODES = [STK_RESULT_CODES.PHONE_UNREACHABLE, 1019]; // 1019: transaction expired
+
+/**
+ * Creates the payment service bound to a Supabase client (real or stand-in) and a Daraja client (real or mock).
+ *
+ * @param {PaymentServiceDependencies} deps - Client, Daraja client and callback URL
+ * @param {PaymentServiceOptions} [options] - Tuning options
+ * @returns Payment operations
+ *
+ * @example
+ * const payments = createPaymentService({ client, daraja, callbackUrl: 'https://pay.rentify.co.ke/mpesa/callback/secret' });
+ * const { paymentId } = await payments.startFeaturedPurchase({ userId, listingId, planId: 'featured_7d', phoneNumber: '0712345678' });
+ */
+export const createPaymentService = (deps: PaymentServiceDependencies, options: PaymentServiceOptions = {}) => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const now = options.now ?? (() => new Date());
+  const { client, daraja } = deps;
+
+  /**
+   * Records an STK outcome on a payment and, for a success, features the listing.
+   * Only the first outcome counts; repeated callbacks are ignored.
+   * @returns {Promise<PaymentStatus | null>} The new status, or null if the payment was already settled
+   */
+  const settle = async (payment: PaymentRow, result: StkResult): Promise<PaymentStatus | null> => {
+    const succeeded = result.resultCode === STK_RESULT_CODES.SUCCESS;
+
+    if (succeeded && result.amount !== undefined && result.amount !== payment.amount) {
+      // Never feature a listing for less than the plan price; flag it for a manual refund instead.
+      console.error(`[settle] Payment ${payment.id} paid ${result.amount}, expected ${payment.amount}`);
+      result = { ...result, resultCode: -1, resultDesc: `Amount mismatch: paid KES ${result.amount}` };
+    }
+
+    const status: PaymentStatus = result.resultCode === STK_RESULT_CODES.SUCCESS
+      ? 'succeeded'
+      : EXPIRED_RESULT_CODES.includes(result.resultCode) ? 'expired' : 'failed';
+
+    const { data, error } = await client
+      .from('payments')
+      .update({
+        status,
+        result_code: result.resultCode,
+        result_desc: result.resultDesc,
+        mpesa_receipt: result.receiptNumber ?? null,
+        completed_at: now().toISOString(),
+      })
+      .eq('id', payment.id)
+      .in('status', status === 'succeeded' ? ['pending', 'expired'] : ['pending'])
+      .select('id');
+
+    if (error) {
+      console.error('[settle] Error recording payment outcome:', error);
+      throw error;
+    }
+    if ((data || []).length === 0) return null;
+
+    if (status === 'succeeded') await applyFeaturedPeriod(payment.id);
+    return status;
+  };
+
+  /**
+   * Features the listing a succeeded payment was for. Safe to repeat: the
+   * period is only applied once per payment.
+   */
+  const applyFeaturedPeriod = async (paymentId: string): Promise<void> => {
+    const { error } = await client.rpc('apply_featured_payment', { target_payment: paymentId });
+    if (error) {
+      console.error(`[applyFeaturedPeriod] Error featuring listing for payment ${paymentId}:`, error);
+      throw error;
+    }
+  };
+
+  /**
+   * Starts a featured placement purchase: validates the plan, listing and phone,
+   * records a pending payment and sends the PIN prompt.
+   *
+   * @param {FeaturedPurchaseRequest} request - Who is buying which plan for which listing
+   * @returns {Promise<FeaturedPurchase>} The pending payment and Safaricom's message for the customer
+   * @throws {Error} If the request is invalid or Daraja rejects the STK push
+   */
+  const startFeaturedPurchase = async (request: FeaturedPurchaseRequest): Promise<FeaturedPurchase> => {
+    const plan = getFeaturedPlan(request.planId);
+    if (!plan) throw new Error('Unknown featured plan');
+
+    const phoneNumber = normalizeKenyanPhoneNumber(request.phoneNumber);
+    if (!phoneNumber) throw new Error('Enter a valid Safaricom number, e.g. 0712 345 678');
+
+    const { data: listing, error: listingError } = await client
+      .from('listings')
+      .select('id, agent_id, status')
+      .eq('id', request.listingId)
+      .maybeSingle();
+
+    if (listingError) {
+      console.error('[startFeaturedPurchase] Error loading listing:', listingError);
+      throw listingError;
+    }
+    if (!listing || listing.agent_id !== request.userId) throw new Error('Listing not found');
+    if (listing.status !== 'available') throw new Error('Only available listings can be featured');
+
+    const { count, error: pendingError } = await client
+      .from('payments')
+      .select('id', { count: 'exact', head: true })
+      .eq('listing_id', request.listingId)
+      .eq('status', 'pending');
+
+    if (pendingError) throw pendingError;
+    if (count) throw new Error('A payment for this listing is still waiting for M-Pesa confirmation');
+
+    const { data: payment, error: insertError } = await client
+      .from('payments')
+      .insert({
+        user_id: request.userId,
+        listing_id: request.listingId,
+        plan_id: plan.id,
+        featured_days: plan.days,
+        amount: plan.amount,
+        phone_number: phoneNumber,
+        status: 'pending',
+        created_at: now().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('[startFeaturedPurchase] Error recording payment:', insertError);
+      throw insertError;
+    }
+
+    try {
+      const push = await daraja.stkPush({
+        amount: plan.amount,
+        phoneNumber,
+        callbackUrl: deps.callbackUrl,
+        accountReference: 'Rentify',
+        description: `Featured ${plan.days}d`,
+      });
+
+      const { error: updateError } = await client
+        .from('payments')
+        .update({ merchant_request_id: push.merchantRequestId, checkout_request_id: push.checkoutRequestId })
+        .eq('id', payment.id);
+
+      if (updateError) console.error('[startFeaturedPurchase] Error storing checkout request:', updateError);
+      return { paymentId: payment.id, customerMessage: push.customerMessage };
+    } catch (err) {
+      await client
+        .from('payments')
+        .update({
+          status: 'failed',
+          result_desc: err instanceof Error ? err.message : String(err),
+          completed_at: now().toISOString(),
+        })
+        .eq('id', payment.id);
+      console.error('[startFeaturedPurchase] STK push failed:', err);
+      throw new Error('Could not send the M-Pesa prompt. Please try again.');
+    }
+  };
+
+  /**
+   * Handles the body Daraja POSTs to the callback URL.
+   *
+   * @param {unknown} body - Parsed JSON body
+   * @returns {Promise<PaymentStatus | null>} The payment's new status, or null for unknown or repeated callbacks
+   * @throws {Error} If the body is not an STK callback
+   */
+  const handleStkCallback = async (body: unknown): Promise<PaymentStatus | null> => {
+    const result = parseStkCallback(body);
+    if (!result) throw new Error('Not an STK callback');
+
+    const { data, error } = await client
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .eq('checkout_request_id', result.checkoutRequestId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[handleStkCallback] Error loading payment:', error);
+      throw error;
+    }
+    if (!data) {
+      // Arrived before the checkout ID was stored; reconcilePendingPayments() will query it.
+      console.warn(`[handleStkCallback] No payment for checkout request ${result.checkoutRequestId}`);
+      return null;
+    }
+    return settle(data as PaymentRow, result);
+  };
+
+  /**
+   * Settles pending payments whose callback hasn't arrived by querying Daraja,
+   * expires those that have been pending too long, and features listings whose
+   * payment succeeded but could not be applied at the time.
+   *
+   * @returns {Promise<PaymentReconcileSummary>} What happened to the payments checked
+   */
+  const reconcilePendingPayments = async (): Promise<PaymentReconcileSummary> => {
+    const summary: PaymentReconcileSummary = { checked: 0, succeeded: 0, failed: 0, expired: 0, featured: 0 };
+
+    const { data, error } = await client
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .eq('status', 'pending')
+      .lte('created_at', new Date(now().getTime() - config.queryAfterMs).toISOString())
+      .order('created_at', { ascending: true })
+      .limit(50);
+
+    if (error) {
+      console.error('[reconcilePendingPayments] Error loading pending payments:', error);
+      throw error;
+    }
+
+    for (const payment of (data || []) as PaymentRow[]) {
+      summary.checked++;
+      let result: StkResult | null = null;
+      try {
+        if (payment.checkout_request_id) result = await daraja.queryStkPush(payment.checkout_request_id);
+      } catch (err) {
+        console.error(`[reconcilePendingPayments] Query for payment ${payment.id} failed:`, err);
+      }
+
+      const tooOld = now().getTime() - new Date(payment.created_at).getTime() >= config.expireAfterMs;
+      if (!result && !tooOld) continue;
+
+      const status = await settle(
+        payment,
+        result ?? { checkoutRequestId: payment.checkout_request_id ?? '', resultCode: 1019, resultDesc: 'No response from M-Pesa' }
+      );
+      if (status && status !== 'pending') summary[status]++;
+    }
+
+    const { data: unapplied, error: unappliedError } = await client
+      .from('payments')
+      .select('id')
+      .eq('status', 'succeeded')
+      .is('featured_until', null)
+      .order('created_at', { ascending: true })
+      .limit(50);
+
+    if (unappliedError) {
+      console.error('[reconcilePendingPayments] Error loading unapplied payments:', unappliedError);
+      throw unappliedError;
+    }
+
+    for (const { id } of (unapplied || []) as { id: string }[]) {
+      try {
+        await applyFeaturedPeriod(id);
+        summary.featured++;
+      } catch {
+        // Logged by applyFeaturedPeriod; tried again on the next sweep
+      }
+    }
+
+    return summary;
+  };
+
+  /**
+   * Un-features listings whose paid period has ended.
+   *
+   * @returns {Promise<number>} Number of listings un-featured
+   */
+  const expireFeaturedListings = async (): Promise<number> => {
+    const { data, error } = await client.rpc('expire_featured_listings');
+    if (error) {
+      console.error('[expireFeaturedListings] Error:', error);
+      throw error;
+    }
+    return (data as number) ?? 0;
+  };
+
+  return { startFeaturedPurchase, handleStkCallback, reconcilePendingPayments, expireFeaturedListings };
+};
+
+export type PaymentService = ReturnType<typeof createPaymentService>;
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Rent Estimate Service - Rent estimates from our own listings
+ *
+ * Estimates come from the prices of comparable listings on the site (same
+ * county and bedroom count, priced in the last 12 months), computed by the
+ * `estimate_rent` database function:
+ * - The 25th percentile, median and 75th percentile for the neighbourhood, or
+ *   for the county when the neighbourhood has too few listings
+ * - Confidence set from the number of listings behind the figures
+ * - The comparables themselves, so renters can see what the figures rest on
+ *
+ * The AI only explains the figures (geminiService.explainRentEstimate) and its
+ * sources are passed on as citations.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { geminiService } from './geminiService';
+import type { RentComparable, RentEstimate } from '../types';
+
+/**
+ * Fewest neighbourhood listings to estimate from before falling back to the county
+ * @constant {number}
+ */
+const MIN_NEIGHBORHOOD_SAMPLE = 5;
+
+/**
+ * Sample sizes needed for high and medium confidence. County-wide figures are
+ * never more than medium confidence, since rents vary a lot within a county.
+ * @constant {object}
+ */
+const CONFIDENCE_THRESHOLDS = { high: 20, medium: 8 };
+
+interface RentFigures {
+  sample_size: number;
+  p25: number | null;
+  median: number | null;
+  p75: number | null;
+}
+
+interface EstimateRentResult {
+  neighborhood: RentFigures;
+  county: RentFigures;
+  comparables: {
+    id: string;
+    title: string;
+    price: number;
+    neighborhood: string | null;
+    status: RentComparable['status'];
+    priced_at: string;
+  }[];
+}
+
+const confidenceFor = (sampleSize: number, scope: RentEstimate['scope']): RentEstimate['confidence'] => {
+  if (sampleSize >= CONFIDENCE_THRESHOLDS.high && scope === 'neighborhood') return 'high';
+  if (sampleSize >= CONFIDENCE_THRESHOLDS.medium) return 'medium';
+  return 'low';
+};
+
+/**
+ * Estimates the monthly rent for a property from comparable listings.
+ *
+ * @param {object} params - What to estimate
+ * @param {string} params.county - County, e.g. 'Nairobi'
+ * @param {string} params.neighborhood - Neighbourhood, e.g. 'Kilimani'
+ * @param {number} params.bedrooms - Number of bedrooms
+ * @param {string} [params.excludeListingId] - Listing being estimated, left out of its own comparables
+ * @param {boolean} [params.explain=true] - Ask the AI to explain the figures
+ * @returns {Promise<RentEstimate | null>} The estimate, or null if there are no comparable listings
+ *
+ * @throws {Error} Database errors from Supabase
+ *
+ * @example
+ * const estimate = await rentEstimateService.estimateRent({ county: 'Nairobi', neighborhood: 'Kilimani', bedrooms: 2 });
+ * if (estimate) console.log(`Median KES ${estimate.medianRent} from ${estimate.sampleSize} listings`);
+ */
+const estimateRent = async ({
+  county,
+  neighborhood,
+  bedrooms,
+  excludeListingId,
+  explain = true,
+}: {
+  county: string;
+  neighborhood: string;
+  bedrooms: number;
+  excludeListingId?: string;
+  explain?: boolean;
+}): Promise<RentEstimate | null> => {
+  const { data, error } = await supabase.rpc('estimate_rent', {
+    target_county: county,
+    target_neighborhood: neighborhood,
+    target_bedrooms: bedrooms,
+    exclude_listing: excludeListingId ?? null,
+  });
+
+  if (error) {
+    console.error('[estimateRent] Error computing rent statistics:', error);
+    throw error;
+  }
+
+  const result = data as EstimateRentResult;
+  const scope: RentEstimate['scope'] =
+    result.neighborhood.sample_size >= MIN_NEIGHBORHOOD_SAMPLE ? 'neighborhood' : 'county';
+  const figures = result[scope];
+  if (figures.sample_size === 0 || figures.median === null) return null;
+
+  const estimate: RentEstimate = {
+    location: `${neighborhood}, ${county}`,
+    bedrooms,
+    scope,
+    sampleSize: figures.sample_size,
+    p25Rent: Number(figures.p25),
+    medianRent: Number(figures.median),
+    p75Rent: Number(figures.p75),
+    confidence: confidenceFor(figures.sample_size, scope),
+    comparables: result.comparables.map((row) => ({
+      id: row.id,
+      title: row.title,
+      price: Number(row.price),
+      neighborhood: row.neighborhood ?? '',
+      status: row.status,
+      pricedAt: row.priced_at,
+    })),
+    citations: [],
+    lastUpdated: new Date().toISOString().split('T')[0],
+  };
+
+  if (!explain) return estimate;
+  // The figures stand on their own, so an estimate is still returned if the explanation fails
+  const { data: explained, error: explainError } = await geminiService.explainRentEstimate(estimate);
+  if (explainError) console.warn('[estimateRent] No AI explanation:', explainError.message);
+  return explained ? { ...estimate, ...explained } : estimate;
+};
+
+export const rentEstimateService = {
+  estimateRent,
+};
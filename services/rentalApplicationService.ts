@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Rental Application Service - Tenant applications and agent review
+ *
+ * Tenants apply for a listing with employment and income details, up to
+ * three references, an ID document and payslips. Documents are uploaded to
+ * a private bucket under the tenant's folder first; `submit_rental_application`
+ * then creates the application and its document rows in one transaction.
+ * The listing's agent can read the documents through short-lived signed URLs
+ * and shortlist, accept or reject; accepting can also mark the listing as rented.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  EmploymentStatus,
+  RentalApplication,
+  RentalApplicationDocument,
+  RentalApplicationReference,
+} from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+import { normalizeKenyanPhoneNumber } from '../utils/phoneNumber';
+
+/**
+ * Private storage bucket for application documents (no public URLs)
+ * @constant {string}
+ */
+const APPLICATION_DOCUMENT_BUCKET = 'rental-application-documents';
+
+/**
+ * Maximum size per document (10MB)
+ * @constant {number}
+ */
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Accepted document types (photos or scanned PDFs)
+ * @constant {string[]}
+ */
+const SUPPORTED_DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+/**
+ * Most payslips accepted per application
+ * @constant {number}
+ */
+const MAX_PAYSLIPS = 3;
+
+/**
+ * How long signed document links stay valid for agents (seconds)
+ * @constant {number}
+ */
+const SIGNED_URL_TTL_SECONDS = 300;
+
+/**
+ * Select clause used for application queries.
+ * @constant {string}
+ */
+const APPLICATION_SELECT = `
+  *,
+  tenant:profiles!rental_applications_tenant_id_fkey (${PROFILE_COLUMNS}),
+  listing:listings ( id, title ),
+  documents:rental_application_documents ( id, kind, storage_path, file_name )
+`;
+
+/**
+ * Details a tenant fills in when applying.
+ */
+export interface RentalApplicationInput {
+  employmentStatus: EmploymentStatus;
+  employerName?: string;
+  jobTitle?: string;
+  monthlyIncome: number;
+  moveInDate?: string; // YYYY-MM-DD
+  occupants: number;
+  message?: string;
+  references: RentalApplicationReference[];
+}
+
+interface RentalApplicationRow {
+  id: string;
+  listing_id: string;
+  tenant_id: string;
+  agent_id: string;
+  status: RentalApplication['status'];
+  employment_status: EmploymentStatus;
+  employer_name: string | null;
+  job_title: string | null;
+  monthly_income: number;
+  move_in_date: string | null;
+  occupants: number;
+  message: string | null;
+  references: RentalApplicationReference[] | null;
+  decision_reason: string | null;
+  decided_at: string | null;
+  created_at: string;
+  tenant?: ProfileRow | null;
+  listing?: { id: string; title: string } | null;
+  documents?: { id: string; kind: RentalApplicationDocument['kind']; storage_path: string; file_name: string }[] | null;
+}
+
+/**
+ * Converts an application row to frontend format.
+ *
+ * @param {RentalApplicationRow} row - Raw rental_applications record with joined data
+ * @returns {RentalApplication} Frontend-formatted application
+ */
+const fromDbFormat = (row: RentalApplicationRow): RentalApplication => ({
+  id: row.id,
+  listingId: row.listing_id,
+  listingTitle: row.listing?.title || '',
+  tenant: mapProfileToUser(row.tenant, row.tenant_id, UserRole.TENANT),
+  agentId: row.agent_id,
+  status: row.status,
+  employmentStatus: row.employment_status,
+  employerName: row.employer_name ?? undefined,
+  jobTitle: row.job_title ?? undefined,
+  monthlyIncome: row.monthly_income,
+  moveInDate: row.move_in_date ?? undefined,
+  occupants: row.occupants,
+  message: row.message ?? undefined,
+  references: row.references || [],
+  documents: (row.documents || []).map((doc) => ({
+    id: doc.id,
+    kind: doc.kind,
+    path: doc.storage_path,
+    fileName: doc.file_name,
+  })),
+  decisionReason: row.decision_reason ?? undefined,
+  decidedAt: row.decided_at ?? undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Checks the form before anything is uploaded.
+ *
+ * @throws {Error} Describing the first problem found
+ */
+const validateApplication = (input: RentalApplicationInput, idDocument: File | null, payslips: File[]) => {
+  if (!Number.isFinite(input.monthlyIncome) || input.monthlyIncome < 0) {
+    throw new Error('Please enter your monthly income in KES');
+  }
+  if (input.employmentStatus === 'employed' && !input.employerName?.trim()) {
+    throw new Error('Please enter your employer');
+  }
+  if (!Number.isInteger(input.occupants) || input.occupants < 1 || input.occupants > 20) {
+    throw new Error('Number of occupants must be between 1 and 20');
+  }
+  if (input.references.length === 0 || input.references.length > 3) {
+    throw new Error('Please add between one and three references');
+  }
+  input.references.forEach((reference, index) => {
+    if (!reference.name.trim() || !reference.relationship.trim()) {
+      throw new Error(`Reference ${index + 1} needs a name and relationship`);
+    }
+    if (!normalizeKenyanPhoneNumber(reference.phoneNumber)) {
+      throw new Error(`Reference ${index + 1} needs a valid Kenyan phone number`);
+    }
+  });
+  if (!idDocument) throw new Error('Please attach a copy of your ID');
+  if (payslips.length === 0) throw new Error('Please attach at least one payslip');
+  if (payslips.length > MAX_PAYSLIPS) throw new Error(`Please attach at most ${MAX_PAYSLIPS} payslips`);
+  [idDocument, ...payslips].forEach((file) => {
+    if (!SUPPORTED_DOCUMENT_TYPES.includes(file.type)) {
+      throw new Error(`${file.name}: please upload a JPEG, PNG, WebP or PDF file`);
+    }
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      throw new Error(`${file.name} must be 10MB or smaller`);
+    }
+  });
+};
+
+/**
+ * Fetches a single application by ID.
+ *
+ * @param {string} applicationId - Application ID
+ * @returns {Promise<RentalApplication>} The application
+ *
+ * @throws {Error} Database errors or if the application is not visible to the user
+ */
+const getApplicationById = async (applicationId: string): Promise<RentalApplication> => {
+  const { data, error } = await supabase
+    .from('rental_applications')
+    .select(APPLICATION_SELECT)
+    .eq('id', applicationId)
+    .single();
+
+  if (error) throw error;
+  return fromDbFormat(data as RentalApplicationRow);
+};
+
+/**
+ * Uploads the documents and submits an application for a listing.
+ *
+ * @param {object} params - Application details
+ * @param {string} params.listingId - Listing being applied for
+ * @param {string} params.tenantId - Tenant applying
+ * @param {RentalApplicationInput} params.details - Employment, income and references
+ * @param {File | null} params.idDocument - Photo or PDF of the tenant's ID
+ * @param {File[]} params.payslips - One to three recent payslips
+ * @returns {Promise<RentalApplication>} The submitted application
+ *
+ * @throws {Error} If validation or an upload fails, the listing is no longer available,
+ * or the tenant already has an open application for it
+ *
+ * @example
+ * await rentalApplicationService.submitApplication({
+ *   listingId: listing.id,
+ *   tenantId: user.id,
+ *   details: { employmentStatus: 'employed', employerName: 'Safaricom', monthlyIncome: 180000, occupants: 2, references },
+ *   idDocument,
+ *   payslips,
+ * });
+ */
+const submitApplication = async (params: {
+  listingId: string;
+  tenantId: string;
+  details: RentalApplicationInput;
+  idDocument: File | null;
+  payslips: File[];
+}): Promise<RentalApplication> => {
+  const { listingId, tenantId, details, idDocument, payslips } = params;
+  validateApplication(details, idDocument, payslips);
+
+  const files = [
+    { kind: 'id_document' as const, file: idDocument! },
+    ...payslips.map((file) => ({ kind: 'payslip' as const, file })),
+  ];
+  const uploaded: { kind: RentalApplicationDocument['kind']; path: string; fileName: string }[] = [];
+  const removeUploaded = () =>
+    uploaded.length > 0
+      ? supabase.storage.from(APPLICATION_DOCUMENT_BUCKET).remove(uploaded.map((doc) => doc.path))
+      : Promise.resolve();
+
+  for (const { kind, file } of files) {
+    const fileExt = file.name.split('.').pop() || 'pdf';
+    // The folder must match the tenant's user id for the storage policy to allow the upload
+    const path = `${tenantId}/${uuidv4()}.${fileExt}`;
+    const { error: uploadError } = await supabase.storage.from(APPLICATION_DOCUMENT_BUCKET).upload(path, file);
+
+    if (uploadError) {
+      console.error('[submitApplication] Upload failed:', uploadError);
+      await removeUploaded();
+      throw new Error(`Could not upload ${file.name}. Please try again.`);
+    }
+    uploaded.push({ kind, path, fileName: file.name });
+  }
+
+  const { data, error } = await supabase.rpc('submit_rental_application', {
+    target_listing: listingId,
+    details: {
+      ...details,
+      references: details.references.map((reference) => ({
+        name: reference.name.trim(),
+        relationship: reference.relationship.trim(),
+        phoneNumber: normalizeKenyanPhoneNumber(reference.phoneNumber),
+      })),
+    },
+    documents: uploaded,
+  });
+
+  if (error) {
+    // Don't leave orphaned documents behind
+    await removeUploaded();
+    console.error('[submitApplication] Failed to submit application:', error);
+    throw error;
+  }
+
+  return getApplicationById(data as string);
+};
+
+/**
+ * Gets the tenant's most recent application for a listing.
+ *
+ * @param {string} listingId - Listing ID
+ * @param {string} tenantId - Tenant ID
+ * @returns {Promise<RentalApplication | null>} Latest application, or null if the tenant never applied
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getLatestApplicationForListing = async (listingId: string, tenantId: string): Promise<RentalApplication | null> => {
+  const { data, error } = await supabase
+    .from('rental_applications')
+    .select(APPLICATION_SELECT)
+    .eq('listing_id', listingId)
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromDbFormat(data as RentalApplicationRow) : null;
+};
+
+/**
+ * Lists applications for an agent's listings, newest first.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<RentalApplication[]>} Applications (withdrawn ones excluded)
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getApplicationsForAgent = async (agentId: string): Promise<RentalApplication[]> => {
+  const { data, error } = await supabase
+    .from('rental_applications')
+    .select(APPLICATION_SELECT)
+    .eq('agent_id', agentId)
+    .neq('status', 'withdrawn')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as RentalApplicationRow[]).map(fromDbFormat);
+};
+
+/**
+ * Creates a short-lived link to an application document.
+ *
+ * @param {string} documentPath - Path inside the private bucket
+ * @returns {Promise<string>} Signed URL valid for a few minutes
+ *
+ * @throws {Error} If the caller is not allowed to read the document
+ */
+const getDocumentUrl = async (documentPath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(APPLICATION_DOCUMENT_BUCKET)
+    .createSignedUrl(documentPath, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) throw error ?? new Error('Could not open document');
+  return data.signedUrl;
+};
+
+/**
+ * Shortlists, accepts or rejects an open application.
+ *
+ * @param {string} applicationId - Application to review
+ * @param {'shortlisted' | 'accepted' | 'rejected'} decision - Review outcome
+ * @param {object} [options] - Decision options
+ * @param {string} [options.reason] - Reason shown to the tenant (required for rejections)
+ * @param {boolean} [options.markRented] - On acceptance, set the listing to `rented` and
+ * reject the listing's other open applications
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If a rejection has no reason, or the application is not open or not the agent's
+ */
+const reviewApplication = async (
+  applicationId: string,
+  decision: 'shortlisted' | 'accepted' | 'rejected',
+  options: { reason?: string; markRented?: boolean } = {}
+): Promise<void> => {
+  const reason = options.reason?.trim() || null;
+  if (decision === 'rejected' && !reason) {
+    throw new Error('Please give the applicant a reason');
+  }
+
+  const { error } = await supabase.rpc('review_rental_application', {
+    target_application: applicationId,
+    decision,
+    reason_text: reason,
+    mark_rented: decision === 'accepted' && !!options.markRented,
+  });
+
+  if (error) {
+    console.error('[reviewApplication] Failed to review application:', error);
+    throw error;
+  }
+};
+
+/**
+ * Withdraws the tenant's open application.
+ *
+ * @param {string} applicationId - Application to withdraw
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If the application was already decided
+ */
+const withdrawApplication = async (applicationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('withdraw_rental_application', { target_application: applicationId });
+
+  if (error) {
+    console.error('[withdrawApplication] Failed to withdraw application:', error);
+    throw error;
+  }
+};
+
+/**
+ * Exported rental application service object.
+ *
+ * @namespace rentalApplicationService
+ */
+export const rentalApplicationService = {
+  submitApplication,
+  getApplicationById,
+  getLatestApplicationForListing,
+  getApplicationsForAgent,
+  getDocumentUrl,
+  reviewApplication,
+  withdrawApplication,
+};
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Review Service - Persisted agent ratings and reviews
+ *
+ * This service stores tenant reviews of agents and enforces that:
+ * - Only tenants with a verified interaction (an inquiry the agent replied
+ *   to, or a booked viewing) can review an agent
+ * - Each tenant reviews an agent at most once per listing
+ * - Agents can post exactly one public reply per review
+ *
+ * It also aggregates ratings for agent metrics.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import type { RatingReview } from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+
+/**
+ * Select clause used for review queries (rater and agent profiles).
+ * @constant {string}
+ */
+const REVIEW_SELECT = `
+  *,
+  rater:profiles!reviews_rater_id_fkey (${PROFILE_COLUMNS}),
+  agent:profiles!reviews_agent_id_fkey (${PROFILE_COLUMNS})
+`;
+
+interface ReviewRow {
+  id: string;
+  rater_id: string;
+  agent_id: string;
+  listing_id: string | null;
+  rating: number;
+  comment: string;
+  is_verified_interaction: boolean;
+  agent_reply: string | null;
+  agent_reply_at: string | null;
+  created_at: string;
+  rater?: ProfileRow | null;
+  agent?: ProfileRow | null;
+}
+
+/**
+ * Converts a review row to the frontend RatingReview format.
+ *
+ * @param {ReviewRow} row - Raw reviews record with joined profiles
+ * @returns {RatingReview} Frontend-formatted review
+ */
+const fromDbFormat = (row: ReviewRow): RatingReview => ({
+  id: row.id,
+  raterUser: mapProfileToUser(row.rater, row.rater_id, UserRole.TENANT),
+  ratedAgent: mapProfileToUser(row.agent, row.agent_id, UserRole.AGENT),
+  propertyId: row.listing_id ?? undefined,
+  rating: row.rating,
+  comment: row.comment,
+  createdAt: row.created_at,
+  isVerifiedInteraction: row.is_verified_interaction,
+  agentReply: row.agent_reply
+    ? { comment: row.agent_reply, createdAt: row.agent_reply_at ?? row.created_at }
+    : undefined,
+});
+
+/**
+ * Lists all reviews for an agent, newest first.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<RatingReview[]>} The agent's reviews
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getReviewsForAgent = async (agentId: string): Promise<RatingReview[]> => {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select(REVIEW_SELECT)
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as ReviewRow[]).map(fromDbFormat);
+};
+
+/**
+ * Checks whether the logged-in tenant has dealt with an agent through the platform.
+ *
+ * An interaction means an inquiry thread the agent has replied to, or a viewing
+ * that was booked and not cancelled. The check runs in the database
+ * (`has_review_interaction`), which also guards review inserts.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<boolean>} True if the tenant may leave a verified review
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const hasVerifiedInteraction = async (agentId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('has_review_interaction', { target_agent: agentId });
+
+  if (error) throw error;
+  return data === true;
+};
+
+/**
+ * Submits a tenant's review of an agent.
+ *
+ * @param {object} params - Review details
+ * @param {string} params.raterId - Tenant leaving the review
+ * @param {string} params.agentId - Agent being reviewed
+ * @param {string} [params.listingId] - Listing the interaction was about
+ * @param {number} params.rating - Star rating from 1 to 5
+ * @param {string} params.comment - Review text
+ * @returns {Promise<RatingReview>} The stored review
+ *
+ * @throws {Error} If the rating is out of range, the tenant has no verified interaction,
+ *                 or the tenant already reviewed this agent for the listing
+ *
+ * @example
+ * await reviewService.submitReview({
+ *   raterId: user.id,
+ *   agentId: listing.agent.id,
+ *   listingId: listing.id,
+ *   rating: 5,
+ *   comment: 'Very responsive and honest.'
+ * });
+ */
+const submitReview = async (params: {
+  raterId: string;
+  agentId: string;
+  listingId?: string;
+  rating: number;
+  comment: string;
+}): Promise<RatingReview> => {
+  const { raterId, agentId, listingId, rating, comment } = params;
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Rating must be a whole number between 1 and 5');
+  }
+  if (raterId === agentId) {
+    throw new Error('You cannot review yourself');
+  }
+  if (!(await hasVerifiedInteraction(agentId))) {
+    throw new Error('You can only review agents who have replied to you or shown you a home through Rentify');
+  }
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .insert({
+      rater_id: raterId,
+      agent_id: agentId,
+      listing_id: listingId ?? null,
+      rating,
+      comment: comment.trim(),
+      is_verified_interaction: true,
+    })
+    .select(REVIEW_SELECT)
+    .single();
+
+  if (error) {
+    console.error('[submitReview] Supabase error:', error);
+    // 23505 = unique_violation
+    if (error.code === '23505') throw new Error('You have already reviewed this agent for this listing');
+    throw error;
+  }
+
+  return fromDbFormat(data as ReviewRow);
+};
+
+/**
+ * Posts the agent's public reply to a review.
+ *
+ * Only the reviewed agent can reply, and only once.
+ *
+ * @param {string} reviewId - Review ID
+ * @param {string} agentId - Agent posting the reply
+ * @param {string} comment - Reply text
+ * @returns {Promise<RatingReview>} The review including the reply
+ *
+ * @throws {Error} If the reply is empty, the review belongs to another agent, or it already has a reply
+ */
+const replyToReview = async (reviewId: string, agentId: string, comment: string): Promise<RatingReview> => {
+  const text = comment.trim();
+  if (!text) throw new Error('Reply cannot be empty');
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .update({ agent_reply: text, agent_reply_at: new Date().toISOString() })
+    .eq('id', reviewId)
+    .eq('agent_id', agentId)
+    .is('agent_reply', null) // Guard against overwriting an existing reply
+    .select(REVIEW_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[replyToReview] Supabase error:', error);
+    throw error;
+  }
+  if (!data) throw new Error('This review already has a reply or does not belong to you');
+
+  return fromDbFormat(data as ReviewRow);
+};
+
+/**
+ * Calculates an agent's average rating.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<number | undefined>} Average rating rounded to one decimal, or undefined if unrated
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getAverageRatingForAgent = async (agentId: string): Promise<number | undefined> => {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('rating')
+    .eq('agent_id', agentId);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return undefined;
+
+  const total = data.reduce((sum, r) => sum + r.rating, 0);
+  return Math.round((total / data.length) * 10) / 10;
+};
+
+/**
+ * Exported review service object containing all review operations.
+ *
+ * @namespace reviewService
+ */
+export const reviewService = {
+  getReviewsForAgent,
+  hasVerifiedInteraction,
+  submitReview,
+  replyToReview,
+  getAverageRatingForAgent,
+};
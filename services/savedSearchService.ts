@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Saved Search Service - Named searches and new-listing alerts
+ *
+ * Tenants can save the current ListingsPage filters under a name and choose
+ * how to hear about new matches (in-app, email or SMS; instantly or as a daily
+ * digest). Matching happens in the database: whenever a listing becomes
+ * `available`, a trigger queues one alert per matching search and channel in
+ * `saved_search_alerts`.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { parseSearchFilters, searchFiltersToParams } from '../utils/searchFilters';
+import type { SearchFilters } from '../components/SearchBar';
+import type { AlertFrequency, NotificationChannel, SavedSearch, SavedSearchAlert } from '../types';
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: SearchFilters;
+  frequency: AlertFrequency;
+  channels: NotificationChannel[];
+  is_active: boolean;
+  created_at: string;
+}
+
+interface SavedSearchAlertRow {
+  id: number;
+  saved_search_id: string;
+  listing_id: string;
+  channel: NotificationChannel;
+  frequency: AlertFrequency;
+  status: SavedSearchAlert['status'];
+  deliver_after: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  filters: SearchFilters;
+  frequency: AlertFrequency;
+  channels: NotificationChannel[];
+}
+
+const fromDbFormat = (row: SavedSearchRow): SavedSearch => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  filters: row.filters,
+  frequency: row.frequency,
+  channels: row.channels,
+  isActive: row.is_active,
+  createdAt: row.created_at,
+});
+
+const alertFromDbFormat = (row: SavedSearchAlertRow): SavedSearchAlert => ({
+  id: row.id,
+  savedSearchId: row.saved_search_id,
+  listingId: row.listing_id,
+  channel: row.channel,
+  frequency: row.frequency,
+  status: row.status,
+  deliverAfter: row.deliver_after,
+  readAt: row.read_at ?? undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Drops empty and malformed values by round-tripping through the URL format,
+ * so a saved search holds exactly what ListingsPage would put in the URL.
+ *
+ * @param {SearchFilters} filters - Filters from the page
+ * @returns {SearchFilters} Clean filters
+ */
+const normalizeFilters = (filters: SearchFilters): SearchFilters =>
+  parseSearchFilters(searchFiltersToParams(filters));
+
+/**
+ * Lists a user's saved searches, newest first.
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<SavedSearch[]>} Saved searches
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as SavedSearchRow[]).map(fromDbFormat);
+};
+
+/**
+ * Saves the given filters as a named search.
+ *
+ * @param {string} userId - Owner of the search
+ * @param {SavedSearchInput} input - Name, filters and alert preferences
+ * @returns {Promise<SavedSearch>} The saved search
+ *
+ * @throws {Error} If the name or channels are empty, or on database errors
+ *
+ * @example
+ * await savedSearchService.createSavedSearch(user.id, {
+ *   name: '2BR in Kilimani under 60k',
+ *   filters: { location: 'Kilimani', minBedrooms: 2, maxPrice: 60000 },
+ *   frequency: 'daily',
+ *   channels: ['in_app', 'email'],
+ * });
+ */
+const createSavedSearch = async (userId: string, input: SavedSearchInput): Promise<SavedSearch> => {
+  const name = input.name.trim();
+  if (!name) throw new Error('Please give this search a name.');
+  if (input.channels.length === 0) throw new Error('Choose at least one way to be notified.');
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert([{
+      user_id: userId,
+      name,
+      filters: normalizeFilters(input.filters),
+      frequency: input.frequency,
+      channels: input.channels,
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[createSavedSearch] Failed to save search:', error);
+    throw error;
+  }
+  return fromDbFormat(data as SavedSearchRow);
+};
+
+/**
+ * Updates a saved search's name, alert preferences or active flag.
+ *
+ * @param {string} searchId - Saved search ID
+ * @param {Partial<SavedSearchInput & { isActive: boolean }>} updates - Fields to change
+ * @returns {Promise<SavedSearch>} The updated search
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const updateSavedSearch = async (
+  searchId: string,
+  updates: Partial<SavedSearchInput & { isActive: boolean }>
+): Promise<SavedSearch> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update({
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.filters !== undefined && { filters: normalizeFilters(updates.filters) }),
+      ...(updates.frequency !== undefined && { frequency: updates.frequency }),
+      ...(updates.channels !== undefined && { channels: updates.channels }),
+      ...(updates.isActive !== undefined && { is_active: updates.isActive }),
+    })
+    .eq('id', searchId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[updateSavedSearch] Failed to update search:', error);
+    throw error;
+  }
+  return fromDbFormat(data as SavedSearchRow);
+};
+
+/**
+ * Deletes a saved search and its queued alerts.
+ *
+ * @param {string} searchId - Saved search ID
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const deleteSavedSearch = async (searchId: string): Promise<void> => {
+  const { error } = await supabase.from('saved_searches').delete().eq('id', searchId);
+
+  if (error) {
+    console.error('[deleteSavedSearch] Failed to delete search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists a user's unread in-app alerts that are due, newest first.
+ *
+ * @param {string} userId - User ID
+ * @returns {Promise<SavedSearchAlert[]>} Unread in-app alerts
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getUnreadAlerts = async (userId: string): Promise<SavedSearchAlert[]> => {
+  const { data, error } = await supabase
+    .from('saved_search_alerts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('channel', 'in_app')
+    .is('read_at', null)
+    .lte('deliver_after', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as SavedSearchAlertRow[]).map(alertFromDbFormat);
+};
+
+/**
+ * Marks in-app alerts as read.
+ *
+ * @param {number[]} alertIds - Alerts to mark
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const markAlertsRead = async (alertIds: number[]): Promise<void> => {
+  if (alertIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('saved_search_alerts')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', alertIds)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('[markAlertsRead] Failed to mark alerts read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Exported saved search service object.
+ *
+ * @namespace savedSearchService
+ */
+export const savedSearchService = {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getUnreadAlerts,
+  markAlertsRead,
+};
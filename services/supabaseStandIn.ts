@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Supabase Stand-in - In-memory replacement for the Supabase client
+ *
+ * Implements the subset of the supabase-js query builder used by background
+ * jobs so they can run locally without a Supabase project:
+ * - `from(table)` with select / insert / update / delete
+ * - Filters: eq, neq, is, in, gt, gte, lt, lte (JSON paths like `ai_scan->>status` supported)
+ * - order, limit, single, maybeSingle, `{ count: 'exact', head: true }`
+ * - Embedded relations in select strings (`listing:listings ( agent_id )`)
+ * - `rpc(name, args)` through user-supplied handlers
+ *
+ * Relations are resolved by naming convention: a row with `listing_id` embeds
+ * one `listings` row, and a `listings` row embeds every `property_images` row
+ * whose `listing_id` matches its `id`.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type StandInRow = Record<string, unknown>;
+export type StandInTables = Record<string, StandInRow[]>;
+export type StandInRpcHandler = (tables: StandInTables, args: Record<string, unknown>) => unknown;
+
+interface StandInError {
+  message: string;
+  code: string;
+}
+
+interface StandInResponse {
+  data: unknown;
+  error: StandInError | null;
+  count: number | null;
+}
+
+type Filter = (row: StandInRow) => boolean;
+
+/**
+ * Strips the plural "s" used by table names to get the foreign-key prefix.
+ *
+ * @param {string} table - Table name, e.g. 'listings'
+ * @returns {string} Singular name, e.g. 'listing'
+ */
+const singular = (table: string): string => (table.endsWith('s') ? table.slice(0, -1) : table);
+
+/**
+ * Reads a column, following `->` / `->>` JSON paths.
+ *
+ * @param {StandInRow} row - Row to read from
+ * @param {string} column - Column name or JSON path
+ * @returns {unknown} The value, or undefined if missing
+ */
+const readColumn = (row: StandInRow, column: string): unknown => {
+  const [head, ...path] = column.split(/->>?/);
+  return path.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as StandInRow)[key] : undefined),
+    row[head]
+  );
+};
+
+/**
+ * Splits a select string on top-level commas (ignoring those inside parentheses).
+ *
+ * @param {string} columns - Select string
+ * @returns {string[]} Trimmed select items
+ */
+const splitSelect = (columns: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of columns) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+/**
+ * Query builder mirroring the chainable supabase-js API. Awaiting it runs the query.
+ */
+class StandInQuery implements PromiseLike<StandInResponse> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private columns = '*';
+  private returning = false;
+  private payload: StandInRow[] | StandInRow = [];
+  private filters: Filter[] = [];
+  private orderBy: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private countOnly = false;
+
+  constructor(private tables: StandInTables, private table: string) {}
+
+  select(columns = '*', options?: { count?: 'exact'; head?: boolean }) {
+    this.columns = columns;
+    if (this.operation === 'select') {
+      this.countOnly = Boolean(options?.head);
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: StandInRow | StandInRow[]) {
+    this.operation = 'insert';
+    this.payload = values;
+    return this;
+  }
+
+  update(values: StandInRow) {
+    this.operation = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => readColumn(row, column) === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => readColumn(row, column) !== value);
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push((row) => (readColumn(row, column) ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(readColumn(row, column)));
+    return this;
+  }
+
+  gt(column: string, value: string | number) {
+    this.filters.push((row) => this.compare(row, column, value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: string | number) {
+    this.filters.push((row) => this.compare(row, column, value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: string | number) {
+    this.filters.push((row) => this.compare(row, column, value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: string | number) {
+    this.filters.push((row) => this.compare(row, column, value) <= 0);
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.orderBy.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = StandInResponse, TResult2 = never>(
+    onfulfilled?: ((value: StandInResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Compares a column value with a literal; rows with null values never match.
+   */
+  private compare(row: StandInRow, column: string, value: string | number): number {
+    const current = readColumn(row, column);
+    if (current === null || current === undefined) return NaN;
+    return current < value ? -1 : current > value ? 1 : 0;
+  }
+
+  private rows(): StandInRow[] {
+    return (this.tables[this.table] ??= []);
+  }
+
+  private execute(): StandInResponse {
+    let affected: StandInRow[];
+
+    switch (this.operation) {
+      case 'insert': {
+        const values = Array.isArray(this.payload) ? this.payload : [this.payload];
+        affected = values.map((value) => ({ id: crypto.randomUUID(), ...value }));
+        this.rows().push(...affected);
+        break;
+      }
+      case 'update':
+        affected = this.rows().filter((row) => this.filters.every((f) => f(row)));
+        affected.forEach((row) => Object.assign(row, this.payload));
+        break;
+      case 'delete':
+        affected = this.rows().filter((row) => this.filters.every((f) => f(row)));
+        this.tables[this.table] = this.rows().filter((row) => !affected.includes(row));
+        break;
+      default:
+        affected = this.rows().filter((row) => this.filters.every((f) => f(row)));
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    let result = [...affected];
+    for (const { column, ascending } of [...this.orderBy].reverse()) {
+      result.sort((a, b) => {
+        const left = readColumn(a, column) as string | number;
+        const right = readColumn(b, column) as string | number;
+        return (left < right ? -1 : left > right ? 1 : 0) * (ascending ? 1 : -1);
+      });
+    }
+    if (this.limitCount !== null) result = result.slice(0, this.limitCount);
+
+    if (this.countOnly) return { data: null, error: null, count: result.length };
+
+    const projected = result.map((row) => this.project(this.table, row, this.columns));
+
+    if (this.singleMode) {
+      if (projected.length > 1 || (projected.length === 0 && this.singleMode === 'single')) {
+        return {
+          data: null,
+          error: { message: `Expected a single row, found ${projected.length}`, code: 'PGRST116' },
+          count: null,
+        };
+      }
+      return { data: projected[0] ?? null, error: null, count: null };
+    }
+
+    return { data: projected, error: null, count: projected.length };
+  }
+
+  /**
+   * Applies a select string to a row, resolving embedded relations.
+   */
+  private project(table: string, row: StandInRow, columns: string): StandInRow {
+    const output: StandInRow = {};
+    for (const item of splitSelect(columns)) {
+      const embed = item.match(/^(?:(\w+):)?(\w+)(?:!\w+)?\s*\(([\s\S]*)\)$/);
+      if (!embed) {
+        if (item === '*') Object.assign(output, row);
+        else output[item] = row[item];
+        continue;
+      }
+
+      const [, alias, related, innerColumns] = embed;
+      const foreignKey = `${singular(related)}_id`;
+      const relatedRows = this.tables[related] ?? [];
+
+      if (foreignKey in row) {
+        // Many-to-one: this row points at the related table
+        const parent = relatedRows.find((r) => r.id === row[foreignKey]);
+        output[alias ?? related] = parent ? this.project(related, parent, innerColumns) : null;
+      } else {
+        // One-to-many: related rows point back at this row
+        const childKey = `${singular(table)}_id`;
+        output[alias ?? related] = relatedRows
+          .filter((r) => r[childKey] === row.id)
+          .map((r) => this.project(related, r, innerColumns));
+      }
+    }
+    return output;
+  }
+}
+
+/**
+ * Creates an in-memory Supabase client.
+ *
+ * @param {object} [options] - Initial data and RPC handlers
+ * @param {StandInTables} [options.tables] - Rows per table (mutated in place by queries)
+ * @param {Record<string, StandInRpcHandler>} [options.rpc] - Handlers for `client.rpc(name, args)`
+ * @returns {{ client: SupabaseClient; tables: StandInTables }} Client to pass to services, and the backing tables
+ *
+ * @example
+ * const { client, tables } = createSupabaseStandIn({
+ *   tables: { listings: [{ id: 'l1', status: 'pending_verification' }] },
+ * });
+ * await client.from('listings').update({ status: 'available' }).eq('id', 'l1');
+ * console.log(tables.listings[0].status); // 'available'
+ */
+export const createSupabaseStandIn = (
+  options: { tables?: StandInTables; rpc?: Record<string, StandInRpcHandler> } = {}
+): { client: SupabaseClient; tables: StandInTables } => {
+  const tables = options.tables ?? {};
+  const rpcHandlers = options.rpc ?? {};
+
+  const client = {
+    from: (table: string) => new StandInQuery(tables, table),
+    rpc: async (name: string, args: Record<string, unknown> = {}): Promise<StandInResponse> => {
+      const handler = rpcHandlers[name];
+      if (!handler) {
+        return { data: null, error: { message: `Unknown RPC ${name}`, code: 'PGRST202' }, count: null };
+      }
+      try {
+        return { data: handler(tables, args), error: null, count: null };
+      } catch (err) {
+        return { data: null, error: { message: (err as Error).message, code: 'P0001' }, count: null };
+      }
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, tables };
+};
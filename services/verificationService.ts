@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Verification Service - Agent identity verification
+ *
+ * Agents upload an ID document, which is stored in a private bucket and
+ * linked to a verification request. Admins review pending requests and
+ * approve or reject them. Approval sets `is_verified_agent` on the agent's
+ * profile; a rejected agent can resubmit with a new document.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import { v4 as uuidv4 } from 'uuid';
+import type { VerificationRequest } from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+
+/**
+ * Private storage bucket for ID documents (no public URLs)
+ * @constant {string}
+ */
+const ID_DOCUMENT_BUCKET = 'agent-id-documents';
+
+/**
+ * Maximum ID document size (10MB)
+ * @constant {number}
+ */
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Accepted ID document types (photos or scanned PDFs)
+ * @constant {string[]}
+ */
+const SUPPORTED_DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+/**
+ * How long signed document links stay valid for reviewers (seconds)
+ * @constant {number}
+ */
+const SIGNED_URL_TTL_SECONDS = 300;
+
+interface VerificationRequestRow {
+  id: string;
+  agent_id: string;
+  document_path: string;
+  status: VerificationRequest['status'];
+  reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  agent?: ProfileRow | null;
+}
+
+/**
+ * Select clause used for verification request queries.
+ * @constant {string}
+ */
+const REQUEST_SELECT = `*, agent:profiles!agent_verification_requests_agent_id_fkey (${PROFILE_COLUMNS})`;
+
+/**
+ * Converts a verification request row to frontend format.
+ *
+ * @param {VerificationRequestRow} row - Raw agent_verification_requests record
+ * @returns {VerificationRequest} Frontend-formatted request
+ */
+const fromDbFormat = (row: VerificationRequestRow): VerificationRequest => ({
+  id: row.id,
+  agent: mapProfileToUser(row.agent, row.agent_id, UserRole.AGENT),
+  documentPath: row.document_path,
+  status: row.status,
+  reason: row.reason ?? undefined,
+  reviewedAt: row.reviewed_at ?? undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Uploads an ID document and opens a verification request for the agent.
+ *
+ * @param {string} agentId - Agent submitting the document
+ * @param {File} document - Photo or PDF of the ID
+ * @returns {Promise<VerificationRequest>} The new pending request
+ *
+ * @throws {Error} If the file is invalid, a request is already pending, or the upload fails
+ *
+ * @example
+ * const request = await verificationService.submitVerification(user.id, idFile);
+ */
+const submitVerification = async (agentId: string, document: File): Promise<VerificationRequest> => {
+  if (!SUPPORTED_DOCUMENT_TYPES.includes(document.type)) {
+    throw new Error('Please upload a JPEG, PNG, WebP or PDF file');
+  }
+  if (document.size > MAX_DOCUMENT_SIZE) {
+    throw new Error('ID document must be 10MB or smaller');
+  }
+
+  const fileExt = document.name.split('.').pop() || 'jpg';
+  // The folder must match the agent's user id for the storage policy to allow the upload
+  const documentPath = `${agentId}/${uuidv4()}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ID_DOCUMENT_BUCKET)
+    .upload(documentPath, document);
+
+  if (uploadError) {
+    console.error('[submitVerification] Upload failed:', uploadError);
+    throw new Error('Could not upload your ID document. Please try again.');
+  }
+
+  const { data, error } = await supabase
+    .from('agent_verification_requests')
+    .insert([{ agent_id: agentId, document_path: documentPath }])
+    .select(REQUEST_SELECT)
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned document behind
+    await supabase.storage.from(ID_DOCUMENT_BUCKET).remove([documentPath]);
+    if (error.code === '23505') {
+      throw new Error('You already have a verification request under review');
+    }
+    console.error('[submitVerification] Failed to create request:', error);
+    throw error;
+  }
+
+  return fromDbFormat(data as VerificationRequestRow);
+};
+
+/**
+ * Gets the agent's most recent verification request.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<VerificationRequest | null>} Latest request, or null if none was ever submitted
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getLatestRequestForAgent = async (agentId: string): Promise<VerificationRequest | null> => {
+  const { data, error } = await supabase
+    .from('agent_verification_requests')
+    .select(REQUEST_SELECT)
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fromDbFormat(data as VerificationRequestRow) : null;
+};
+
+/**
+ * Lists requests awaiting admin review, oldest first.
+ *
+ * @returns {Promise<VerificationRequest[]>} Pending requests
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getPendingRequests = async (): Promise<VerificationRequest[]> => {
+  const { data, error } = await supabase
+    .from('agent_verification_requests')
+    .select(REQUEST_SELECT)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as VerificationRequestRow[]).map(fromDbFormat);
+};
+
+/**
+ * Creates a short-lived link so an admin can view an ID document.
+ *
+ * @param {string} documentPath - Path inside the private bucket
+ * @returns {Promise<string>} Signed URL valid for a few minutes
+ *
+ * @throws {Error} If the caller is not allowed to read the document
+ */
+const getDocumentUrl = async (documentPath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(ID_DOCUMENT_BUCKET)
+    .createSignedUrl(documentPath, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) throw error ?? new Error('Could not open ID document');
+  return data.signedUrl;
+};
+
+/**
+ * Approves or rejects a pending request. Approval marks the agent as verified.
+ *
+ * @param {string} requestId - Request to review
+ * @param {'approved' | 'rejected'} decision - Review outcome
+ * @param {string} [reason] - Reason shown to the agent (required for rejections)
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If a rejection has no reason, the caller is not an admin, or the request was already reviewed
+ */
+const reviewRequest = async (
+  requestId: string,
+  decision: 'approved' | 'rejected',
+  reason?: string
+): Promise<void> => {
+  const trimmedReason = reason?.trim() || null;
+  if (decision === 'rejected' && !trimmedReason) {
+    throw new Error('A reason is required when rejecting a verification request');
+  }
+
+  const { error } = await supabase.rpc('review_agent_verification', {
+    request_id: requestId,
+    decision,
+    decision_reason: trimmedReason,
+  });
+
+  if (error) {
+    console.error('[reviewRequest] Failed to review request:', error);
+    throw error;
+  }
+};
+
+/**
+ * Exported verification service object.
+ *
+ * @namespace verificationService
+ */
+export const verificationService = {
+  submitVerification,
+  getLatestRequestForAgent,
+  getPendingRequests,
+  getDocumentUrl,
+  reviewRequest,
+};
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Viewing Service - Viewing slots and bookings backed by Supabase
+ *
+ * Agents publish viewing slots for their listings; tenants book one slot per
+ * listing and can reschedule or cancel it. Bookings are changed only through
+ * database functions (`book_viewing`, `reschedule_viewing`, `cancel_viewing`),
+ * which lock the slot and rely on a partial unique index so a slot can never
+ * hold two active bookings. Each change notifies both sides with an .ics
+ * calendar invite attached to the email.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { supabase } from './supabaseClient';
+import type { ViewingBooking, ViewingSlot } from '../types';
+import { UserRole } from '../types';
+import { PROFILE_COLUMNS, mapProfileToUser, type ProfileRow } from '../utils/profileMapper';
+import { buildViewingCalendarEvent } from '../utils/icsCalendar';
+
+/**
+ * Select clause used for booking queries (participants, listing and slot times).
+ * @constant {string}
+ */
+const BOOKING_SELECT = `
+  *,
+  tenant:profiles!viewing_bookings_tenant_id_fkey (${PROFILE_COLUMNS}),
+  agent:profiles!viewing_bookings_agent_id_fkey (${PROFILE_COLUMNS}),
+  listing:listings ( id, title, location ),
+  slot:viewing_slots!inner ( starts_at, ends_at )
+`;
+
+type ListingLocationValue = { address?: string; neighborhood?: string; county?: string } | string | null;
+
+interface ViewingSlotRow {
+  id: string;
+  listing_id: string;
+  agent_id: string;
+  starts_at: string;
+  ends_at: string;
+  bookings?: { status: ViewingBooking['status'] }[] | null;
+}
+
+interface ViewingBookingRow {
+  id: string;
+  slot_id: string;
+  listing_id: string;
+  tenant_id: string;
+  agent_id: string;
+  status: ViewingBooking['status'];
+  note: string | null;
+  sequence: number;
+  created_at: string;
+  tenant?: ProfileRow | null;
+  agent?: ProfileRow | null;
+  listing?: { id: string; title: string; location: ListingLocationValue } | null;
+  slot?: { starts_at: string; ends_at: string } | null;
+}
+
+/**
+ * Converts a slot row to frontend format.
+ *
+ * @param {ViewingSlotRow} row - Raw viewing_slots record
+ * @returns {ViewingSlot} Frontend-formatted slot
+ */
+const slotFromDbFormat = (row: ViewingSlotRow): ViewingSlot => ({
+  id: row.id,
+  listingId: row.listing_id,
+  agentId: row.agent_id,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  isBooked: (row.bookings || []).some((b) => b.status === 'booked'),
+});
+
+/**
+ * Joins the parts of a listing location into one line for directions and calendars.
+ */
+const formatLocation = (location: ListingLocationValue): string => {
+  // Location may come back as a JSON string, as in listingService
+  const parsed = typeof location === 'string' ? JSON.parse(location) : location;
+  return [parsed?.address, parsed?.neighborhood, parsed?.county].filter(Boolean).join(', ');
+};
+
+/**
+ * Converts a booking row to frontend format.
+ *
+ * @param {ViewingBookingRow} row - Raw viewing_bookings record with joined data
+ * @returns {ViewingBooking} Frontend-formatted booking
+ */
+const bookingFromDbFormat = (row: ViewingBookingRow): ViewingBooking => ({
+  id: row.id,
+  slotId: row.slot_id,
+  listingId: row.listing_id,
+  listingTitle: row.listing?.title || '',
+  listingLocation: formatLocation(row.listing?.location ?? null),
+  tenant: mapProfileToUser(row.tenant, row.tenant_id, UserRole.TENANT),
+  agent: mapProfileToUser(row.agent, row.agent_id, UserRole.AGENT),
+  startsAt: row.slot?.starts_at || '',
+  endsAt: row.slot?.ends_at || '',
+  status: row.status,
+  note: row.note ?? undefined,
+  sequence: row.sequence,
+  createdAt: row.created_at,
+});
+
+const sortByStart = (bookings: ViewingBooking[]) => bookings.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+
+/**
+ * Fetches a single booking by ID.
+ *
+ * @param {string} bookingId - Booking ID
+ * @returns {Promise<ViewingBooking>} The booking
+ *
+ * @throws {Error} Database errors or if the booking is not visible to the user
+ */
+const getBookingById = async (bookingId: string): Promise<ViewingBooking> => {
+  const { data, error } = await supabase
+    .from('viewing_bookings')
+    .select(BOOKING_SELECT)
+    .eq('id', bookingId)
+    .single();
+
+  if (error) throw error;
+  return bookingFromDbFormat(data as ViewingBookingRow);
+};
+
+/**
+ * Lists the future slots of a listing that are still free.
+ *
+ * @param {string} listingId - Listing ID
+ * @returns {Promise<ViewingSlot[]>} Open slots, earliest first
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getOpenSlots = async (listingId: string): Promise<ViewingSlot[]> => {
+  const { data, error } = await supabase.rpc('get_open_viewing_slots', { target_listing: listingId });
+
+  if (error) throw error;
+  return ((data || []) as ViewingSlotRow[]).map(slotFromDbFormat);
+};
+
+/**
+ * Lists an agent's upcoming slots across all their listings, with booked state.
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<ViewingSlot[]>} Upcoming slots, earliest first
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getUpcomingSlotsForAgent = async (agentId: string): Promise<ViewingSlot[]> => {
+  const { data, error } = await supabase
+    .from('viewing_slots')
+    .select('*, bookings:viewing_bookings ( status )')
+    .eq('agent_id', agentId)
+    .gt('starts_at', new Date().toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as ViewingSlotRow[]).map(slotFromDbFormat);
+};
+
+/**
+ * Publishes viewing slots for one of the agent's listings.
+ *
+ * @param {string} agentId - Agent publishing the slots
+ * @param {string} listingId - Listing the slots are for
+ * @param {{ startsAt: string; endsAt: string }[]} slots - Slot times (ISO timestamps)
+ * @returns {Promise<ViewingSlot[]>} The created slots
+ *
+ * @throws {Error} If a slot is in the past, overlaps another of the agent's slots, or a database error occurs
+ *
+ * @example
+ * await viewingService.publishSlots(user.id, listing.id, [
+ *   { startsAt: '2026-10-24T07:00:00Z', endsAt: '2026-10-24T07:30:00Z' },
+ * ]);
+ */
+const publishSlots = async (
+  agentId: string,
+  listingId: string,
+  slots: { startsAt: string; endsAt: string }[]
+): Promise<ViewingSlot[]> => {
+  if (slots.length === 0) throw new Error('Add at least one slot');
+  if (slots.some((slot) => new Date(slot.startsAt).getTime() <= Date.now())) {
+    throw new Error('Viewing slots must be in the future');
+  }
+
+  const { data, error } = await supabase
+    .from('viewing_slots')
+    .insert(slots.map((slot) => ({
+      listing_id: listingId,
+      agent_id: agentId,
+      starts_at: slot.startsAt,
+      ends_at: slot.endsAt,
+    })))
+    .select('*');
+
+  if (error) {
+    console.error('[publishSlots] Supabase error:', error);
+    // 23P01 = exclusion_violation (viewing_slots_no_overlap)
+    if (error.code === '23P01') throw new Error('These times overlap a viewing slot you have already published');
+    throw error;
+  }
+  return (data as ViewingSlotRow[]).map(slotFromDbFormat);
+};
+
+/**
+ * Removes an unbooked slot.
+ *
+ * @param {string} slotId - Slot ID
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If the slot is booked (cancel the booking first) or a database error occurs
+ */
+const deleteSlot = async (slotId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('viewing_slots')
+    .delete()
+    .eq('id', slotId)
+    .select('id');
+
+  if (error) {
+    console.error('[deleteSlot] Supabase error:', error);
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This slot is booked. Cancel the viewing first to remove it.');
+  }
+};
+
+/**
+ * Books a slot for the signed-in tenant.
+ *
+ * @param {string} slotId - Slot to book
+ * @param {string} [note] - Optional note for the agent
+ * @returns {Promise<ViewingBooking>} The new booking
+ *
+ * @throws {Error} If the slot was just taken, has passed, or the tenant already has a booking for the listing
+ */
+const bookViewing = async (slotId: string, note?: string): Promise<ViewingBooking> => {
+  const { data, error } = await supabase.rpc('book_viewing', {
+    target_slot: slotId,
+    booking_note: note?.trim() || null,
+  });
+
+  if (error) {
+    console.error('[bookViewing] Failed to book viewing:', error);
+    throw error;
+  }
+  return getBookingById(data as string);
+};
+
+/**
+ * Moves the signed-in tenant's booking to another slot of the same listing.
+ *
+ * @param {string} bookingId - Booking to move
+ * @param {string} slotId - New slot
+ * @returns {Promise<ViewingBooking>} The updated booking
+ *
+ * @throws {Error} If the new slot was just taken or the booking is no longer active
+ */
+const rescheduleViewing = async (bookingId: string, slotId: string): Promise<ViewingBooking> => {
+  const { error } = await supabase.rpc('reschedule_viewing', { target_booking: bookingId, new_slot: slotId });
+
+  if (error) {
+    console.error('[rescheduleViewing] Failed to reschedule viewing:', error);
+    throw error;
+  }
+  return getBookingById(bookingId);
+};
+
+/**
+ * Cancels a booking. Either the tenant or the agent can cancel.
+ *
+ * @param {string} bookingId - Booking to cancel
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If the booking is not found or already cancelled
+ */
+const cancelViewing = async (bookingId: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_viewing', { target_booking: bookingId });
+
+  if (error) {
+    console.error('[cancelViewing] Failed to cancel viewing:', error);
+    throw error;
+  }
+};
+
+/**
+ * Finds the tenant's active booking for a listing, if any.
+ *
+ * @param {string} listingId - Listing ID
+ * @param {string} tenantId - Tenant ID
+ * @returns {Promise<ViewingBooking | null>} The booking, or null if none is active
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getActiveBookingForListing = async (listingId: string, tenantId: string): Promise<ViewingBooking | null> => {
+  const { data, error } = await supabase
+    .from('viewing_bookings')
+    .select(BOOKING_SELECT)
+    .eq('listing_id', listingId)
+    .eq('tenant_id', tenantId)
+    .eq('status', 'booked')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? bookingFromDbFormat(data as ViewingBookingRow) : null;
+};
+
+/**
+ * Lists an agent's upcoming booked viewings (the dashboard agenda).
+ *
+ * @param {string} agentId - Agent ID
+ * @returns {Promise<ViewingBooking[]>} Booked viewings, earliest first
+ *
+ * @throws {Error} Database errors from Supabase
+ */
+const getUpcomingViewingsForAgent = async (agentId: string): Promise<ViewingBooking[]> => {
+  const { data, error } = await supabase
+    .from('viewing_bookings')
+    .select(BOOKING_SELECT)
+    .eq('agent_id', agentId)
+    .eq('status', 'booked')
+    .gt('slot.ends_at', new Date().toISOString());
+
+  if (error) throw error;
+  return sortByStart((data as ViewingBookingRow[]).map(bookingFromDbFormat));
+};
+
+/**
+ * Builds the .ics file for a booking as seen by one of its participants.
+ *
+ * @param {ViewingBooking} booking - The booking
+ * @param {'agent' | 'tenant'} viewerRole - Who is downloading it
+ * @returns {string} iCalendar content
+ */
+const toCalendarEvent = (booking: ViewingBooking, viewerRole: 'agent' | 'tenant'): string =>
+  buildViewingCalendarEvent({
+    bookingId: booking.id,
+    sequence: booking.sequence,
+    startsAt: booking.startsAt,
+    endsAt: booking.endsAt,
+    listingTitle: booking.listingTitle,
+    location: booking.listingLocation,
+    withName: viewerRole === 'agent' ? booking.tenant.name : booking.agent.name,
+    cancelled: booking.status === 'cancelled',
+  });
+
+/**
+ * Exported viewing service object containing all slot and booking operations.
+ *
+ * @namespace viewingService
+ */
+export const viewingService = {
+  getOpenSlots,
+  getUpcomingSlotsForAgent,
+  publishSlots,
+  deleteSlot,
+  bookViewing,
+  rescheduleViewing,
+  cancelViewing,
+  getBookingById,
+  getActiveBookingForListing,
+  getUpcomingViewingsForAgent,
+  toCalendarEvent,
+};
@@ -0,0 +1,76 @@
+-- Tenant-to-agent inquiry threads.
+-- One thread per (listing, tenant); both participants append messages to it.
+
+create table if not exists public.inquiries (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  tenant_id uuid not null references public.profiles (id) on delete cascade,
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  last_message_at timestamptz not null default now(),
+  unique (listing_id, tenant_id)
+);
+
+create index if not exists inquiries_agent_id_idx on public.inquiries (agent_id, last_message_at desc);
+create index if not exists inquiries_tenant_id_idx on public.inquiries (tenant_id, last_message_at desc);
+
+create table if not exists public.inquiry_messages (
+  id uuid primary key default gen_random_uuid(),
+  inquiry_id uuid not null references public.inquiries (id) on delete cascade,
+  sender_id uuid not null references public.profiles (id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists inquiry_messages_inquiry_id_idx on public.inquiry_messages (inquiry_id, created_at);
+
+alter table public.inquiries enable row level security;
+alter table public.inquiry_messages enable row level security;
+
+-- Only the two participants can see or touch a thread.
+create policy "Participants can read inquiries" on public.inquiries
+  for select using (auth.uid() in (tenant_id, agent_id));
+
+-- The thread's agent must be the listing's agent, so tenants cannot open threads with anyone else.
+create policy "Tenants can open inquiries" on public.inquiries
+  for insert with check (
+    auth.uid() = tenant_id
+    and auth.uid() <> agent_id
+    and agent_id = (select l.agent_id from public.listings l where l.id = listing_id)
+  );
+
+create policy "Participants can bump inquiries" on public.inquiries
+  for update using (auth.uid() in (tenant_id, agent_id));
+
+create policy "Participants can read messages" on public.inquiry_messages
+  for select using (
+    exists (
+      select 1 from public.inquiries i
+      where i.id = inquiry_id and auth.uid() in (i.tenant_id, i.agent_id)
+    )
+  );
+
+create policy "Participants can send messages" on public.inquiry_messages
+  for insert with check (
+    auth.uid() = sender_id and exists (
+      select 1 from public.inquiries i
+      where i.id = inquiry_id and auth.uid() in (i.tenant_id, i.agent_id)
+    )
+  );
+
+-- Only messages from the other participant can be marked read.
+create policy "Participants can mark messages read" on public.inquiry_messages
+  for update using (
+    auth.uid() <> sender_id and exists (
+      select 1 from public.inquiries i
+      where i.id = inquiry_id and auth.uid() in (i.tenant_id, i.agent_id)
+    )
+  );
+
+-- Updates may only bump a thread or mark messages read; participants, listings and
+-- message bodies never change.
+revoke update on public.inquiries from authenticated;
+grant update (last_message_at) on public.inquiries to authenticated;
+revoke update on public.inquiry_messages from authenticated;
+grant update (read_at) on public.inquiry_messages to authenticated;
@@ -0,0 +1,62 @@
+-- Agent reviews left by tenants after a verified interaction on the platform.
+
+create table if not exists public.reviews (
+  id uuid primary key default gen_random_uuid(),
+  rater_id uuid not null references public.profiles (id) on delete cascade,
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  listing_id uuid references public.listings (id) on delete set null,
+  rating smallint not null check (rating between 1 and 5),
+  comment text not null default '',
+  is_verified_interaction boolean not null default false,
+  agent_reply text,
+  agent_reply_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (rater_id, agent_id, listing_id)
+);
+
+create index if not exists reviews_agent_id_idx on public.reviews (agent_id, created_at desc);
+
+alter table public.reviews enable row level security;
+
+create policy "Reviews are public" on public.reviews
+  for select using (true);
+
+-- Whether the current user has really dealt with an agent: an inquiry the agent replied
+-- to. Opening a thread alone does not count, since anyone can open one.
+-- Redefined by the viewings migration to also count booked viewings.
+create or replace function public.has_review_interaction(target_agent uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from public.inquiries i
+      join public.inquiry_messages m on m.inquiry_id = i.id and m.sender_id = i.agent_id
+     where i.tenant_id = auth.uid() and i.agent_id = target_agent
+  );
+$$;
+
+-- Tenants may only review agents they have actually dealt with through the platform, and
+-- only about the agent's own listings, so citing other listing ids can't add more reviews.
+create policy "Tenants with an interaction can review" on public.reviews
+  for insert with check (
+    auth.uid() = rater_id
+    and is_verified_interaction
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'tenant')
+    and (
+      listing_id is null
+      or exists (select 1 from public.listings l where l.id = listing_id and l.agent_id = reviews.agent_id)
+    )
+    and public.has_review_interaction(agent_id)
+  );
+
+-- Agents may write a single reply; the reply cannot be changed afterwards.
+create policy "Agents can reply once" on public.reviews
+  for update using (auth.uid() = agent_id and agent_reply is null)
+  with check (auth.uid() = agent_id);
+
+revoke update on public.reviews from authenticated;
+grant update (agent_reply, agent_reply_at) on public.reviews to authenticated;
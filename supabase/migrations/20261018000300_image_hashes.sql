@@ -0,0 +1,79 @@
+-- Perceptual hashes for listing photos and a blocklist of known scam photos.
+-- Hashes are 64-bit dHash values stored as 16 hex characters.
+
+alter table public.property_images
+  add column if not exists phash text check (phash ~ '^[0-9a-f]{16}$');
+
+create index if not exists property_images_phash_idx on public.property_images (phash);
+
+create table if not exists public.scam_image_blocklist (
+  id uuid primary key default gen_random_uuid(),
+  phash text not null check (phash ~ '^[0-9a-f]{16}$'),
+  reason text not null,
+  source_url text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.scam_image_blocklist enable row level security;
+
+create policy "Blocklist is readable by signed-in users" on public.scam_image_blocklist
+  for select using (auth.role() = 'authenticated');
+
+create policy "Admins manage the blocklist" on public.scam_image_blocklist
+  for all using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- Returns images from *other* agents whose hash is within max_distance bits of target_hash.
+create or replace function public.find_similar_images(
+  target_hash text,
+  exclude_agent_id uuid,
+  max_distance int default 10
+)
+returns table (image_id uuid, listing_id uuid, agent_id uuid, distance int)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      pi.id as image_id,
+      pi.listing_id,
+      l.agent_id,
+      bit_count(('x' || pi.phash)::bit(64) # ('x' || target_hash)::bit(64))::int as distance
+    from public.property_images pi
+    join public.listings l on l.id = pi.listing_id
+    where pi.phash is not null
+      and l.agent_id <> exclude_agent_id
+  ) candidates
+  where candidates.distance <= max_distance
+  order by candidates.distance
+  limit 5;
+$$;
+
+-- Hashes and scan results are written only by the scanner (service role). Agents upload
+-- from the browser, so anything they send for these columns is discarded: new images
+-- always start unhashed and pending.
+create or replace function public.protect_image_scan_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.phash := null;
+      new.ai_scan := jsonb_build_object('status', 'pending', 'scanned_at', null);
+    else
+      new.phash := old.phash;
+      new.ai_scan := old.ai_scan;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists property_images_protect_scan_columns on public.property_images;
+create trigger property_images_protect_scan_columns
+  before insert or update on public.property_images
+  for each row execute function public.protect_image_scan_columns();
@@ -0,0 +1,13 @@
+-- Scan queue bookkeeping for property_images.
+-- An image is queued while ai_scan->>'status' = 'pending' and scan_next_attempt_at is due.
+-- scan_next_attempt_at is pushed forward while a worker holds the image (lease) and after
+-- each failure (backoff); it is cleared when the worker gives up.
+
+alter table public.property_images
+  add column if not exists scan_attempts int not null default 0,
+  add column if not exists scan_next_attempt_at timestamptz default now(),
+  add column if not exists scan_last_error text;
+
+create index if not exists property_images_scan_queue_idx
+  on public.property_images (scan_next_attempt_at)
+  where (ai_scan->>'status') = 'pending';
@@ -0,0 +1,142 @@
+-- Admin moderation of listings awaiting verification, with an audit trail of decisions.
+
+create table if not exists public.moderation_decisions (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  moderator_id uuid not null references public.profiles (id),
+  decision text not null check (decision in ('approved', 'rejected')),
+  reason text,
+  created_at timestamptz not null default now(),
+  check (decision = 'approved' or coalesce(length(trim(reason)), 0) > 0)
+);
+
+create index if not exists moderation_decisions_listing_id_idx
+  on public.moderation_decisions (listing_id, created_at desc);
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin');
+$$;
+
+-- Every admin privilege rests on profiles.role, and profiles are created from the browser at
+-- signup. Users can sign up only as tenants or agents and can't change their role afterwards;
+-- admins, the service role and functions running as their owner can.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.role is null or new.role not in ('tenant', 'agent') then
+      raise exception 'New profiles must be tenants or agents';
+    end if;
+  elsif not public.is_admin() then
+    new.role := old.role;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before insert or update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+alter table public.moderation_decisions enable row level security;
+
+create policy "Admins read moderation history" on public.moderation_decisions
+  for select using (public.is_admin());
+
+-- Decisions are recorded only through decide_listings, together with the status change.
+
+-- Agents can see why their own listing was rejected.
+create policy "Agents read decisions on their listings" on public.moderation_decisions
+  for select using (
+    exists (select 1 from public.listings l where l.id = listing_id and l.agent_id = auth.uid())
+  );
+
+create policy "Admins can update any listing" on public.listings
+  for update using (public.is_admin());
+
+create policy "Admins can read any listing" on public.listings
+  for select using (public.is_admin());
+
+-- Applies one decision to a batch of listings and records it for each, in one transaction,
+-- so a listing never changes status without its audit row (and the notification it triggers).
+create or replace function public.decide_listings(
+  listing_ids uuid[],
+  decision text,
+  decision_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  decided_count integer;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can moderate listings';
+  end if;
+
+  with decided as (
+    update public.listings
+       set status = case when decision = 'approved' then 'available' else 'rejected' end,
+           updated_at = now()
+     where id = any (listing_ids)
+    returning id
+  )
+  select count(*) into decided_count from decided;
+
+  if decided_count <> cardinality(listing_ids) then
+    raise exception 'Some listings were not found';
+  end if;
+
+  insert into public.moderation_decisions (listing_id, moderator_id, decision, reason)
+  select unnest(listing_ids), auth.uid(), decision, nullif(trim(decision_reason), '');
+end;
+$$;
+
+grant execute on function public.decide_listings(uuid[], text, text) to authenticated;
+
+-- Only moderation can publish a listing. Agents create listings as drafts or for review, can
+-- submit a draft or resubmit a rejected listing for review, and cannot otherwise move a listing
+-- out of review or rejection themselves; admins, the service role (the image scan worker) and
+-- functions running as their owner can.
+create or replace function public.enforce_listing_moderation()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') or public.is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.status not in ('draft', 'pending_verification') then
+    raise exception 'New listings must be reviewed before they are published';
+  end if;
+  if tg_op = 'UPDATE' and new.status is distinct from old.status
+     and old.status in ('draft', 'pending_verification', 'rejected')
+     and not (old.status in ('draft', 'rejected') and new.status = 'pending_verification') then
+    raise exception 'Only moderators can change the status of a listing under review or rejected';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists listings_enforce_moderation on public.listings;
+create trigger listings_enforce_moderation
+  before insert or update on public.listings
+  for each row execute function public.enforce_listing_moderation();
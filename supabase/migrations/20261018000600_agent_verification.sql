@@ -0,0 +1,107 @@
+-- Agent identity verification: ID documents in a private bucket, reviewed by admins.
+
+insert into storage.buckets (id, name, public)
+values ('agent-id-documents', 'agent-id-documents', false)
+on conflict (id) do nothing;
+
+-- Agents upload into a folder named after their own user id; only they and admins can read it.
+create policy "Agents upload their own ID documents" on storage.objects
+  for insert with check (
+    bucket_id = 'agent-id-documents' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Agents and admins read ID documents" on storage.objects
+  for select using (
+    bucket_id = 'agent-id-documents'
+    and ((storage.foldername(name))[1] = auth.uid()::text or public.is_admin())
+  );
+
+create table if not exists public.agent_verification_requests (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  document_path text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reason text,
+  reviewed_by uuid references public.profiles (id),
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (status <> 'rejected' or coalesce(length(trim(reason)), 0) > 0)
+);
+
+-- At most one open request per agent; resubmitting is allowed once the previous one is decided.
+create unique index if not exists agent_verification_requests_one_pending_idx
+  on public.agent_verification_requests (agent_id)
+  where status = 'pending';
+
+create index if not exists agent_verification_requests_agent_id_idx
+  on public.agent_verification_requests (agent_id, created_at desc);
+
+alter table public.agent_verification_requests enable row level security;
+
+create policy "Agents read their own verification requests" on public.agent_verification_requests
+  for select using (agent_id = auth.uid() or public.is_admin());
+
+create policy "Agents submit verification requests" on public.agent_verification_requests
+  for insert with check (agent_id = auth.uid() and status = 'pending');
+
+-- Decisions go through this function so the request and the profile flag change together.
+create or replace function public.review_agent_verification(
+  request_id uuid,
+  decision text,
+  decision_reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_agent uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can review verification requests';
+  end if;
+
+  update public.agent_verification_requests
+     set status = decision,
+         reason = nullif(trim(decision_reason), ''),
+         reviewed_by = auth.uid(),
+         reviewed_at = now()
+   where id = request_id and status = 'pending'
+  returning agent_id into target_agent;
+
+  if target_agent is null then
+    raise exception 'Verification request not found or already reviewed';
+  end if;
+
+  update public.profiles
+     set is_verified_agent = (decision = 'approved')
+   where id = target_agent;
+end;
+$$;
+
+grant execute on function public.review_agent_verification(uuid, text, text) to authenticated;
+
+-- The verified badge changes only through review_agent_verification. Anything a client sends
+-- for it is discarded: new profiles start unverified and updates keep the current value.
+create or replace function public.protect_agent_verification()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.is_verified_agent := false;
+    else
+      new.is_verified_agent := old.is_verified_agent;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_agent_verification on public.profiles;
+create trigger profiles_protect_agent_verification
+  before insert or update on public.profiles
+  for each row execute function public.protect_agent_verification();
@@ -0,0 +1,7 @@
+-- Indexes backing the sort orders offered by listingService.getListingsPage.
+
+alter table public.listings add column if not exists views integer not null default 0;
+
+create index if not exists listings_created_at_idx on public.listings (created_at desc, id);
+create index if not exists listings_price_idx on public.listings (price, id);
+create index if not exists listings_views_idx on public.listings (views desc, id);
@@ -0,0 +1,12 @@
+-- Property type and furnished flag for listings, plus indexes for the expanded search filters.
+
+alter table public.listings
+  add column if not exists property_type text not null default 'apartment'
+    check (property_type in ('apartment', 'bedsitter', 'studio', 'single_room', 'bungalow', 'maisonette', 'townhouse')),
+  add column if not exists is_furnished boolean not null default false;
+
+create index if not exists listings_property_type_idx on public.listings (property_type);
+create index if not exists listings_bedrooms_idx on public.listings (bedrooms);
+
+-- Containment index for "must have all of these amenities" queries
+create index if not exists listings_amenities_idx on public.listings using gin (amenities);
@@ -0,0 +1,110 @@
+-- Ranked full-text search over listings with typo-tolerant place names.
+-- Replaces the client-built ilike OR filter; the search text is only ever a function argument.
+
+create extension if not exists pg_trgm;
+
+alter table public.listings add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(location->>'neighborhood', '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(location->>'address', '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) stored;
+
+create index if not exists listings_search_vector_idx on public.listings using gin (search_vector);
+create index if not exists listings_neighborhood_trgm_idx
+  on public.listings using gin (lower(location->>'neighborhood') gin_trgm_ops);
+
+-- Known place names that misspelt search words are corrected to ("Kilimanni" -> "Kilimani").
+create table if not exists public.search_place_names (
+  name text primary key
+);
+
+alter table public.search_place_names enable row level security;
+
+create policy "Anyone can read place names" on public.search_place_names
+  for select using (true);
+
+create index if not exists search_place_names_trgm_idx
+  on public.search_place_names using gin (lower(name) gin_trgm_ops);
+
+insert into public.search_place_names (name) values
+  ('Kilimani'), ('Kileleshwa'), ('Lavington'), ('Westlands'), ('Parklands'), ('Hurlingham'),
+  ('Upper Hill'), ('Karen'), ('Langata'), ('Runda'), ('Muthaiga'), ('Gigiri'), ('Spring Valley'),
+  ('Riverside'), ('Loresho'), ('Kitisuru'), ('South B'), ('South C'), ('Madaraka'), ('Nairobi West'),
+  ('Embakasi'), ('Donholm'), ('Buruburu'), ('Umoja'), ('Utawala'), ('Syokimau'), ('Kasarani'),
+  ('Roysambu'), ('Zimmerman'), ('Githurai'), ('Kahawa'), ('Ruaka'), ('Ruiru'), ('Juja'), ('Thindigua'),
+  ('Rongai'), ('Kitengela'), ('Athi River'), ('Kikuyu'), ('Kawangware'), ('Kangemi'), ('Dagoretti'),
+  ('Eastleigh'), ('Pangani'), ('Ngara'), ('Woodley'), ('Jamhuri'), ('Yaya'), ('Adams Arcade'),
+  ('Mountain View'), ('Ngong'), ('Thika Road'), ('Ngong Road'), ('Mombasa Road'), ('Kiambu Road')
+on conflict (name) do nothing;
+
+-- Neighbourhoods agents actually list are valid correction targets too.
+create or replace function public.sync_search_place_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(new.location->>'neighborhood'), '') <> '' then
+    insert into public.search_place_names (name)
+    values (initcap(trim(new.location->>'neighborhood')))
+    on conflict (name) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists listings_sync_search_place_name on public.listings;
+create trigger listings_sync_search_place_name
+  after insert or update of location on public.listings
+  for each row execute function public.sync_search_place_name();
+
+-- Replaces each word of at least four letters with the closest known place name, if close enough.
+create or replace function public.correct_place_names(search_text text)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(string_agg(
+    coalesce(
+      (select lower(p.name)
+         from public.search_place_names p
+        where length(w.word) >= 4 and similarity(lower(p.name), w.word) >= 0.4
+        order by similarity(lower(p.name), w.word) desc
+        limit 1),
+      w.word
+    ), ' ' order by w.ord), '')
+  from regexp_split_to_table(lower(search_text), '\s+') with ordinality as w(word, ord)
+  where w.word <> '';
+$$;
+
+-- Listings matching the search text, best match first. Runs with the caller's
+-- permissions, so listing RLS still applies. Further filters, ordering and
+-- paging can be applied by PostgREST on top of the returned rows.
+create or replace function public.search_listings(search_text text)
+returns setof public.listings
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select
+      websearch_to_tsquery('english', search_text)
+        || websearch_to_tsquery('english', public.correct_place_names(search_text)) as query,
+      public.correct_place_names(search_text) as corrected
+  )
+  select l.*
+    from public.listings l, q
+   where l.search_vector @@ q.query
+      or word_similarity(q.corrected, lower(coalesce(l.location->>'neighborhood', ''))) >= 0.6
+   order by
+     ts_rank_cd(l.search_vector, q.query)
+       + word_similarity(q.corrected, lower(coalesce(l.location->>'neighborhood', ''))) desc,
+     l.created_at desc;
+$$;
+
+grant execute on function public.correct_place_names(text) to anon, authenticated;
+grant execute on function public.search_listings(text) to anon, authenticated;
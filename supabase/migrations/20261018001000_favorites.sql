@@ -0,0 +1,49 @@
+-- Tenant favourites, with listings.saves kept in sync by trigger.
+
+alter table public.listings add column if not exists saves integer not null default 0;
+
+create table if not exists public.favorites (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, listing_id)
+);
+
+create index if not exists favorites_listing_id_idx on public.favorites (listing_id);
+
+alter table public.favorites enable row level security;
+
+create policy "Users read their own favorites" on public.favorites
+  for select using (user_id = auth.uid());
+
+create policy "Users add their own favorites" on public.favorites
+  for insert with check (user_id = auth.uid());
+
+create policy "Users remove their own favorites" on public.favorites
+  for delete using (user_id = auth.uid());
+
+-- Runs as owner: the saver is usually not allowed to update someone else's listing.
+create or replace function public.sync_listing_saves()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.listings set saves = saves + 1 where id = new.listing_id;
+  elsif tg_op = 'DELETE' then
+    update public.listings set saves = greatest(saves - 1, 0) where id = old.listing_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists favorites_sync_listing_saves on public.favorites;
+create trigger favorites_sync_listing_saves
+  after insert or delete on public.favorites
+  for each row execute function public.sync_listing_saves();
+
+-- Backfill in case favourites existed before the trigger
+update public.listings l
+   set saves = (select count(*) from public.favorites f where f.listing_id = l.id);
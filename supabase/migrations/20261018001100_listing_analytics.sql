@@ -0,0 +1,173 @@
+-- Listing event tracking (impressions, detail views, contact clicks, WhatsApp shares, saves)
+-- with per-session deduplication and daily rollups.
+
+create table if not exists public.listing_events (
+  id bigint generated always as identity primary key,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  event_type text not null check (event_type in ('impression', 'view', 'contact_click', 'whatsapp_share', 'save')),
+  session_id text not null,
+  user_id uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- Each browser session counts once per listing and event type
+  unique (listing_id, event_type, session_id)
+);
+
+create index if not exists listing_events_listing_id_idx on public.listing_events (listing_id, created_at);
+
+-- Raw events are only written through track_listing_events and never read by clients.
+alter table public.listing_events enable row level security;
+
+create table if not exists public.listing_daily_stats (
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  day date not null,
+  impressions integer not null default 0,
+  views integer not null default 0,
+  contact_clicks integer not null default 0,
+  whatsapp_shares integer not null default 0,
+  saves integer not null default 0,
+  inquiries integer not null default 0,
+  primary key (listing_id, day)
+);
+
+alter table public.listing_daily_stats enable row level security;
+
+create policy "Agents read stats for their listings" on public.listing_daily_stats
+  for select using (
+    public.is_admin()
+    or exists (select 1 from public.listings l where l.id = listing_id and l.agent_id = auth.uid())
+  );
+
+-- Adds one to a listing's counter for the Nairobi calendar day of `happened_at`.
+create or replace function public.bump_listing_daily_stat(target_listing uuid, stat text, happened_at timestamptz)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.listing_daily_stats as s (listing_id, day, impressions, views, contact_clicks, whatsapp_shares, saves, inquiries)
+  values (
+    target_listing,
+    (happened_at at time zone 'Africa/Nairobi')::date,
+    (stat = 'impression')::int,
+    (stat = 'view')::int,
+    (stat = 'contact_click')::int,
+    (stat = 'whatsapp_share')::int,
+    (stat = 'save')::int,
+    (stat = 'inquiry')::int
+  )
+  on conflict (listing_id, day) do update set
+    impressions = s.impressions + excluded.impressions,
+    views = s.views + excluded.views,
+    contact_clicks = s.contact_clicks + excluded.contact_clicks,
+    whatsapp_shares = s.whatsapp_shares + excluded.whatsapp_shares,
+    saves = s.saves + excluded.saves,
+    inquiries = s.inquiries + excluded.inquiries;
+end;
+$$;
+
+revoke execute on function public.bump_listing_daily_stat(uuid, text, timestamptz) from public, anon, authenticated;
+
+create or replace function public.rollup_listing_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bump_listing_daily_stat(new.listing_id, new.event_type, new.created_at);
+  if new.event_type = 'view' then
+    update public.listings set views = views + 1 where id = new.listing_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists listing_events_rollup on public.listing_events;
+create trigger listing_events_rollup
+  after insert on public.listing_events
+  for each row execute function public.rollup_listing_event();
+
+create or replace function public.rollup_inquiry()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.bump_listing_daily_stat(new.listing_id, 'inquiry', new.created_at);
+  return null;
+end;
+$$;
+
+drop trigger if exists inquiries_rollup on public.inquiries;
+create trigger inquiries_rollup
+  after insert on public.inquiries
+  for each row execute function public.rollup_inquiry();
+
+-- Records a batch of events for a browser session. Duplicates within the session
+-- and events on the caller's own listings are ignored. Returns how many were recorded.
+create or replace function public.track_listing_events(session_id text, events jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  recorded integer;
+begin
+  if track_listing_events.session_id is null
+     or length(track_listing_events.session_id) not between 8 and 64 then
+    raise exception 'Invalid session id';
+  end if;
+  if jsonb_typeof(events) <> 'array' or jsonb_array_length(events) > 100 then
+    raise exception 'events must be an array of at most 100 items';
+  end if;
+
+  with incoming as (
+    select distinct (e->>'listing_id')::uuid as listing_id, e->>'event_type' as event_type
+      from jsonb_array_elements(events) e
+  ), inserted as (
+    insert into public.listing_events (listing_id, event_type, session_id, user_id)
+    select i.listing_id, i.event_type, track_listing_events.session_id, auth.uid()
+      from incoming i
+      join public.listings l on l.id = i.listing_id
+     where i.event_type in ('impression', 'view', 'contact_click', 'whatsapp_share', 'save')
+       and l.agent_id is distinct from auth.uid()
+    on conflict (listing_id, event_type, session_id) do nothing
+    returning 1
+  )
+  select count(*) into recorded from inserted;
+
+  return recorded;
+end;
+$$;
+
+grant execute on function public.track_listing_events(text, jsonb) to anon, authenticated;
+
+-- views and saves are only counted by the triggers above and on favorites (running as their
+-- owner). New listings start at zero and agents updating their own listings keep the current values.
+create or replace function public.protect_listing_counters()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.views := 0;
+      new.saves := 0;
+    else
+      new.views := old.views;
+      new.saves := old.saves;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists listings_protect_counters on public.listings;
+create trigger listings_protect_counters
+  before insert or update on public.listings
+  for each row execute function public.protect_listing_counters();
@@ -0,0 +1,52 @@
+-- Per-listing neighbourhood averages for the agent analytics dashboard.
+-- Agents cannot read other agents' daily stats, so the averages are computed here
+-- and only returned for listings the caller owns.
+
+create or replace function public.get_neighborhood_benchmarks(listing_ids uuid[], from_day date, to_day date)
+returns table (
+  listing_id uuid,
+  neighborhood text,
+  peer_count integer,
+  avg_views numeric,
+  avg_saves numeric,
+  avg_inquiries numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with own as (
+    select l.id, l.location->>'county' as county, lower(trim(l.location->>'neighborhood')) as hood,
+           l.location->>'neighborhood' as neighborhood
+      from public.listings l
+     where l.id = any(listing_ids)
+       and l.agent_id = auth.uid()
+  ),
+  peer_totals as (
+    select o.id as own_id, p.id as peer_id,
+           coalesce(sum(s.views), 0) as views,
+           coalesce(sum(s.saves), 0) as saves,
+           coalesce(sum(s.inquiries), 0) as inquiries
+      from own o
+      join public.listings p
+        on p.location->>'county' = o.county
+       and lower(trim(p.location->>'neighborhood')) = o.hood
+       and p.status = 'available'
+       and p.id <> o.id
+      left join public.listing_daily_stats s
+        on s.listing_id = p.id and s.day between from_day and to_day
+     group by o.id, p.id
+  )
+  select o.id,
+         o.neighborhood,
+         count(pt.peer_id)::integer,
+         coalesce(round(avg(pt.views), 1), 0),
+         coalesce(round(avg(pt.saves), 1), 0),
+         coalesce(round(avg(pt.inquiries), 1), 0)
+    from own o
+    left join peer_totals pt on pt.own_id = o.id
+   group by o.id, o.neighborhood;
+$$;
+
+grant execute on function public.get_neighborhood_benchmarks(uuid[], date, date) to authenticated;
@@ -0,0 +1,196 @@
+-- Saved searches with new-listing alerts.
+-- `filters` holds the same SearchFilters object ListingsPage keeps in the URL. Whenever a
+-- listing becomes available, matching searches get one queued alert per chosen channel.
+
+-- Filters are written by users through the API, so their shape is checked here too: a value of
+-- the wrong type would otherwise break the matcher, which runs inside listing status changes.
+create or replace function public.saved_search_filters_valid(filters jsonb)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select jsonb_typeof(filters) = 'object'
+    and not exists (
+      select 1
+        from jsonb_each(filters) as f(key, value)
+       where jsonb_typeof(f.value) <> case
+               when f.key in ('minPrice', 'maxPrice', 'bedrooms', 'minBedrooms', 'maxBedrooms',
+                              'minBathrooms', 'maxBathrooms', 'minArea') then 'number'
+               when f.key in ('furnished', 'featuredOnly') then 'boolean'
+               when f.key = 'amenities' then 'array'
+               else 'string'
+             end
+    )
+    and case
+          when jsonb_typeof(filters->'amenities') = 'array' then not exists (
+            select 1 from jsonb_array_elements(filters->'amenities') as a(value) where jsonb_typeof(a.value) <> 'string'
+          )
+          else true
+        end;
+$$;
+
+-- A filter value of the expected type, or null. The matcher reads filters only through these,
+-- so a value of the wrong type simply doesn't match.
+create or replace function public.filter_number(filters jsonb, key text)
+returns numeric
+language sql
+immutable
+as $$
+  select case when jsonb_typeof(filters->key) = 'number' then (filters->>key)::numeric end;
+$$;
+
+create or replace function public.filter_boolean(filters jsonb, key text)
+returns boolean
+language sql
+immutable
+as $$
+  select case when jsonb_typeof(filters->key) = 'boolean' then (filters->>key)::boolean end;
+$$;
+
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 80),
+  filters jsonb not null default '{}'::jsonb check (public.saved_search_filters_valid(filters)),
+  frequency text not null default 'instant' check (frequency in ('instant', 'daily')),
+  channels text[] not null default array['in_app'] check (
+    cardinality(channels) > 0 and channels <@ array['in_app', 'email', 'sms']
+  ),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  -- Copied out of filters so a new listing only runs the full matcher against searches in its
+  -- county and price range (see queue_saved_search_alerts)
+  filter_county text generated always as (filters->>'county') stored,
+  filter_min_price numeric generated always as (public.filter_number(filters, 'minPrice')) stored,
+  filter_max_price numeric generated always as (public.filter_number(filters, 'maxPrice')) stored
+);
+
+create index if not exists saved_searches_user_id_idx on public.saved_searches (user_id);
+create index if not exists saved_searches_county_idx
+  on public.saved_searches (filter_county, filter_min_price) where is_active;
+
+alter table public.saved_searches enable row level security;
+
+create policy "Users read their own saved searches" on public.saved_searches
+  for select using (user_id = auth.uid());
+
+create policy "Users create their own saved searches" on public.saved_searches
+  for insert with check (user_id = auth.uid());
+
+create policy "Users update their own saved searches" on public.saved_searches
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users delete their own saved searches" on public.saved_searches
+  for delete using (user_id = auth.uid());
+
+-- Queued alerts. Instant alerts are due straight away; daily ones at the next 07:00 Nairobi
+-- time so a sender can group them into one digest per user and channel.
+create table if not exists public.saved_search_alerts (
+  id bigint generated always as identity primary key,
+  saved_search_id uuid not null references public.saved_searches (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  channel text not null check (channel in ('in_app', 'email', 'sms')),
+  frequency text not null check (frequency in ('instant', 'daily')),
+  deliver_after timestamptz not null default now(),
+  status text not null default 'queued' check (status in ('queued', 'sent', 'failed')),
+  read_at timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  -- A listing is only ever announced once per search and channel
+  unique (saved_search_id, listing_id, channel)
+);
+
+create index if not exists saved_search_alerts_due_idx
+  on public.saved_search_alerts (deliver_after) where status = 'queued';
+create index if not exists saved_search_alerts_user_id_idx on public.saved_search_alerts (user_id, created_at desc);
+
+alter table public.saved_search_alerts enable row level security;
+
+create policy "Users read their own alerts" on public.saved_search_alerts
+  for select using (user_id = auth.uid());
+
+create policy "Users mark their own alerts read" on public.saved_search_alerts
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Users may only mark alerts read; delivery status and timing belong to the worker.
+revoke update on public.saved_search_alerts from authenticated;
+grant update (read_at) on public.saved_search_alerts to authenticated;
+
+-- Mirrors the filters listingService.getListings applies, for a single listing.
+-- A filter with a value of the wrong type never matches.
+create or replace function public.listing_matches_filters(listing public.listings, filters jsonb)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select
+    (not filters ? 'status' or listing.status = filters->>'status')
+    and (not filters ? 'county' or listing.location->>'county' = filters->>'county')
+    and (not filters ? 'minPrice' or listing.price >= public.filter_number(filters, 'minPrice'))
+    and (not filters ? 'maxPrice' or listing.price <= public.filter_number(filters, 'maxPrice'))
+    and (not filters ? 'bedrooms' or listing.bedrooms = public.filter_number(filters, 'bedrooms'))
+    and (not filters ? 'minBedrooms' or listing.bedrooms >= public.filter_number(filters, 'minBedrooms'))
+    and (not filters ? 'maxBedrooms' or listing.bedrooms <= public.filter_number(filters, 'maxBedrooms'))
+    and (not filters ? 'minBathrooms' or listing.bathrooms >= public.filter_number(filters, 'minBathrooms'))
+    and (not filters ? 'maxBathrooms' or listing.bathrooms <= public.filter_number(filters, 'maxBathrooms'))
+    and (not filters ? 'minArea' or listing.area_sq_ft >= public.filter_number(filters, 'minArea'))
+    and (not filters ? 'amenities' or to_jsonb(listing.amenities) @> filters->'amenities')
+    and (not filters ? 'propertyType' or listing.property_type = filters->>'propertyType')
+    and (not filters ? 'furnished' or listing.is_furnished = public.filter_boolean(filters, 'furnished'))
+    and (not coalesce(public.filter_boolean(filters, 'featuredOnly'), false) or listing.is_featured)
+    and (
+      coalesce(trim(filters->>'location'), '') = ''
+      or listing.search_vector @@ (
+        websearch_to_tsquery('english', filters->>'location')
+          || websearch_to_tsquery('english', public.correct_place_names(filters->>'location'))
+      )
+      or word_similarity(
+        public.correct_place_names(filters->>'location'),
+        lower(coalesce(listing.location->>'neighborhood', ''))
+      ) >= 0.6
+    );
+$$;
+
+-- Queues alerts for every active saved search the newly available listing matches, in one
+-- statement. Searches outside the listing's county or price range are ruled out through
+-- saved_searches_county_idx before the full matcher runs; saved_search_filters_valid keeps
+-- malformed filters out, so the matcher can't fail the listing write that fired the trigger.
+create or replace function public.queue_saved_search_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'available' or (tg_op = 'UPDATE' and old.status = 'available') then
+    return null;
+  end if;
+
+  insert into public.saved_search_alerts (saved_search_id, user_id, listing_id, channel, frequency, deliver_after)
+  select s.id, s.user_id, new.id, c.channel, s.frequency,
+         case s.frequency
+           when 'instant' then now()
+           else (date_trunc('day', (now() at time zone 'Africa/Nairobi') - interval '7 hours')
+                 + interval '1 day 7 hours') at time zone 'Africa/Nairobi'
+         end
+    from public.saved_searches s
+    cross join lateral unnest(s.channels) as c(channel)
+   where s.is_active
+     and s.user_id is distinct from new.agent_id
+     and (s.filter_county is null or s.filter_county = new.location->>'county')
+     and (s.filter_min_price is null or s.filter_min_price <= new.price)
+     and (s.filter_max_price is null or s.filter_max_price >= new.price)
+     and public.listing_matches_filters(new, s.filters)
+  on conflict (saved_search_id, listing_id, channel) do nothing;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists listings_queue_saved_search_alerts on public.listings;
+create trigger listings_queue_saved_search_alerts
+  after insert or update of status on public.listings
+  for each row execute function public.queue_saved_search_alerts();
@@ -0,0 +1,204 @@
+-- Notification center: per-user channel preferences, an in-app inbox and a delivery log
+-- that doubles as the outbound queue for the notification worker (npm run notify-worker).
+--
+-- Events call public.notify_user(), which queues one delivery per enabled channel. The worker
+-- renders each delivery with the templates in services/notificationService.ts and hands it to
+-- the in-app, email or SMS adapter, recording the outcome on the delivery row.
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  in_app boolean not null default true,
+  email boolean not null default true,
+  sms boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users read their own notification preferences" on public.notification_preferences
+  for select using (user_id = auth.uid());
+
+create policy "Users create their own notification preferences" on public.notification_preferences
+  for insert with check (user_id = auth.uid());
+
+create policy "Users update their own notification preferences" on public.notification_preferences
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- In-app inbox, written by the worker's in-app adapter.
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null,
+  data jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id, created_at desc);
+create index if not exists notifications_unread_idx on public.notifications (user_id) where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users read their own notifications" on public.notifications
+  for select using (user_id = auth.uid());
+
+create policy "Users mark their own notifications read" on public.notifications
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create table if not exists public.notification_deliveries (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  channel text not null check (channel in ('in_app', 'email', 'sms')),
+  type text not null,
+  data jsonb not null default '{}'::jsonb,
+  status text not null default 'queued' check (status in ('queued', 'sent', 'failed', 'skipped')),
+  recipient text, -- Email address or phone number used, filled in when sent
+  attempts integer not null default 0,
+  next_attempt_at timestamptz default now(), -- Null once sent, skipped or given up on
+  last_error text,
+  provider_message_id text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists notification_deliveries_due_idx
+  on public.notification_deliveries (next_attempt_at) where status = 'queued';
+create index if not exists notification_deliveries_user_id_idx
+  on public.notification_deliveries (user_id, created_at desc);
+
+alter table public.notification_deliveries enable row level security;
+
+create policy "Users read their own delivery log" on public.notification_deliveries
+  for select using (user_id = auth.uid() or public.is_admin());
+
+-- Queues a notification for a user on each of their enabled channels (or only on
+-- `only_channels` when given, e.g. the channels a saved search asked for).
+create or replace function public.notify_user(
+  target_user uuid,
+  notification_type text,
+  payload jsonb default '{}'::jsonb,
+  only_channels text[] default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  prefs record;
+begin
+  select coalesce(p.in_app, true) as in_app, coalesce(p.email, true) as email, coalesce(p.sms, false) as sms
+    into prefs
+    from (select 1) as one
+    left join public.notification_preferences p on p.user_id = target_user;
+
+  insert into public.notification_deliveries (user_id, channel, type, data)
+  select target_user, c.channel, notification_type, payload
+    from unnest(coalesce(
+      only_channels,
+      array_remove(array[
+        case when prefs.in_app then 'in_app' end,
+        case when prefs.email then 'email' end,
+        case when prefs.sms then 'sms' end
+      ], null)
+    )) as c(channel);
+end;
+$$;
+
+revoke execute on function public.notify_user(uuid, text, jsonb, text[]) from public, anon, authenticated;
+
+-- New inquiry message: tell the other participant.
+create or replace function public.notify_inquiry_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  thread record;
+begin
+  select i.id, i.listing_id, i.tenant_id, i.agent_id, l.title as listing_title, p.full_name as sender_name
+    into thread
+    from public.inquiries i
+    join public.listings l on l.id = i.listing_id
+    left join public.profiles p on p.id = new.sender_id
+   where i.id = new.inquiry_id;
+
+  perform public.notify_user(
+    case when new.sender_id = thread.agent_id then thread.tenant_id else thread.agent_id end,
+    'inquiry_message',
+    jsonb_build_object(
+      'inquiryId', thread.id,
+      'listingId', thread.listing_id,
+      'listingTitle', thread.listing_title,
+      'senderName', coalesce(thread.sender_name, 'Someone'),
+      'recipientRole', case when new.sender_id = thread.agent_id then 'tenant' else 'agent' end,
+      'preview', left(new.body, 140)
+    )
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists inquiry_messages_notify on public.inquiry_messages;
+create trigger inquiry_messages_notify
+  after insert on public.inquiry_messages
+  for each row execute function public.notify_inquiry_message();
+
+-- Verification request decided: tell the agent.
+create or replace function public.notify_verification_result()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'pending' and new.status in ('approved', 'rejected') then
+    perform public.notify_user(
+      new.agent_id,
+      'verification_result',
+      jsonb_build_object('status', new.status, 'reason', new.reason)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists agent_verification_requests_notify on public.agent_verification_requests;
+create trigger agent_verification_requests_notify
+  after update of status on public.agent_verification_requests
+  for each row execute function public.notify_verification_result();
+
+-- Listing moderated: tell the listing's agent.
+create or replace function public.notify_moderation_decision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listing record;
+begin
+  select l.agent_id, l.title into listing from public.listings l where l.id = new.listing_id;
+  if listing.agent_id is null then
+    return null;
+  end if;
+
+  perform public.notify_user(
+    listing.agent_id,
+    'moderation_decision',
+    jsonb_build_object(
+      'listingId', new.listing_id,
+      'listingTitle', listing.title,
+      'decision', new.decision,
+      'reason', new.reason
+    )
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists moderation_decisions_notify on public.moderation_decisions;
+create trigger moderation_decisions_notify
+  after insert on public.moderation_decisions
+  for each row execute function public.notify_moderation_decision();
@@ -0,0 +1,307 @@
+-- Viewing appointments: agents publish time slots per listing, tenants book one.
+--
+-- Double-booking is prevented in the database: a slot can carry at most one active
+-- booking (partial unique index), and an agent's slots may not overlap each other
+-- (exclusion constraint), so two tenants can never be sent to different houses at the
+-- same time either. Bookings change only through the book/reschedule/cancel functions
+-- below; every change bumps `sequence` so calendar apps update the same event.
+
+create extension if not exists btree_gist;
+
+create table if not exists public.viewing_slots (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  constraint viewing_slots_duration check (ends_at > starts_at and ends_at - starts_at <= interval '4 hours'),
+  constraint viewing_slots_no_overlap exclude using gist (
+    agent_id with =,
+    tstzrange(starts_at, ends_at) with &&
+  )
+);
+
+create index if not exists viewing_slots_listing_id_idx on public.viewing_slots (listing_id, starts_at);
+
+alter table public.viewing_slots enable row level security;
+
+create policy "Viewing slots are public" on public.viewing_slots
+  for select using (true);
+
+create policy "Agents publish slots for their own listings" on public.viewing_slots
+  for insert with check (
+    agent_id = auth.uid()
+    and exists (select 1 from public.listings l where l.id = listing_id and l.agent_id = auth.uid())
+  );
+
+create table if not exists public.viewing_bookings (
+  id uuid primary key default gen_random_uuid(),
+  slot_id uuid not null references public.viewing_slots (id) on delete cascade,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  tenant_id uuid not null references public.profiles (id) on delete cascade,
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null default 'booked' check (status in ('booked', 'cancelled')),
+  note text check (char_length(note) <= 500),
+  sequence integer not null default 0, -- Bumped on every change, used as the .ics SEQUENCE
+  cancelled_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- The double-booking guard: one active booking per slot.
+create unique index if not exists viewing_bookings_one_per_slot
+  on public.viewing_bookings (slot_id) where status = 'booked';
+-- A tenant holds at most one active viewing per listing; they reschedule instead.
+create unique index if not exists viewing_bookings_one_per_tenant_listing
+  on public.viewing_bookings (listing_id, tenant_id) where status = 'booked';
+create index if not exists viewing_bookings_agent_id_idx on public.viewing_bookings (agent_id, status);
+create index if not exists viewing_bookings_tenant_id_idx on public.viewing_bookings (tenant_id, status);
+
+alter table public.viewing_bookings enable row level security;
+
+create policy "Participants read their viewing bookings" on public.viewing_bookings
+  for select using (tenant_id = auth.uid() or agent_id = auth.uid());
+
+-- Booked slots stay put until the booking is cancelled.
+create policy "Agents remove their unbooked slots" on public.viewing_slots
+  for delete using (
+    agent_id = auth.uid()
+    and not exists (
+      select 1 from public.viewing_bookings b where b.slot_id = viewing_slots.id and b.status = 'booked'
+    )
+  );
+
+-- Future slots of a listing that nobody has booked yet.
+create or replace function public.get_open_viewing_slots(target_listing uuid)
+returns setof public.viewing_slots
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.*
+    from public.viewing_slots s
+   where s.listing_id = target_listing
+     and s.starts_at > now()
+     and not exists (
+       select 1 from public.viewing_bookings b where b.slot_id = s.id and b.status = 'booked'
+     )
+   order by s.starts_at;
+$$;
+
+grant execute on function public.get_open_viewing_slots(uuid) to anon, authenticated;
+
+-- Locks a slot the caller wants and checks it can still be booked.
+create or replace function public.lock_bookable_slot(target_slot uuid)
+returns public.viewing_slots
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  slot public.viewing_slots;
+  listing_status text;
+begin
+  select * into slot from public.viewing_slots where id = target_slot for update;
+  if slot.id is null then
+    raise exception 'Viewing slot not found';
+  end if;
+  if slot.starts_at <= now() then
+    raise exception 'This viewing slot has already passed';
+  end if;
+
+  select l.status into listing_status from public.listings l where l.id = slot.listing_id;
+  if listing_status is distinct from 'available' then
+    raise exception 'This listing is no longer available for viewings';
+  end if;
+  return slot;
+end;
+$$;
+
+revoke execute on function public.lock_bookable_slot(uuid) from public, anon, authenticated;
+
+create or replace function public.book_viewing(target_slot uuid, booking_note text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  slot public.viewing_slots;
+  booking_id uuid;
+  violated text;
+begin
+  if auth.uid() is null then
+    raise exception 'Log in to book a viewing';
+  end if;
+
+  slot := public.lock_bookable_slot(target_slot);
+  if slot.agent_id = auth.uid() then
+    raise exception 'You cannot book a viewing of your own listing';
+  end if;
+
+  insert into public.viewing_bookings (slot_id, listing_id, tenant_id, agent_id, note)
+  values (slot.id, slot.listing_id, auth.uid(), slot.agent_id, nullif(trim(booking_note), ''))
+  returning id into booking_id;
+
+  return booking_id;
+exception
+  when unique_violation then
+    get stacked diagnostics violated = constraint_name;
+    if violated = 'viewing_bookings_one_per_tenant_listing' then
+      raise exception 'You already have a viewing booked for this listing. Reschedule it instead.';
+    end if;
+    raise exception 'Sorry, someone has just booked this slot. Please pick another time.';
+end;
+$$;
+
+grant execute on function public.book_viewing(uuid, text) to authenticated;
+
+-- Moves the tenant's booking to another slot of the same listing.
+create or replace function public.reschedule_viewing(target_booking uuid, new_slot uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  booking public.viewing_bookings;
+  slot public.viewing_slots;
+begin
+  select * into booking from public.viewing_bookings
+   where id = target_booking and tenant_id = auth.uid() and status = 'booked'
+     for update;
+  if booking.id is null then
+    raise exception 'Booking not found or already cancelled';
+  end if;
+  if booking.slot_id = new_slot then
+    return;
+  end if;
+
+  slot := public.lock_bookable_slot(new_slot);
+  if slot.listing_id <> booking.listing_id then
+    raise exception 'Pick a slot for the same listing';
+  end if;
+
+  update public.viewing_bookings
+     set slot_id = slot.id,
+         sequence = sequence + 1,
+         updated_at = now()
+   where id = booking.id;
+exception
+  when unique_violation then
+    raise exception 'Sorry, someone has just booked this slot. Please pick another time.';
+end;
+$$;
+
+grant execute on function public.reschedule_viewing(uuid, uuid) to authenticated;
+
+-- Either participant can cancel; the slot opens up again.
+create or replace function public.cancel_viewing(target_booking uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cancelled uuid;
+begin
+  update public.viewing_bookings
+     set status = 'cancelled',
+         cancelled_by = auth.uid(),
+         sequence = sequence + 1,
+         updated_at = now()
+   where id = target_booking
+     and status = 'booked'
+     and auth.uid() in (tenant_id, agent_id)
+  returning id into cancelled;
+
+  if cancelled is null then
+    raise exception 'Booking not found or already cancelled';
+  end if;
+end;
+$$;
+
+grant execute on function public.cancel_viewing(uuid) to authenticated;
+
+-- Booked, rescheduled or cancelled: tell both sides. Email deliveries carry an .ics
+-- attachment built from this payload (see services/notificationTemplates.ts).
+create or replace function public.notify_viewing_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  details record;
+  notification_type text;
+  payload jsonb;
+begin
+  if tg_op = 'INSERT' then
+    notification_type := 'viewing_booked';
+  elsif new.status = 'cancelled' and old.status = 'booked' then
+    notification_type := 'viewing_cancelled';
+  elsif new.slot_id <> old.slot_id then
+    notification_type := 'viewing_rescheduled';
+  else
+    return null;
+  end if;
+
+  select s.starts_at, s.ends_at, l.title as listing_title, l.location,
+         t.full_name as tenant_name, a.full_name as agent_name,
+         (select prev.starts_at from public.viewing_slots prev
+           where tg_op = 'UPDATE' and prev.id = old.slot_id) as previous_starts_at
+    into details
+    from public.viewing_slots s
+    join public.listings l on l.id = new.listing_id
+    left join public.profiles t on t.id = new.tenant_id
+    left join public.profiles a on a.id = new.agent_id
+   where s.id = new.slot_id;
+
+  payload := jsonb_build_object(
+    'bookingId', new.id,
+    'listingId', new.listing_id,
+    'listingTitle', details.listing_title,
+    'location', concat_ws(', ',
+      nullif(details.location ->> 'address', ''),
+      nullif(details.location ->> 'neighborhood', ''),
+      nullif(details.location ->> 'county', '')),
+    'startsAt', details.starts_at,
+    'endsAt', details.ends_at,
+    'previousStartsAt', case when notification_type = 'viewing_rescheduled' then details.previous_starts_at end,
+    'tenantName', coalesce(details.tenant_name, 'A tenant'),
+    'agentName', coalesce(details.agent_name, 'The agent'),
+    'cancelledByTenant', new.cancelled_by = new.tenant_id,
+    'sequence', new.sequence
+  );
+
+  perform public.notify_user(new.tenant_id, notification_type, payload || jsonb_build_object('recipientRole', 'tenant'));
+  perform public.notify_user(new.agent_id, notification_type, payload || jsonb_build_object('recipientRole', 'agent'));
+  return null;
+end;
+$$;
+
+drop trigger if exists viewing_bookings_notify on public.viewing_bookings;
+create trigger viewing_bookings_notify
+  after insert or update on public.viewing_bookings
+  for each row execute function public.notify_viewing_change();
+
+-- A booked viewing also counts as dealing with the agent for reviews (see the reviews migration).
+create or replace function public.has_review_interaction(target_agent uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from public.inquiries i
+      join public.inquiry_messages m on m.inquiry_id = i.id and m.sender_id = i.agent_id
+     where i.tenant_id = auth.uid() and i.agent_id = target_agent
+  ) or exists (
+    select 1 from public.viewing_bookings b
+     where b.tenant_id = auth.uid() and b.agent_id = target_agent and b.status <> 'cancelled'
+  );
+$$;
@@ -0,0 +1,301 @@
+-- Rental applications: tenants apply for a listing with employment, income and references,
+-- plus an ID document and payslips in a private bucket. The listing's agent shortlists,
+-- accepts or rejects; accepting can also mark the listing as rented.
+
+insert into storage.buckets (id, name, public)
+values ('rental-application-documents', 'rental-application-documents', false)
+on conflict (id) do nothing;
+
+create table if not exists public.rental_applications (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  tenant_id uuid not null references public.profiles (id) on delete cascade,
+  agent_id uuid not null references public.profiles (id) on delete cascade,
+  status text not null default 'submitted'
+    check (status in ('submitted', 'shortlisted', 'accepted', 'rejected', 'withdrawn')),
+  employment_status text not null
+    check (employment_status in ('employed', 'self_employed', 'student', 'unemployed', 'retired')),
+  employer_name text,
+  job_title text,
+  monthly_income integer not null check (monthly_income >= 0), -- KES
+  move_in_date date,
+  occupants integer not null default 1 check (occupants between 1 and 20),
+  message text check (char_length(message) <= 2000),
+  "references" jsonb not null default '[]'::jsonb
+    check (jsonb_typeof("references") = 'array' and jsonb_array_length("references") <= 3),
+  decision_reason text,
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One open application per tenant and listing; a tenant can apply again once it is decided or withdrawn.
+create unique index if not exists rental_applications_one_open_idx
+  on public.rental_applications (listing_id, tenant_id)
+  where status in ('submitted', 'shortlisted');
+create index if not exists rental_applications_agent_id_idx
+  on public.rental_applications (agent_id, created_at desc);
+create index if not exists rental_applications_tenant_id_idx
+  on public.rental_applications (tenant_id, created_at desc);
+
+alter table public.rental_applications enable row level security;
+
+create policy "Applicants and agents read applications" on public.rental_applications
+  for select using (tenant_id = auth.uid() or agent_id = auth.uid());
+
+create table if not exists public.rental_application_documents (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.rental_applications (id) on delete cascade,
+  kind text not null check (kind in ('id_document', 'payslip')),
+  storage_path text not null unique,
+  file_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rental_application_documents_application_id_idx
+  on public.rental_application_documents (application_id);
+
+alter table public.rental_application_documents enable row level security;
+
+create policy "Applicants and agents read application documents" on public.rental_application_documents
+  for select using (
+    exists (
+      select 1 from public.rental_applications a
+       where a.id = application_id and (a.tenant_id = auth.uid() or a.agent_id = auth.uid())
+    )
+  );
+
+-- Tenants upload into a folder named after their own user id. The agent can read a file
+-- only once it is attached to an application for one of their listings.
+create policy "Tenants upload their own application documents" on storage.objects
+  for insert with check (
+    bucket_id = 'rental-application-documents' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Only files not yet attached to an application, e.g. uploads left over from a failed
+-- submission; once submitted, documents stay for the agent.
+create policy "Tenants remove their own application documents" on storage.objects
+  for delete using (
+    bucket_id = 'rental-application-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+    and not exists (select 1 from public.rental_application_documents d where d.storage_path = name)
+  );
+
+create policy "Applicants and agents read application documents" on storage.objects
+  for select using (
+    bucket_id = 'rental-application-documents'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1
+          from public.rental_application_documents d
+          join public.rental_applications a on a.id = d.application_id
+         where d.storage_path = name and a.agent_id = auth.uid()
+      )
+    )
+  );
+
+-- Creates the application and its document rows together, so an agent never sees an
+-- application with missing documents. Files are uploaded first by the client.
+create or replace function public.submit_rental_application(target_listing uuid, details jsonb, documents jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listing record;
+  new_application uuid;
+  violated text;
+begin
+  if auth.uid() is null then
+    raise exception 'Log in to apply';
+  end if;
+
+  select l.agent_id, l.status into listing from public.listings l where l.id = target_listing;
+  if listing.agent_id is null then
+    raise exception 'Listing not found';
+  end if;
+  if listing.status <> 'available' then
+    raise exception 'This listing is no longer taking applications';
+  end if;
+  if listing.agent_id = auth.uid() then
+    raise exception 'You cannot apply for your own listing';
+  end if;
+
+  if not exists (select 1 from jsonb_array_elements(documents) d where d ->> 'kind' = 'id_document') then
+    raise exception 'An ID document is required';
+  end if;
+  if not exists (select 1 from jsonb_array_elements(documents) d where d ->> 'kind' = 'payslip') then
+    raise exception 'At least one payslip is required';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(documents) d
+     where split_part(d ->> 'path', '/', 1) <> auth.uid()::text
+  ) then
+    raise exception 'Documents must be uploaded by the applicant';
+  end if;
+
+  insert into public.rental_applications (
+    listing_id, tenant_id, agent_id, employment_status, employer_name, job_title,
+    monthly_income, move_in_date, occupants, message, "references"
+  )
+  values (
+    target_listing,
+    auth.uid(),
+    listing.agent_id,
+    details ->> 'employmentStatus',
+    nullif(trim(details ->> 'employerName'), ''),
+    nullif(trim(details ->> 'jobTitle'), ''),
+    (details ->> 'monthlyIncome')::integer,
+    nullif(details ->> 'moveInDate', '')::date,
+    coalesce((details ->> 'occupants')::integer, 1),
+    nullif(trim(details ->> 'message'), ''),
+    coalesce(details -> 'references', '[]'::jsonb)
+  )
+  returning id into new_application;
+
+  insert into public.rental_application_documents (application_id, kind, storage_path, file_name)
+  select new_application, d ->> 'kind', d ->> 'path', d ->> 'fileName'
+    from jsonb_array_elements(documents) d;
+
+  return new_application;
+exception
+  when unique_violation then
+    get stacked diagnostics violated = constraint_name;
+    if violated = 'rental_application_documents_storage_path_key' then
+      raise exception 'A document was already used in another application. Please upload it again.';
+    end if;
+    raise exception 'You already have an open application for this listing';
+end;
+$$;
+
+grant execute on function public.submit_rental_application(uuid, jsonb, jsonb) to authenticated;
+
+-- Agent decisions. Accepting with mark_rented also lets the listing and closes the
+-- other open applications for it.
+create or replace function public.review_rental_application(
+  target_application uuid,
+  decision text,
+  reason_text text default null,
+  mark_rented boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  application public.rental_applications;
+begin
+  if decision not in ('shortlisted', 'accepted', 'rejected') then
+    raise exception 'Unknown decision %', decision;
+  end if;
+
+  select * into application from public.rental_applications
+   where id = target_application and agent_id = auth.uid()
+     for update;
+  if application.id is null then
+    raise exception 'Application not found';
+  end if;
+  if application.status not in ('submitted', 'shortlisted') then
+    raise exception 'This application has already been %', application.status;
+  end if;
+
+  update public.rental_applications
+     set status = decision,
+         decision_reason = nullif(trim(reason_text), ''),
+         decided_at = case when decision = 'shortlisted' then null else now() end,
+         updated_at = now()
+   where id = application.id;
+
+  if decision = 'accepted' and mark_rented then
+    update public.listings set status = 'rented' where id = application.listing_id;
+
+    update public.rental_applications
+       set status = 'rejected',
+           decision_reason = 'The property has been let to another applicant',
+           decided_at = now(),
+           updated_at = now()
+     where listing_id = application.listing_id
+       and id <> application.id
+       and status in ('submitted', 'shortlisted');
+  end if;
+end;
+$$;
+
+grant execute on function public.review_rental_application(uuid, text, text, boolean) to authenticated;
+
+create or replace function public.withdraw_rental_application(target_application uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  withdrawn uuid;
+begin
+  update public.rental_applications
+     set status = 'withdrawn',
+         updated_at = now()
+   where id = target_application
+     and tenant_id = auth.uid()
+     and status in ('submitted', 'shortlisted')
+  returning id into withdrawn;
+
+  if withdrawn is null then
+    raise exception 'Application not found or already decided';
+  end if;
+end;
+$$;
+
+grant execute on function public.withdraw_rental_application(uuid) to authenticated;
+
+-- New application: tell the agent. Decision: tell the tenant.
+create or replace function public.notify_rental_application()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  details record;
+begin
+  select l.title as listing_title, p.full_name as tenant_name
+    into details
+    from public.listings l
+    left join public.profiles p on p.id = new.tenant_id
+   where l.id = new.listing_id;
+
+  if tg_op = 'INSERT' then
+    perform public.notify_user(
+      new.agent_id,
+      'rental_application',
+      jsonb_build_object(
+        'applicationId', new.id,
+        'listingId', new.listing_id,
+        'listingTitle', details.listing_title,
+        'tenantName', coalesce(details.tenant_name, 'A tenant')
+      )
+    );
+  elsif new.status in ('shortlisted', 'accepted', 'rejected') and new.status <> old.status then
+    perform public.notify_user(
+      new.tenant_id,
+      'application_update',
+      jsonb_build_object(
+        'applicationId', new.id,
+        'listingId', new.listing_id,
+        'listingTitle', details.listing_title,
+        'status', new.status,
+        'reason', new.decision_reason
+      )
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists rental_applications_notify on public.rental_applications;
+create trigger rental_applications_notify
+  after insert or update of status on public.rental_applications
+  for each row execute function public.notify_rental_application();
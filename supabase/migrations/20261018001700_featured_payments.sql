@@ -0,0 +1,122 @@
+-- Paid featured placement: agents buy a featured period through an M-Pesa STK push.
+-- The payment server (service role) records each attempt, applies the featured period when
+-- Safaricom confirms the payment, and un-features listings once their period runs out.
+
+alter table public.listings add column if not exists featured_until timestamptz;
+
+create index if not exists listings_featured_until_idx
+  on public.listings (featured_until)
+  where is_featured;
+
+-- Featured placement is paid for, so agents can no longer set it from the listing form.
+-- Only the service role (payment server) and admins may change it.
+create or replace function public.protect_featured_placement()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), 'service_role') = 'service_role' or public.is_admin() then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.is_featured := false;
+    new.featured_until := null;
+  else
+    new.is_featured := old.is_featured;
+    new.featured_until := old.featured_until;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists listings_protect_featured_placement on public.listings;
+create trigger listings_protect_featured_placement
+  before insert or update on public.listings
+  for each row execute function public.protect_featured_placement();
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  plan_id text not null,
+  featured_days integer not null check (featured_days > 0),
+  amount integer not null check (amount > 0), -- KES
+  phone_number text not null, -- 2547XXXXXXXX, the number that got the PIN prompt
+  status text not null default 'pending'
+    check (status in ('pending', 'succeeded', 'failed', 'expired')),
+  merchant_request_id text,
+  checkout_request_id text unique,
+  mpesa_receipt text unique,
+  result_code integer,
+  result_desc text,
+  featured_until timestamptz, -- Set once the featured period has been applied to the listing
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists payments_user_id_idx on public.payments (user_id, created_at desc);
+create index if not exists payments_pending_idx on public.payments (created_at) where status = 'pending';
+-- Succeeded payments whose featured period still has to be applied (see reconcilePendingPayments)
+create index if not exists payments_unapplied_idx on public.payments (created_at) where status = 'succeeded' and featured_until is null;
+
+alter table public.payments enable row level security;
+
+-- Payments are written only by the payment server; agents can follow their own.
+create policy "Users read their own payments" on public.payments
+  for select using (user_id = auth.uid() or public.is_admin());
+
+-- Extends the listing's featured period by the payment's days, starting from the current
+-- expiry if the listing is still featured. Runs once per payment.
+create or replace function public.apply_featured_payment(target_payment uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payment public.payments;
+  new_until timestamptz;
+begin
+  select * into payment from public.payments where id = target_payment for update;
+
+  if payment.id is null or payment.status <> 'succeeded' then
+    raise exception 'Payment has not succeeded';
+  end if;
+  if payment.featured_until is not null then
+    return payment.featured_until;
+  end if;
+
+  update public.listings
+     set is_featured = true,
+         featured_until = greatest(coalesce(featured_until, now()), now()) + make_interval(days => payment.featured_days)
+   where id = payment.listing_id
+  returning featured_until into new_until;
+
+  update public.payments set featured_until = new_until where id = target_payment;
+  return new_until;
+end;
+$$;
+
+-- Un-features listings whose paid period has ended. Listings featured without an end date
+-- (set by an admin) are left alone.
+create or replace function public.expire_featured_listings()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expired_count integer;
+begin
+  update public.listings
+     set is_featured = false
+   where is_featured and featured_until is not null and featured_until <= now();
+  get diagnostics expired_count = row_count;
+  return expired_count;
+end;
+$$;
+
+revoke execute on function public.apply_featured_payment(uuid) from public, anon, authenticated;
+revoke execute on function public.expire_featured_listings() from public, anon, authenticated;
@@ -0,0 +1,225 @@
+-- Listing lifecycle: available listings expire after a configurable number of days unless the
+-- agent renews them, agents are reminded before that happens, and rented listings are archived
+-- after a while. Expired, archived and draft listings are hidden from search; nothing is deleted,
+-- and every status change is recorded in listing_status_history.
+--
+-- run_listing_lifecycle() does the time-based transitions; the notification worker
+-- (npm run notify-worker) calls it periodically and then sends the reminders it queues.
+
+create table if not exists public.listing_lifecycle_settings (
+  id boolean primary key default true check (id), -- Single row
+  listing_lifetime_days integer not null default 60 check (listing_lifetime_days > 0),
+  reminder_days_before integer not null default 7 check (reminder_days_before >= 0),
+  archive_rented_after_days integer not null default 14 check (archive_rented_after_days >= 0),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.listing_lifecycle_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.listing_lifecycle_settings enable row level security;
+
+create policy "Anyone can read lifecycle settings" on public.listing_lifecycle_settings
+  for select using (true);
+
+create policy "Admins update lifecycle settings" on public.listing_lifecycle_settings
+  for update using (public.is_admin()) with check (public.is_admin());
+
+alter table public.listings drop constraint if exists listings_status_check;
+alter table public.listings add constraint listings_status_check
+  check (status in ('draft', 'pending_verification', 'available', 'rented', 'expired', 'archived', 'rejected'));
+
+alter table public.listings add column if not exists expires_at timestamptz;
+alter table public.listings add column if not exists expiry_reminder_sent_at timestamptz;
+alter table public.listings add column if not exists status_changed_at timestamptz not null default now();
+alter table public.listings add column if not exists archived_at timestamptz;
+
+create index if not exists listings_expires_at_idx on public.listings (expires_at) where status = 'available';
+create index if not exists listings_rented_idx on public.listings (status_changed_at) where status = 'rented';
+
+-- Give listings that are already live a full lifetime from their last update, but never less
+-- than two weeks, so nothing expires the day this ships.
+update public.listings l
+   set expires_at = greatest(
+         coalesce(l.updated_at, l.created_at) + make_interval(days => s.listing_lifetime_days),
+         now() + interval '14 days'
+       ),
+       status_changed_at = coalesce(l.updated_at, l.created_at)
+  from public.listing_lifecycle_settings s
+ where l.status = 'available' and l.expires_at is null;
+
+-- Drafts are private to their agent. Restrictive, so it narrows whatever read policy listings has.
+create policy "Drafts are only visible to their agent" on public.listings
+  as restrictive for select using (status <> 'draft' or agent_id = auth.uid() or public.is_admin());
+
+create table if not exists public.listing_status_history (
+  id bigint generated always as identity primary key,
+  listing_id uuid not null references public.listings (id) on delete cascade,
+  from_status text, -- Null for the first status
+  to_status text not null,
+  changed_by uuid references public.profiles (id) on delete set null, -- Null for automatic transitions
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists listing_status_history_listing_id_idx
+  on public.listing_status_history (listing_id, changed_at desc);
+
+alter table public.listing_status_history enable row level security;
+
+create policy "Agents read their listings' status history" on public.listing_status_history
+  for select using (
+    public.is_admin()
+    or exists (select 1 from public.listings l where l.id = listing_id and l.agent_id = auth.uid())
+  );
+
+-- Keeps the lifecycle columns consistent with the status. Clients can't set them directly;
+-- only functions like renew_listing (running as their owner) and the service role can.
+create or replace function public.apply_listing_lifecycle()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  lifetime_days integer;
+begin
+  if tg_op = 'UPDATE' and current_user in ('authenticated', 'anon') then
+    new.expires_at := old.expires_at;
+    new.expiry_reminder_sent_at := old.expiry_reminder_sent_at;
+    new.status_changed_at := old.status_changed_at;
+    new.archived_at := old.archived_at;
+  end if;
+
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    new.status_changed_at := now();
+
+    if new.status = 'available' then
+      select listing_lifetime_days into lifetime_days from public.listing_lifecycle_settings where id;
+      new.expires_at := now() + make_interval(days => coalesce(lifetime_days, 60));
+      new.expiry_reminder_sent_at := null;
+    end if;
+
+    new.archived_at := case when new.status = 'archived' then now() end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists listings_apply_lifecycle on public.listings;
+create trigger listings_apply_lifecycle
+  before insert or update on public.listings
+  for each row execute function public.apply_listing_lifecycle();
+
+create or replace function public.record_listing_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.listing_status_history (listing_id, from_status, to_status, changed_by)
+    values (new.id, case when tg_op = 'UPDATE' then old.status end, new.status, auth.uid());
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists listings_record_status_change on public.listings;
+create trigger listings_record_status_change
+  after insert or update of status on public.listings
+  for each row execute function public.record_listing_status_change();
+
+-- Agent confirms a listing is still available: it gets a full new lifetime. Expired listings
+-- come back to search.
+create or replace function public.renew_listing(target_listing uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  listing public.listings;
+  new_expiry timestamptz;
+begin
+  select * into listing from public.listings where id = target_listing for update;
+
+  if listing.id is null or listing.agent_id <> auth.uid() then
+    raise exception 'Listing not found';
+  end if;
+  if listing.status not in ('available', 'expired') then
+    raise exception 'Only available or expired listings can be renewed';
+  end if;
+
+  update public.listings l
+     set status = 'available',
+         expires_at = now() + make_interval(days => s.listing_lifetime_days),
+         expiry_reminder_sent_at = null,
+         updated_at = now()
+    from public.listing_lifecycle_settings s
+   where l.id = target_listing and s.id
+  returning l.expires_at into new_expiry;
+
+  return new_expiry;
+end;
+$$;
+
+grant execute on function public.renew_listing(uuid) to authenticated;
+
+-- Time-based transitions, in order: remind agents of listings about to expire, expire
+-- listings past their date, and archive listings rented long enough ago.
+create or replace function public.run_listing_lifecycle()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  settings public.listing_lifecycle_settings;
+  listing record;
+  reminded integer := 0;
+  expired integer := 0;
+  archived integer := 0;
+begin
+  select * into settings from public.listing_lifecycle_settings where id;
+
+  for listing in
+    update public.listings
+       set expiry_reminder_sent_at = now()
+     where status = 'available'
+       and expiry_reminder_sent_at is null
+       and expires_at > now()
+       and expires_at <= now() + make_interval(days => settings.reminder_days_before)
+    returning id, agent_id, title, expires_at
+  loop
+    perform public.notify_user(
+      listing.agent_id,
+      'listing_expiring',
+      jsonb_build_object('listingId', listing.id, 'listingTitle', listing.title, 'expiresAt', listing.expires_at)
+    );
+    reminded := reminded + 1;
+  end loop;
+
+  for listing in
+    update public.listings
+       set status = 'expired'
+     where status = 'available' and expires_at <= now()
+    returning id, agent_id, title, expires_at
+  loop
+    perform public.notify_user(
+      listing.agent_id,
+      'listing_expired',
+      jsonb_build_object('listingId', listing.id, 'listingTitle', listing.title, 'expiresAt', listing.expires_at)
+    );
+    expired := expired + 1;
+  end loop;
+
+  update public.listings
+     set status = 'archived'
+   where status = 'rented'
+     and status_changed_at <= now() - make_interval(days => settings.archive_rented_after_days);
+  get diagnostics archived = row_count;
+
+  return jsonb_build_object('reminded', reminded, 'expired', expired, 'archived', archived);
+end;
+$$;
+
+revoke execute on function public.run_listing_lifecycle() from public, anon, authenticated;
@@ -0,0 +1,64 @@
+-- Rent statistics for the rent estimator, computed from our own listings rather than guessed
+-- by a model. Listings with the same county and bedroom count whose price was current in the
+-- last 12 months are compared: available ones, and rented, expired or archived ones as evidence
+-- of what the market pays. Figures are returned for the neighbourhood and for the whole county
+-- so the client can fall back when a neighbourhood has too few listings.
+--
+-- Security definer so rented and archived listings count even where the caller can't read
+-- them; only aggregates and a few comparables (title, price, neighbourhood) are returned.
+
+create index if not exists listings_rent_statistics_idx
+  on public.listings ((location->>'county'), bedrooms)
+  where status in ('available', 'rented', 'expired', 'archived');
+
+create or replace function public.estimate_rent(
+  target_county text,
+  target_neighborhood text,
+  target_bedrooms integer,
+  exclude_listing uuid default null -- The listing being estimated, so it doesn't count towards itself
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with comparable as (
+    select l.id, l.title, l.price, l.status, l.location->>'neighborhood' as neighborhood,
+           coalesce(l.updated_at, l.created_at) as priced_at,
+           lower(trim(l.location->>'neighborhood')) = lower(trim(target_neighborhood)) as same_neighborhood
+      from public.listings l
+     where l.location->>'county' = target_county
+       and l.bedrooms = target_bedrooms
+       and l.status in ('available', 'rented', 'expired', 'archived')
+       and l.price > 0
+       and coalesce(l.updated_at, l.created_at) > now() - interval '12 months'
+       and l.id is distinct from exclude_listing
+  ),
+  stats as (
+    select scope,
+           jsonb_build_object(
+             'sample_size', count(c.id),
+             'p25', round(percentile_cont(0.25) within group (order by c.price)::numeric),
+             'median', round(percentile_cont(0.5) within group (order by c.price)::numeric),
+             'p75', round(percentile_cont(0.75) within group (order by c.price)::numeric)
+           ) as figures
+      from (values ('neighborhood'), ('county')) as scopes (scope)
+      left join comparable c on scope = 'county' or c.same_neighborhood
+     group by scope
+  )
+  select jsonb_build_object(
+    'neighborhood', (select figures from stats where scope = 'neighborhood'),
+    'county', (select figures from stats where scope = 'county'),
+    'comparables', coalesce((
+      select jsonb_agg(to_jsonb(picked) - 'same_neighborhood')
+        from (
+          select * from comparable
+           order by same_neighborhood desc, priced_at desc
+           limit 6
+        ) picked
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.estimate_rent(text, text, integer, uuid) to anon, authenticated;
@@ -0,0 +1,61 @@
+-- Quotas and response cache for the AI proxy (api/ai.ts). Serverless instances share no
+-- memory, so request counts and cached answers are kept here. Only the proxy (service role)
+-- uses these tables: RLS is on with no policies.
+
+create table if not exists public.ai_usage (
+  bucket text not null, -- 'user:<id>' or 'ip:<address>'
+  feature text not null,
+  window_start timestamptz not null,
+  request_count integer not null default 0,
+  primary key (bucket, feature, window_start)
+);
+
+create index if not exists ai_usage_window_start_idx on public.ai_usage (window_start);
+
+alter table public.ai_usage enable row level security;
+
+create table if not exists public.ai_response_cache (
+  key text primary key, -- '<feature>:<sha-256 of the input>'
+  response jsonb not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_response_cache_expires_at_idx on public.ai_response_cache (expires_at);
+
+alter table public.ai_response_cache enable row level security;
+
+-- Counts one request against a fixed-window quota and says whether it is allowed.
+-- The upsert makes concurrent requests count correctly. Old windows and expired cache
+-- entries are cleared now and then, so the tables stay small without a scheduled job.
+create or replace function public.consume_ai_quota(
+  target_bucket text,
+  target_feature text,
+  max_requests integer,
+  window_seconds integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_window timestamptz := to_timestamp(floor(extract(epoch from now()) / window_seconds) * window_seconds);
+  used integer;
+begin
+  insert into public.ai_usage as usage (bucket, feature, window_start, request_count)
+  values (target_bucket, target_feature, current_window, 1)
+  on conflict (bucket, feature, window_start)
+    do update set request_count = usage.request_count + 1
+  returning request_count into used;
+
+  if random() < 0.01 then
+    delete from public.ai_usage where window_start < now() - interval '2 days';
+    delete from public.ai_response_cache where expires_at < now();
+  end if;
+
+  return used <= max_requests;
+end;
+$$;
+
+revoke execute on function public.consume_ai_quota(text, text, integer, integer) from public, anon, authenticated;
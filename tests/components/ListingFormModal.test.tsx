@@ -0,0 +1,153 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PropertyListing } from '../../types';
+import type { LocalListingDraft } from '../../utils/listingDraftStore';
+
+const mocks = vi.hoisted(() => ({
+  saveDraft: vi.fn(),
+  onDevice: new Map<string, unknown>(),
+}));
+
+vi.mock('../../services/supabaseClient', () => ({ supabase: {} }));
+vi.mock('../../services/geminiService', () => ({ geminiService: {} }));
+vi.mock('../../services/listingService', () => ({
+  listingService: { saveDraft: mocks.saveDraft, discardDraft: vi.fn() },
+}));
+// IndexedDB is covered by its own spec; here the device copy lives in a map
+vi.mock('../../utils/listingDraftStore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/listingDraftStore')>()),
+  getLocalDraft: async (key: string) => mocks.onDevice.get(key) ?? null,
+  saveLocalDraft: async (draft: LocalListingDraft) => void mocks.onDevice.set(draft.key, draft),
+  deleteLocalDraft: async (key: string) => void mocks.onDevice.delete(key),
+}));
+
+const { default: ListingFormModal } = await import('../../components/agent/ListingFormModal');
+
+const LISTING = {
+  id: 'listing-1',
+  title: 'Sunny 2BR with parking',
+  description: 'Bright two-bedroom flat on the third floor, close to Yaya Centre.',
+  location: { address: 'Argwings Kodhek Road', county: 'Nairobi', neighborhood: 'Kilimani' },
+  price: 45000,
+  bedrooms: 2,
+  bathrooms: 1,
+  areaSqFt: 0,
+  propertyType: 'apartment',
+  isFurnished: false,
+  amenities: [],
+  images: [],
+  status: 'available',
+  isFeatured: false,
+  views: 0,
+  saves: 0,
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: '2026-10-18T10:00:00.000Z',
+} as unknown as PropertyListing;
+
+const renderForm = (initialData?: PropertyListing) =>
+  render(<ListingFormModal isOpen onClose={vi.fn()} onSubmit={vi.fn()} initialData={initialData} agentId="agent-1" />);
+
+const typeTitle = (title: string) => fireEvent.change(screen.getByLabelText('Title'), { target: { name: 'title', value: title } });
+
+/** Lets pending promises (the device copy, draft saves) settle */
+const settle = () => act(async () => {});
+
+beforeEach(() => {
+  mocks.saveDraft.mockReset();
+  mocks.onDevice.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ListingFormModal autosave', () => {
+  it('saves a new listing as a server draft 5 seconds after the agent stops typing', async () => {
+    vi.useFakeTimers();
+    mocks.saveDraft.mockResolvedValue('draft-9');
+    renderForm();
+    await settle();
+
+    typeTitle('Sunny 2BR');
+    await act(async () => vi.advanceTimersByTime(4999));
+    expect(mocks.saveDraft).not.toHaveBeenCalled();
+
+    await act(async () => vi.advanceTimersByTime(1));
+    expect(mocks.saveDraft).toHaveBeenCalledWith(null, expect.objectContaining({ title: 'Sunny 2BR' }));
+    expect(screen.getByText(/^Draft saved \d/)).toBeInTheDocument();
+
+    // Later saves update the same draft
+    typeTitle('Sunny 2BR with parking');
+    await act(async () => vi.advanceTimersByTime(5000));
+    expect(mocks.saveDraft).toHaveBeenLastCalledWith('draft-9', expect.objectContaining({ title: 'Sunny 2BR with parking' }));
+    expect(mocks.onDevice.has('agent-1:draft-9')).toBe(true);
+  });
+
+  it('does not save an empty form to the server', async () => {
+    vi.useFakeTimers();
+    renderForm();
+    await settle();
+
+    typeTitle('   ');
+    await act(async () => vi.advanceTimersByTime(10_000));
+
+    expect(mocks.saveDraft).not.toHaveBeenCalled();
+  });
+
+  it('tells the agent when the server draft could not be saved', async () => {
+    vi.useFakeTimers();
+    mocks.saveDraft.mockRejectedValue(new Error('Failed to fetch'));
+    renderForm();
+    await settle();
+
+    typeTitle('Sunny 2BR');
+    await act(async () => vi.advanceTimersByTime(5000));
+
+    expect(screen.getByText('Draft saved on this device only')).toBeInTheDocument();
+    expect(mocks.saveDraft).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps edits to a published listing on the device only', async () => {
+    vi.useFakeTimers();
+    renderForm(LISTING);
+    await settle();
+
+    typeTitle('Sunny 2BR with parking and borehole');
+    await act(async () => vi.advanceTimersByTime(10_000));
+
+    expect(mocks.saveDraft).not.toHaveBeenCalled();
+    expect((mocks.onDevice.get('agent-1:listing-1') as LocalListingDraft).formData.title).toBe('Sunny 2BR with parking and borehole');
+  });
+});
+
+describe('ListingFormModal device copy', () => {
+  const deviceCopy = (savedAt: string): LocalListingDraft => ({
+    key: 'agent-1:listing-1',
+    formData: { ...LISTING, title: 'Typed on this phone' } as LocalListingDraft['formData'],
+    imageFiles: [],
+    imagesToRemove: [],
+    savedAt,
+  });
+
+  it('restores a copy saved after the listing last changed', async () => {
+    mocks.onDevice.set('agent-1:listing-1', deviceCopy('2026-10-18T11:00:00.000Z'));
+
+    renderForm(LISTING);
+    await settle();
+
+    expect(screen.getByLabelText('Title')).toHaveValue('Typed on this phone');
+    expect(screen.getByText(/^Restored what you typed on this device/)).toBeInTheDocument();
+  });
+
+  it('ignores a stale copy when the listing changed since', async () => {
+    mocks.onDevice.set('agent-1:listing-1', deviceCopy('2026-10-18T09:00:00.000Z'));
+
+    renderForm(LISTING);
+    await settle();
+
+    expect(screen.getByLabelText('Title')).toHaveValue('Sunny 2BR with parking');
+    expect(screen.queryByText(/^Restored what you typed/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAiFeatures } from '../../services/aiFeatures';
+import { createFakeProvider, type AiFixture, type AiProvider } from '../../services/aiProviders';
+
+const LISTING = { title: 'Kilimani 2BR', price: 45000, bedrooms: 2, bathrooms: 1 };
+const ENHANCED = { enhancedDescription: 'Bright two-bedroom flat.', suggestedTitle: 'Sunny Kilimani 2BR', pricingAdvice: 'Fair for the area.' };
+
+// Retries carry the correction, so a fixture matching it answers only the second attempt
+const CORRECTION = 'did not match the required JSON format';
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createAiFeatures structured replies', () => {
+  it('returns a reply that matches the schema without retrying', async () => {
+    const provider = createFakeProvider({ fixtures: [{ feature: 'listingEnhancement', response: ENHANCED }] });
+
+    const result = await createAiFeatures(provider).enhanceListingContent(LISTING);
+
+    expect(result).toEqual({ data: ENHANCED, error: null });
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('retries once with the problems found and returns the corrected reply', async () => {
+    const provider = createFakeProvider({
+      fixtures: [
+        { feature: 'listingEnhancement', match: CORRECTION, response: ENHANCED },
+        { feature: 'listingEnhancement', response: { enhancedDescription: 'Bright two-bedroom flat.', pricingAdvice: 42 } },
+      ],
+    });
+
+    const result = await createAiFeatures(provider).enhanceListingContent(LISTING);
+
+    expect(result).toEqual({ data: ENHANCED, error: null });
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].prompt).toContain('- reply.suggestedTitle is required');
+    expect(provider.calls[1].prompt).toContain('- reply.pricingAdvice must be a string, got number');
+  });
+
+  it('gives up after the retry with the remaining problems', async () => {
+    const provider = createFakeProvider({
+      fixtures: [{ feature: 'listingEnhancement', response: { ...ENHANCED, suggestedTitle: null } }],
+    });
+
+    const result = await createAiFeatures(provider).enhanceListingContent(LISTING);
+
+    expect(result.data).toBeNull();
+    expect(result.error).toMatchObject({ code: 'invalid_response', issues: ['reply.suggestedTitle must be a string, got null'] });
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('treats a reply that is not JSON as invalid and asks again', async () => {
+    const provider = createFakeProvider({
+      fixtures: [
+        { feature: 'listingEnhancement', match: CORRECTION, response: ENHANCED },
+        { feature: 'listingEnhancement', response: 'Here is a better listing for you!' },
+      ],
+    });
+
+    const result = await createAiFeatures(provider).enhanceListingContent(LISTING);
+
+    expect(result).toEqual({ data: ENHANCED, error: null });
+    expect(provider.calls[1].prompt).toContain('- reply is not valid JSON');
+  });
+
+  it('does not retry when the request itself fails', async () => {
+    const generateJson = vi.fn().mockRejectedValue(new Error('quota exceeded'));
+    const provider = { ...createFakeProvider(), generateJson } as AiProvider;
+
+    const result = await createAiFeatures(provider).enhanceListingContent(LISTING);
+
+    expect(result.error?.code).toBe('request_failed');
+    expect(generateJson).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the correction within the search assistant conversation', async () => {
+    const fixtures: AiFixture[] = [
+      { feature: 'searchAssistant', match: CORRECTION, response: { reply: 'Here are 2BRs in Rongai.', filters: { location: 'Rongai', bedrooms: 2 } } },
+      { feature: 'searchAssistant', response: { reply: 'Here are 2BRs in Rongai.', filters: { location: 'Rongai', bedrooms: '2' } } },
+    ];
+    const provider = createFakeProvider({ fixtures });
+
+    const result = await createAiFeatures(provider).replyToSearchAssistant([], '2BR in Rongai');
+
+    expect(result.data).toEqual({ reply: 'Here are 2BRs in Rongai.', filters: { location: 'Rongai', bedrooms: 2 } });
+    expect(provider.calls.map((call) => call.kind)).toEqual(['chat', 'chat']);
+    expect(provider.calls[0].prompt).toBe('2BR in Rongai');
+    expect(provider.calls[1].prompt).toContain('- reply.filters.bedrooms must be a number, got string "2"');
+  });
+
+  it('throws from the image check when both replies break the schema, so the worker retries', async () => {
+    const provider = createFakeProvider({ fixtures: [{ feature: 'imageScan', response: { isStockOrCopied: 'no' } }] });
+
+    await expect(createAiFeatures(provider).checkImageForScam('aGVsbG8=')).rejects.toThrow(
+      'reply.isStockOrCopied must be true or false, got string'
+    );
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('answers unavailable without a provider', async () => {
+    const result = await createAiFeatures(null).enhanceListingContent(LISTING);
+
+    expect(result.error?.code).toBe('unavailable');
+  });
+});
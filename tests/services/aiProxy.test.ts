@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAiFeatures } from '../../services/aiFeatures';
+import { createFakeProvider } from '../../services/aiProviders';
+import { createAiProxyHandler, createMemoryAiProxyStore, type AiProxyDependencies } from '../../services/aiProxy';
+import { UserRole } from '../../types';
+
+const LISTING = { title: 'Kilimani 2BR', price: 45000, bedrooms: 2 };
+
+/**
+ * A proxy handler with a fake provider and the in-memory store, where the
+ * access token is the user's ID.
+ */
+const setup = (overrides: Partial<AiProxyDependencies> = {}) => {
+  const provider = createFakeProvider();
+  const handler = createAiProxyHandler({
+    features: createAiFeatures(provider),
+    store: createMemoryAiProxyStore(),
+    authenticate: async (token) => (token.startsWith('agent') ? { id: token, role: UserRole.AGENT } : null),
+    ...overrides,
+  });
+  const post = (feature: string, input: unknown, { token, ip = '197.248.1.1' }: { token?: string; ip?: string } = {}) =>
+    handler(new Request('http://localhost/api/ai', {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': ip, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ feature, input }),
+    }));
+  return { provider, post };
+};
+
+const ask = (message: string, history: { role: string; text: string }[] = []) => ({ history, message });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createAiProxyHandler', () => {
+  it('rejects unknown features and input that breaks the schema', async () => {
+    const { post, provider } = setup();
+
+    const unknown = await post('translate', {});
+    const invalid = await post('searchAssistant', { history: [], message: 42 });
+
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error.issues).toEqual(['unknown feature "translate"']);
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toMatchObject({ code: 'invalid_request', issues: ['input.message must be a string, got number'] });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('rejects requests larger than the feature allows', async () => {
+    const { post } = setup();
+
+    const response = await post('listingEnhancement', { listing: { ...LISTING, description: 'x'.repeat(16_000) } }, { token: 'agent-1' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.issues).toEqual(['request is larger than 16000 bytes']);
+  });
+
+  it('rejects search assistant conversations longer than 20 messages', async () => {
+    const { post } = setup();
+    const history = Array.from({ length: 21 }, (_, i) => ({ role: i % 2 ? 'model' : 'user', text: `turn ${i}` }));
+
+    const response = await post('searchAssistant', ask('and a balcony', history));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.issues).toEqual(['conversation is longer than 20 messages; please start a new one']);
+  });
+
+  it('rejects an invalid access token even for features that work logged out', async () => {
+    const { post } = setup();
+
+    const response = await post('searchAssistant', ask('2BR in Rongai'), { token: 'expired' });
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.code).toBe('unauthorized');
+  });
+
+  it('answers 503 when the user cannot be looked up', async () => {
+    const consumeQuota = vi.fn(async () => true);
+    const { post } = setup({
+      authenticate: async () => {
+        throw new Error('connect ETIMEDOUT');
+      },
+      store: { ...createMemoryAiProxyStore(), consumeQuota },
+    });
+
+    const response = await post('listingEnhancement', { listing: LISTING }, { token: 'agent-1' });
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.code).toBe('request_failed');
+    expect(consumeQuota).not.toHaveBeenCalled();
+  });
+
+  it('answers 503 when the quota cannot be checked', async () => {
+    const { post, provider } = setup({
+      store: {
+        ...createMemoryAiProxyStore(),
+        consumeQuota: async () => {
+          throw new Error('relation "ai_quota_usage" does not exist');
+        },
+      },
+    });
+
+    const response = await post('searchAssistant', ask('2BR in Rongai'));
+
+    expect(response.status).toBe(503);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('limits each IP address, with Retry-After set to the quota window', async () => {
+    const { post } = setup();
+
+    // Quotas are counted before the cache, so repeated questions use them up too
+    for (let i = 0; i < 60; i++) expect((await post('searchAssistant', ask('2BR in Rongai'))).status).toBe(200);
+    const limited = await post('searchAssistant', ask('2BR in Rongai'));
+    const otherIp = await post('searchAssistant', ask('2BR in Rongai'), { ip: '41.90.2.2' });
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('3600');
+    expect((await limited.json()).error.code).toBe('rate_limited');
+    expect(otherIp.status).toBe(200);
+  });
+
+  it('limits each user across IP addresses', async () => {
+    const { post } = setup();
+
+    for (let i = 0; i < 30; i++) {
+      expect((await post('listingEnhancement', { listing: LISTING }, { token: 'agent-1', ip: `41.90.2.${i}` })).status).toBe(200);
+    }
+    const limited = await post('listingEnhancement', { listing: LISTING }, { token: 'agent-1', ip: '41.90.3.1' });
+    const otherAgent = await post('listingEnhancement', { listing: LISTING }, { token: 'agent-2', ip: '41.90.3.1' });
+
+    expect(limited.status).toBe(429);
+    expect(otherAgent.status).toBe(200);
+  });
+
+  it('answers identical requests from the cache', async () => {
+    const { post, provider } = setup();
+
+    const miss = await post('searchAssistant', ask('2BR in Rongai'));
+    const hit = await post('searchAssistant', ask('2BR in Rongai'), { ip: '41.90.2.2' });
+    const other = await post('searchAssistant', ask('Bedsitter in Roysambu'));
+
+    expect(miss.headers.get('X-Cache')).toBeNull();
+    expect(hit.headers.get('X-Cache')).toBe('HIT');
+    expect(await hit.json()).toEqual(await miss.json());
+    expect(other.headers.get('X-Cache')).toBeNull();
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('never caches free-form text', async () => {
+    const { post, provider } = setup();
+
+    await post('text', { prompt: 'Write a welcome note' }, { token: 'agent-1' });
+    const again = await post('text', { prompt: 'Write a welcome note' }, { token: 'agent-1' });
+
+    expect(again.headers.get('X-Cache')).toBeNull();
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('streams text when asked to', async () => {
+    const { post } = setup();
+
+    const response = await post('text', { prompt: 'Write a welcome note', stream: true }, { token: 'agent-1' });
+
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(await response.text()).toBe('This is sample text from the fake AI provider.');
+  });
+});
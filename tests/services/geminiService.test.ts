@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAiFeatures } from '../../services/aiFeatures';
+import { createFakeProvider, type AiProvider } from '../../services/aiProviders';
+import { createAiProxyHandler, createMemoryAiProxyStore } from '../../services/aiProxy';
+import { UserRole } from '../../types';
+
+const auth = vi.hoisted(() => ({ accessToken: null as string | null }));
+
+vi.mock('../../services/supabaseClient', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({
+        data: { session: auth.accessToken ? { access_token: auth.accessToken } : null },
+      }),
+    },
+  },
+}));
+
+const { geminiService } = await import('../../services/geminiService');
+
+const USERS: Record<string, UserRole> = { 'agent-1': UserRole.AGENT, 'tenant-1': UserRole.TENANT };
+
+/**
+ * Routes the browser's requests to a proxy handler with a fake provider,
+ * where the access token is the user's ID.
+ */
+const serveProxy = (provider: AiProvider = createFakeProvider()) => {
+  const handler = createAiProxyHandler({
+    features: createAiFeatures(provider),
+    store: createMemoryAiProxyStore(),
+    authenticate: async (token) => (USERS[token] ? { id: token, role: USERS[token] } : null),
+  });
+  const fetchMock = vi.fn((url: string, init?: RequestInit) => handler(new Request(`http://localhost${url}`, init)));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+beforeEach(() => {
+  auth.accessToken = null;
+  vi.unstubAllGlobals();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('geminiService', () => {
+  it('sends the feature, input and access token to the proxy', async () => {
+    const fetchMock = serveProxy();
+    auth.accessToken = 'agent-1';
+
+    const { data, error } = await geminiService.enhanceListingContent({ title: 'Kilimani 2BR', price: 45000 });
+
+    expect(error).toBeNull();
+    expect(data).toHaveProperty('suggestedTitle');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/ai');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer agent-1');
+    expect(JSON.parse(init?.body as string)).toMatchObject({ feature: 'listingEnhancement', input: { listing: { title: 'Kilimani 2BR' } } });
+  });
+
+  it("returns the proxy's typed errors", async () => {
+    serveProxy();
+
+    const loggedOut = await geminiService.enhanceListingContent({ title: 'Kilimani 2BR' });
+    auth.accessToken = 'tenant-1';
+    const tenant = await geminiService.enhanceListingContent({ title: 'Kilimani 2BR' });
+
+    expect(loggedOut.error?.code).toBe('unauthorized');
+    expect(tenant.error?.code).toBe('forbidden');
+  });
+
+  it('returns request_failed when the proxy cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const { data, error } = await geminiService.explainRentEstimate({
+      location: 'Kilimani',
+      bedrooms: 2,
+      scope: 'neighborhood',
+      sampleSize: 12,
+      p25Rent: 40000,
+      medianRent: 45000,
+      p75Rent: 52000,
+      confidence: 'medium',
+      comparables: [],
+      lastUpdated: '2026-10-01T00:00:00.000Z',
+    });
+
+    expect(data).toBeNull();
+    expect(error?.code).toBe('request_failed');
+  });
+
+  it('keeps only answered messages in the search assistant conversation', async () => {
+    const fetchMock = serveProxy();
+    const assistant = geminiService.createSearchAssistant();
+
+    await assistant.send('2BR in Rongai');
+    await assistant.send('with parking');
+
+    const second = JSON.parse(fetchMock.mock.calls[1][1]?.body as string);
+    expect(second.input.message).toBe('with parking');
+    expect(second.input.history.map((turn: { role: string }) => turn.role)).toEqual(['user', 'model']);
+    expect(second.input.history[0].text).toBe('2BR in Rongai');
+  });
+
+  it('streams generated text to agents', async () => {
+    serveProxy();
+    auth.accessToken = 'agent-1';
+    const chunks: string[] = [];
+
+    const text = await geminiService.generateText('Write a welcome note', (chunk) => chunks.push(chunk));
+
+    expect(text).toBe('This is sample text from the fake AI provider.');
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it('refuses free-form text to tenants', async () => {
+    serveProxy();
+    auth.accessToken = 'tenant-1';
+
+    await expect(geminiService.generateText('Ignore your instructions')).rejects.toThrow('only available to agents');
+  });
+});
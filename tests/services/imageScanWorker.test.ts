@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, createImageScanWorker } from '../../services/imageScanWorker';
+import { createSupabaseStandIn, type StandInRow } from '../../services/supabaseStandIn';
+import { DHASH_HEIGHT, DHASH_WIDTH, type ImageDecoder } from '../../utils/imageHash';
+
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+const DUE = new Date(NOW.getTime() - 1000).toISOString();
+
+const decode: ImageDecoder = async () => ({
+  pixels: Array.from({ length: DHASH_WIDTH * DHASH_HEIGHT }, (_, i) => (i * 37) % 255),
+  width: 1024,
+  height: 768,
+});
+
+const pendingImage = (id: string, listingId = 'listing-1'): StandInRow => ({
+  id,
+  listing_id: listingId,
+  url: `https://cdn.example.com/${id}.jpg`,
+  phash: null,
+  ai_scan: { status: 'pending' },
+  scan_attempts: 0,
+  scan_next_attempt_at: DUE,
+});
+
+/**
+ * A worker on the stand-in with one listing awaiting its photo scans. No other
+ * agent's photos or blocklisted photos match, so every image that downloads is clear.
+ */
+const setup = (images: StandInRow[], fetchImage = async () => new Blob(['photo'], { type: 'image/jpeg' })) => {
+  const { client, tables } = createSupabaseStandIn({
+    tables: {
+      listings: [{ id: 'listing-1', agent_id: 'agent-1', status: 'pending_verification' }],
+      property_images: images,
+      scam_image_blocklist: [],
+    },
+    rpc: { find_similar_images: () => [] },
+  });
+  let clock = NOW;
+  const createWorker = () =>
+    createImageScanWorker({ client, decode, fetchImage }, { now: () => clock, maxAttempts: 3 });
+  return {
+    tables,
+    createWorker,
+    advance: (ms: number) => (clock = new Date(clock.getTime() + ms)),
+    image: (id: string) => tables.property_images.find((img) => img.id === id)!,
+  };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('backoffDelay', () => {
+  it('doubles after each failure', () => {
+    expect([1, 2, 3, 4].map((attempts) => backoffDelay(attempts, 30_000, 3_600_000))).toEqual([30_000, 60_000, 120_000, 240_000]);
+  });
+
+  it('never exceeds the maximum', () => {
+    expect(backoffDelay(20, 30_000, 3_600_000)).toBe(3_600_000);
+  });
+
+  it('uses the base delay for attempts below one', () => {
+    expect(backoffDelay(0, 30_000, 3_600_000)).toBe(30_000);
+  });
+});
+
+describe('createImageScanWorker', () => {
+  it('scans due images and publishes the listing once every image is clear', async () => {
+    const { createWorker, tables, image } = setup([pendingImage('img-1'), pendingImage('img-2')]);
+
+    const summary = await createWorker().runOnce();
+
+    expect(summary).toMatchObject({ processed: 2, clear: 2, failed: 0, publishedListingIds: ['listing-1'] });
+    expect(image('img-1')).toMatchObject({ ai_scan: { status: 'clear' }, scan_attempts: 1, phash: expect.stringMatching(/^[0-9a-f]{16}$/) });
+    expect(tables.listings[0].status).toBe('available');
+  });
+
+  it('lets only one of two parallel workers claim each image', async () => {
+    const fetchImage = vi.fn(async () => new Blob(['photo'], { type: 'image/jpeg' }));
+    const { createWorker, image } = setup([pendingImage('img-1'), pendingImage('img-2'), pendingImage('img-3')], fetchImage);
+
+    const [first, second] = await Promise.all([createWorker().runOnce(), createWorker().runOnce()]);
+
+    expect(first.processed + second.processed).toBe(3);
+    expect(fetchImage).toHaveBeenCalledTimes(3);
+    expect(['img-1', 'img-2', 'img-3'].map((id) => image(id).scan_attempts)).toEqual([1, 1, 1]);
+  });
+
+  it('hides a claimed image from other workers until its lease runs out', async () => {
+    const downloads: ((image: Blob) => void)[] = [];
+    const fetchImage = vi.fn(() => new Promise<Blob>((resolve) => downloads.push(resolve)));
+    const { createWorker, advance, image } = setup([pendingImage('img-1')], fetchImage);
+
+    const stuck = createWorker().runOnce();
+    await vi.waitFor(() => expect(fetchImage).toHaveBeenCalledTimes(1));
+
+    expect((await createWorker().runOnce()).processed).toBe(0);
+    expect(image('img-1').scan_next_attempt_at).toBe('2026-10-18T09:05:00.000Z');
+
+    advance(5 * 60 * 1000);
+    const takeover = createWorker().runOnce();
+    await vi.waitFor(() => expect(fetchImage).toHaveBeenCalledTimes(2));
+    downloads.forEach((resolve) => resolve(new Blob(['photo'], { type: 'image/jpeg' })));
+    expect((await takeover).processed).toBe(1);
+    expect((await stuck).processed).toBe(1);
+  });
+
+  it('retries failed scans with backoff and parks them after the last attempt', async () => {
+    const fetchImage = vi.fn(async () => {
+      throw new Error('Failed to fetch image (404)');
+    });
+    const { createWorker, advance, image, tables } = setup([pendingImage('img-1')], fetchImage);
+    const worker = createWorker();
+
+    expect(await worker.runOnce()).toMatchObject({ processed: 1, failed: 1 });
+    expect(image('img-1')).toMatchObject({
+      scan_attempts: 1,
+      scan_last_error: 'Failed to fetch image (404)',
+      scan_next_attempt_at: '2026-10-18T09:00:30.000Z',
+    });
+
+    expect((await worker.runOnce()).processed).toBe(0); // Not due yet
+    advance(30_000);
+    await worker.runOnce();
+    expect(image('img-1')).toMatchObject({ scan_attempts: 2, scan_next_attempt_at: '2026-10-18T09:01:30.000Z' });
+
+    advance(60_000);
+    expect(await worker.runOnce()).toMatchObject({ processed: 1, parked: 1 });
+    expect(image('img-1')).toMatchObject({ scan_attempts: 3, scan_next_attempt_at: null, ai_scan: { status: 'pending' } });
+    expect(tables.listings[0].status).toBe('pending_verification');
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Call = [method: string, ...args: unknown[]];
+
+const db = vi.hoisted(() => ({
+  calls: [] as Call[],
+  result: { data: [] as unknown[], error: null as { code: string } | null, count: 0 },
+}));
+
+vi.mock('../../services/supabaseClient', () => {
+  // Records every builder call; awaiting the query resolves to db.result
+  const builder = (): Record<string, unknown> => {
+    const query: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve(db.result).then(resolve, reject),
+    };
+    ['select', 'order', 'eq', 'in', 'not', 'gte', 'lte', 'contains', 'range'].forEach((method) => {
+      query[method] = (...args: unknown[]) => {
+        db.calls.push([method, ...args]);
+        return query;
+      };
+    });
+    return query;
+  };
+
+  return {
+    supabase: {
+      from: (table: string) => {
+        db.calls.push(['from', table]);
+        return builder();
+      },
+      rpc: (fn: string, args: unknown, options: unknown) => {
+        db.calls.push(['rpc', fn, args, options]);
+        return builder();
+      },
+    },
+  };
+});
+
+const { listingService } = await import('../../services/listingService');
+
+/** Calls after the table or function was chosen and the columns selected */
+const filterCalls = () => db.calls.filter(([method]) => !['from', 'rpc', 'select'].includes(method));
+
+beforeEach(() => {
+  db.calls = [];
+  db.result = { data: [], error: null, count: 0 };
+});
+
+describe('listingService listings query', () => {
+  it('hides unpublished listings and sorts newest first by default', async () => {
+    await listingService.getListings();
+
+    expect(db.calls[0]).toEqual(['from', 'listings']);
+    expect(filterCalls()).toEqual([
+      ['order', 'created_at', { ascending: false }],
+      ['order', 'id', { ascending: true }],
+      ['not', 'status', 'in', '(draft,pending_verification,rejected,expired,archived)'],
+    ]);
+  });
+
+  it('applies every filter', async () => {
+    await listingService.getListings({
+      agentId: 'agent-1',
+      listingIds: ['a', 'b'],
+      status: 'available',
+      bedrooms: 2,
+      minBedrooms: 1,
+      maxBedrooms: 3,
+      minBathrooms: 1,
+      maxBathrooms: 2,
+      minArea: 500,
+      amenities: ['Parking'],
+      propertyType: 'apartment',
+      furnished: false,
+      featuredOnly: true,
+      county: 'Nairobi',
+      minPrice: 20000,
+      maxPrice: 60000,
+    }, { sort: 'price_asc' });
+
+    expect(filterCalls()).toEqual([
+      ['order', 'price', { ascending: true }],
+      ['order', 'id', { ascending: true }],
+      ['eq', 'agent_id', 'agent-1'],
+      ['in', 'id', ['a', 'b']],
+      ['eq', 'status', 'available'],
+      ['eq', 'bedrooms', 2],
+      ['gte', 'bedrooms', 1],
+      ['lte', 'bedrooms', 3],
+      ['gte', 'bathrooms', 1],
+      ['lte', 'bathrooms', 2],
+      ['gte', 'area_sq_ft', 500],
+      ['contains', 'amenities', ['Parking']],
+      ['eq', 'property_type', 'apartment'],
+      ['eq', 'is_furnished', false],
+      ['eq', 'is_featured', true],
+      ['contains', 'location', { county: 'Nairobi' }],
+      ['gte', 'price', 20000],
+      ['lte', 'price', 60000],
+    ]);
+  });
+
+  it("shows all of an agent's own listings when no status is asked for", async () => {
+    await listingService.getListings({ agentId: 'agent-1' });
+
+    expect(filterCalls().some(([method]) => method === 'not')).toBe(false);
+  });
+
+  it('searches text through search_listings, keeping its ranking', async () => {
+    await listingService.getListings({ location: '  2 bedroom   near Yaya ', minBedrooms: 2 });
+
+    expect(db.calls[0]).toEqual(['rpc', 'search_listings', { search_text: '2 bedroom near Yaya' }, undefined]);
+    expect(filterCalls()).toEqual([
+      ['not', 'status', 'in', '(draft,pending_verification,rejected,expired,archived)'],
+      ['gte', 'bedrooms', 2],
+    ]);
+  });
+
+  it('lets an explicit sort override the search ranking', async () => {
+    await listingService.getListings({ location: 'Kilimani' }, { sort: 'most_viewed' });
+
+    expect(filterCalls().slice(0, 1)).toEqual([['order', 'views', { ascending: false }]]);
+  });
+
+  it('pages with a total count', async () => {
+    db.result = { data: [], error: null, count: 25 };
+
+    const page = await listingService.getListingsPage({ county: 'Nairobi' }, { page: 3, pageSize: 10 });
+
+    expect(db.calls[1]).toEqual(['select', expect.any(String), { count: 'exact' }]);
+    expect(db.calls.at(-1)).toEqual(['range', 20, 29]);
+    expect(page).toMatchObject({ listings: [], totalCount: 25, page: 3, pageSize: 10, totalPages: 3 });
+  });
+
+  it('treats a page past the end as empty', async () => {
+    db.result = { data: null as unknown as unknown[], error: { code: 'PGRST103' }, count: 0 };
+
+    const page = await listingService.getListingsPage({}, { page: 9 });
+
+    expect(page).toMatchObject({ listings: [], totalCount: 0, totalPages: 1 });
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeChannel } from '../../services/notificationChannels';
+import { createNotificationWorker } from '../../services/notificationWorker';
+import { createSupabaseStandIn, type StandInRow } from '../../services/supabaseStandIn';
+
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+const DUE = new Date(NOW.getTime() - 1000).toISOString();
+
+const MATCH = { searchName: 'Kilimani 2BR', listingId: 'listing-1', listingTitle: 'Sunny 2BR with parking', price: 45000 };
+
+const queued = (id: number, userId: string, channel: string): StandInRow => ({
+  id,
+  user_id: userId,
+  channel,
+  type: 'saved_search_match',
+  data: MATCH,
+  status: 'queued',
+  attempts: 0,
+  next_attempt_at: DUE,
+});
+
+const alert = (id: number, userId: string, channel: string, frequency: 'instant' | 'daily'): StandInRow => ({
+  id,
+  saved_search_id: 'search-1',
+  user_id: userId,
+  listing_id: 'listing-1',
+  channel,
+  frequency,
+  status: 'queued',
+  deliver_after: DUE,
+  created_at: DUE,
+});
+
+/**
+ * A worker on the stand-in with fake channels. Achieng has an email address and a
+ * phone number; Otieno has neither.
+ */
+const setup = (tables: { notification_deliveries?: StandInRow[]; saved_search_alerts?: StandInRow[] }, failFor: string[] = []) => {
+  const { client, tables: db } = createSupabaseStandIn({
+    tables: {
+      profiles: [
+        { id: 'achieng', email: 'achieng@example.com', phone_number: '0712 345 678' },
+        { id: 'otieno', email: null, phone_number: null },
+      ],
+      listings: [{ id: 'listing-1', title: 'Sunny 2BR with parking', price: 45000 }],
+      saved_searches: [{ id: 'search-1', name: 'Kilimani 2BR' }],
+      saved_search_alerts: tables.saved_search_alerts ?? [],
+      notification_deliveries: tables.notification_deliveries ?? [],
+    },
+    rpc: { run_listing_lifecycle: () => ({ reminded: 0, expired: 0, archived: 0 }) },
+  });
+  const email = createFakeChannel('email', { failFor });
+  const inApp = createFakeChannel('in_app');
+  let clock = NOW;
+  const createWorker = () =>
+    createNotificationWorker({ client, channels: { email, in_app: inApp } }, { now: () => clock, maxAttempts: 3 });
+  return {
+    client,
+    db,
+    email,
+    inApp,
+    createWorker,
+    advance: (ms: number) => (clock = new Date(clock.getTime() + ms)),
+    delivery: (id: number) => db.notification_deliveries.find((d) => d.id === id)!,
+  };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createNotificationWorker', () => {
+  it("sends due deliveries to the user's address on each channel", async () => {
+    const { createWorker, email, inApp, delivery } = setup({
+      notification_deliveries: [queued(1, 'achieng', 'email'), queued(2, 'achieng', 'in_app')],
+    });
+
+    const summary = await createWorker().runOnce();
+
+    expect(summary).toMatchObject({ processed: 2, sent: 2 });
+    expect(email.sent.map((n) => n.address)).toEqual(['achieng@example.com']);
+    expect(email.sent[0].message.title).toBe('New match for "Kilimani 2BR"');
+    expect(inApp.sent.map((n) => n.address)).toEqual(['achieng']);
+    expect(delivery(1)).toMatchObject({ status: 'sent', attempts: 1, recipient: 'achieng@example.com', next_attempt_at: null });
+  });
+
+  it('skips deliveries without an address or a configured channel', async () => {
+    const { createWorker, delivery } = setup({
+      notification_deliveries: [queued(1, 'otieno', 'email'), queued(2, 'achieng', 'sms')],
+    });
+
+    const summary = await createWorker().runOnce();
+
+    expect(summary).toMatchObject({ processed: 2, skipped: 2, sent: 0 });
+    expect(delivery(1)).toMatchObject({ status: 'skipped', last_error: 'No email address on profile' });
+    expect(delivery(2)).toMatchObject({ status: 'skipped', last_error: 'No sms channel configured' });
+  });
+
+  it('retries failed deliveries with backoff and gives up after the last attempt', async () => {
+    const { createWorker, advance, delivery } = setup(
+      { notification_deliveries: [queued(1, 'achieng', 'email')] },
+      ['achieng@example.com']
+    );
+    const worker = createWorker();
+
+    expect(await worker.runOnce()).toMatchObject({ processed: 1, retrying: 1 });
+    expect(delivery(1)).toMatchObject({ status: 'queued', attempts: 1, next_attempt_at: '2026-10-18T09:00:30.000Z' });
+
+    expect((await worker.runOnce()).processed).toBe(0); // Not due yet
+    advance(30_000);
+    await worker.runOnce();
+    expect(delivery(1)).toMatchObject({ attempts: 2, next_attempt_at: '2026-10-18T09:01:30.000Z' });
+
+    advance(60_000);
+    expect(await worker.runOnce()).toMatchObject({ processed: 1, failed: 1 });
+    expect(delivery(1)).toMatchObject({ status: 'failed', attempts: 3, next_attempt_at: null });
+  });
+
+  it('lets only one of two parallel workers claim each delivery', async () => {
+    const { createWorker, email } = setup({
+      notification_deliveries: [1, 2, 3].map((id) => queued(id, 'achieng', 'email')),
+    });
+
+    const [first, second] = await Promise.all([createWorker().runOnce(), createWorker().runOnce()]);
+
+    expect(first.sent + second.sent).toBe(3);
+    expect(email.sent).toHaveLength(3);
+  });
+
+  it('turns instant alerts into matches and daily alerts into one digest per user and channel', async () => {
+    const { createWorker, db } = setup({
+      saved_search_alerts: [
+        alert(1, 'achieng', 'in_app', 'instant'),
+        alert(2, 'achieng', 'email', 'daily'),
+        alert(3, 'achieng', 'email', 'daily'),
+      ],
+    });
+
+    const [first, second] = await Promise.all([createWorker().runOnce(), createWorker().runOnce()]);
+
+    expect(first.alertsQueued + second.alertsQueued).toBe(3);
+    expect(db.saved_search_alerts.every((a) => a.status === 'sent')).toBe(true);
+    expect(db.notification_deliveries.map(({ channel, type }) => ({ channel, type }))).toEqual([
+      { channel: 'in_app', type: 'saved_search_match' },
+      { channel: 'email', type: 'saved_search_digest' },
+    ]);
+    expect((db.notification_deliveries[1].data as { matches: unknown[] }).matches).toHaveLength(2);
+  });
+
+  it('puts alerts back in the queue when their deliveries cannot be inserted', async () => {
+    const { client, createWorker, db } = setup({ saved_search_alerts: [alert(1, 'achieng', 'in_app', 'instant')] });
+    const from = client.from.bind(client);
+    const fromSpy = vi.spyOn(client, 'from').mockImplementation(((table: string) => {
+      const query = from(table);
+      if (table === 'notification_deliveries') {
+        query.insert = (() => Promise.resolve({ data: null, error: { message: 'could not extend file' } })) as never;
+      }
+      return query;
+    }) as typeof client.from);
+
+    expect((await createWorker().runOnce()).alertsQueued).toBe(0);
+    expect(db.saved_search_alerts[0]).toMatchObject({ status: 'queued', sent_at: null });
+
+    fromSpy.mockRestore();
+    expect((await createWorker().runOnce()).alertsQueued).toBe(1);
+    expect(db.notification_deliveries).toHaveLength(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StkResult } from '../../services/darajaClient';
+import { createPaymentService } from '../../services/paymentService';
+import { createSupabaseStandIn, type StandInRow, type StandInTables } from '../../services/supabaseStandIn';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-18T09:00:00.000Z');
+
+/** Daraja's STK callback body for a result */
+const callbackBody = (checkoutRequestId: string, resultCode: number, amount?: number, receipt?: string) => ({
+  Body: {
+    stkCallback: {
+      CheckoutRequestID: checkoutRequestId,
+      ResultCode: resultCode,
+      ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+      CallbackMetadata: resultCode === 0
+        ? { Item: [{ Name: 'Amount', Value: amount }, { Name: 'MpesaReceiptNumber', Value: receipt }] }
+        : undefined,
+    },
+  },
+});
+
+/**
+ * A payment service on the stand-in, with a scripted Daraja. apply_featured_payment
+ * behaves like the SQL function and can be made to fail a number of times.
+ */
+const setup = () => {
+  let applyFailures = 0;
+  let checkoutCount = 0;
+  const { client, tables } = createSupabaseStandIn({
+    tables: {
+      listings: [{ id: 'listing-1', agent_id: 'agent-1', status: 'available', is_featured: false, featured_until: null }],
+      payments: [],
+    } as StandInTables,
+    rpc: {
+      apply_featured_payment: (db, { target_payment }) => {
+        if (applyFailures > 0) {
+          applyFailures--;
+          throw new Error('could not obtain lock on row in relation "listings"');
+        }
+        const payment = db.payments.find((p) => p.id === target_payment)!;
+        if (payment.status !== 'succeeded') throw new Error('Payment has not succeeded');
+        if (payment.featured_until) return payment.featured_until;
+        const listing = db.listings.find((l) => l.id === payment.listing_id)!;
+        listing.is_featured = true;
+        listing.featured_until = new Date(NOW.getTime() + (payment.featured_days as number) * DAY_MS).toISOString();
+        payment.featured_until = listing.featured_until;
+        return payment.featured_until;
+      },
+    },
+  });
+  const daraja = {
+    stkPush: vi.fn(async () => {
+      checkoutCount++;
+      return { merchantRequestId: `m-${checkoutCount}`, checkoutRequestId: `ws_CO_${checkoutCount}`, customerMessage: 'Success. Request accepted for processing' };
+    }),
+    queryStkPush: vi.fn(async (): Promise<StkResult | null> => null),
+  };
+  let clock = NOW;
+  const payments = createPaymentService(
+    { client, daraja, callbackUrl: 'https://pay.example.com/mpesa/callback/token' },
+    { now: () => clock }
+  );
+
+  const buy = () => payments.startFeaturedPurchase({ userId: 'agent-1', listingId: 'listing-1', planId: 'featured_7d', phoneNumber: '0712 345 678' });
+
+  return {
+    payments,
+    tables,
+    daraja,
+    buy,
+    failApply: (times: number) => (applyFailures = times),
+    advance: (ms: number) => (clock = new Date(clock.getTime() + ms)),
+    payment: (): StandInRow => tables.payments[0],
+    listing: (): StandInRow => tables.listings[0],
+  };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('paymentService settling', () => {
+  it('features the listing once when Safaricom confirms the full amount', async () => {
+    const { payments, buy, payment, listing } = setup();
+    await buy();
+
+    const status = await payments.handleStkCallback(callbackBody('ws_CO_1', 0, 500, 'NLJ7RT61SV'));
+
+    expect(status).toBe('succeeded');
+    expect(payment()).toMatchObject({ status: 'succeeded', mpesa_receipt: 'NLJ7RT61SV', featured_until: listing().featured_until });
+    expect(listing()).toMatchObject({ is_featured: true, featured_until: '2026-10-25T09:00:00.000Z' });
+  });
+
+  it('ignores repeated callbacks', async () => {
+    const { payments, buy, listing } = setup();
+    await buy();
+    await payments.handleStkCallback(callbackBody('ws_CO_1', 0, 500, 'NLJ7RT61SV'));
+
+    const again = await payments.handleStkCallback(callbackBody('ws_CO_1', 0, 500, 'NLJ7RT61SV'));
+    const cancelled = await payments.handleStkCallback(callbackBody('ws_CO_1', 1032));
+
+    expect(again).toBeNull();
+    expect(cancelled).toBeNull();
+    expect(listing().featured_until).toBe('2026-10-25T09:00:00.000Z');
+  });
+
+  it('never features a listing for less than the plan price', async () => {
+    const { payments, buy, payment, listing } = setup();
+    await buy();
+
+    const status = await payments.handleStkCallback(callbackBody('ws_CO_1', 0, 1, 'NLJ7RT61SV'));
+
+    expect(status).toBe('failed');
+    expect(payment()).toMatchObject({ status: 'failed', result_code: -1, result_desc: 'Amount mismatch: paid KES 1', mpesa_receipt: 'NLJ7RT61SV' });
+    expect(listing().is_featured).toBe(false);
+  });
+
+  it('still succeeds when the payment arrives after it expired', async () => {
+    const { payments, buy, daraja, advance, listing } = setup();
+    await buy();
+    advance(11 * 60 * 1000);
+    await payments.reconcilePendingPayments();
+
+    const status = await payments.handleStkCallback(callbackBody('ws_CO_1', 0, 500, 'NLJ7RT61SV'));
+
+    expect(daraja.queryStkPush).toHaveBeenCalledWith('ws_CO_1');
+    expect(status).toBe('succeeded');
+    expect(listing().is_featured).toBe(true);
+  });
+
+  it('settles a payment whose callback never came by querying Daraja', async () => {
+    const { payments, buy, daraja, advance, payment } = setup();
+    await buy();
+    daraja.queryStkPush.mockResolvedValue({ checkoutRequestId: 'ws_CO_1', resultCode: 1032, resultDesc: 'Request cancelled by user' });
+
+    const early = await payments.reconcilePendingPayments();
+    advance(2 * 60 * 1000);
+    const later = await payments.reconcilePendingPayments();
+
+    expect(early.checked).toBe(0);
+    expect(later).toMatchObject({ checked: 1, failed: 1 });
+    expect(payment().status).toBe('failed');
+  });
+
+  it('features the listing on the next sweep when featuring failed after payment', async () => {
+    const { payments, buy, failApply, payment, listing } = setup();
+    await buy();
+    failApply(1);
+
+    await expect(payments.handleStkCallback(callbackBody('ws_CO_1', 0, 500, 'NLJ7RT61SV'))).rejects.toThrow();
+    expect(payment().status).toBe('succeeded');
+    expect(listing().is_featured).toBe(false);
+
+    const summary = await payments.reconcilePendingPayments();
+    const next = await payments.reconcilePendingPayments();
+
+    expect(summary.featured).toBe(1);
+    expect(next.featured).toBe(0);
+    expect(listing()).toMatchObject({ is_featured: true, featured_until: '2026-10-25T09:00:00.000Z' });
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ListingDailyStats } from '../../types';
+import { buildDailySeries, daysAgo, eachDay, sumSeries } from '../../utils/analyticsSeries';
+
+const stats = (listingId: string, day: string, counts: Partial<ListingDailyStats> = {}): ListingDailyStats => ({
+  listingId,
+  day,
+  impressions: 0,
+  views: 0,
+  contactClicks: 0,
+  whatsappShares: 0,
+  saves: 0,
+  inquiries: 0,
+  ...counts,
+});
+
+const ZERO = { impressions: 0, views: 0, contactClicks: 0, whatsappShares: 0, saves: 0, inquiries: 0 };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('eachDay', () => {
+  it('lists every day in the range, across month ends', () => {
+    expect(eachDay('2026-10-30', '2026-11-02')).toEqual(['2026-10-30', '2026-10-31', '2026-11-01', '2026-11-02']);
+  });
+
+  it('returns one day for a single-day range and none for a reversed one', () => {
+    expect(eachDay('2026-10-18', '2026-10-18')).toEqual(['2026-10-18']);
+    expect(eachDay('2026-10-18', '2026-10-17')).toEqual([]);
+  });
+});
+
+describe('daysAgo', () => {
+  it('counts back from today', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 2, 2, 12));
+
+    expect(daysAgo(0)).toBe('2026-03-02');
+    expect(daysAgo(2)).toBe('2026-02-28');
+  });
+});
+
+describe('buildDailySeries', () => {
+  it('fills days without activity with zeros', () => {
+    const series = buildDailySeries([stats('a', '2026-10-02', { views: 4 })], '2026-10-01', '2026-10-03');
+
+    expect(series).toEqual([
+      { day: '2026-10-01', ...ZERO },
+      { day: '2026-10-02', ...ZERO, views: 4 },
+      { day: '2026-10-03', ...ZERO },
+    ]);
+  });
+
+  it('adds up every listing for the same day', () => {
+    const series = buildDailySeries([
+      stats('a', '2026-10-01', { impressions: 10, views: 2, saves: 1 }),
+      stats('b', '2026-10-01', { impressions: 5, views: 1, contactClicks: 1, whatsappShares: 2, inquiries: 1 }),
+    ], '2026-10-01', '2026-10-01');
+
+    expect(series).toEqual([{ day: '2026-10-01', impressions: 15, views: 3, contactClicks: 1, whatsappShares: 2, saves: 1, inquiries: 1 }]);
+  });
+
+  it('leaves out rows outside the range', () => {
+    const series = buildDailySeries([stats('a', '2026-09-30', { views: 9 }), stats('a', '2026-10-04', { views: 9 })], '2026-10-01', '2026-10-03');
+
+    expect(sumSeries(series).views).toBe(0);
+    expect(series).toHaveLength(3);
+  });
+});
+
+describe('sumSeries', () => {
+  it('totals each counter across the range', () => {
+    const series = buildDailySeries([
+      stats('a', '2026-10-01', { views: 2, inquiries: 1 }),
+      stats('a', '2026-10-03', { views: 3, saves: 2 }),
+    ], '2026-10-01', '2026-10-03');
+
+    expect(sumSeries(series)).toEqual({ ...ZERO, views: 5, saves: 2, inquiries: 1 });
+    expect(sumSeries([])).toEqual(ZERO);
+  });
+});
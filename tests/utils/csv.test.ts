@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '../../utils/csv';
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with CRLF', () => {
+    expect(toCsv(['day', 'views'], [['2026-10-01', 12], ['2026-10-02', 0]])).toBe('day,views\r\n2026-10-01,12\r\n2026-10-02,0');
+  });
+
+  it('quotes cells with commas, quotes or line breaks and doubles their quotes', () => {
+    const csv = toCsv(['listing', 'views'], [
+      ['Kilimani, 2BR', 3],
+      ['The "Palms" Apartments', 4],
+      ['Top floor\nwith lift', 5],
+      ['Studio\r\nRoysambu', 6],
+    ]);
+
+    expect(csv).toBe(
+      'listing,views\r\n' +
+      '"Kilimani, 2BR",3\r\n' +
+      '"The ""Palms"" Apartments",4\r\n' +
+      '"Top floor\nwith lift",5\r\n' +
+      '"Studio\r\nRoysambu",6'
+    );
+  });
+
+  it('leaves other punctuation unquoted', () => {
+    expect(toCsv(['title'], [["Mama Njeri's bedsitter; KES 8,000"]])).toBe('title\r\n"Mama Njeri\'s bedsitter; KES 8,000"');
+    expect(toCsv(['title'], [["Mama Njeri's bedsitter; near stage"]])).toBe("title\r\nMama Njeri's bedsitter; near stage");
+  });
+
+  it('writes only the header when there are no rows', () => {
+    expect(toCsv(['day', 'views'], [])).toBe('day,views');
+  });
+});
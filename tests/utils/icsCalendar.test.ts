@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildCalendarEvent, buildViewingCalendarEvent } from '../../utils/icsCalendar';
+
+const VIEWING = {
+  bookingId: 'b1',
+  sequence: 0,
+  startsAt: '2026-10-24T10:00:00+03:00',
+  endsAt: '2026-10-24T10:30:00+03:00',
+  listingTitle: 'Kilimani 2BR',
+  location: 'Argwings Kodhek Road, Kilimani',
+  withName: 'Achieng Otieno',
+};
+
+/** The content lines, with folded lines joined back together */
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-18T09:00:00.123Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('buildCalendarEvent', () => {
+  it('writes a confirmed event with UTC times and CRLF line endings', () => {
+    const ics = buildViewingCalendarEvent(VIEWING);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(unfold(ics)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Rentify Kenya//Viewings//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'BEGIN:VEVENT',
+      'UID:viewing-b1@rentify.co.ke',
+      'SEQUENCE:0',
+      'DTSTAMP:20261018T090000Z',
+      'DTSTART:20261024T070000Z',
+      'DTEND:20261024T073000Z',
+      'SUMMARY:Viewing: Kilimani 2BR',
+      'DESCRIPTION:House viewing with Achieng Otieno\\, booked on Rentify Kenya.',
+      'LOCATION:Argwings Kodhek Road\\, Kilimani',
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('escapes backslashes, semicolons, commas and newlines in text', () => {
+    const ics = buildCalendarEvent({
+      uid: 'u1',
+      sequence: 0,
+      startsAt: VIEWING.startsAt,
+      endsAt: VIEWING.endsAt,
+      summary: 'Gate C\\D; bring ID, KRA PIN',
+      description: 'Call on arrival.\r\nAsk for the caretaker.\nPark outside.',
+    });
+
+    expect(unfold(ics)).toContain('SUMMARY:Gate C\\\\D\\; bring ID\\, KRA PIN');
+    expect(unfold(ics)).toContain('DESCRIPTION:Call on arrival.\\nAsk for the caretaker.\\nPark outside.');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const description = 'Viewing at Nyayo Estate – Embakasi, past the Naivas supermarket ✓ '.repeat(4);
+    const ics = buildCalendarEvent({ uid: 'u1', sequence: 0, startsAt: VIEWING.startsAt, endsAt: VIEWING.endsAt, summary: 'Viewing', description });
+
+    const lines = ics.split('\r\n');
+    const octets = lines.map((line) => new TextEncoder().encode(line).length);
+    expect(Math.max(...octets)).toBeLessThanOrEqual(75);
+    expect(lines.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(2);
+    expect(lines.some((line) => line.includes('�'))).toBe(false);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description.replace(/,/g, '\\,')}`);
+  });
+
+  it('keeps the UID and bumps SEQUENCE when a viewing is rescheduled', () => {
+    const rescheduled = unfold(buildViewingCalendarEvent({
+      ...VIEWING,
+      sequence: 1,
+      startsAt: '2026-10-25T14:00:00+03:00',
+      endsAt: '2026-10-25T14:30:00+03:00',
+    }));
+
+    expect(rescheduled).toEqual(expect.arrayContaining([
+      'METHOD:PUBLISH',
+      'UID:viewing-b1@rentify.co.ke',
+      'SEQUENCE:1',
+      'DTSTART:20261025T110000Z',
+      'STATUS:CONFIRMED',
+    ]));
+  });
+
+  it('marks a cancelled viewing as cancelled under the same UID', () => {
+    const cancelled = unfold(buildViewingCalendarEvent({ ...VIEWING, sequence: 2, cancelled: true }));
+
+    expect(cancelled).toEqual(expect.arrayContaining([
+      'METHOD:CANCEL',
+      'UID:viewing-b1@rentify.co.ke',
+      'SEQUENCE:2',
+      'STATUS:CANCELLED',
+    ]));
+  });
+});
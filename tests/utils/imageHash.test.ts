@@ -0,0 +1,88 @@
+// @vitest-environment node
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { decodeImageWithSharp } from '../../utils/imageDecoderNode';
+import {
+  computeImageHash,
+  dHashFromGrayscale,
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+  hammingDistance,
+  SIMILAR_HASH_MAX_DISTANCE,
+} from '../../utils/imageHash';
+
+type Scene = (u: number, v: number) => number;
+
+// Brightness by position (0 to 1 across and down), so a scene looks the same at any size
+const livingRoom: Scene = (u, v) =>
+  (u > 0.55 && u < 0.85 && v > 0.2 && v < 0.6 ? 40 : 150) + 60 * Math.sin(u * 7) * Math.cos(v * 5);
+const kitchen: Scene = (u, v) => 230 - 180 * v + (Math.hypot(u - 0.3, v - 0.7) < 0.2 ? -90 : 0) + 30 * Math.cos(u * 11);
+
+/** Renders a scene as a JPEG of the given size */
+const photo = async (scene: Scene, width: number, height: number, quality = 90): Promise<Blob> => {
+  const rgb = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rgb.fill(Math.max(0, Math.min(255, Math.round(scene(x / width, y / height)))), (y * width + x) * 3, (y * width + x + 1) * 3);
+    }
+  }
+  const jpeg = await sharp(rgb, { raw: { width, height, channels: 3 } }).jpeg({ quality }).toBuffer();
+  return new Blob([new Uint8Array(jpeg)], { type: 'image/jpeg' });
+};
+
+const hashOf = async (image: Blob) => (await computeImageHash(image, decodeImageWithSharp)).hash;
+
+describe('dHashFromGrayscale', () => {
+  it('sets a bit wherever a pixel is brighter than its right-hand neighbour', () => {
+    // Every row falls from left to right except the last, which rises
+    const pixels = Array.from({ length: DHASH_WIDTH * DHASH_HEIGHT }, (_, i) => {
+      const row = Math.floor(i / DHASH_WIDTH);
+      const col = i % DHASH_WIDTH;
+      return row === DHASH_HEIGHT - 1 ? col : 100 - col;
+    });
+
+    expect(dHashFromGrayscale(pixels)).toBe('ffffffffffffff00');
+  });
+
+  it('rejects a grid of the wrong size', () => {
+    expect(() => dHashFromGrayscale(new Array(64).fill(0))).toThrow('Expected 72 pixels, got 64');
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts the differing bits', () => {
+    expect(hammingDistance('f0e4c8d8b0e0c0c1', 'f0e4c8d8b0e0c0c1')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+
+  it('rejects hashes of different lengths', () => {
+    expect(() => hammingDistance('ff', 'fff')).toThrow('Hashes must have the same length');
+  });
+});
+
+describe('computeImageHash', () => {
+  it('gives the same photo the same hash and its original size', async () => {
+    const image = await photo(livingRoom, 640, 480);
+
+    const first = await computeImageHash(image, decodeImageWithSharp);
+    const second = await computeImageHash(image, decodeImageWithSharp);
+
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ width: 640, height: 480, hash: expect.stringMatching(/^[0-9a-f]{16}$/) });
+  });
+
+  it('matches a resized, recompressed copy within the threshold', async () => {
+    const original = await hashOf(await photo(livingRoom, 1280, 960));
+    const copy = await hashOf(await photo(livingRoom, 400, 300, 60));
+
+    expect(hammingDistance(original, copy)).toBeLessThanOrEqual(SIMILAR_HASH_MAX_DISTANCE);
+  });
+
+  it('keeps different photos apart', async () => {
+    const livingRoomHash = await hashOf(await photo(livingRoom, 640, 480));
+    const kitchenHash = await hashOf(await photo(kitchen, 640, 480));
+
+    expect(hammingDistance(livingRoomHash, kitchenHash)).toBeGreaterThan(SIMILAR_HASH_MAX_DISTANCE);
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const storage = vi.hoisted(() => ({
+  user: { id: 'agent-1', email: 'agent@example.com' } as { id: string; email: string } | null,
+  uploads: [] as { path: string; options?: { upsert?: boolean } }[],
+  failUploads: 0,
+  inserts: [] as Record<string, unknown>[],
+}));
+
+vi.mock('../../services/supabaseClient', () => ({
+  supabase: {
+    auth: {
+      getUser: async () => ({ data: { user: storage.user }, error: null }),
+    },
+    storage: {
+      from: () => ({
+        upload: async (path: string, _file: File, options?: { upsert?: boolean }) => {
+          storage.uploads.push({ path, options });
+          if (storage.failUploads > 0) {
+            storage.failUploads--;
+            return { error: new Error('Upload failed') };
+          }
+          return { error: null };
+        },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.example.com/${path}` } }),
+      }),
+    },
+    from: () => ({
+      insert: async (rows: Record<string, unknown>[]) => {
+        storage.inserts.push(...rows);
+        return { error: null };
+      },
+    }),
+  },
+}));
+
+const { uploadImagesToStorageAndSaveMetadata } = await import('../../utils/imageUploadHelper');
+
+const image = (name: string, type = 'image/jpeg', size = 1024) =>
+  new File([new Uint8Array(size)], name, { type });
+
+beforeEach(() => {
+  storage.user = { id: 'agent-1', email: 'agent@example.com' };
+  storage.uploads = [];
+  storage.failUploads = 0;
+  storage.inserts = [];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('uploadImagesToStorageAndSaveMetadata', () => {
+  it("uploads each image under the listing's folder and queues it for scanning", async () => {
+    const urls = await uploadImagesToStorageAndSaveMetadata('listing-1', [image('front.png', 'image/png')]);
+
+    expect(storage.uploads).toHaveLength(1);
+    expect(storage.uploads[0].path).toMatch(/^listing-1\/[0-9a-f-]{36}\.png$/);
+    expect(urls).toEqual([`https://cdn.example.com/${storage.uploads[0].path}`]);
+    expect(storage.inserts).toEqual([
+      expect.objectContaining({ listing_id: 'listing-1', url: urls[0], ai_scan: expect.objectContaining({ status: 'pending' }) }),
+    ]);
+  });
+
+  it('skips files that are not images or are larger than 10MB', async () => {
+    const urls = await uploadImagesToStorageAndSaveMetadata('listing-1', [
+      image('lease.pdf', 'application/pdf'),
+      image('huge.jpg', 'image/jpeg', 10 * 1024 * 1024 + 1),
+      image('kitchen.jpg'),
+    ]);
+
+    expect(urls).toHaveLength(1);
+    expect(storage.uploads).toHaveLength(1);
+    expect(storage.inserts).toHaveLength(1);
+  });
+
+  it('retries a failed upload once with upsert', async () => {
+    storage.failUploads = 1;
+
+    const urls = await uploadImagesToStorageAndSaveMetadata('listing-1', [image('kitchen.jpg')]);
+
+    expect(urls).toHaveLength(1);
+    expect(storage.uploads.map((upload) => upload.options?.upsert ?? false)).toEqual([false, true]);
+  });
+
+  it('leaves out files whose upload fails twice', async () => {
+    storage.failUploads = 2;
+
+    const urls = await uploadImagesToStorageAndSaveMetadata('listing-1', [image('kitchen.jpg')]);
+
+    expect(urls).toEqual([]);
+    expect(storage.inserts).toEqual([]);
+  });
+
+  it('requires a logged-in user', async () => {
+    storage.user = null;
+
+    await expect(uploadImagesToStorageAndSaveMetadata('listing-1', [image('kitchen.jpg')])).rejects.toThrow(
+      'User must be authenticated to upload images'
+    );
+    expect(storage.uploads).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonText, validateJson, type JsonSchema } from '../../utils/jsonSchema';
+
+const LISTING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    price: { type: 'number', minimum: 0 },
+    bedrooms: { type: 'integer', maximum: 10 },
+    furnished: { type: 'boolean' },
+    scope: { type: 'string', enum: ['neighborhood', 'county'] },
+    amenities: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title', 'price'],
+};
+
+describe('validateJson', () => {
+  it('accepts a value that matches the schema', () => {
+    expect(validateJson(LISTING_SCHEMA, {
+      title: 'Kilimani 2BR',
+      price: 45000,
+      bedrooms: 2,
+      furnished: false,
+      scope: 'county',
+      amenities: ['Parking', 'Borehole'],
+    })).toEqual([]);
+  });
+
+  it('reports missing required fields', () => {
+    expect(validateJson(LISTING_SCHEMA, { title: 'Kilimani 2BR' })).toEqual(['reply.price is required']);
+  });
+
+  it('lets optional fields be left out or sent as null', () => {
+    expect(validateJson(LISTING_SCHEMA, { title: 'Studio', price: 15000, bedrooms: null, amenities: null })).toEqual([]);
+  });
+
+  it('rejects null for a required field', () => {
+    expect(validateJson(LISTING_SCHEMA, { title: null, price: 15000 })).toEqual(['reply.title must be a string, got null']);
+  });
+
+  it('reports wrong types with the path to the value', () => {
+    expect(validateJson(LISTING_SCHEMA, {
+      title: 'Studio',
+      price: '30k',
+      furnished: 'yes',
+      amenities: ['Parking', 3],
+    })).toEqual([
+      'reply.price must be a number, got string "30k"',
+      'reply.furnished must be true or false, got string',
+      'reply.amenities[1] must be a string, got number',
+    ]);
+  });
+
+  it('checks whole numbers, ranges and enums', () => {
+    expect(validateJson(LISTING_SCHEMA, { title: 'Studio', price: -1, bedrooms: 2.5, scope: 'city' })).toEqual([
+      'reply.price must be at least 0, got -1',
+      'reply.bedrooms must be a whole number, got 2.5',
+      'reply.scope must be one of "neighborhood", "county", got "city"',
+    ]);
+    expect(validateJson(LISTING_SCHEMA, { title: 'Mansion', price: 1, bedrooms: 12 })).toEqual([
+      'reply.bedrooms must be at most 10, got 12',
+    ]);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(validateJson({ type: 'number' }, Number.NaN)).toEqual(['reply must be a number, got number']);
+  });
+
+  it('reports a top-level value of the wrong kind', () => {
+    expect(validateJson(LISTING_SCHEMA, [])).toEqual(['reply must be an object, got array']);
+    expect(validateJson({ type: 'array' }, {})).toEqual(['reply must be an array, got object']);
+  });
+});
+
+describe('parseJsonText', () => {
+  it('parses plain and fenced JSON', () => {
+    expect(parseJsonText('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonText('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parseJsonText('Sure! Here is your listing.')).toThrow('AI reply is not valid JSON');
+  });
+});
@@ -0,0 +1,84 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  deleteLocalDraft,
+  getLocalDraft,
+  localDraftKey,
+  saveLocalDraft,
+  type ListingFormFields,
+  type LocalListingDraft,
+} from '../../utils/listingDraftStore';
+
+const FIELDS: ListingFormFields = {
+  title: 'Sunny 2BR with parking',
+  description: 'Bright two-bedroom flat',
+  location: { address: 'Argwings Kodhek Road', county: 'Nairobi', neighborhood: 'Kilimani' },
+  price: 45000,
+  bedrooms: 2,
+  bathrooms: 1,
+  areaSqFt: 0,
+  propertyType: 'apartment',
+  isFurnished: false,
+  amenities: ['Parking'],
+  images: [],
+  status: 'pending_verification',
+  isFeatured: false,
+} as ListingFormFields;
+
+const draft = (key: string, overrides: Partial<LocalListingDraft> = {}): LocalListingDraft => ({
+  key,
+  formData: FIELDS,
+  imageFiles: [],
+  imagesToRemove: [],
+  savedAt: '2026-10-18T09:00:00.000Z',
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory()); // A fresh, empty database for each test
+});
+
+describe('localDraftKey', () => {
+  it('keys a form by agent and listing, with "new" for a listing not saved anywhere yet', () => {
+    expect(localDraftKey('agent-1')).toBe('agent-1:new');
+    expect(localDraftKey('agent-1', null)).toBe('agent-1:new');
+    expect(localDraftKey('agent-1', 'draft-9')).toBe('agent-1:draft-9');
+  });
+});
+
+describe('listing draft store', () => {
+  it('returns null when nothing was saved', async () => {
+    expect(await getLocalDraft('agent-1:new')).toBeNull();
+  });
+
+  it('loads what was saved, including the server draft and removed images', async () => {
+    await saveLocalDraft(draft('agent-1:new', { draftId: 'draft-9', imagesToRemove: ['img-1'] }));
+
+    expect(await getLocalDraft('agent-1:new')).toEqual(draft('agent-1:new', { draftId: 'draft-9', imagesToRemove: ['img-1'] }));
+  });
+
+  it('replaces the previous copy of the same form', async () => {
+    await saveLocalDraft(draft('agent-1:new'));
+    await saveLocalDraft(draft('agent-1:new', { formData: { ...FIELDS, price: 50000 }, savedAt: '2026-10-18T09:05:00.000Z' }));
+
+    const saved = await getLocalDraft('agent-1:new');
+    expect(saved?.formData.price).toBe(50000);
+    expect(saved?.savedAt).toBe('2026-10-18T09:05:00.000Z');
+  });
+
+  it('keeps each form separate and clears one without touching the others', async () => {
+    await saveLocalDraft(draft('agent-1:new'));
+    await saveLocalDraft(draft('agent-1:listing-1'));
+    await saveLocalDraft(draft('agent-2:new'));
+
+    await deleteLocalDraft('agent-1:new');
+
+    expect(await getLocalDraft('agent-1:new')).toBeNull();
+    expect(await getLocalDraft('agent-1:listing-1')).not.toBeNull();
+    expect(await getLocalDraft('agent-2:new')).not.toBeNull();
+  });
+
+  it('ignores clearing a form that has no copy', async () => {
+    await expect(deleteLocalDraft('agent-1:missing')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { PropertyListing } from '../../types';
+import { assertValidListing, validateListing } from '../../utils/listingValidation';
+
+const VALID: Partial<PropertyListing> = {
+  title: 'Sunny 2BR with parking',
+  description: 'Bright two-bedroom flat on the third floor, close to Yaya Centre.',
+  propertyType: 'apartment',
+  location: { address: 'Argwings Kodhek Road', county: 'Nairobi', neighborhood: 'Kilimani' } as PropertyListing['location'],
+  price: 45000,
+  bedrooms: 2,
+  bathrooms: 1,
+  areaSqFt: 0,
+  amenities: ['Parking', 'Borehole'],
+};
+
+describe('validateListing', () => {
+  it('accepts a complete listing', () => {
+    expect(validateListing(VALID)).toEqual({});
+  });
+
+  it('keeps the price between KES 1,000 and 10,000,000 and whole', () => {
+    expect(validateListing({ ...VALID, price: 999 }).price).toBe('Price must be between 1,000 and 10,000,000');
+    expect(validateListing({ ...VALID, price: 10_000_001 }).price).toBe('Price must be between 1,000 and 10,000,000');
+    expect(validateListing({ ...VALID, price: 45000.5 }).price).toBe('Price must be a whole number');
+    expect(validateListing({ ...VALID, price: undefined }).price).toBe('Price is required');
+    expect(validateListing({ ...VALID, price: 1000 }).price).toBeUndefined();
+    expect(validateListing({ ...VALID, price: 10_000_000 }).price).toBeUndefined();
+  });
+
+  it('requires at least one bathroom but allows bedsitters without a bedroom', () => {
+    const errors = validateListing({ ...VALID, bedrooms: 0, bathrooms: 0 });
+
+    expect(errors.bedrooms).toBeUndefined();
+    expect(errors.bathrooms).toBe('Bathrooms must be between 1 and 20');
+  });
+
+  it('checks the length of the title, description and neighbourhood after trimming', () => {
+    const errors = validateListing({
+      ...VALID,
+      title: '  2BR flat  ',
+      description: 'x'.repeat(5001),
+      location: { ...VALID.location!, neighborhood: ' K ' },
+    });
+
+    expect(errors).toEqual({
+      title: 'Title must be at least 10 characters',
+      description: 'Description must be at most 5000 characters',
+      'location.neighborhood': 'Neighborhood must be at least 2 characters',
+    });
+    expect(validateListing({ ...VALID, title: '   ' }).title).toBe('Title is required');
+  });
+
+  it('only checks the fields asked for', () => {
+    expect(validateListing({ price: 5 }, ['bedrooms', 'bathrooms'])).toEqual({
+      bedrooms: 'Bedrooms is required',
+      bathrooms: 'Bathrooms is required',
+    });
+  });
+});
+
+describe('assertValidListing', () => {
+  it('lists every problem in one error', () => {
+    expect(() => assertValidListing({ ...VALID, price: 500, bathrooms: 0 })).toThrow(
+      'Price must be between 1,000 and 10,000,000. Bathrooms must be between 1 and 20'
+    );
+  });
+
+  it('checks only the fields present when validating an update', () => {
+    expect(() => assertValidListing({ price: 50000 }, { partial: true })).not.toThrow();
+    expect(() => assertValidListing({ price: 50000 })).toThrow('Title is required');
+    expect(() => assertValidListing({ price: 500 }, { partial: true })).toThrow('Price must be between 1,000 and 10,000,000');
+    // The location is replaced as a whole, so it must be complete
+    expect(() => assertValidListing({ location: { county: 'Nairobi' } as PropertyListing['location'] }, { partial: true })).toThrow(
+      'Address is required. Neighborhood is required'
+    );
+  });
+});
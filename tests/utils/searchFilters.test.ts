@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeSearchText,
+  parseSearchFilters,
+  sanitizeSearchFilters,
+  searchFiltersToParams,
+} from '../../utils/searchFilters';
+
+describe('parseSearchFilters', () => {
+  it('reads strings, numbers, booleans and amenities from the URL', () => {
+    const params = new URLSearchParams(
+      'location=Kilimani&county=Nairobi&propertyType=apartment&minPrice=20000&maxPrice=60000' +
+        '&minBedrooms=2&minBathrooms=1&minArea=650&furnished=false&featuredOnly=true&amenities=Parking, Borehole,'
+    );
+
+    expect(parseSearchFilters(params)).toEqual({
+      location: 'Kilimani',
+      county: 'Nairobi',
+      propertyType: 'apartment',
+      minPrice: 20000,
+      maxPrice: 60000,
+      minBedrooms: 2,
+      minBathrooms: 1,
+      minArea: 650,
+      furnished: false,
+      featuredOnly: true,
+      amenities: ['Parking', 'Borehole'],
+    });
+  });
+
+  it('ignores malformed and empty values', () => {
+    const params = new URLSearchParams('minPrice=30k&bedrooms=&furnished=yes&amenities=,&location=&maxPrice=Infinity');
+
+    expect(parseSearchFilters(params)).toEqual({});
+  });
+
+  it('ignores parameters that are not filters', () => {
+    expect(parseSearchFilters(new URLSearchParams('page=2&sort=price_asc&bedrooms=3'))).toEqual({ bedrooms: 3 });
+  });
+
+  it('round-trips with searchFiltersToParams', () => {
+    const filters = { location: 'South B', bedrooms: 2, maxPrice: 35000, furnished: true, amenities: ['Parking', 'Gym'] };
+
+    expect(parseSearchFilters(searchFiltersToParams(filters))).toEqual(filters);
+  });
+});
+
+describe('searchFiltersToParams', () => {
+  it('leaves out empty values', () => {
+    expect(searchFiltersToParams({ location: '', amenities: [], bedrooms: undefined, minPrice: 0 }).toString()).toBe('minPrice=0');
+  });
+});
+
+describe('sanitizeSearchFilters', () => {
+  it("matches counties, property types and amenities to the app's spelling and drops the rest", () => {
+    expect(sanitizeSearchFilters({
+      location: ' Rongai ',
+      county: 'kajiado',
+      propertyType: 'APARTMENT',
+      maxPrice: 30000,
+      minPrice: -5,
+      bedrooms: '2',
+      amenities: ['parking', 'Parking', 'rooftop pool', 7],
+      status: 'draft',
+      pool: true,
+    })).toEqual({
+      location: 'Rongai',
+      county: 'Kajiado',
+      propertyType: 'apartment',
+      maxPrice: 30000,
+      amenities: ['Parking', 'rooftop pool'],
+    });
+  });
+
+  it('returns no filters for input that is not an object', () => {
+    expect(sanitizeSearchFilters('2BR in Rongai')).toEqual({});
+    expect(sanitizeSearchFilters(null)).toEqual({});
+  });
+});
+
+describe('normalizeSearchText', () => {
+  it('collapses whitespace and treats blank input as no search', () => {
+    expect(normalizeSearchText('  2 bedroom \n near   Yaya ')).toBe('2 bedroom near Yaya');
+    expect(normalizeSearchText('   ')).toBeUndefined();
+    expect(normalizeSearchText('x'.repeat(500))).toHaveLength(200);
+  });
+});
@@ -1,3 +1,5 @@
+import type { SearchFilters } from './components/SearchBar';
+
 export enum UserRole {
   TENANT = 'tenant',
   AGENT = 'agent',
@@ -23,6 +25,12 @@ export interface PropertyImage {
   aiScanReason?: string;
 }
 
+export type PropertyType = 'apartment' | 'bedsitter' | 'studio' | 'single_room' | 'bungalow' | 'maisonette' | 'townhouse';
+
+// draft: saved but not yet submitted; expired: passed its expiry date without renewal;
+// archived: rented (or retired by the agent) and kept for history. None of these appear in search.
+export type ListingStatus = 'draft' | 'pending_verification' | 'available' | 'rented' | 'expired' | 'archived' | 'rejected';
+
 export interface PropertyListing {
   id:string;
   agent: User;
@@ -39,16 +47,38 @@ export interface PropertyListing {
   bedrooms: number;
   bathrooms: number;
   areaSqFt?: number;
+  propertyType: PropertyType;
+  isFurnished: boolean;
   amenities: string[];
   images: PropertyImage[];
-  status: 'available' | 'rented' | 'pending_verification';
-  isFeatured: boolean;
+  status: ListingStatus;
+  expiresAt?: string; // Set while available; the agent renews before this to stay listed
+  archivedAt?: string;
+  isFeatured: boolean; // Set by a paid featured placement (or an admin), not by the agent
+  featuredUntil?: string; // When the paid placement ends
   createdAt: string;
   updatedAt: string;
   views: number;
   saves: number;
 }
 
+export interface ListingStatusChange {
+  fromStatus?: ListingStatus;
+  toStatus: ListingStatus;
+  changedBy?: string; // Null for automatic transitions such as expiry
+  changedAt: string;
+}
+
+export type ListingSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'most_viewed';
+
+export interface PaginatedListings {
+  listings: PropertyListing[];
+  totalCount: number;
+  page: number; // 1-based
+  pageSize: number;
+  totalPages: number;
+}
+
 export interface RatingReview {
   id: string;
   raterUser: User;
@@ -58,6 +88,10 @@ export interface RatingReview {
   comment: string;
   createdAt: string;
   isVerifiedInteraction: boolean; // e.g. if tenant actually contacted/viewed via platform
+  agentReply?: {
+    comment: string;
+    createdAt: string;
+  }; // Agents get one public reply per review
 }
 
 export interface AgentMetrics {
@@ -69,19 +103,256 @@ export interface AgentMetrics {
   averageRating?: number;
 }
 
+export type ListingEventType = 'impression' | 'view' | 'contact_click' | 'whatsapp_share' | 'save';
+
+export interface ListingDailyStats {
+  listingId: string;
+  day: string; // YYYY-MM-DD, Nairobi time
+  impressions: number;
+  views: number;
+  contactClicks: number;
+  whatsappShares: number;
+  saves: number;
+  inquiries: number;
+}
+
+export interface NeighborhoodBenchmark {
+  listingId: string;
+  neighborhood: string;
+  peerCount: number; // Other available listings in the same neighbourhood
+  avgViews: number;
+  avgSaves: number;
+  avgInquiries: number;
+}
+
+export interface ModerationDecision {
+  id: string;
+  listingId: string;
+  moderator: User;
+  decision: 'approved' | 'rejected';
+  reason?: string;
+  createdAt: string;
+}
+
+export interface VerificationRequest {
+  id: string;
+  agent: User;
+  documentPath: string; // Path inside the private ID document bucket
+  status: 'pending' | 'approved' | 'rejected';
+  reason?: string; // Shown to the agent when rejected
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+export interface InquiryMessage {
+  id: string;
+  inquiryId: string;
+  senderId: string;
+  body: string;
+  createdAt: string;
+  readAt?: string; // Set when the other participant opens the thread
+}
+
+export interface Inquiry {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  tenant: User;
+  agent: User;
+  messages: InquiryMessage[]; // Oldest first
+  unreadCount: number; // Unread messages for the user who fetched the thread
+  createdAt: string;
+  lastMessageAt: string;
+}
+
+export interface ViewingSlot {
+  id: string;
+  listingId: string;
+  agentId: string;
+  startsAt: string;
+  endsAt: string;
+  isBooked: boolean; // Only known to the agent; open slots fetched by tenants are always false
+}
+
+export interface ViewingBooking {
+  id: string;
+  slotId: string;
+  listingId: string;
+  listingTitle: string;
+  listingLocation: string; // Address, neighbourhood and county for directions and the .ics file
+  tenant: User;
+  agent: User;
+  startsAt: string;
+  endsAt: string;
+  status: 'booked' | 'cancelled';
+  note?: string;
+  sequence: number; // Calendar revision, bumped on every change
+  createdAt: string;
+}
+
+export type EmploymentStatus = 'employed' | 'self_employed' | 'student' | 'unemployed' | 'retired';
+
+export type RentalApplicationStatus = 'submitted' | 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn';
+
+export interface RentalApplicationReference {
+  name: string;
+  relationship: string; // e.g. 'Employer', 'Previous landlord'
+  phoneNumber: string;
+}
+
+export interface RentalApplicationDocument {
+  id: string;
+  kind: 'id_document' | 'payslip';
+  path: string; // Path inside the private application document bucket
+  fileName: string;
+}
+
+export interface RentalApplication {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  tenant: User;
+  agentId: string;
+  status: RentalApplicationStatus;
+  employmentStatus: EmploymentStatus;
+  employerName?: string;
+  jobTitle?: string;
+  monthlyIncome: number; // KES
+  moveInDate?: string; // YYYY-MM-DD
+  occupants: number;
+  message?: string;
+  references: RentalApplicationReference[];
+  documents: RentalApplicationDocument[];
+  decisionReason?: string;
+  decidedAt?: string;
+  createdAt: string;
+}
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'expired';
+
+export interface Payment {
+  id: string;
+  listingId: string;
+  planId: string;
+  amount: number; // KES
+  phoneNumber: string;
+  status: PaymentStatus;
+  mpesaReceipt?: string;
+  resultDesc?: string; // Safaricom's reason for a failure
+  featuredUntil?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type NotificationChannel = 'in_app' | 'email' | 'sms';
+
+export type AlertFrequency = 'instant' | 'daily'; // Daily alerts are sent as one digest at 07:00
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  filters: SearchFilters;
+  frequency: AlertFrequency;
+  channels: NotificationChannel[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface SavedSearchAlert {
+  id: number;
+  savedSearchId: string;
+  listingId: string;
+  channel: NotificationChannel;
+  frequency: AlertFrequency;
+  status: 'queued' | 'sent' | 'failed';
+  deliverAfter: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export type NotificationType =
+  | 'inquiry_message'
+  | 'verification_result'
+  | 'moderation_decision'
+  | 'saved_search_match'
+  | 'saved_search_digest'
+  | 'viewing_booked'
+  | 'viewing_rescheduled'
+  | 'viewing_cancelled'
+  | 'rental_application'
+  | 'application_update'
+  | 'listing_expiring'
+  | 'listing_expired';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  data: Record<string, unknown>; // Template payload, see notificationService
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  channel: NotificationChannel;
+  type: NotificationType;
+  status: 'queued' | 'sent' | 'failed' | 'skipped';
+  recipient?: string;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+// Why an AI feature couldn't answer
+export interface AiError {
+  // unavailable: no provider configured; unauthorized: login needed; forbidden: agents and admins only;
+  // rate_limited: quota used up; invalid_request: the AI proxy rejected the input;
+  // request_failed: the AI couldn't be reached; invalid_response: its reply broke the schema, even after a retry
+  code: 'unavailable' | 'unauthorized' | 'forbidden' | 'rate_limited' | 'invalid_request' | 'request_failed' | 'invalid_response';
+  message: string; // Safe to show to users
+  issues?: string[]; // For invalid_request and invalid_response: what was wrong
+}
+
+// Outcome of an AI feature, shaped like Supabase's { data, error }
+export type AiResult<T> = { data: T; error: null } | { data: null; error: AiError };
+
 export interface AiEnhancedContent {
   enhancedDescription?: string;
   suggestedTitle?: string;
   pricingAdvice?: string;
 }
 
+// A listing the rent estimate was computed from
+export interface RentComparable {
+  id: string;
+  title: string;
+  price: number;
+  neighborhood: string;
+  status: ListingStatus;
+  pricedAt: string;
+}
+
 export interface RentEstimate {
   location: string;
   bedrooms: number;
-  minRent: number;
-  maxRent: number;
-  averageRent: number;
-  confidence: 'high' | 'medium' | 'low';
+  scope: 'neighborhood' | 'county'; // Neighbourhood figures unless it has too few listings
+  sampleSize: number;
+  p25Rent: number;
+  medianRent: number;
+  p75Rent: number;
+  confidence: 'high' | 'medium' | 'low'; // From the sample size
+  comparables: RentComparable[];
+  explanation?: string; // Written by the AI from the figures above; absent if AI is disabled
+  citations: GroundingChunk[]; // Sources the explanation was grounded on
   lastUpdated: string;
 }
 
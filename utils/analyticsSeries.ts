@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Analytics series helpers
+ *
+ * Turns sparse daily stats rows (one per listing per active day) into
+ * continuous per-day series and totals for charts, funnels and CSV export.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { ListingDailyStats } from '../types';
+
+export type DailyTotals = Omit<ListingDailyStats, 'listingId'>;
+
+const EMPTY_TOTALS: Omit<DailyTotals, 'day'> = {
+  impressions: 0,
+  views: 0,
+  contactClicks: 0,
+  whatsappShares: 0,
+  saves: 0,
+  inquiries: 0,
+};
+
+/**
+ * Formats a date as YYYY-MM-DD in local time.
+ *
+ * @param {Date} date - Date to format
+ * @returns {string} Day string
+ */
+export const toDayString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Returns the day `days` days before today.
+ *
+ * @param {number} days - How many days back
+ * @returns {string} Day string
+ */
+export const daysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDayString(date);
+};
+
+/**
+ * Lists every day from `fromDay` to `toDay` inclusive.
+ *
+ * @param {string} fromDay - First day, YYYY-MM-DD
+ * @param {string} toDay - Last day, YYYY-MM-DD
+ * @returns {string[]} Day strings in order (empty if the range is reversed)
+ */
+export const eachDay = (fromDay: string, toDay: string): string[] => {
+  const days: string[] = [];
+  const cursor = new Date(`${fromDay}T00:00:00`);
+  const end = new Date(`${toDay}T00:00:00`);
+  while (cursor <= end) {
+    days.push(toDayString(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+/**
+ * Sums stats rows per day, filling days without activity with zeros.
+ *
+ * @param {ListingDailyStats[]} stats - Rows for one or more listings
+ * @param {string} fromDay - First day, YYYY-MM-DD
+ * @param {string} toDay - Last day, YYYY-MM-DD
+ * @returns {DailyTotals[]} One entry per day in the range
+ */
+export const buildDailySeries = (stats: ListingDailyStats[], fromDay: string, toDay: string): DailyTotals[] => {
+  const byDay = new Map<string, DailyTotals>(eachDay(fromDay, toDay).map(day => [day, { day, ...EMPTY_TOTALS }]));
+  for (const row of stats) {
+    const totals = byDay.get(row.day);
+    if (!totals) continue;
+    totals.impressions += row.impressions;
+    totals.views += row.views;
+    totals.contactClicks += row.contactClicks;
+    totals.whatsappShares += row.whatsappShares;
+    totals.saves += row.saves;
+    totals.inquiries += row.inquiries;
+  }
+  return [...byDay.values()];
+};
+
+/**
+ * Adds up a series into a single set of totals.
+ *
+ * @param {DailyTotals[]} series - Per-day totals
+ * @returns {Omit<DailyTotals, 'day'>} Totals across the whole range
+ */
+export const sumSeries = (series: DailyTotals[]): Omit<DailyTotals, 'day'> =>
+  series.reduce((sum, d) => ({
+    impressions: sum.impressions + d.impressions,
+    views: sum.views + d.views,
+    contactClicks: sum.contactClicks + d.contactClicks,
+    whatsappShares: sum.whatsappShares + d.whatsappShares,
+    saves: sum.saves + d.saves,
+    inquiries: sum.inquiries + d.inquiries,
+  }), { ...EMPTY_TOTALS });
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview CSV helpers for exports
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+/**
+ * Quotes a value if it contains a delimiter, quote or newline (RFC 4180).
+ *
+ * @param {string | number} value - Cell value
+ * @returns {string} Escaped cell
+ */
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds CSV text from a header row and data rows.
+ *
+ * @param {string[]} headers - Column names
+ * @param {(string | number)[][]} rows - Data rows, in header order
+ * @returns {string} CSV content
+ *
+ * @example
+ * toCsv(['day', 'views'], [['2026-10-01', 12]]); // "day,views\r\n2026-10-01,12"
+ */
+export const toCsv = (headers: string[], rows: (string | number)[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Starts a browser download of CSV content.
+ *
+ * @param {string} filename - File name to save as
+ * @param {string} csv - CSV content
+ */
+export const downloadCsv = (filename: string, csv: string): void => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview iCalendar (.ics) helpers for viewing appointments
+ *
+ * Builds RFC 5545 events that calendar apps (Google Calendar, Outlook, Apple
+ * Calendar) can import. A booking keeps the same UID for its whole life and
+ * bumps SEQUENCE on every change, so a rescheduled or cancelled viewing
+ * updates the existing calendar entry instead of adding a new one.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+export interface CalendarEventInput {
+  uid: string;
+  sequence: number;
+  startsAt: string; // ISO timestamp
+  endsAt: string; // ISO timestamp
+  summary: string;
+  description?: string;
+  location?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Formats an ISO timestamp as an iCalendar UTC date-time (e.g. 20261018T070000Z).
+ *
+ * @param {string | Date} value - Timestamp
+ * @returns {string} iCalendar date-time
+ */
+const toIcsDate = (value: string | Date): string =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Escapes text values (RFC 5545 section 3.3.11).
+ */
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds lines longer than 75 octets onto continuation lines, without splitting
+ * a multi-byte character.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.map((part, i) => (i === 0 ? part : ` ${part}`)).join('\r\n');
+};
+
+/**
+ * Builds an .ics file for a single event.
+ *
+ * @param {CalendarEventInput} event - Event details
+ * @returns {string} iCalendar content with CRLF line endings
+ *
+ * @example
+ * const ics = buildCalendarEvent({
+ *   uid: 'viewing-123@rentify.co.ke',
+ *   sequence: 0,
+ *   startsAt: '2026-10-24T07:00:00Z',
+ *   endsAt: '2026-10-24T07:30:00Z',
+ *   summary: 'Viewing: Kilimani 2BR',
+ * });
+ */
+export const buildCalendarEvent = (event: CalendarEventInput): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rentify Kenya//Viewings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${toIcsDate(new Date())}`,
+    `DTSTART:${toIcsDate(event.startsAt)}`,
+    `DTEND:${toIcsDate(event.endsAt)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export interface ViewingEventDetails {
+  bookingId: string;
+  sequence: number;
+  startsAt: string;
+  endsAt: string;
+  listingTitle: string;
+  location?: string;
+  withName: string; // The other participant: the agent for tenants, the tenant for agents
+  cancelled?: boolean;
+}
+
+/**
+ * Builds the .ics file for a viewing booking. The UID is derived from the
+ * booking ID, so it stays the same across reschedules and cancellation.
+ *
+ * @param {ViewingEventDetails} viewing - Booking details
+ * @returns {string} iCalendar content
+ */
+export const buildViewingCalendarEvent = (viewing: ViewingEventDetails): string =>
+  buildCalendarEvent({
+    uid: `viewing-${viewing.bookingId}@rentify.co.ke`,
+    sequence: viewing.sequence,
+    startsAt: viewing.startsAt,
+    endsAt: viewing.endsAt,
+    summary: `Viewing: ${viewing.listingTitle}`,
+    description: `House viewing with ${viewing.withName}, booked on Rentify Kenya.`,
+    location: viewing.location,
+    cancelled: viewing.cancelled,
+  });
+
+/**
+ * Starts a browser download of an .ics file.
+ *
+ * @param {string} filename - File name to save as
+ * @param {string} ics - Calendar content
+ */
+export const downloadCalendarEvent = (filename: string, ics: string): void => {
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Image Decoder (Node) - Decodes images for hashing in background jobs
+ *
+ * The Node counterpart of decodeImageInBrowser, used by the image scan worker
+ * to hash stored listing photos. It decodes with sharp (JPEG, PNG, WebP, GIF,
+ * AVIF, TIFF) and produces the same grayscale grid: the image is resized to 8x
+ * the hash grid and box-averaged down. Kept out of imageHash.ts so browser
+ * bundles never pull in sharp.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import sharp from 'sharp';
+import { DHASH_HEIGHT, DHASH_WIDTH, type ImageDecoder } from './imageHash';
+
+/**
+ * Decodes an image in Node using sharp.
+ *
+ * @param {Blob} image - Fetched image data
+ * @returns {Promise<DecodedImage>} Grayscale grid and original dimensions
+ *
+ * @throws {Error} If the data is not an image sharp can decode
+ *
+ * @example
+ * const { hash } = await computeImageHash(blob, decodeImageWithSharp);
+ */
+export const decodeImageWithSharp: ImageDecoder = async (image) => {
+  const scale = 8;
+  const width = DHASH_WIDTH * scale;
+  const height = DHASH_HEIGHT * scale;
+
+  const input = sharp(Buffer.from(await image.arrayBuffer()));
+  const metadata = await input.metadata();
+  const data = await input
+    .rotate() // Apply EXIF orientation, as browsers do when drawing the image
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  // Box-average each scale x scale block into one grayscale value
+  const pixels = new Float64Array(DHASH_WIDTH * DHASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[Math.floor(y / scale) * DHASH_WIDTH + Math.floor(x / scale)] += data[y * width + x] / (scale * scale);
+    }
+  }
+
+  return { pixels, width: metadata.width ?? width, height: metadata.height ?? height };
+};
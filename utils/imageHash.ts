@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Image Hash - Perceptual hashing for duplicate image detection
+ *
+ * Implements a 64-bit difference hash (dHash): the image is reduced to a 9x8
+ * grayscale grid and each bit records whether a pixel is brighter than its
+ * right-hand neighbour. Resized, recompressed or lightly edited copies of the
+ * same photo produce hashes that differ in only a few bits, so similarity is
+ * measured with the Hamming distance between two hashes.
+ *
+ * The hashing itself is a pure function over grayscale pixels. Decoding an
+ * image into pixels uses the browser canvas by default and can be swapped out
+ * (e.g. for a Node decoder in background jobs).
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+/**
+ * Width of the grayscale grid used for dHash (one extra column for the comparisons).
+ * @constant {number}
+ */
+export const DHASH_WIDTH = 9;
+
+/**
+ * Height of the grayscale grid used for dHash.
+ * @constant {number}
+ */
+export const DHASH_HEIGHT = 8;
+
+/**
+ * Maximum Hamming distance at which two hashes are treated as the same photo.
+ * Around 10 of 64 bits tolerates resizing, recompression and small crops.
+ * @constant {number}
+ */
+export const SIMILAR_HASH_MAX_DISTANCE = 10;
+
+/**
+ * Grayscale pixels plus the dimensions of the original image.
+ */
+export interface DecodedImage {
+  pixels: ArrayLike<number>; // DHASH_WIDTH x DHASH_HEIGHT grayscale values, row-major
+  width: number; // Original image width in pixels
+  height: number; // Original image height in pixels
+}
+
+/**
+ * Decodes an image into a DHASH_WIDTH x DHASH_HEIGHT grayscale grid.
+ */
+export type ImageDecoder = (image: Blob) => Promise<DecodedImage>;
+
+/**
+ * Computes a 64-bit dHash from a 9x8 grayscale grid.
+ *
+ * @param {ArrayLike<number>} pixels - Row-major grayscale values (length 72)
+ * @returns {string} 16-character hexadecimal hash
+ *
+ * @throws {Error} If the pixel grid has the wrong size
+ *
+ * @example
+ * const hash = dHashFromGrayscale(decoded.pixels); // e.g. 'f0e4c8d8b0e0c0c1'
+ */
+export const dHashFromGrayscale = (pixels: ArrayLike<number>): string => {
+  if (pixels.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`Expected ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hex = '';
+  for (let row = 0; row < DHASH_HEIGHT; row++) {
+    // Each row yields 8 bits, i.e. two hex characters
+    let byte = 0;
+    for (let col = 0; col < DHASH_WIDTH - 1; col++) {
+      const left = pixels[row * DHASH_WIDTH + col];
+      const right = pixels[row * DHASH_WIDTH + col + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+/**
+ * Counts the differing bits between two hex hashes of equal length.
+ *
+ * @param {string} a - First hash
+ * @param {string} b - Second hash
+ * @returns {number} Number of differing bits
+ *
+ * @throws {Error} If the hashes have different lengths
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) {
+    throw new Error('Hashes must have the same length');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Decodes an image in the browser using createImageBitmap and a canvas.
+ *
+ * The image is drawn at 8x the hash grid size and then box-averaged down,
+ * which avoids the aliasing a direct 9x8 resize would introduce.
+ *
+ * @param {Blob} image - Image file or fetched blob
+ * @returns {Promise<DecodedImage>} Grayscale grid and original dimensions
+ *
+ * @throws {Error} If the image cannot be decoded
+ */
+export const decodeImageInBrowser: ImageDecoder = async (image) => {
+  const scale = 8;
+  const width = DHASH_WIDTH * scale;
+  const height = DHASH_HEIGHT * scale;
+
+  const bitmap = await createImageBitmap(image);
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Box-average each scale x scale block into one grayscale value
+  const pixels = new Float64Array(DHASH_WIDTH * DHASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      pixels[Math.floor(y / scale) * DHASH_WIDTH + Math.floor(x / scale)] += luminance / (scale * scale);
+    }
+  }
+
+  const result = { pixels, width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return result;
+};
+
+/**
+ * Computes the perceptual hash of an image.
+ *
+ * @param {Blob} image - Image to hash
+ * @param {ImageDecoder} [decode=decodeImageInBrowser] - Decoder to turn the image into pixels
+ * @returns {Promise<{ hash: string; width: number; height: number }>} Hash and original dimensions
+ *
+ * @example
+ * const { hash } = await computeImageHash(file);
+ */
+export const computeImageHash = async (
+  image: Blob,
+  decode: ImageDecoder = decodeImageInBrowser
+): Promise<{ hash: string; width: number; height: number }> => {
+  const { pixels, width, height } = await decode(image);
+  return { hash: dHashFromGrayscale(pixels), width, height };
+};
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview JSON Schema subset for structured AI output
+ *
+ * AI features declare the shape of the JSON they expect with these schemas.
+ * The same schema is sent to the model (so it knows the format) and used to
+ * check its reply, since models don't always keep to it: a price of "30k"
+ * or a missing field is caught here instead of reaching the UI.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+/**
+ * The subset of JSON Schema that Gemini and OpenAI-compatible servers both accept
+ * for structured output.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Parses a JSON reply, allowing for a ```json fence around it.
+ *
+ * @param {string} text - Reply text
+ * @returns {unknown} The parsed value
+ * @throws {Error} If the text is not JSON
+ */
+export const parseJsonText = (text: string): unknown => {
+  let jsonStr = text.trim();
+  const match = jsonStr.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s);
+  if (match && match[2]) {
+    jsonStr = match[2].trim();
+  }
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    throw new Error(`AI reply is not valid JSON: ${text.slice(0, 200)}`);
+  }
+};
+
+const describeType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const checkValue = (schema: JsonSchema, value: unknown, path: string, issues: string[]) => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path} must be an object, got ${describeType(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required ?? []).forEach((key) => {
+        if (record[key] === undefined) issues.push(`${path}.${key} is required`);
+      });
+      Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+        // Optional fields may be left out or sent as null
+        if (record[key] !== undefined && (record[key] !== null || schema.required?.includes(key))) {
+          checkValue(property, record[key], `${path}.${key}`, issues);
+        }
+      });
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push(`${path} must be an array, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.items) value.forEach((item, index) => checkValue(schema.items!, item, `${path}[${index}]`, issues));
+      return;
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push(`${path} must be a string, got ${describeType(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path} must be one of ${schema.enum.map((option) => `"${option}"`).join(', ')}, got "${value}"`);
+      }
+      return;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${path} must be a number, got ${describeType(value)}${typeof value === 'string' ? ` "${value}"` : ''}`);
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push(`${path} must be a whole number, got ${value}`);
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push(`${path} must be at least ${schema.minimum}, got ${value}`);
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push(`${path} must be at most ${schema.maximum}, got ${value}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') issues.push(`${path} must be true or false, got ${describeType(value)}`);
+      return;
+  }
+};
+
+/**
+ * Checks a value against a schema.
+ *
+ * @param {JsonSchema} schema - Expected shape
+ * @param {unknown} value - Parsed JSON, e.g. a model's reply
+ * @returns {string[]} One message per problem, with the path to it; empty if the value matches
+ *
+ * @example
+ * validateJson({ type: 'object', properties: { maxPrice: { type: 'number' } } }, { maxPrice: '30k' });
+ * // ['reply.maxPrice must be a number, got string "30k"']
+ */
+export const validateJson = (schema: JsonSchema, value: unknown): string[] => {
+  const issues: string[] = [];
+  checkValue(schema, value, 'reply', issues);
+  return issues;
+};
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Listing draft store - Keeps the listing form on the device
+ *
+ * The listing form autosaves here as the agent types, so closing the modal or
+ * a browser crash doesn't lose their work. Selected image files are kept too,
+ * which is why this uses IndexedDB (it stores File objects as they are)
+ * rather than localStorage. Draft fields are also saved to the server, see
+ * listingService.saveDraft.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { PropertyListing } from '../types';
+
+const DB_NAME = 'rentify';
+const DB_VERSION = 1;
+const STORE_NAME = 'listingDrafts';
+
+/**
+ * Listing fields edited in the listing form
+ */
+export type ListingFormFields = Omit<PropertyListing, 'id' | 'createdAt' | 'updatedAt' | 'views' | 'saves' | 'agent'>;
+
+export interface LocalListingDraft {
+  key: string; // See localDraftKey
+  draftId?: string; // Server draft the same fields were saved to
+  formData: ListingFormFields;
+  imageFiles: File[]; // Selected but not uploaded yet
+  imagesToRemove: string[]; // IDs of uploaded images the agent removed
+  savedAt: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close(); // Waits for the transaction to finish
+  }
+};
+
+/**
+ * Builds the key a form's local copy is stored under.
+ *
+ * @param {string} agentId - Agent filling in the form
+ * @param {string} [listingId] - Draft or listing being edited; omitted for a listing not saved anywhere yet
+ * @returns {string} Store key
+ *
+ * @example
+ * localDraftKey(user.id); // 'agent-1:new'
+ * localDraftKey(user.id, draft.id); // 'agent-1:<draft id>'
+ */
+export const localDraftKey = (agentId: string, listingId?: string | null): string =>
+  `${agentId}:${listingId ?? 'new'}`;
+
+/**
+ * Reads a form's local copy.
+ *
+ * @param {string} key - Key from localDraftKey
+ * @returns {Promise<LocalListingDraft | null>} The saved copy, or null if there is none
+ *
+ * @throws {Error} If IndexedDB is unavailable (e.g. some private browsing modes)
+ */
+export const getLocalDraft = async (key: string): Promise<LocalListingDraft | null> =>
+  (await runRequest<LocalListingDraft | undefined>('readonly', (store) => store.get(key))) ?? null;
+
+/**
+ * Saves a form's local copy, replacing the previous one.
+ *
+ * @param {LocalListingDraft} draft - Form state to keep
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If IndexedDB is unavailable or the device is out of storage
+ */
+export const saveLocalDraft = async (draft: LocalListingDraft): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(draft));
+};
+
+/**
+ * Deletes a form's local copy, once it has been submitted or discarded.
+ *
+ * @param {string} key - Key from localDraftKey
+ * @returns {Promise<void>}
+ *
+ * @throws {Error} If IndexedDB is unavailable
+ */
+export const deleteLocalDraft = async (key: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(key));
+};
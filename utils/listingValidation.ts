@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Listing validation schema
+ *
+ * One set of rules for listing fields, used by the listing wizard to show
+ * errors next to each field and by listingService to reject bad data before
+ * it reaches the database, whichever path it comes from.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { PropertyListing } from '../types';
+import { KenyanCounties, PropertyTypeOptions } from '../constants';
+
+/**
+ * Listing fields with rules; location fields are addressed as `location.<field>`
+ */
+export type ListingField =
+  | 'title'
+  | 'description'
+  | 'propertyType'
+  | 'location.address'
+  | 'location.county'
+  | 'location.neighborhood'
+  | 'price'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'areaSqFt'
+  | 'amenities';
+
+type FieldRule =
+  | { kind: 'text'; label: string; minLength: number; maxLength: number }
+  | { kind: 'number'; label: string; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { kind: 'oneOf'; label: string; options: readonly string[] }
+  | { kind: 'list'; label: string; maxItems: number; maxItemLength: number };
+
+/**
+ * Validation errors by field, one message per field
+ */
+export type ListingValidationErrors = Partial<Record<ListingField, string>>;
+
+/**
+ * The rules. Prices are monthly rent in KES; an area of 0 means "not given".
+ * @constant
+ */
+export const LISTING_SCHEMA: Record<ListingField, FieldRule> = {
+  title: { kind: 'text', label: 'Title', minLength: 10, maxLength: 120 },
+  description: { kind: 'text', label: 'Description', minLength: 30, maxLength: 5000 },
+  propertyType: { kind: 'oneOf', label: 'Property type', options: PropertyTypeOptions.map((option) => option.value) },
+  'location.address': { kind: 'text', label: 'Address', minLength: 3, maxLength: 200 },
+  'location.county': { kind: 'oneOf', label: 'County', options: KenyanCounties },
+  'location.neighborhood': { kind: 'text', label: 'Neighborhood', minLength: 2, maxLength: 100 },
+  price: { kind: 'number', label: 'Price', min: 1000, max: 10_000_000, integer: true },
+  bedrooms: { kind: 'number', label: 'Bedrooms', min: 0, max: 20, integer: true }, // 0 for bedsitters and studios
+  bathrooms: { kind: 'number', label: 'Bathrooms', min: 1, max: 20, integer: true },
+  areaSqFt: { kind: 'number', label: 'Area', min: 0, max: 100_000, optional: true },
+  amenities: { kind: 'list', label: 'Amenities', maxItems: 30, maxItemLength: 50 },
+};
+
+const ALL_FIELDS = Object.keys(LISTING_SCHEMA) as ListingField[];
+
+const getFieldValue = (listing: Partial<PropertyListing>, field: ListingField): unknown =>
+  field.startsWith('location.')
+    ? listing.location?.[field.slice('location.'.length) as keyof PropertyListing['location']]
+    : listing[field as keyof PropertyListing];
+
+const checkField = (rule: FieldRule, value: unknown): string | undefined => {
+  switch (rule.kind) {
+    case 'text': {
+      const text = typeof value === 'string' ? value.trim() : '';
+      if (!text) return `${rule.label} is required`;
+      if (text.length < rule.minLength) return `${rule.label} must be at least ${rule.minLength} characters`;
+      if (text.length > rule.maxLength) return `${rule.label} must be at most ${rule.maxLength} characters`;
+      return undefined;
+    }
+    case 'number': {
+      if (rule.optional && (value === undefined || value === null || value === 0)) return undefined;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${rule.label} is required`;
+      if (rule.integer && !Number.isInteger(value)) return `${rule.label} must be a whole number`;
+      if (value < rule.min || value > rule.max) {
+        return `${rule.label} must be between ${rule.min.toLocaleString('en-KE')} and ${rule.max.toLocaleString('en-KE')}`;
+      }
+      return undefined;
+    }
+    case 'oneOf':
+      return typeof value === 'string' && rule.options.includes(value) ? undefined : `Please choose a ${rule.label.toLowerCase()}`;
+    case 'list': {
+      const items = Array.isArray(value) ? value : [];
+      if (items.length > rule.maxItems) return `Please list at most ${rule.maxItems} ${rule.label.toLowerCase()}`;
+      const tooLong = items.find((item) => typeof item !== 'string' || item.length > rule.maxItemLength);
+      return tooLong !== undefined ? `Each of the ${rule.label.toLowerCase()} must be at most ${rule.maxItemLength} characters` : undefined;
+    }
+  }
+};
+
+/**
+ * Checks listing fields against LISTING_SCHEMA.
+ *
+ * @param {Partial<PropertyListing>} listing - Listing fields as entered
+ * @param {ListingField[]} [fields] - Fields to check; all of them by default
+ * @returns {ListingValidationErrors} Errors by field; empty if the fields are valid
+ *
+ * @example
+ * const errors = validateListing(formData, ['price', 'bedrooms', 'bathrooms']);
+ * if (errors.price) console.log(errors.price); // 'Price must be between 1,000 and 10,000,000'
+ */
+export const validateListing = (
+  listing: Partial<PropertyListing>,
+  fields: ListingField[] = ALL_FIELDS
+): ListingValidationErrors => {
+  const errors: ListingValidationErrors = {};
+  fields.forEach((field) => {
+    const error = checkField(LISTING_SCHEMA[field], getFieldValue(listing, field));
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
+
+/**
+ * Throws if listing fields break LISTING_SCHEMA. With `partial`, only the
+ * fields present are checked, for updates that change a few fields. The
+ * location is stored as one value, so all of its fields are checked whenever
+ * it is present.
+ *
+ * @param {Partial<PropertyListing>} listing - Listing fields to check
+ * @param {object} [options] - Options
+ * @param {boolean} [options.partial=false] - Skip fields that are not present
+ *
+ * @throws {Error} Listing every problem found
+ */
+export const assertValidListing = (listing: Partial<PropertyListing>, { partial = false }: { partial?: boolean } = {}) => {
+  const isPresent = (field: ListingField) =>
+    field.startsWith('location.') ? listing.location !== undefined : getFieldValue(listing, field) !== undefined;
+  const fields = partial ? ALL_FIELDS.filter(isPresent) : ALL_FIELDS;
+  const messages = Object.values(validateListing(listing, fields));
+  if (messages.length > 0) throw new Error(messages.join('. '));
+};
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Kenyan phone number helpers
+ *
+ * Agents and tenants type numbers as `0712 345 678`, `712345678`,
+ * `+254712345678` or `254712345678`. SMS gateways and M-Pesa want a single
+ * international form, so numbers are normalised before they are sent anywhere.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+/**
+ * Normalises a Kenyan mobile number (Safaricom, Airtel, Telkom: 07xx / 01xx) to `2547XXXXXXXX` form.
+ *
+ * @param {string | null | undefined} input - Number as typed by the user
+ * @returns {string | null} Digits only with the 254 country code, or null if it isn't a Kenyan mobile number
+ *
+ * @example
+ * normalizeKenyanPhoneNumber('0712 345 678'); // '254712345678'
+ * normalizeKenyanPhoneNumber('+254 110 123456'); // '254110123456'
+ * normalizeKenyanPhoneNumber('12345'); // null
+ */
+export const normalizeKenyanPhoneNumber = (input: string | null | undefined): string | null => {
+  const digits = (input ?? '').replace(/[\s\-()]/g, '').replace(/^\+/, '');
+  const match = digits.match(/^(?:254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+};
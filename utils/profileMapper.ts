@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Profile Mapper - Shared helpers for joined `profiles` rows
+ *
+ * Several services join the `profiles` table (listing agents, inquiry
+ * participants, reviewers). This module keeps the selected columns and the
+ * snake_case → camelCase mapping in one place.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import { User, UserRole } from '../types';
+
+/**
+ * Columns selected whenever a profile is embedded in another query.
+ * @constant {string}
+ */
+export const PROFILE_COLUMNS = `
+  id,
+  email,
+  full_name,
+  role,
+  is_verified_agent,
+  phone_number,
+  profile_picture_url
+`;
+
+/**
+ * Shape of a profile row as returned by Supabase joins.
+ */
+export interface ProfileRow {
+  id: string;
+  email?: string | null;
+  full_name?: string | null;
+  role?: string | null;
+  is_verified_agent?: boolean | null;
+  phone_number?: string | null;
+  profile_picture_url?: string | null;
+  created_at?: string | null;
+}
+
+/**
+ * Converts a joined profile row into the frontend User type.
+ *
+ * @param {ProfileRow | null | undefined} profile - Raw profile row (may be missing if the join failed)
+ * @param {string} fallbackId - ID to use when the profile row is missing
+ * @param {UserRole} [fallbackRole=UserRole.TENANT] - Role to assume when the row has none
+ * @returns {User} Frontend-formatted user
+ *
+ * @example
+ * const tenant = mapProfileToUser(row.tenant, row.tenant_id, UserRole.TENANT);
+ */
+export const mapProfileToUser = (
+  profile: ProfileRow | null | undefined,
+  fallbackId: string,
+  fallbackRole: UserRole = UserRole.TENANT
+): User => ({
+  id: profile?.id ?? fallbackId,
+  email: profile?.email ?? '',
+  name: profile?.full_name ?? '',
+  role: (profile?.role as UserRole) || fallbackRole,
+  isVerifiedAgent: profile?.is_verified_agent ?? false,
+  phoneNumber: profile?.phone_number ?? '',
+  profilePictureUrl: profile?.profile_picture_url ?? '',
+  createdAt: profile?.created_at ?? '',
+});
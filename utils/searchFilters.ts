@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Search Filter URL helpers
+ *
+ * Converts SearchFilters to and from URL query parameters so searches can be
+ * bookmarked and shared. Arrays are comma-separated and booleans are
+ * written as `true`/`false`; empty values are left out.
+ *
+ * @author Rentify Team
+ * @version 1.0.0
+ */
+
+import type { SearchFilters } from '../components/SearchBar';
+import { KenyanCounties, PropertyTypeOptions, CommonAmenities } from '../constants';
+
+/**
+ * Filters stored as numbers
+ * @constant {string[]}
+ */
+export const NUMERIC_FILTER_KEYS = [
+  'minPrice', 'maxPrice', 'bedrooms', 'minBedrooms', 'maxBedrooms', 'minBathrooms', 'maxBathrooms', 'minArea',
+] as const;
+
+/**
+ * Filters stored as booleans
+ * @constant {string[]}
+ */
+export const BOOLEAN_FILTER_KEYS = ['furnished', 'featuredOnly'] as const;
+
+const STRING_FILTER_KEYS = ['location', 'county', 'propertyType', 'status'] as const;
+
+/**
+ * Reads SearchFilters from URL query parameters, ignoring anything malformed.
+ *
+ * @param {URLSearchParams} params - Query parameters
+ * @returns {SearchFilters} Parsed filters (only keys present in the URL)
+ *
+ * @example
+ * parseSearchFilters(new URLSearchParams('minBedrooms=2&amenities=Parking,Borehole'));
+ * // { minBedrooms: 2, amenities: ['Parking', 'Borehole'] }
+ */
+export const parseSearchFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: Record<string, unknown> = {};
+
+  for (const key of STRING_FILTER_KEYS) {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  }
+
+  for (const key of NUMERIC_FILTER_KEYS) {
+    const value = Number(params.get(key));
+    if (params.get(key) && Number.isFinite(value)) filters[key] = value;
+  }
+
+  for (const key of BOOLEAN_FILTER_KEYS) {
+    const value = params.get(key);
+    if (value === 'true' || value === 'false') filters[key] = value === 'true';
+  }
+
+  const amenities = params.get('amenities')?.split(',').map(a => a.trim()).filter(Boolean);
+  if (amenities?.length) filters.amenities = amenities;
+
+  return filters as SearchFilters;
+};
+
+/**
+ * Reads SearchFilters from untrusted structured input such as AI output. Unknown
+ * keys, wrong types and negative numbers are dropped; counties, property types and
+ * the common amenities are matched case-insensitively to the app's own spelling,
+ * since listings are matched on them exactly. `status` is never taken from input.
+ *
+ * @param {unknown} raw - Object that should look like SearchFilters
+ * @returns {SearchFilters} The usable filters
+ *
+ * @example
+ * sanitizeSearchFilters({ location: 'Rongai', bedrooms: 2, maxPrice: 30000, amenities: ['parking'], pool: true });
+ * // { location: 'Rongai', bedrooms: 2, maxPrice: 30000, amenities: ['Parking'] }
+ */
+export const sanitizeSearchFilters = (raw: unknown): SearchFilters => {
+  if (!raw || typeof raw !== 'object') return {};
+  const input = raw as Record<string, unknown>;
+  const filters: Record<string, unknown> = {};
+  const matchOption = (value: unknown, options: readonly string[]) =>
+    typeof value === 'string' ? options.find(option => option.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+  if (typeof input.location === 'string' && input.location.trim()) filters.location = input.location.trim();
+  const county = matchOption(input.county, KenyanCounties);
+  if (county) filters.county = county;
+  const propertyType = matchOption(input.propertyType, PropertyTypeOptions.map(option => option.value));
+  if (propertyType) filters.propertyType = propertyType;
+
+  for (const key of NUMERIC_FILTER_KEYS) {
+    const value = input[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) filters[key] = value;
+  }
+
+  for (const key of BOOLEAN_FILTER_KEYS) {
+    if (typeof input[key] === 'boolean') filters[key] = input[key];
+  }
+
+  if (Array.isArray(input.amenities)) {
+    const amenities = input.amenities
+      .filter((amenity): amenity is string => typeof amenity === 'string' && amenity.trim() !== '')
+      .map(amenity => matchOption(amenity, CommonAmenities) ?? amenity.trim());
+    if (amenities.length) filters.amenities = [...new Set(amenities)];
+  }
+
+  return filters as SearchFilters;
+};
+
+/**
+ * Writes SearchFilters to URL query parameters.
+ *
+ * @param {SearchFilters} filters - Filters to serialise
+ * @returns {URLSearchParams} Query parameters with empty values omitted
+ */
+export const searchFiltersToParams = (filters: SearchFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, value.toString());
+    }
+  });
+  return params;
+};
+
+/**
+ * Longest free-text query sent to the database
+ * @constant {number}
+ */
+const MAX_SEARCH_TEXT_LENGTH = 200;
+
+/**
+ * Tidies free-text search input before it is sent as an RPC parameter.
+ *
+ * @param {string} [text] - Raw user input
+ * @returns {string | undefined} Trimmed text with collapsed whitespace, or undefined if empty
+ */
+export const normalizeSearchText = (text?: string): string | undefined => {
+  const normalized = text?.replace(/\s+/g, ' ').trim().slice(0, MAX_SEARCH_TEXT_LENGTH);
+  return normalized || undefined;
+};
+
+/**
+ * Summarises filters in a short human-readable line, e.g. for naming a saved search.
+ *
+ * @param {SearchFilters} filters - Filters to describe
+ * @returns {string} Summary such as "2+ bed · Kilimani · up to KES 60,000", or "All listings"
+ */
+export const describeSearchFilters = (filters: SearchFilters): string => {
+  const parts: string[] = [];
+  if (filters.bedrooms) parts.push(`${filters.bedrooms} bed`);
+  else if (filters.minBedrooms) parts.push(`${filters.minBedrooms}+ bed`);
+  if (filters.propertyType) parts.push(filters.propertyType.replace('_', ' '));
+  if (filters.location) parts.push(filters.location);
+  if (filters.county) parts.push(filters.county);
+  if (filters.minPrice && filters.maxPrice) {
+    parts.push(`KES ${filters.minPrice.toLocaleString()}–${filters.maxPrice.toLocaleString()}`);
+  } else if (filters.maxPrice) {
+    parts.push(`up to KES ${filters.maxPrice.toLocaleString()}`);
+  } else if (filters.minPrice) {
+    parts.push(`from KES ${filters.minPrice.toLocaleString()}`);
+  }
+  if (filters.furnished !== undefined) parts.push(filters.furnished ? 'furnished' : 'unfurnished');
+  if (filters.amenities?.length) parts.push(filters.amenities.join(', '));
+  return parts.length ? parts.join(' · ') : 'All listings';
+};
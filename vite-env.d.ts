@@ -3,7 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
-  readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_AI_API_URL?: string
+  readonly VITE_PAYMENTS_API_URL?: string
 }
 
 interface ImportMeta {
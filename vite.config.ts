@@ -20,7 +20,11 @@ export default defineConfig({
   },
   server: {
     port: 5173,
-    host: true
+    host: true,
+    proxy: {
+      // AI proxy served by `npm run ai-server` (api/ai.ts on Vercel)
+      '/api': 'http://localhost:8788'
+    }
   },
   preview: {
     port: 4173,